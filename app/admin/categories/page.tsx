@@ -0,0 +1,437 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import ThemeToggle from '@/components/ThemeToggle';
+
+interface ReviewItem {
+  bill_number: string;
+  title: string;
+  session: string | null;
+  introduced_date: string | null;
+  category_id: number | null;
+  category_name: string | null;
+  secondary_categories: string[];
+  category_provider: string | null;
+  category_confidence: number | null;
+  category_low_confidence: boolean;
+  categorized_at: string | null;
+  locked: boolean;
+  locked_by: string | null;
+  locked_at: string | null;
+}
+
+interface AuditEntry {
+  id: number;
+  action: 'override' | 'unlock';
+  previous_category: string | null;
+  new_category: string | null;
+  secondary_categories: string[];
+  previous_provider: string | null;
+  previous_confidence: number | null;
+  editor: string;
+  reason: string | null;
+  created_at: string;
+}
+
+interface Draft {
+  categoryId: number | null;
+  secondaryCategoryIds: number[];
+  reason: string;
+}
+
+const PAGE_SIZE = 25;
+
+const formatDate = (dateString: string | null) => {
+  if (!dateString) return '—';
+  return new Date(dateString).toLocaleDateString('en-CA', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+const formatConfidence = (confidence: number | null) =>
+  confidence === null ? '—' : `${Math.round(confidence * 100)}%`;
+
+export default function CategoryReviewPage() {
+  const [tokenInput, setTokenInput] = useState('');
+  const [token, setToken] = useState('');
+  const [editor, setEditor] = useState('');
+  const [items, setItems] = useState<ReviewItem[]>([]);
+  const [categories, setCategories] = useState<Array<{ id: number; name: string }>>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [lowConfidenceOnly, setLowConfidenceOnly] = useState(false);
+  const [includeLocked, setIncludeLocked] = useState(false);
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [auditBill, setAuditBill] = useState<string | null>(null);
+  const [audit, setAudit] = useState<AuditEntry[]>([]);
+
+  // The token only lives for the browser session; the editor name is remembered
+  useEffect(() => {
+    try {
+      const savedToken = sessionStorage.getItem('admin-token') || '';
+      setTokenInput(savedToken);
+      setToken(savedToken);
+      setEditor(localStorage.getItem('admin-editor') || '');
+    } catch (e) {
+      // Storage not available
+    }
+  }, []);
+
+  const adminFetch = useCallback((url: string, init: RequestInit = {}) => {
+    return fetch(url, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+        ...init.headers,
+      },
+    });
+  }, [token]);
+
+  const loadQueue = useCallback(async () => {
+    if (!token) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({
+        limit: String(PAGE_SIZE),
+        offset: String(offset),
+        lowConfidence: String(lowConfidenceOnly),
+        includeLocked: String(includeLocked),
+      });
+      const response = await adminFetch(`/api/admin/categories?${params}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load review queue');
+      }
+      setItems(result.items);
+      setTotal(result.total);
+      setCategories(result.categories);
+      setDrafts({});
+    } catch (err: any) {
+      setError(err.message || 'Failed to load review queue');
+    } finally {
+      setLoading(false);
+    }
+  }, [token, offset, lowConfidenceOnly, includeLocked, adminFetch]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const getDraft = (item: ReviewItem): Draft => drafts[item.bill_number] || {
+    categoryId: item.category_id,
+    secondaryCategoryIds: categories
+      .filter((category) => item.secondary_categories.includes(category.name))
+      .map((category) => category.id),
+    reason: '',
+  };
+
+  const updateDraft = (item: ReviewItem, changes: Partial<Draft>) => {
+    setDrafts((current) => ({ ...current, [item.bill_number]: { ...getDraft(item), ...changes } }));
+  };
+
+  const saveOverride = async (item: ReviewItem) => {
+    const draft = getDraft(item);
+    if (!draft.categoryId || !editor.trim()) return;
+    setSaving(item.bill_number);
+    setError(null);
+    try {
+      const response = await adminFetch(`/api/admin/categories/${encodeURIComponent(item.bill_number)}`, {
+        method: 'PUT',
+        body: JSON.stringify({
+          categoryId: draft.categoryId,
+          secondaryCategoryIds: draft.secondaryCategoryIds,
+          editor,
+          reason: draft.reason,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save category');
+      }
+      await loadQueue();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save category');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const unlock = async (item: ReviewItem) => {
+    if (!editor.trim()) return;
+    setSaving(item.bill_number);
+    setError(null);
+    try {
+      const response = await adminFetch(`/api/admin/categories/${encodeURIComponent(item.bill_number)}`, {
+        method: 'DELETE',
+        body: JSON.stringify({ editor, reason: getDraft(item).reason }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to unlock category');
+      }
+      await loadQueue();
+    } catch (err: any) {
+      setError(err.message || 'Failed to unlock category');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const toggleAudit = async (billNumber: string) => {
+    if (auditBill === billNumber) {
+      setAuditBill(null);
+      return;
+    }
+    setAuditBill(billNumber);
+    setAudit([]);
+    try {
+      const response = await adminFetch(`/api/admin/categories/${encodeURIComponent(billNumber)}`);
+      const result = await response.json();
+      if (response.ok) {
+        setAudit(result.audit);
+      }
+    } catch (err) {
+      console.error('Error fetching category audit:', err);
+    }
+  };
+
+  const inputClass = 'px-3 py-1.5 border border-gray-300 dark:border-slate-600 rounded-full text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 bg-white dark:bg-[#0B0F14] text-gray-900 dark:text-gray-100';
+
+  return (
+    <main className="min-h-screen bg-[#f7f7f7] dark:bg-[#000000]">
+      <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-6 md:py-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div className="flex justify-between items-center mb-4">
+            <Link
+              href="/"
+              className="text-blue-600 dark:text-blue-400 hover:underline text-sm"
+            >
+              ← Back to home
+            </Link>
+            <ThemeToggle />
+          </div>
+
+          {/* Header and credentials */}
+          <div className="card">
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Category Review</h1>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              Bills ordered by categorization confidence. Saving a category locks it so automatic categorization never overwrites it.
+            </p>
+            <div className="flex flex-wrap items-center gap-2 mt-4">
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  setToken(tokenInput);
+                  setOffset(0);
+                  try { sessionStorage.setItem('admin-token', tokenInput); } catch (err) { /* ignore */ }
+                }}
+                className="flex items-center gap-2"
+              >
+                <input
+                  type="password"
+                  placeholder="Admin token"
+                  value={tokenInput}
+                  onChange={(e) => setTokenInput(e.target.value)}
+                  className={inputClass}
+                />
+                <button
+                  type="submit"
+                  className="px-4 py-1.5 rounded-full text-sm font-medium bg-blue-600 text-white hover:bg-blue-700"
+                >
+                  Load
+                </button>
+              </form>
+              <input
+                type="text"
+                placeholder="Your name (for the audit log)"
+                value={editor}
+                onChange={(e) => {
+                  setEditor(e.target.value);
+                  try { localStorage.setItem('admin-editor', e.target.value); } catch (err) { /* ignore */ }
+                }}
+                className={inputClass}
+              />
+              <label className="flex items-center gap-1.5 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={lowConfidenceOnly}
+                  onChange={(e) => { setLowConfidenceOnly(e.target.checked); setOffset(0); }}
+                />
+                Low confidence only
+              </label>
+              <label className="flex items-center gap-1.5 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={includeLocked}
+                  onChange={(e) => { setIncludeLocked(e.target.checked); setOffset(0); }}
+                />
+                Include locked
+              </label>
+            </div>
+            {error && <p className="text-sm text-red-600 dark:text-red-400 mt-3">{error}</p>}
+          </div>
+
+          {/* Queue */}
+          <div className="card">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Queue</h2>
+              <span className="text-sm text-gray-500 dark:text-gray-400">
+                {total > 0 ? `${offset + 1}–${Math.min(offset + PAGE_SIZE, total)} of ${total}` : '0 bills'}
+              </span>
+            </div>
+
+            {!token ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Enter the admin token to load the queue.</p>
+            ) : loading ? (
+              <div className="animate-pulse space-y-4">
+                <div className="h-4 bg-gray-200 dark:bg-slate-700 rounded"></div>
+                <div className="h-4 bg-gray-200 dark:bg-slate-700 rounded w-5/6"></div>
+              </div>
+            ) : items.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Nothing to review.</p>
+            ) : (
+              <div className="divide-y divide-gray-100 dark:divide-slate-700">
+                {items.map((item) => {
+                  const draft = getDraft(item);
+                  const isSaving = saving === item.bill_number;
+                  return (
+                    <div key={item.bill_number} className="py-4">
+                      <div className="flex flex-wrap items-baseline gap-2 mb-1">
+                        <Link
+                          href={`/bill/${encodeURIComponent(item.bill_number)}`}
+                          className="text-sm font-semibold text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          {item.bill_number}
+                        </Link>
+                        <span className="text-xs text-gray-500 dark:text-gray-400">
+                          {[item.session, formatDate(item.introduced_date)].filter(Boolean).join(' · ')}
+                        </span>
+                        {item.locked && (
+                          <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 dark:bg-slate-800 text-gray-700 dark:text-gray-300">
+                            Locked by {item.locked_by} · {formatDate(item.locked_at)}
+                          </span>
+                        )}
+                        {item.category_low_confidence && (
+                          <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300">
+                            Low confidence
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-900 dark:text-gray-100 mb-1">{item.title}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                        Current: {item.category_name || 'Uncategorized'}
+                        {item.secondary_categories.length > 0 && ` + ${item.secondary_categories.join(', ')}`}
+                        {' · '}{item.category_provider || 'unknown provider'}, {formatConfidence(item.category_confidence)}
+                      </p>
+
+                      <div className="flex flex-wrap items-start gap-2">
+                        <select
+                          value={draft.categoryId ?? ''}
+                          onChange={(e) => updateDraft(item, { categoryId: e.target.value ? parseInt(e.target.value, 10) : null })}
+                          className={inputClass}
+                          aria-label={`Primary category for ${item.bill_number}`}
+                        >
+                          <option value="">Primary category…</option>
+                          {categories.map((category) => (
+                            <option key={category.id} value={category.id}>{category.name}</option>
+                          ))}
+                        </select>
+                        <select
+                          multiple
+                          value={draft.secondaryCategoryIds.map(String)}
+                          onChange={(e) => updateDraft(item, {
+                            secondaryCategoryIds: Array.from(e.target.selectedOptions).map((option) => parseInt(option.value, 10)),
+                          })}
+                          className="px-3 py-1.5 border border-gray-300 dark:border-slate-600 rounded-lg text-sm bg-white dark:bg-[#0B0F14] text-gray-900 dark:text-gray-100 h-20"
+                          aria-label={`Secondary categories for ${item.bill_number}`}
+                        >
+                          {categories
+                            .filter((category) => category.id !== draft.categoryId)
+                            .map((category) => (
+                              <option key={category.id} value={category.id}>{category.name}</option>
+                            ))}
+                        </select>
+                        <input
+                          type="text"
+                          placeholder="Reason"
+                          value={draft.reason}
+                          onChange={(e) => updateDraft(item, { reason: e.target.value })}
+                          className={`${inputClass} flex-1 min-w-[160px]`}
+                        />
+                        <button
+                          onClick={() => saveOverride(item)}
+                          disabled={isSaving || !draft.categoryId || !editor.trim()}
+                          className="px-4 py-1.5 rounded-full text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {isSaving ? 'Saving…' : 'Save & lock'}
+                        </button>
+                        {item.locked && (
+                          <button
+                            onClick={() => unlock(item)}
+                            disabled={isSaving || !editor.trim()}
+                            className="px-4 py-1.5 rounded-full text-sm font-medium border border-gray-300 dark:border-slate-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Unlock
+                          </button>
+                        )}
+                        <button
+                          onClick={() => toggleAudit(item.bill_number)}
+                          className="px-2 py-1.5 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          {auditBill === item.bill_number ? 'Hide history' : 'History'}
+                        </button>
+                      </div>
+
+                      {auditBill === item.bill_number && (
+                        <div className="mt-3 pl-3 border-l-2 border-gray-200 dark:border-slate-700 space-y-1">
+                          {audit.length === 0 ? (
+                            <p className="text-xs text-gray-500 dark:text-gray-400">No manual changes.</p>
+                          ) : audit.map((entry) => (
+                            <p key={entry.id} className="text-xs text-gray-600 dark:text-gray-400">
+                              {formatDate(entry.created_at)} · {entry.editor}:{' '}
+                              {entry.action === 'unlock'
+                                ? `unlocked ${entry.previous_category || 'category'}`
+                                : `${entry.previous_category || 'Uncategorized'}${entry.previous_provider ? ` (${entry.previous_provider}, ${formatConfidence(entry.previous_confidence)})` : ''} → ${entry.new_category}${entry.secondary_categories.length > 0 ? ` + ${entry.secondary_categories.join(', ')}` : ''}`}
+                              {entry.reason && ` — ${entry.reason}`}
+                            </p>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {total > PAGE_SIZE && (
+              <div className="flex justify-between mt-4">
+                <button
+                  onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+                  disabled={offset === 0}
+                  className="text-sm text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50 disabled:no-underline"
+                >
+                  ← Previous
+                </button>
+                <button
+                  onClick={() => setOffset(offset + PAGE_SIZE)}
+                  disabled={offset + PAGE_SIZE >= total}
+                  className="text-sm text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50 disabled:no-underline"
+                >
+                  Next →
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
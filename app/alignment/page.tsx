@@ -0,0 +1,395 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import SearchForm from '@/components/SearchForm';
+import ThemeToggle from '@/components/ThemeToggle';
+import { getPartyColors } from '@/lib/utils/party-colors';
+import { getDivisionPath } from '@/lib/utils/divisions';
+import type { MP } from '@/types';
+
+type Answer = 'agree' | 'disagree' | 'skip';
+
+interface Question {
+  id: number;
+  vote_id: string;
+  bill_number: string | null;
+  bill_title: string | null;
+  question: string;
+  explanation: string | null;
+  motion_title: string | null;
+  date: string | null;
+}
+
+interface Score {
+  compared: number;
+  agreed: number;
+  agreement_percentage: number | null;
+}
+
+interface MPScore extends Score {
+  mp_id: number;
+  name: string;
+  party_name: string | null;
+  district_name: string;
+  rank: number | null;
+}
+
+interface AlignmentResult {
+  answered: number;
+  closest_mps: MPScore[];
+  parties: Array<Score & { party: string }>;
+  your_mp: MPScore | null;
+  ranked_mps: number;
+}
+
+// Answers never leave the browser except to be scored
+const ANSWERS_KEY = 'alignment-answers';
+const DISTRICT_KEY = 'alignment-district';
+
+const formatDate = (dateString: string | null) => {
+  if (!dateString) return null;
+  return new Date(dateString).toLocaleDateString('en-CA', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+const formatAgreement = (score: Score) =>
+  score.agreement_percentage === null ? '—' : `${Math.round(score.agreement_percentage)}%`;
+
+export default function AlignmentPage() {
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [answers, setAnswers] = useState<Record<number, Answer>>({});
+  const [district, setDistrict] = useState<string | null>(null);
+  const [result, setResult] = useState<AlignmentResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [scoring, setScoring] = useState(false);
+  const [findingMP, setFindingMP] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    try {
+      setAnswers(JSON.parse(localStorage.getItem(ANSWERS_KEY) || '{}'));
+      setDistrict(localStorage.getItem(DISTRICT_KEY));
+    } catch (e) {
+      // Storage not available or corrupt - start fresh
+    }
+
+    async function fetchQuestions() {
+      try {
+        const response = await fetch('/api/alignment');
+        if (!response.ok) {
+          throw new Error('Failed to load questions');
+        }
+        const data = await response.json();
+        setQuestions(data.questions);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'An error occurred');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchQuestions();
+  }, []);
+
+  const setAnswer = (questionId: number, answer: Answer) => {
+    const next = { ...answers, [questionId]: answer };
+    setAnswers(next);
+    setResult(null);
+    try {
+      localStorage.setItem(ANSWERS_KEY, JSON.stringify(next));
+    } catch (e) {
+      // Ignore localStorage errors
+    }
+  };
+
+  const saveDistrict = (value: string | null) => {
+    setDistrict(value);
+    setResult(null);
+    try {
+      if (value) localStorage.setItem(DISTRICT_KEY, value);
+      else localStorage.removeItem(DISTRICT_KEY);
+    } catch (e) {
+      // Ignore localStorage errors
+    }
+  };
+
+  const handleFindMP = async (query: string, searchType: 'postal_code' | 'name' | 'riding') => {
+    setFindingMP(true);
+    setError(null);
+    try {
+      const searchParam = searchType === 'postal_code' ? 'postalCode' : searchType === 'riding' ? 'riding' : 'name';
+      const response = await fetch(`/api/mp/search?${searchParam}=${encodeURIComponent(query)}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to find MP');
+      }
+      const mp: MP = data.results && Array.isArray(data.results) ? data.results[0] : data;
+      saveDistrict(mp?.district_name || null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setFindingMP(false);
+    }
+  };
+
+  const handleScore = async () => {
+    setScoring(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/alignment', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ answers, district }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to score answers');
+      }
+      setResult(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setScoring(false);
+    }
+  };
+
+  const answeredCount = questions.filter((q) => answers[q.id] === 'agree' || answers[q.id] === 'disagree').length;
+
+  if (loading) {
+    return (
+      <main className="min-h-screen bg-[#f7f7f7] dark:bg-[#000000]">
+        <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-6 md:py-8">
+          <div className="max-w-4xl mx-auto">
+            <div className="flex justify-end mb-4">
+              <ThemeToggle />
+            </div>
+            <div className="card">
+              <div className="animate-pulse">
+                <div className="h-8 bg-gray-200 dark:bg-slate-700 rounded w-1/3 mb-4"></div>
+                <div className="h-6 bg-gray-200 dark:bg-slate-700 rounded w-2/3 mb-8"></div>
+                <div className="space-y-4">
+                  <div className="h-4 bg-gray-200 dark:bg-slate-700 rounded"></div>
+                  <div className="h-4 bg-gray-200 dark:bg-slate-700 rounded w-5/6"></div>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen bg-[#f7f7f7] dark:bg-[#000000]">
+      <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-6 md:py-8">
+        <div className="max-w-4xl mx-auto space-y-6">
+          <div className="flex justify-between items-center mb-4">
+            <Link
+              href="/"
+              className="text-blue-600 dark:text-blue-400 hover:underline text-sm"
+            >
+              ← Back to home
+            </Link>
+            <ThemeToggle />
+          </div>
+
+          {/* Header */}
+          <div className="card">
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">How do you line up?</h1>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              Each statement is based on a real vote in the House of Commons. Answer the ones you have a view on,
+              and we&apos;ll compare you with how every MP and party actually voted. Your answers stay in this browser.
+            </p>
+            {error && <p className="text-sm text-red-600 dark:text-red-400 mt-3">{error}</p>}
+          </div>
+
+          {/* Questions */}
+          <div className="card">
+            {questions.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400 italic">No quiz questions are available yet.</p>
+            ) : (
+              <div className="divide-y divide-gray-100 dark:divide-slate-700">
+                {questions.map((question, index) => {
+                  const divisionPath = getDivisionPath(question.vote_id);
+                  return (
+                    <div key={question.id} className="py-5 first:pt-0 last:pb-0">
+                      <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+                        {index + 1} of {questions.length}
+                      </p>
+                      <p className="text-base font-semibold text-gray-900 dark:text-gray-100 mb-1">{question.question}</p>
+                      {question.explanation && (
+                        <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">{question.explanation}</p>
+                      )}
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                        Based on{' '}
+                        {divisionPath ? (
+                          <Link href={divisionPath} className="text-blue-600 dark:text-blue-400 hover:underline">
+                            {question.motion_title || `the vote on ${question.bill_number}`}
+                          </Link>
+                        ) : (
+                          question.motion_title || `the vote on ${question.bill_number}`
+                        )}
+                        {formatDate(question.date) && ` · ${formatDate(question.date)}`}
+                      </p>
+                      <div className="flex flex-wrap gap-2">
+                        {(['agree', 'disagree', 'skip'] as Answer[]).map((answer) => {
+                          const selected = answers[question.id] === answer;
+                          const selectedClass = answer === 'agree'
+                            ? 'bg-green-600 text-white border-green-600'
+                            : answer === 'disagree'
+                            ? 'bg-red-600 text-white border-red-600'
+                            : 'bg-gray-600 text-white border-gray-600';
+                          return (
+                            <button
+                              key={answer}
+                              onClick={() => setAnswer(question.id, answer)}
+                              className={`px-4 py-1.5 rounded-full text-sm font-medium border transition-colors ${
+                                selected
+                                  ? selectedClass
+                                  : 'border-gray-300 dark:border-slate-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-slate-800'
+                              }`}
+                            >
+                              {answer === 'agree' ? 'Agree' : answer === 'disagree' ? 'Disagree' : 'Skip'}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {/* Your MP and scoring */}
+          {questions.length > 0 && (
+            <div className="card">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Your MP</h2>
+              {district ? (
+                <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+                  Comparing with the MP for <span className="font-medium text-gray-900 dark:text-gray-100">{district}</span>.{' '}
+                  <button onClick={() => saveDistrict(null)} className="text-blue-600 dark:text-blue-400 hover:underline">
+                    Change
+                  </button>
+                </p>
+              ) : (
+                <div className="mb-4">
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">
+                    Optional: enter your postal code to see how your own MP compares.
+                  </p>
+                  <SearchForm onSearch={handleFindMP} loading={findingMP} />
+                </div>
+              )}
+              <button
+                onClick={handleScore}
+                disabled={scoring || answeredCount === 0}
+                className="px-5 py-2 rounded-full text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {scoring ? 'Comparing…' : `See results (${answeredCount} answered)`}
+              </button>
+            </div>
+          )}
+
+          {/* Results */}
+          {result && (
+            <>
+              {result.your_mp && (
+                <div className="card">
+                  <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Your MP</h2>
+                  {(() => {
+                    const mp = result.your_mp;
+                    const colors = getPartyColors(mp.party_name);
+                    return (
+                      <Link
+                        href={`/mp/${encodeURIComponent(mp.district_name)}`}
+                        className="flex items-center gap-3 p-2 -mx-2 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-800/50 transition-colors"
+                      >
+                        <div className="w-1 self-stretch rounded-full flex-shrink-0" style={{ backgroundColor: colors.primary }} />
+                        <div className="flex-1 min-w-0">
+                          <p className="text-base font-semibold text-gray-900 dark:text-white truncate">{mp.name}</p>
+                          <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                            {mp.party_name || 'Independent'} · {mp.district_name}
+                          </p>
+                        </div>
+                        <div className="text-right">
+                          <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatAgreement(mp)}</p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            {mp.rank
+                              ? `#${mp.rank} of ${result.ranked_mps} MPs`
+                              : `voted on ${mp.compared} of ${result.answered}`}
+                          </p>
+                        </div>
+                      </Link>
+                    );
+                  })()}
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="card">
+                  <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Parties</h2>
+                  {result.parties.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400 italic">No party positions recorded for these votes.</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {result.parties.map((party) => {
+                        const colors = getPartyColors(party.party);
+                        return (
+                          <div key={party.party}>
+                            <div className="flex justify-between items-baseline mb-1">
+                              <span className="text-xs font-medium text-gray-800 dark:text-white">{party.party}</span>
+                              <span className="text-sm font-semibold text-gray-800 dark:text-gray-100">{formatAgreement(party)}</span>
+                            </div>
+                            <div className="h-2 rounded-full bg-gray-100 dark:bg-slate-800 overflow-hidden">
+                              <div
+                                className="h-full rounded-full"
+                                style={{ width: `${party.agreement_percentage ?? 0}%`, backgroundColor: colors.primary }}
+                              />
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+
+                <div className="card">
+                  <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Closest MPs</h2>
+                  {result.closest_mps.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400 italic">No MPs voted on enough of these questions.</p>
+                  ) : (
+                    <ol className="space-y-1">
+                      {result.closest_mps.map((mp) => {
+                        const colors = getPartyColors(mp.party_name);
+                        return (
+                          <li key={mp.mp_id}>
+                            <Link
+                              href={`/mp/${encodeURIComponent(mp.district_name)}`}
+                              className="flex items-center gap-3 p-2 -mx-2 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-800/50 transition-colors"
+                            >
+                              <span className="w-6 text-xs text-gray-500 dark:text-gray-400">{mp.rank}</span>
+                              <div className="w-1 self-stretch rounded-full flex-shrink-0" style={{ backgroundColor: colors.primary }} />
+                              <div className="flex-1 min-w-0">
+                                <p className="text-sm font-semibold text-gray-900 dark:text-white truncate">{mp.name}</p>
+                                <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{mp.district_name}</p>
+                              </div>
+                              <span className="text-sm font-semibold text-gray-800 dark:text-gray-100">{formatAgreement(mp)}</span>
+                            </Link>
+                          </li>
+                        );
+                      })}
+                    </ol>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCategoryAudit, getUnknownCategoryIds, overrideBillCategory, unlockBillCategory } from '@/lib/db/category-review';
+import { requireAdmin } from '@/lib/utils/admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { billNumber: string } }
+) {
+  const unauthorized = requireAdmin(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  try {
+    const audit = await getCategoryAudit(decodeURIComponent(params.billNumber));
+    return NextResponse.json({ audit });
+  } catch (error) {
+    console.error('Error fetching category audit:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch category audit' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Set a bill's category by hand and lock it.
+ * Body: { categoryId, secondaryCategoryIds?, editor, reason? }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { billNumber: string } }
+) {
+  const unauthorized = requireAdmin(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const body = await request.json().catch(() => null);
+  const categoryId = Number(body?.categoryId);
+  const secondaryCategoryIds: unknown[] = Array.isArray(body?.secondaryCategoryIds) ? body.secondaryCategoryIds : [];
+  const editor = typeof body?.editor === 'string' ? body.editor.trim() : '';
+
+  if (!Number.isInteger(categoryId) || categoryId <= 0
+    || !secondaryCategoryIds.every((id) => Number.isInteger(id) && (id as number) > 0)) {
+    return NextResponse.json(
+      { error: 'categoryId and secondaryCategoryIds must be category ids' },
+      { status: 400 }
+    );
+  }
+  if (!editor) {
+    return NextResponse.json(
+      { error: 'editor is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const unknownIds = await getUnknownCategoryIds([categoryId, ...(secondaryCategoryIds as number[])]);
+    if (unknownIds.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown category ids: ${unknownIds.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const updated = await overrideBillCategory({
+      billNumber: decodeURIComponent(params.billNumber),
+      categoryId,
+      secondaryCategoryIds: secondaryCategoryIds as number[],
+      editor,
+      reason: typeof body?.reason === 'string' ? body.reason.trim() || null : null,
+    });
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Bill not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error overriding bill category:', error);
+    return NextResponse.json(
+      { error: 'Failed to override bill category' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Remove the lock so the categorizers may update the bill again.
+ * Body: { editor, reason? }
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { billNumber: string } }
+) {
+  const unauthorized = requireAdmin(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const body = await request.json().catch(() => null);
+  const editor = typeof body?.editor === 'string' ? body.editor.trim() : '';
+  if (!editor) {
+    return NextResponse.json(
+      { error: 'editor is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const unlocked = await unlockBillCategory(
+      decodeURIComponent(params.billNumber),
+      editor,
+      typeof body?.reason === 'string' ? body.reason.trim() || null : null
+    );
+
+    if (!unlocked) {
+      return NextResponse.json(
+        { error: 'Bill category is not locked' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error unlocking bill category:', error);
+    return NextResponse.json(
+      { error: 'Failed to unlock bill category' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCategoryReviewQueue, getPolicyCategories } from '@/lib/db/category-review';
+import { requireAdmin } from '@/lib/utils/admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const unauthorized = requireAdmin(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), 200);
+  const offset = Math.max(parseInt(searchParams.get('offset') || '0', 10) || 0, 0);
+
+  try {
+    const [queue, categories] = await Promise.all([
+      getCategoryReviewQueue({
+        lowConfidenceOnly: searchParams.get('lowConfidence') === 'true',
+        includeLocked: searchParams.get('includeLocked') === 'true',
+        limit,
+        offset,
+      }),
+      getPolicyCategories(),
+    ]);
+
+    return NextResponse.json({ ...queue, limit, offset, categories });
+  } catch (error) {
+    console.error('Error fetching category review queue:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch category review queue' },
+      { status: 500 }
+    );
+  }
+}
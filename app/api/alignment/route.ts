@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAlignmentQuestions, scoreAlignment } from '@/lib/db/alignment';
+import type { AlignmentAnswer } from '@/lib/db/alignment';
+
+const ANSWERS: AlignmentAnswer[] = ['agree', 'disagree', 'skip'];
+
+export async function GET() {
+  try {
+    const questions = await getAlignmentQuestions();
+    return NextResponse.json({ questions });
+  } catch (error) {
+    console.error('Error fetching alignment questions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch alignment questions' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Score quiz answers against every MP and party.
+ * Body: { answers: { [questionId]: 'agree' | 'disagree' | 'skip' }, district? }
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const rawAnswers = body?.answers;
+
+  if (!rawAnswers || typeof rawAnswers !== 'object' || Array.isArray(rawAnswers)) {
+    return NextResponse.json(
+      { error: 'answers must map question ids to agree, disagree or skip' },
+      { status: 400 }
+    );
+  }
+
+  const answers: Record<number, AlignmentAnswer> = {};
+  for (const [questionId, answer] of Object.entries(rawAnswers)) {
+    const id = parseInt(questionId, 10);
+    if (isNaN(id) || !ANSWERS.includes(answer as AlignmentAnswer)) {
+      return NextResponse.json(
+        { error: 'answers must map question ids to agree, disagree or skip' },
+        { status: 400 }
+      );
+    }
+    answers[id] = answer as AlignmentAnswer;
+  }
+
+  try {
+    const result = await scoreAlignment(answers, typeof body.district === 'string' ? body.district : null);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error scoring alignment:', error);
+    return NextResponse.json(
+      { error: 'Failed to score alignment' },
+      { status: 500 }
+    );
+  }
+}
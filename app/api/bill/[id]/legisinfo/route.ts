@@ -1,50 +1,36 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getBillLegisinfo } from '@/lib/db/bill-stages';
 
+export const dynamic = 'force-dynamic';
+
+/**
+ * LEGISinfo record for a bill, served from the copy stored by the bill-stages sync step.
+ * The response is the LEGISinfo bill JSON plus the parsed `stages` timeline.
+ * `session` (e.g. "45-1") is optional and defaults to the bill's latest session.
+ */
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
     const billNumber = decodeURIComponent(params.id);
-    
-    // Extract session from bill number if available, or use default
-    // Bill numbers like "C-15" need session info - we'll try to get it from the bill first
-    // For now, we'll construct the URL and let it fail gracefully if session is missing
     const session = request.nextUrl.searchParams.get('session');
-    
-    if (!session) {
+
+    const record = await getBillLegisinfo(billNumber, session);
+
+    if (!record) {
       return NextResponse.json(
-        { error: 'Session parameter required' },
-        { status: 400 }
+        { error: 'LEGISinfo data not synced for this bill' },
+        { status: 404 }
       );
     }
-    
-    // Construct LEGISinfo JSON URL
-    // Format: https://www.parl.ca/legisinfo/en/bill/{session}/{bill_number}/json
-    const billUrl = `https://www.parl.ca/legisinfo/en/bill/${session}/${billNumber.toLowerCase()}/json`;
-    
-    const response = await fetch(billUrl, {
-      headers: {
-        'Accept': 'application/json',
-      },
+
+    return NextResponse.json({
+      ...record.data,
+      session: record.session,
+      stages: record.stages,
+      fetched_at: record.fetched_at,
     });
-    
-    if (!response.ok) {
-      if (response.status === 404) {
-        return NextResponse.json(
-          { error: 'Bill not found on LEGISinfo' },
-          { status: 404 }
-        );
-      }
-      throw new Error(`LEGISinfo API returned ${response.status}`);
-    }
-    
-    const data = await response.json();
-    
-    // The API returns an array, get the first item
-    const billData = Array.isArray(data) ? data[0] : data;
-    
-    return NextResponse.json(billData);
   } catch (error) {
     console.error('Error fetching LEGISinfo data:', error);
     return NextResponse.json(
@@ -53,5 +39,3 @@ export async function GET(
     );
   }
 }
-
-
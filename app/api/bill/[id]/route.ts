@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getBillWithMPVotes } from '@/lib/db/queries';
+import { getSenateDivisionsForBill } from '@/lib/db/senate';
 
 export async function GET(
   request: NextRequest,
@@ -20,7 +21,9 @@ export async function GET(
     // Log for debugging
     console.log(`[Bill API] Bill ${billNumber}: Found ${result.mpVotes.length} MP votes`);
     
-    return NextResponse.json(result);
+    const senateDivisions = await getSenateDivisionsForBill(billNumber, result.bill.session);
+
+    return NextResponse.json({ ...result, senateDivisions });
   } catch (error) {
     console.error('Error fetching bill data:', error);
     return NextResponse.json(
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBillTextVersions, compareBillTexts } from '@/lib/db/bill-texts';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Text versions of a bill. With `from` and `to` version numbers, also returns the
+ * clause-level diff between them. `session` is optional, as for /legisinfo.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const billNumber = decodeURIComponent(params.id);
+    const searchParams = request.nextUrl.searchParams;
+    const session = searchParams.get('session');
+    const fromParam = searchParams.get('from');
+    const toParam = searchParams.get('to');
+
+    const versions = await getBillTextVersions(billNumber, session);
+
+    if (!fromParam && !toParam) {
+      return NextResponse.json({ versions });
+    }
+
+    const from = parseInt(fromParam || '', 10);
+    const to = parseInt(toParam || '', 10);
+    if (isNaN(from) || isNaN(to)) {
+      return NextResponse.json(
+        { error: 'Both from and to must be version numbers' },
+        { status: 400 }
+      );
+    }
+
+    const comparison = await compareBillTexts(billNumber, from, to, session);
+    if (!comparison) {
+      return NextResponse.json(
+        { error: 'Bill text version not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ versions, ...comparison });
+  } catch (error) {
+    console.error('Error fetching bill texts:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch bill texts' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMPByDistrict } from '@/lib/db/queries';
+import { compareMPs } from '@/lib/db/compare';
+import type { MP } from '@/types';
+
+const MIN_MPS = 2;
+const MAX_MPS = 4;
+
+/**
+ * Compare 2-4 MPs: /api/compare?mps=a,b,c
+ * Each identifier is anything getMPByDistrict accepts (district name, district id or MP name)
+ */
+export async function GET(request: NextRequest) {
+  const identifiers = (request.nextUrl.searchParams.get('mps') || '')
+    .split(',')
+    .map((identifier) => identifier.trim())
+    .filter(Boolean);
+
+  if (identifiers.length < MIN_MPS || identifiers.length > MAX_MPS) {
+    return NextResponse.json(
+      { error: `Provide ${MIN_MPS} to ${MAX_MPS} MPs, e.g. ?mps=Ottawa Centre,Ottawa South` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const mps: MP[] = [];
+    const notFound: string[] = [];
+
+    for (const identifier of identifiers) {
+      const mp = await getMPByDistrict(identifier);
+      if (!mp || !mp.id) {
+        notFound.push(identifier);
+      } else if (!mps.some((existing) => existing.id === mp.id)) {
+        mps.push(mp);
+      }
+    }
+
+    if (notFound.length > 0) {
+      return NextResponse.json(
+        { error: 'MP not found', notFound },
+        { status: 404 }
+      );
+    }
+
+    if (mps.length < MIN_MPS) {
+      return NextResponse.json(
+        { error: `Provide ${MIN_MPS} to ${MAX_MPS} different MPs` },
+        { status: 400 }
+      );
+    }
+
+    const comparison = await compareMPs(mps);
+    return NextResponse.json(comparison);
+  } catch (error) {
+    console.error('Error comparing MPs:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare MPs' },
+      { status: 500 }
+    );
+  }
+}
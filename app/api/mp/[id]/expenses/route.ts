@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getMPByDistrict } from '@/lib/db/queries';
 import { queryOne, queryAll, convertPlaceholders } from '@/lib/db/database';
+import { getMPExpenseQuarters } from '@/lib/db/expenses';
+import { getMPExpenseBenchmarks } from '@/lib/db/expense-benchmarks';
 
 export async function GET(
   request: NextRequest,
@@ -52,6 +54,12 @@ export async function GET(
       quarter: string;
     }>(quartersSql, [mp.id]);
 
+    // Per-quarter series in fiscal order, with quarter-over-quarter change
+    const quarters = await getMPExpenseQuarters(mp.id);
+
+    // Percentiles for the latest fiscal year against all MPs, party, province and riding size
+    const benchmarks = await getMPExpenseBenchmarks(mp.id);
+
     if (!expenses) {
       return NextResponse.json({
         total_staff_salaries: 0,
@@ -59,12 +67,16 @@ export async function GET(
         total_hospitality: 0,
         total_contracts: 0,
         processedQuarters: [],
+        quarters: [],
+        benchmarks: null,
       });
     }
 
     return NextResponse.json({
       ...expenses,
       processedQuarters,
+      quarters,
+      benchmarks,
     });
   } catch (error) {
     console.error('Error fetching MP expenses:', error);
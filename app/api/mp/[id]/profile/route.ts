@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getMPByDistrict } from '@/lib/db/queries';
+import { getMPMemberships, getMembershipEvents } from '@/lib/db/memberships';
 
 export async function GET(
   request: NextRequest,
@@ -22,7 +23,11 @@ export async function GET(
     }
 
     // Return only the MP profile data (fast, from database)
-    return NextResponse.json({ mp });
+    const [memberships, events] = mp.id
+      ? await Promise.all([getMPMemberships(mp.id), getMembershipEvents(mp.id)])
+      : [[], []];
+
+    return NextResponse.json({ mp, partyHistory: { memberships, events } });
   } catch (error) {
     console.error('Error fetching MP profile:', error);
     return NextResponse.json(
@@ -4,7 +4,8 @@ import { getPartyLoyaltyStats, getMPMotions } from '@/lib/api/commons';
 import { getCachedPartyLoyaltyStats, cachePartyLoyaltyStats } from '@/lib/api/openparliament-cache';
 import { queryOne, convertPlaceholders } from '@/lib/db/database';
 import { getCurrentSessionStartDate } from '@/lib/db/sessions';
-import type { Vote, VotingRecord, MotionBreakdown } from '@/types';
+import { getMajorityLoyaltyStats, getCategoryVotingProfile } from '@/lib/db/party-positions';
+import type { Vote, VotingRecord, MotionBreakdown, PartyLoyaltyStats, CategoryVotingProfile } from '@/types';
 
 export async function GET(
   request: NextRequest,
@@ -172,11 +173,11 @@ export async function GET(
       }
 
       if (billNumbers.length > 0) {
-      const { getBillCategoryNames } = await import('@/lib/db/get-bill-category');
+      const { getBillCategoryLists } = await import('@/lib/db/get-bill-category');
       const { ensureBillHasCategory } = await import('@/lib/db/categorize-bills');
       
       // First, try to get existing categories from database
-      let categoryMap = await getBillCategoryNames(billNumbers);
+      let categoryMap = await getBillCategoryLists(billNumbers);
       console.log(`[MP Stats] Found ${categoryMap.size} existing categories out of ${billNumbers.length} bills for ${mp.name}`);
 
       // Process votes to ensure categories exist for bills without them
@@ -199,10 +200,10 @@ export async function GET(
             // motion_title contains the full bill description which is better for categorization
             const titleForCategorization = vote.motion_title || vote.bill_title || billNumber;
             console.log(`[MP Stats] Categorizing ${billNumber} with title: "${titleForCategorization.substring(0, 100)}..."`);
-            const category = await ensureBillHasCategory(billNumber, titleForCategorization);
-            if (category) {
-              console.log(`[MP Stats] Categorized ${billNumber} as "${category}" for ${mp.name}`);
-              return { billNumber, category };
+            const categories = await ensureBillHasCategory(billNumber, titleForCategorization);
+            if (categories.length > 0) {
+              console.log(`[MP Stats] Categorized ${billNumber} as "${categories.join('", "')}" for ${mp.name}`);
+              return { billNumber, categories };
             }
             return null;
           } catch (error) {
@@ -215,25 +216,26 @@ export async function GET(
         const results = await Promise.all(categoryPromises);
         results.forEach(result => {
           if (result) {
-            categoryMap.set(result.billNumber, result.category);
+            categoryMap.set(result.billNumber, result.categories);
           }
         });
       }
 
       // Re-fetch categories from database to get any newly categorized bills
-      const updatedCategoryMap = await getBillCategoryNames(billNumbers);
+      const updatedCategoryMap = await getBillCategoryLists(billNumbers);
       // Merge with any categories we just ensured
-      updatedCategoryMap.forEach((cat, billNum) => categoryMap.set(billNum, cat));
+      updatedCategoryMap.forEach((cats, billNum) => categoryMap.set(billNum, cats));
 
       console.log(`[MP Stats] Final category map has ${categoryMap.size} categories for ${mp.name}`);
 
-      // Add categories to all votes using extracted bill numbers
+      // Add categories to all votes using extracted bill numbers (category is the primary one)
       votingRecord.votes = votingRecord.votes.map(vote => {
         const billNum = extractBillNumber(vote);
-        const category = billNum ? categoryMap.get(billNum) : undefined;
+        const categories = billNum ? categoryMap.get(billNum) : undefined;
         return {
           ...vote,
-          category,
+          category: categories?.[0],
+          categories,
         };
       });
       
@@ -314,6 +316,32 @@ export async function GET(
       }
     }
 
+    // Same session window, measured against the caucus majority on every division (party_positions)
+    let majorityLoyalty: PartyLoyaltyStats | null = null;
+    if (dbMP) {
+      try {
+        majorityLoyalty = await getMajorityLoyaltyStats(
+          dbMP.id,
+          mpIdentifier,
+          mp.name,
+          mp.party_name || 'Unknown',
+          currentSessionStartDate
+        );
+      } catch (error) {
+        console.error(`Error calculating party-majority loyalty for ${mp.name}:`, error);
+      }
+    }
+
+    // Same session window, split by the policy category of each bill
+    let categoryProfile: CategoryVotingProfile[] = [];
+    if (dbMP) {
+      try {
+        categoryProfile = await getCategoryVotingProfile(dbMP.id, mp.party_name || 'Unknown', currentSessionStartDate);
+      } catch (error) {
+        console.error(`Error calculating category voting profile for ${mp.name}:`, error);
+      }
+    }
+
     // Validate that all votes are categorized
     const categorizedVotes = partyLoyalty.votes_with_party + 
                              partyLoyalty.votes_against_party + 
@@ -339,6 +367,8 @@ export async function GET(
     return NextResponse.json({
       votingRecord,
       partyLoyalty,
+      majorityLoyalty,
+      categoryProfile,
       motions,
       dataValid: isValid,
     });
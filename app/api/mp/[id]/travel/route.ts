@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getMPByDistrict } from '@/lib/db/queries';
+import { getMPTravel } from '@/lib/db/expenses';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // getMPByDistrict handles district_name, district_id, and name lookups
+    const mp = await getMPByDistrict(decodeURIComponent(params.id));
+
+    if (!mp || !mp.id) {
+      return NextResponse.json(
+        { error: 'MP not found' },
+        { status: 404 }
+      );
+    }
+
+    const travel = await getMPTravel(mp.id);
+
+    return NextResponse.json(travel);
+  } catch (error) {
+    console.error('Error fetching MP travel:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch MP travel' },
+      { status: 500 }
+    );
+  }
+}
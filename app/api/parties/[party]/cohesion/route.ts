@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPartyCohesion } from '@/lib/db/party-cohesion';
+import { getPartyFromParam } from '@/lib/utils/parties';
+
+/**
+ * Rice / Agreement cohesion for one party, overall and per session, policy category and division.
+ * Optional ?session=45-1 restricts the overall, category and division figures to one session.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { party: string } }
+) {
+  const party = getPartyFromParam(params.party);
+
+  if (!party) {
+    return NextResponse.json(
+      { error: 'Party not found' },
+      { status: 404 }
+    );
+  }
+
+  const session = request.nextUrl.searchParams.get('session');
+  if (session && !/^\d+-\d+$/.test(session)) {
+    return NextResponse.json(
+      { error: 'session must look like 45-1' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const cohesion = await getPartyCohesion(party, { session });
+    return NextResponse.json(cohesion);
+  } catch (error) {
+    console.error('Error fetching party cohesion:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch party cohesion' },
+      { status: 500 }
+    );
+  }
+}
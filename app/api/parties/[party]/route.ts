@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPartyProfile } from '@/lib/db/parties';
+import { getPartyFromParam } from '@/lib/utils/parties';
+
+// The segment is [party] (not [slug]) because it shares the path with /cohesion;
+// it accepts the party slug (e.g. bloc-quebecois) or any party name variation
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { party: string } }
+) {
+  const party = getPartyFromParam(params.party);
+
+  if (!party) {
+    return NextResponse.json(
+      { error: 'Party not found' },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const profile = await getPartyProfile(party);
+    return NextResponse.json(profile);
+  } catch (error) {
+    console.error('Error fetching party profile:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch party profile' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRiding, getRidingProfile } from '@/lib/db/ridings';
+
+// Accepts the riding slug (e.g. ottawa-centre), its Elections Canada FED code or its name
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const riding = await getRiding(decodeURIComponent(params.id));
+
+    if (!riding) {
+      return NextResponse.json(
+        { error: 'Riding not found' },
+        { status: 404 }
+      );
+    }
+
+    const profile = await getRidingProfile(riding);
+    return NextResponse.json(profile);
+  } catch (error) {
+    console.error('Error fetching riding:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch riding' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSenator, getSenatorVotes, getSenatorVoteSummary } from '@/lib/db/senate';
+
+export const dynamic = 'force-dynamic';
+
+// Accepts the senator's sencanada.ca slug (e.g. smith-larry) or database id
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const senator = await getSenator(decodeURIComponent(params.id));
+
+    if (!senator) {
+      return NextResponse.json(
+        { error: 'Senator not found' },
+        { status: 404 }
+      );
+    }
+
+    const [votes, voteSummary] = await Promise.all([
+      getSenatorVotes(senator.id),
+      getSenatorVoteSummary(senator.id),
+    ]);
+
+    return NextResponse.json({ senator, voteSummary, votes });
+  } catch (error) {
+    console.error('Error fetching senator:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch senator' },
+      { status: 500 }
+    );
+  }
+}
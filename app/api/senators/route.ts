@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSenators } from '@/lib/db/senate';
+
+export const dynamic = 'force-dynamic';
+
+// Sitting senators; ?all=true also returns former senators known from past ballots
+export async function GET(request: NextRequest) {
+  try {
+    const includeInactive = request.nextUrl.searchParams.get('all') === 'true';
+    const senators = await getSenators(includeInactive);
+    return NextResponse.json({ senators });
+  } catch (error) {
+    console.error('Error fetching senators:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch senators' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server';
 import { queryAll, queryOne, convertPlaceholders } from '@/lib/db/database';
 import { getCurrentSessionStartDate, getCurrentSession } from '@/lib/db/sessions';
+import { getCohesionByParty } from '@/lib/db/party-cohesion';
+import { getRecentPartySwitches } from '@/lib/db/memberships';
 
 export async function GET() {
   try {
@@ -114,7 +116,8 @@ export async function GET() {
     // Filter bills by introduced_date >= session start date to get only current session bills
     // Cast introduced_date to DATE for proper date comparison (it's stored as TEXT)
     // Use DISTINCT to count only unique bills (by bill_number)
-    // Break down "in progress" into "at_house" and "at_senate" based on status_code
+    // Break down "in progress" into "at_house" and "at_senate" by the chamber of the bill's latest
+    // LEGISinfo stage (bill_stages), falling back to status_code for bills without synced stages
     const billStatsSql = convertPlaceholders(`
       SELECT 
         COUNT(DISTINCT bill_number) as total_bills,
@@ -127,20 +130,29 @@ export async function GET() {
         COUNT(DISTINCT bill_number) FILTER (WHERE 
           (status_code IS NULL OR (status_code != 'RoyalAssentGiven' AND status_code != 'OutsideOrderPrecedence')) AND 
           (law IS NULL OR law != true) AND
-          (status_code LIKE 'House%' OR status_code LIKE '%House%')
+          (latest_stage.chamber = 'House' OR
+           (latest_stage.chamber IS NULL AND (status_code LIKE 'House%' OR status_code LIKE '%House%')))
         ) as at_house,
         COUNT(DISTINCT bill_number) FILTER (WHERE 
           (status_code IS NULL OR (status_code != 'RoyalAssentGiven' AND status_code != 'OutsideOrderPrecedence')) AND 
           (law IS NULL OR law != true) AND
-          (status_code LIKE 'Senate%' OR status_code LIKE '%Senate%')
+          (latest_stage.chamber = 'Senate' OR
+           (latest_stage.chamber IS NULL AND (status_code LIKE 'Senate%' OR status_code LIKE '%Senate%')))
         ) as at_senate,
         COUNT(DISTINCT bill_number) FILTER (WHERE 
           (status_code IS NULL OR (status_code != 'RoyalAssentGiven' AND status_code != 'OutsideOrderPrecedence')) AND 
           (law IS NULL OR law != true) AND
+          latest_stage.chamber IS NULL AND
           (status_code NOT LIKE 'House%' AND status_code NOT LIKE '%House%' AND 
            status_code NOT LIKE 'Senate%' AND status_code NOT LIKE '%Senate%')
         ) as still_in_reading
-      FROM bills_motions
+      FROM bills_motions bm
+      LEFT JOIN LATERAL (
+        SELECT chamber FROM bill_stages bs
+        WHERE bs.bill_number = bm.bill_number AND bs.session = bm.session
+        ORDER BY bs.sort_order DESC
+        LIMIT 1
+      ) latest_stage ON true
       WHERE introduced_date IS NOT NULL
         AND CAST(introduced_date AS DATE) >= CAST($1 AS DATE)
         AND type = 'Bill'
@@ -202,11 +214,12 @@ export async function GET() {
       sponsor_politician: string | null;
       sponsor_party: string | null;
       category_name: string | null;
+      categories?: string[];
     }>(recentBillsSql, [currentSessionStartDate]);
 
     // Add category information to bills (same logic as MP stats route)
     if (recentBills.length > 0) {
-      const { getBillCategoryNames } = await import('@/lib/db/get-bill-category');
+      const { getBillCategoryLists } = await import('@/lib/db/get-bill-category');
       const { ensureBillHasCategory } = await import('@/lib/db/categorize-bills');
       
       const billNumbers = recentBills
@@ -215,7 +228,7 @@ export async function GET() {
       
       if (billNumbers.length > 0) {
         // Get existing categories
-        let categoryMap = await getBillCategoryNames(billNumbers);
+        let categoryMap = await getBillCategoryLists(billNumbers);
         
         // Find bills that need categorization
         const billsNeedingCategories = recentBills
@@ -225,9 +238,9 @@ export async function GET() {
           // Categorize bills that don't have categories yet
           const categoryPromises = billsNeedingCategories.map(async (bill) => {
             try {
-              const category = await ensureBillHasCategory(bill.bill_number!, bill.title);
-              if (category) {
-                return { billNumber: bill.bill_number!, category };
+              const categories = await ensureBillHasCategory(bill.bill_number!, bill.title);
+              if (categories.length > 0) {
+                return { billNumber: bill.bill_number!, categories };
               }
               return null;
             } catch (error) {
@@ -239,20 +252,24 @@ export async function GET() {
           const results = await Promise.all(categoryPromises);
           results.forEach(result => {
             if (result) {
-              categoryMap.set(result.billNumber, result.category);
+              categoryMap.set(result.billNumber, result.categories);
             }
           });
           
           // Refresh category map from database to get newly categorized bills
-          const updatedCategoryMap = await getBillCategoryNames(billNumbers);
-          updatedCategoryMap.forEach((cat, billNum) => categoryMap.set(billNum, cat));
+          const updatedCategoryMap = await getBillCategoryLists(billNumbers);
+          updatedCategoryMap.forEach((cats, billNum) => categoryMap.set(billNum, cats));
         }
         
-        // Add category to each bill
-        recentBills = recentBills.map(bill => ({
-          ...bill,
-          category_name: bill.bill_number ? categoryMap.get(bill.bill_number) || bill.category_name || null : bill.category_name,
-        }));
+        // Add categories to each bill; category_name stays the primary category
+        recentBills = recentBills.map(bill => {
+          const categories = categoryMap.get(bill.bill_number) || (bill.category_name ? [bill.category_name] : []);
+          return {
+            ...bill,
+            category_name: categories[0] || null,
+            categories,
+          };
+        });
       }
     }
 
@@ -288,6 +305,12 @@ export async function GET() {
       ORDER BY date DESC, decision_division_number DESC
     `), [currentSession.session_number]) : [];
 
+    // 10. Party cohesion (Rice index) on this session's divisions
+    const partyCohesion = await getCohesionByParty({ since: currentSessionStartDate });
+
+    // 11. Most recent floor crossings detected by the MP sync
+    const recentPartySwitches = await getRecentPartySwitches(5);
+
     return NextResponse.json({
       mpsPerParty,
       expensesByParty,
@@ -298,6 +321,8 @@ export async function GET() {
       billStats: billStats || { total_bills: 0, passed_bills: 0, law_bills: 0, outside_order_precedence: 0, at_house: 0, at_senate: 0, still_in_reading: 0 },
       recentBills,
       recentMotions,
+      partyCohesion,
+      recentPartySwitches,
     });
   } catch (error) {
     console.error('Error fetching statistics:', error);
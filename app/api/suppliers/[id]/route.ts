@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupplier } from '@/lib/db/suppliers';
+
+export const dynamic = 'force-dynamic';
+
+// Accepts the supplier slug (e.g. bell-canada)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supplier = await getSupplier(decodeURIComponent(params.id).toLowerCase());
+
+    if (!supplier) {
+      return NextResponse.json(
+        { error: 'Supplier not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ supplier });
+  } catch (error) {
+    console.error('Error fetching supplier:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch supplier' },
+      { status: 500 }
+    );
+  }
+}
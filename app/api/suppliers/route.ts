@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSupplierIndex, isSupplierSort } from '@/lib/db/suppliers';
+
+export const dynamic = 'force-dynamic';
+
+// Contract suppliers across all MPs; ?q= searches names, ?sort=total|mps|contracts|name
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const limit = parseInt(searchParams.get('limit') || '500', 10);
+    const sort = searchParams.get('sort');
+    const index = await getSupplierIndex({
+      search: searchParams.get('q') || undefined,
+      sort: isSupplierSort(sort) ? sort : 'total',
+      limit: Math.min(Math.max(isNaN(limit) ? 500 : limit, 1), 2000),
+    });
+    return NextResponse.json(index);
+  } catch (error) {
+    console.error('Error fetching suppliers:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch suppliers' },
+      { status: 500 }
+    );
+  }
+}
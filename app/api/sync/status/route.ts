@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { getLastSyncRun, getLastSuccessfulSyncRun } from '@/lib/db/sync-runs';
+
+// Always read the ledger at request time - the build-time snapshot would never change
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const [lastRun, lastSuccessfulRun] = await Promise.all([
+      getLastSyncRun(),
+      getLastSuccessfulSyncRun(),
+    ]);
+
+    return NextResponse.json({
+      lastRun,
+      lastRefreshedAt: lastSuccessfulRun?.finished_at ?? null,
+    });
+  } catch (error) {
+    console.error('Error fetching sync status:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch sync status' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDivision } from '@/lib/db/divisions';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { parliament: string; session: string; number: string } }
+) {
+  const parliament = parseInt(params.parliament, 10);
+  const session = parseInt(params.session, 10);
+  const divisionNumber = parseInt(params.number, 10);
+
+  if ([parliament, session, divisionNumber].some((value) => isNaN(value) || value <= 0)) {
+    return NextResponse.json(
+      { error: 'Parliament, session and division number must be positive integers' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const division = await getDivision(parliament, session, divisionNumber);
+
+    if (!division) {
+      return NextResponse.json(
+        { error: 'Division not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(division);
+  } catch (error) {
+    console.error('Error fetching division:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch division' },
+      { status: 500 }
+    );
+  }
+}
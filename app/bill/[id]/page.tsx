@@ -4,7 +4,11 @@ import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { getPartyColors } from '@/lib/utils/party-colors';
+import type { SenateDivision } from '@/types';
+import type { BillTextVersion } from '@/lib/utils/bill-text';
 import ThemeToggle from '@/components/ThemeToggle';
+import BillTimeline from '@/components/BillTimeline';
+import BillTextDiff from '@/components/BillTextDiff';
 
 interface BillData {
   bill: {
@@ -30,6 +34,7 @@ interface BillData {
     vote_date: string;
     motion_title: string | null;
   }>;
+  senateDivisions?: SenateDivision[];
 }
 
 type VoteType = 'Yea' | 'Nay' | 'Paired' | 'Abstained' | 'Not Voting';
@@ -44,6 +49,7 @@ export default function BillPage() {
   const [searchQuery, setSearchQuery] = useState('');
   const [collapsedParties, setCollapsedParties] = useState<Set<string>>(new Set());
   const [legisinfoData, setLegisinfoData] = useState<any>(null);
+  const [textVersions, setTextVersions] = useState<BillTextVersion[]>([]);
   const [notesCollapsed, setNotesCollapsed] = useState(false);
   const [webReferencesCollapsed, setWebReferencesCollapsed] = useState(true);
 
@@ -86,6 +92,20 @@ export default function BillPage() {
               // Silently fail - LEGISinfo data is optional
               console.warn('Failed to fetch LEGISinfo data:', err);
             });
+
+          fetch(
+            `/api/bill/${encodeURIComponent(billNumber)}/texts?session=${encodeURIComponent(result.bill.session)}`
+          )
+            .then((textsResponse) => (textsResponse.ok ? textsResponse.json() : null))
+            .then((textsResult) => {
+              if (textsResult?.versions) {
+                setTextVersions(textsResult.versions);
+              }
+            })
+            .catch((err) => {
+              // Silently fail - bill texts are optional
+              console.warn('Failed to fetch bill texts:', err);
+            });
         }
       } catch (err) {
         console.error('Error fetching bill data:', err);
@@ -491,6 +511,58 @@ export default function BillPage() {
             </div>
           </div>
 
+          {/* Legislative Timeline */}
+          {Array.isArray(legisinfoData?.stages) && legisinfoData.stages.length > 0 && (
+            <BillTimeline billNumber={bill.bill_number} stages={legisinfoData.stages} />
+          )}
+
+          {/* Text Versions Diff */}
+          {textVersions.length > 1 && (
+            <BillTextDiff billNumber={bill.bill_number} session={bill.session} versions={textVersions} />
+          )}
+
+          {/* Senate Divisions */}
+          {data.senateDivisions && data.senateDivisions.length > 0 && (
+            <div className="card">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-1">
+                Senate Votes
+              </h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                Recorded divisions on this bill in the Senate.
+              </p>
+              <ul className="divide-y divide-gray-100 dark:divide-slate-700">
+                {data.senateDivisions.map((division) => (
+                  <li key={division.id} className="py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-gray-100">{division.description}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {[division.date && formatDate(division.date), division.result].filter(Boolean).join(' · ')}
+                        {division.url && (
+                          <>
+                            {' · '}
+                            <a
+                              href={division.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-blue-600 dark:text-blue-400 hover:underline"
+                            >
+                              Ballots on sencanada.ca
+                            </a>
+                          </>
+                        )}
+                      </p>
+                    </div>
+                    <div className="flex gap-3 text-sm whitespace-nowrap">
+                      <span className="text-green-700 dark:text-green-400 font-medium">{division.yeas} Yea</span>
+                      <span className="text-red-700 dark:text-red-400 font-medium">{division.nays} Nay</span>
+                      <span className="text-gray-500 dark:text-gray-400">{division.abstentions} abstained</span>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* MP Votes Grid */}
           <div className="card">
             <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-6">
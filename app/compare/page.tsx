@@ -0,0 +1,442 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { getPartyColors } from '@/lib/utils/party-colors';
+import { getDivisionPath } from '@/lib/utils/divisions';
+import ThemeToggle from '@/components/ThemeToggle';
+
+interface ComparedMP {
+  id: number;
+  name: string;
+  party_name: string | null;
+  district_name: string;
+  district_id: string | null;
+  photo_url: string | null;
+  salary: number;
+  loyalty: {
+    total_votes: number;
+    votes_with_party: number;
+    votes_against_party: number;
+    free_votes: number;
+    abstained_paired_votes: number;
+    loyalty_percentage: number;
+  };
+  expenses: {
+    staff_salaries: number;
+    travel: number;
+    hospitality: number;
+    contracts: number;
+    total: number;
+  };
+  committees: string[];
+}
+
+interface ComparisonData {
+  since: string | null;
+  mps: ComparedMP[];
+  agreement: Array<{
+    mp_a: number;
+    mp_b: number;
+    shared_divisions: number;
+    agreed: number;
+    agreement_rate: number | null;
+  }>;
+  shared_committees: Array<{
+    committee_name: string;
+    mp_ids: number[];
+  }>;
+  disagreements: Array<{
+    vote_id: string;
+    date: string;
+    motion_title: string;
+    bill_number: string | null;
+    ballots: Record<string, string>;
+  }>;
+}
+
+interface AutocompleteSuggestion {
+  type: 'mp' | 'riding' | 'postal_code';
+  label: string;
+  value: string;
+  subtitle?: string;
+}
+
+const MAX_MPS = 4;
+
+export default function ComparePage() {
+  const router = useRouter();
+  const [identifiers, setIdentifiers] = useState<string[]>([]);
+  const [query, setQuery] = useState('');
+  const [suggestions, setSuggestions] = useState<AutocompleteSuggestion[]>([]);
+  const [data, setData] = useState<ComparisonData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Read the initial selection from ?mps= once on mount
+  useEffect(() => {
+    const mps = new URLSearchParams(window.location.search).get('mps');
+    if (mps) {
+      setIdentifiers(mps.split(',').map((mp) => mp.trim()).filter(Boolean).slice(0, MAX_MPS));
+    }
+  }, []);
+
+  const fetchComparison = useCallback(async (selected: string[]) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch(`/api/compare?mps=${selected.map(encodeURIComponent).join(',')}`);
+      const result = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        setData(null);
+        setError(
+          result.notFound
+            ? `MP not found: ${result.notFound.join(', ')}`
+            : result.error || 'Failed to compare MPs'
+        );
+        return;
+      }
+
+      setData(result);
+    } catch (err) {
+      console.error('Error comparing MPs:', err);
+      setError('Failed to compare MPs');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (identifiers.length >= 2) {
+      router.replace(`/compare?mps=${identifiers.map(encodeURIComponent).join(',')}`);
+      fetchComparison(identifiers);
+    } else {
+      setData(null);
+    }
+  }, [identifiers, fetchComparison, router]);
+
+  // Autocomplete MPs and ridings (debounced)
+  useEffect(() => {
+    if (query.trim().length < 2) {
+      setSuggestions([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/autocomplete?q=${encodeURIComponent(query.trim())}`);
+        if (response.ok) {
+          const result = await response.json();
+          setSuggestions((result.suggestions || []).filter((s: AutocompleteSuggestion) => s.type !== 'postal_code'));
+        }
+      } catch (err) {
+        console.error('Error fetching suggestions:', err);
+      }
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const addMP = (identifier: string) => {
+    const value = identifier.trim();
+    if (!value || identifiers.length >= MAX_MPS || identifiers.includes(value)) {
+      return;
+    }
+    setIdentifiers([...identifiers, value]);
+    setQuery('');
+    setSuggestions([]);
+  };
+
+  const removeMP = (identifier: string) => {
+    setIdentifiers(identifiers.filter((existing) => existing !== identifier));
+  };
+
+  const formatCurrency = (amount: number): string => {
+    return new Intl.NumberFormat('en-CA', {
+      style: 'currency',
+      currency: 'CAD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-CA', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const getVoteColor = (voteType: string | undefined) => {
+    switch (voteType) {
+      case 'Yea':
+        return 'text-green-700 dark:text-green-400';
+      case 'Nay':
+        return 'text-red-700 dark:text-red-400';
+      default:
+        return 'text-gray-400 dark:text-gray-500';
+    }
+  };
+
+  const mpName = (id: number) => data?.mps.find((mp) => mp.id === id)?.name || String(id);
+
+  const rows: Array<{ label: string; render: (mp: ComparedMP) => React.ReactNode }> = [
+    { label: 'Party', render: (mp) => mp.party_name || 'Independent' },
+    { label: 'Riding', render: (mp) => mp.district_name },
+    { label: 'Salary', render: (mp) => formatCurrency(mp.salary) },
+    { label: 'Votes with party majority', render: (mp) => `${mp.loyalty.loyalty_percentage.toFixed(0)}%` },
+    { label: 'Breaks with party', render: (mp) => mp.loyalty.votes_against_party },
+    { label: 'Divisions recorded', render: (mp) => mp.loyalty.total_votes },
+    { label: 'Total expenses', render: (mp) => formatCurrency(mp.expenses.total) },
+    { label: 'Staff salaries', render: (mp) => formatCurrency(mp.expenses.staff_salaries) },
+    { label: 'Travel', render: (mp) => formatCurrency(mp.expenses.travel) },
+    { label: 'Hospitality', render: (mp) => formatCurrency(mp.expenses.hospitality) },
+    { label: 'Contracts', render: (mp) => formatCurrency(mp.expenses.contracts) },
+    { label: 'Committees', render: (mp) => mp.committees.length },
+  ];
+
+  return (
+    <main className="min-h-screen bg-[#f7f7f7] dark:bg-[#000000]">
+      <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-6 md:py-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div className="flex justify-between items-center mb-4">
+            <Link
+              href="/"
+              className="text-blue-600 dark:text-blue-400 hover:underline text-sm"
+            >
+              ← Back to home
+            </Link>
+            <ThemeToggle />
+          </div>
+
+          <div className="card">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100 mb-2">Compare MPs</h1>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              Pick 2 to {MAX_MPS} MPs by name or riding.
+            </p>
+
+            <div className="flex flex-wrap gap-2 mb-4">
+              {identifiers.map((identifier) => (
+                <span
+                  key={identifier}
+                  className="inline-flex items-center gap-2 px-3 py-1 rounded-full text-sm bg-gray-100 dark:bg-slate-800 text-gray-800 dark:text-gray-200"
+                >
+                  {identifier}
+                  <button
+                    onClick={() => removeMP(identifier)}
+                    className="text-gray-500 hover:text-gray-800 dark:hover:text-white"
+                    aria-label={`Remove ${identifier}`}
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+            </div>
+
+            {identifiers.length < MAX_MPS && (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  addMP(query);
+                }}
+                className="relative max-w-md"
+              >
+                <input
+                  type="text"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder="MP name or riding"
+                  className="w-full px-3 py-2 text-sm rounded-lg border border-gray-200 dark:border-slate-700 bg-white dark:bg-[#0B0F14] text-gray-900 dark:text-white focus:outline-none focus:ring-2"
+                />
+                {suggestions.length > 0 && (
+                  <ul className="absolute z-10 mt-1 w-full rounded-lg border border-gray-200 dark:border-slate-700 bg-white dark:bg-[#0B0F14] shadow-lg">
+                    {suggestions.map((suggestion) => (
+                      <li key={`${suggestion.type}-${suggestion.value}`}>
+                        <button
+                          type="button"
+                          onClick={() => addMP(suggestion.value)}
+                          className="w-full text-left px-3 py-2 hover:bg-gray-50 dark:hover:bg-slate-800"
+                        >
+                          <span className="block text-sm text-gray-900 dark:text-white">{suggestion.label}</span>
+                          {suggestion.subtitle && (
+                            <span className="block text-xs text-gray-500 dark:text-gray-400">{suggestion.subtitle}</span>
+                          )}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </form>
+            )}
+
+            {error && (
+              <div className="mt-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+                <p className="text-red-800 dark:text-red-300">{error}</p>
+              </div>
+            )}
+          </div>
+
+          {loading && (
+            <div className="card">
+              <div className="animate-pulse space-y-3">
+                <div className="h-6 bg-gray-200 dark:bg-slate-700 rounded w-1/3"></div>
+                <div className="h-4 bg-gray-200 dark:bg-slate-700 rounded"></div>
+                <div className="h-4 bg-gray-200 dark:bg-slate-700 rounded w-5/6"></div>
+              </div>
+            </div>
+          )}
+
+          {!loading && data && (
+            <>
+              {/* Side-by-side table */}
+              <div className="card overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-100 dark:border-slate-700">
+                      <th className="text-left py-2 px-2"></th>
+                      {data.mps.map((mp) => {
+                        const partyColors = getPartyColors(mp.party_name);
+                        return (
+                          <th key={mp.id} className="text-left py-2 px-2 align-bottom">
+                            <div className="h-1 rounded-full mb-2" style={{ backgroundColor: partyColors.primary }} />
+                            <Link
+                              href={`/mp/${encodeURIComponent(mp.district_name)}`}
+                              className="font-semibold text-gray-900 dark:text-white hover:underline"
+                            >
+                              {mp.name}
+                            </Link>
+                          </th>
+                        );
+                      })}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((row) => (
+                      <tr key={row.label} className="border-b border-gray-100 dark:border-slate-700">
+                        <td className="py-2 px-2 text-gray-600 dark:text-gray-400 whitespace-nowrap">{row.label}</td>
+                        {data.mps.map((mp) => (
+                          <td key={mp.id} className="py-2 px-2 font-medium text-gray-900 dark:text-white">
+                            {row.render(mp)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {/* Agreement */}
+                <div className="card">
+                  <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Agreement</h2>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+                    Share of divisions where both MPs voted Yea/Nay and voted the same way{data.since ? ' this session' : ''}
+                  </p>
+                  <ul className="divide-y divide-gray-100 dark:divide-slate-700">
+                    {data.agreement.map((pair) => (
+                      <li key={`${pair.mp_a}-${pair.mp_b}`} className="flex justify-between items-center py-2">
+                        <span className="text-sm text-gray-800 dark:text-gray-200">
+                          {mpName(pair.mp_a)} &amp; {mpName(pair.mp_b)}
+                        </span>
+                        <span className="text-sm whitespace-nowrap ml-4">
+                          <span className="font-semibold text-gray-900 dark:text-white">
+                            {pair.agreement_rate !== null ? `${pair.agreement_rate.toFixed(0)}%` : '—'}
+                          </span>
+                          <span className="text-xs text-gray-500 dark:text-gray-400 ml-1">
+                            ({pair.agreed}/{pair.shared_divisions})
+                          </span>
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+
+                {/* Committee overlap */}
+                <div className="card">
+                  <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Shared committees</h2>
+                  {data.shared_committees.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400 italic">No committees in common.</p>
+                  ) : (
+                    <ul className="divide-y divide-gray-100 dark:divide-slate-700">
+                      {data.shared_committees.map((committee) => (
+                        <li key={committee.committee_name} className="py-2">
+                          <span className="block text-sm font-medium text-gray-900 dark:text-white">{committee.committee_name}</span>
+                          <span className="block text-xs text-gray-500 dark:text-gray-400">
+                            {committee.mp_ids.map(mpName).join(', ')}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+
+              {/* Disagreements */}
+              <div className="card">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-6">
+                  Where they disagreed
+                  <span className="text-sm font-normal text-gray-500 dark:text-gray-400 ml-2">({data.disagreements.length})</span>
+                </h2>
+                {data.disagreements.length === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400 italic">They voted the same way on every shared division.</p>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b border-gray-100 dark:border-slate-700">
+                          <th className="text-left py-2 px-2 font-semibold text-gray-700 dark:text-gray-300">Date</th>
+                          <th className="text-left py-2 px-2 font-semibold text-gray-700 dark:text-gray-300">Motion</th>
+                          {data.mps.map((mp) => (
+                            <th key={mp.id} className="text-left py-2 px-2 font-semibold text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                              {mp.name}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {data.disagreements.map((division) => (
+                          <tr key={division.vote_id} className="border-b border-gray-100 dark:border-slate-700">
+                            <td className="py-2 px-2 whitespace-nowrap text-gray-600 dark:text-gray-400">{formatDate(division.date)}</td>
+                            <td className="py-2 px-2 text-gray-900 dark:text-white">
+                              {division.bill_number && (
+                                <Link
+                                  href={`/bill/${encodeURIComponent(division.bill_number)}`}
+                                  className="font-semibold mr-2 hover:underline"
+                                >
+                                  {division.bill_number}
+                                </Link>
+                              )}
+                              {(() => {
+                                const divisionPath = getDivisionPath(division.vote_id);
+                                return divisionPath ? (
+                                  <Link href={divisionPath} className="line-clamp-2 hover:underline">{division.motion_title}</Link>
+                                ) : (
+                                  <span className="line-clamp-2">{division.motion_title}</span>
+                                );
+                              })()}
+                            </td>
+                            {data.mps.map((mp) => {
+                              const ballot = division.ballots[String(mp.id)];
+                              return (
+                                <td key={mp.id} className={`py-2 px-2 font-semibold whitespace-nowrap ${getVoteColor(ballot)}`}>
+                                  {ballot || '—'}
+                                </td>
+                              );
+                            })}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -6,13 +6,27 @@ import MPProfile from '@/components/MPProfile';
 import VotingHistory from '@/components/VotingHistory';
 import PartyLoyaltyStats from '@/components/PartyLoyaltyStats';
 import MotionBreakdown from '@/components/MotionBreakdown';
+import CategoryVotingProfile from '@/components/CategoryVotingProfile';
 import MPExpenses from '@/components/MPExpenses';
+import MPTravelClaims from '@/components/MPTravelClaims';
 import { getPartyColors } from '@/lib/utils/party-colors';
-import type { MP, VotingRecord, PartyLoyaltyStats as PartyLoyaltyStatsType, MotionBreakdown as MotionBreakdownType } from '@/types';
+import type {
+  MP,
+  VotingRecord,
+  PartyLoyaltyStats as PartyLoyaltyStatsType,
+  MotionBreakdown as MotionBreakdownType,
+  CategoryVotingProfile as CategoryVotingProfileType,
+  PartyHistory,
+  ExpenseQuarter,
+  ExpenseBenchmarks,
+  MPTravel,
+} from '@/types';
 
 interface MPStats {
   votingRecord: VotingRecord;
   partyLoyalty: PartyLoyaltyStatsType;
+  majorityLoyalty?: PartyLoyaltyStatsType | null;
+  categoryProfile?: CategoryVotingProfileType[];
   motions: MotionBreakdownType;
   dataValid?: boolean;
 }
@@ -21,6 +35,7 @@ export default function MPPage() {
   const params = useParams();
   const mpId = params.id as string;
   const [mp, setMp] = useState<MP | null>(null);
+  const [partyHistory, setPartyHistory] = useState<PartyHistory | null>(null);
   const [stats, setStats] = useState<MPStats | null>(null);
   const [expenses, setExpenses] = useState<{
     total_staff_salaries: number;
@@ -32,7 +47,10 @@ export default function MPPage() {
       quarter_number: number;
       quarter: string;
     }>;
+    quarters?: ExpenseQuarter[];
+    benchmarks?: ExpenseBenchmarks | null;
   } | null>(null);
+  const [travel, setTravel] = useState<MPTravel | null>(null);
   const [loadingProfile, setLoadingProfile] = useState(true);
   const [loadingVotingHistory, setLoadingVotingHistory] = useState(true);
   const [loadingPartyLoyalty, setLoadingPartyLoyalty] = useState(true);
@@ -51,6 +69,7 @@ export default function MPPage() {
 
         const data = await response.json();
         setMp(data.mp);
+        setPartyHistory(data.partyHistory || null);
         setLoadingProfile(false);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'An error occurred');
@@ -127,12 +146,27 @@ export default function MPPage() {
       }
     }
 
+    async function fetchMPTravel() {
+      try {
+        const response = await fetch(`/api/mp/${mpId}/travel`);
+
+        if (!response.ok) {
+          throw new Error('Failed to fetch MP travel');
+        }
+
+        setTravel(await response.json());
+      } catch (err) {
+        console.error('Error fetching MP travel:', err);
+      }
+    }
+
     if (mpId) {
       // Fetch profile first (fast)
       fetchMPProfile();
       // Fetch stats and expenses in parallel (slower)
       fetchMPStats();
       fetchMPExpenses();
+      fetchMPTravel();
     }
   }, [mpId]);
 
@@ -170,6 +204,7 @@ export default function MPPage() {
             partyLoyalty={stats?.partyLoyalty}
             motions={stats?.motions}
             votingRecord={stats?.votingRecord}
+            partyHistory={partyHistory}
           />
           
           {loadingExpenses ? (
@@ -183,6 +218,10 @@ export default function MPPage() {
           ) : expenses ? (
             <MPExpenses expenses={expenses} partyColors={partyColors} />
           ) : null}
+
+          {travel && travel.trips.length > 0 && (
+            <MPTravelClaims travel={travel} />
+          )}
           
           {loadingPartyLoyalty ? (
             <div className="card">
@@ -198,11 +237,16 @@ export default function MPPage() {
           ) : stats ? (
             <PartyLoyaltyStats 
               stats={stats.partyLoyalty} 
+              majorityStats={stats.majorityLoyalty}
               partyColors={partyColors}
               votes={stats.votingRecord.votes}
             />
           ) : null}
 
+          {stats?.categoryProfile ? (
+            <CategoryVotingProfile profile={stats.categoryProfile} partyColors={partyColors} />
+          ) : null}
+
           {stats ? (
             <MotionBreakdown motions={stats.motions} partyColors={partyColors} />
           ) : (
@@ -1,11 +1,14 @@
 'use client';
 
-import { useState, useEffect, useMemo } from 'react';
+import { Fragment, useState, useEffect, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import SearchForm from '@/components/SearchForm';
 import ThemeToggle from '@/components/ThemeToggle';
-import type { MP } from '@/types';
+import PartyCohesionChart from '@/components/PartyCohesionChart';
+import type { MP, MembershipEvent } from '@/types';
 import { getPartyColors } from '@/lib/utils/party-colors';
+import { normalizeToMajorParty, getPartySlug } from '@/lib/utils/parties';
 
 interface Stats {
   mpsPerParty: Array<{ party_name: string; count: number }>;
@@ -50,6 +53,7 @@ interface Stats {
     sponsor_politician: string | null;
     sponsor_party: string | null;
     category_name: string | null;
+    categories?: string[];
   }>;
   recentMotions: Array<{
     decision_division_number: number;
@@ -63,6 +67,14 @@ interface Stats {
     parliament_number: number;
     session_number: number;
   }>;
+  partyCohesion?: Array<{
+    party: string;
+    divisions: number;
+    rice_index: number | null;
+    agreement_index: number | null;
+    unanimous_divisions: number;
+  }>;
+  recentPartySwitches?: MembershipEvent[];
 }
 
 export default function Home() {
@@ -210,7 +222,18 @@ export default function Home() {
               <SearchForm onSearch={handleSearch} loading={loading} />
               
               <p className="mt-3 text-sm text-gray-500 dark:text-gray-400">
-                Try: K1A 0A6 or Mark Carney
+                Try: K1A 0A6 or Mark Carney ·{' '}
+                <Link href="/alignment" className="text-blue-600 dark:text-blue-400 hover:underline">
+                  See which MPs vote like you
+                </Link>
+                {' · '}
+                <Link href="/senators" className="text-blue-600 dark:text-blue-400 hover:underline">
+                  Senators
+                </Link>
+                {' · '}
+                <Link href="/suppliers" className="text-blue-600 dark:text-blue-400 hover:underline">
+                  Suppliers
+                </Link>
               </p>
               
               {error && (
@@ -231,6 +254,17 @@ export default function Home() {
                       const partyColors = getPartyColors(party.party_name);
                       const maxCount = Math.max(...stats.mpsPerParty.map(p => p.count));
                       const percentage = (party.count / maxCount) * 100;
+                      const majorParty = normalizeToMajorParty(party.party_name);
+                      const pill = (
+                        <span 
+                          className="relative inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium z-10 text-gray-800 dark:text-white"
+                          style={{ 
+                            backgroundColor: `${partyColors.primary}30`,
+                          }}
+                        >
+                          {party.party_name}
+                        </span>
+                      );
                       return (
                         <div key={party.party_name} className="relative flex justify-between items-center py-1 px-2 -mx-2 rounded">
                           {/* Micro bar background */}
@@ -241,14 +275,11 @@ export default function Home() {
                               width: `${percentage}%`,
                             }}
                           />
-                          <span 
-                            className="relative inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium z-10 text-gray-800 dark:text-white"
-                            style={{ 
-                              backgroundColor: `${partyColors.primary}30`,
-                            }}
-                          >
-                            {party.party_name}
-                          </span>
+                          {majorParty ? (
+                            <Link href={`/party/${getPartySlug(majorParty)}`} className="relative z-10 hover:underline">
+                              {pill}
+                            </Link>
+                          ) : pill}
                           <span className="relative text-sm font-semibold text-gray-800 dark:text-gray-100 z-10">
                             {party.count}
                           </span>
@@ -385,6 +416,25 @@ export default function Home() {
                   </div>
                 }
               />
+              {stats.partyCohesion && (
+                <StatsCard
+                  title={
+                    <div>
+                      <span>Party Cohesion</span>
+                      <span className="text-xs text-gray-500 dark:text-gray-400 ml-2 font-normal">
+                        (this session)
+                      </span>
+                    </div>
+                  }
+                  content={<PartyCohesionChart cohesion={stats.partyCohesion} />}
+                />
+              )}
+              {stats.recentPartySwitches && stats.recentPartySwitches.length > 0 && (
+                <StatsCard
+                  title="Recent Party Switches"
+                  content={<RecentPartySwitchesContent switches={stats.recentPartySwitches} />}
+                />
+              )}
             </div>
           )}
 
@@ -498,6 +548,41 @@ function StatsCard({ title, content }: { title: string | React.ReactNode; conten
   );
 }
 
+function RecentPartySwitchesContent({ switches }: { switches: MembershipEvent[] }) {
+  return (
+    <ul className="space-y-3">
+      {switches.map((event) => (
+        <li key={event.id} className="text-sm">
+          {event.district_name ? (
+            <Link
+              href={`/mp/${encodeURIComponent(event.district_name)}`}
+              className="font-medium text-gray-800 dark:text-gray-100 hover:underline"
+            >
+              {event.name}
+            </Link>
+          ) : (
+            <span className="font-medium text-gray-800 dark:text-gray-100">{event.name}</span>
+          )}
+          <div className="flex items-center gap-1.5 mt-1 text-xs text-gray-600 dark:text-gray-400">
+            {[event.old_value, event.new_value].map((party, index) => (
+              <Fragment key={index}>
+                {index > 0 && <span>→</span>}
+                <span
+                  className="inline-flex items-center px-2 py-0.5 rounded-full font-medium text-gray-800 dark:text-white"
+                  style={{ backgroundColor: `${getPartyColors(party).primary}30` }}
+                >
+                  {party || 'Independent'}
+                </span>
+              </Fragment>
+            ))}
+            <span className="ml-auto">{new Date(event.detected_at.substring(0, 10)).toLocaleDateString('en-CA', { timeZone: 'UTC' })}</span>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 // Helper function to format currency with abbreviations (M for millions, K for thousands)
 function formatCurrencyAbbreviated(amount: number): { display: string; full: string } {
   const full = new Intl.NumberFormat('en-CA', {
@@ -789,6 +874,12 @@ function BillStatsContent({
   );
 }
 
+// Primary category first; older API responses only carry category_name
+function getBillCategories(bill: { category_name: string | null; categories?: string[] }): string[] {
+  if (bill.categories && bill.categories.length > 0) return bill.categories;
+  return bill.category_name ? [bill.category_name] : [];
+}
+
 function RecentBillsContent({ 
   bills 
 }: { 
@@ -803,6 +894,7 @@ function RecentBillsContent({
     sponsor_politician: string | null;
     sponsor_party: string | null;
     category_name: string | null;
+    categories?: string[];
   }>
 }) {
   const router = useRouter();
@@ -819,9 +911,7 @@ function RecentBillsContent({
   const categories = useMemo(() => {
     const categorySet = new Set<string>();
     bills.forEach(bill => {
-      if (bill.category_name) {
-        categorySet.add(bill.category_name);
-      }
+      getBillCategories(bill).forEach(category => categorySet.add(category));
     });
     return Array.from(categorySet).sort();
   }, [bills]);
@@ -859,8 +949,8 @@ function RecentBillsContent({
   // Filter bills
   const filteredBills = useMemo(() => {
     return bills.filter(bill => {
-      // Category filter
-      if (selectedCategory !== 'all' && bill.category_name !== selectedCategory) {
+      // Category filter (primary or secondary category)
+      if (selectedCategory !== 'all' && !getBillCategories(bill).includes(selectedCategory)) {
         return false;
       }
       
@@ -1166,14 +1256,19 @@ function RecentBillsContent({
                 {/* Line 2: Status pill • Category pills • Party pill • Date • Session */}
                 <div className="flex items-center gap-2 flex-wrap text-xs text-gray-600 dark:text-gray-400">
                   {getStatusBadge(bill)}
-                  {bill.category_name && (
-                    <>
+                  {getBillCategories(bill).map((category, index) => (
+                    <Fragment key={category}>
                       <span>•</span>
-                      <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 dark:bg-purple-900/30 text-purple-800 dark:text-purple-300">
-                        {bill.category_name}
+                      <span
+                        className={index === 0
+                          ? 'inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 dark:bg-purple-900/30 text-purple-800 dark:text-purple-300'
+                          : 'inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium border border-purple-200 dark:border-purple-800 text-purple-700 dark:text-purple-400'}
+                        title={index === 0 ? 'Primary policy area' : 'Secondary policy area'}
+                      >
+                        {category}
                       </span>
-                    </>
-                  )}
+                    </Fragment>
+                  ))}
                   {bill.sponsor_party && (
                     <>
                       <span>•</span>
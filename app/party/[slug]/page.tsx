@@ -0,0 +1,414 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import Image from 'next/image';
+import { getPartyColors } from '@/lib/utils/party-colors';
+import { getDivisionPath } from '@/lib/utils/divisions';
+import { getPartyLogo } from '@/lib/utils/party-logos';
+import ThemeToggle from '@/components/ThemeToggle';
+import KPITile from '@/components/KPITile';
+
+interface PartyData {
+  party: string;
+  slug: string;
+  seats: number;
+  total_seats: number;
+  seat_share: number;
+  members: Array<{
+    id: number;
+    name: string;
+    party_name: string;
+    district_name: string;
+    district_id: string | null;
+    photo_url: string | null;
+  }>;
+  expenses: {
+    staff_salaries: number;
+    travel: number;
+    hospitality: number;
+    contracts: number;
+    total: number;
+    per_mp: number;
+  };
+  bills_sponsored: Array<{
+    bill_number: string;
+    title: string;
+    introduced_date: string | null;
+    status_code: string | null;
+    status: string | null;
+    law: boolean | null;
+    session: string | null;
+    sponsor_politician: string | null;
+  }>;
+  cohesion: {
+    divisions: number;
+    rice_index: number | null;
+    agreement_index: number | null;
+    unanimous_divisions: number;
+  };
+  recent_divisions: Array<{
+    vote_id: string;
+    date: string;
+    motion_title: string;
+    position: 'Yea' | 'Nay' | 'Split';
+    yea_count: number;
+    nay_count: number;
+    abstained_count: number;
+    rice_index: number;
+  }>;
+  rebels: Array<{
+    mp_id: number;
+    name: string;
+    district_name: string;
+    breaks: number;
+    counted_votes: number;
+    break_rate: number;
+  }>;
+}
+
+export default function PartyPage() {
+  const params = useParams();
+  const slug = params.slug as string;
+  const [data, setData] = useState<PartyData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+
+  useEffect(() => {
+    const fetchParty = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/parties/${encodeURIComponent(slug)}`);
+
+        if (!response.ok) {
+          setError(response.status === 404 ? 'Party not found' : 'Failed to load party data');
+          return;
+        }
+
+        setData(await response.json());
+      } catch (err) {
+        console.error('Error fetching party data:', err);
+        setError('Failed to load party data');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (slug) {
+      fetchParty();
+    }
+  }, [slug]);
+
+  const formatCurrency = (amount: number): string => {
+    return new Intl.NumberFormat('en-CA', {
+      style: 'currency',
+      currency: 'CAD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return null;
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-CA', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const getPositionBadge = (position: 'Yea' | 'Nay' | 'Split') => {
+    const styles = {
+      'Yea': 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300',
+      'Nay': 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300',
+      'Split': 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300',
+    };
+    return (
+      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${styles[position]}`}>
+        {position}
+      </span>
+    );
+  };
+
+  if (loading) {
+    return (
+      <main className="min-h-screen bg-[#f7f7f7] dark:bg-[#000000]">
+        <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-6 md:py-8">
+          <div className="max-w-7xl mx-auto">
+            <div className="flex justify-end mb-4">
+              <ThemeToggle />
+            </div>
+            <div className="card">
+              <div className="animate-pulse">
+                <div className="h-8 bg-gray-200 dark:bg-slate-700 rounded w-1/3 mb-4"></div>
+                <div className="h-6 bg-gray-200 dark:bg-slate-700 rounded w-2/3 mb-8"></div>
+                <div className="space-y-4">
+                  <div className="h-4 bg-gray-200 dark:bg-slate-700 rounded"></div>
+                  <div className="h-4 bg-gray-200 dark:bg-slate-700 rounded w-5/6"></div>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <main className="min-h-screen bg-[#f7f7f7] dark:bg-[#000000]">
+        <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-6 md:py-8">
+          <div className="max-w-7xl mx-auto">
+            <div className="flex justify-end mb-4">
+              <ThemeToggle />
+            </div>
+            <div className="card">
+              <div className="text-center py-12">
+                <p className="text-red-600 dark:text-red-400 mb-4">{error || 'Party not found'}</p>
+                <Link
+                  href="/"
+                  className="text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  ← Back to home
+                </Link>
+              </div>
+            </div>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  const partyColors = getPartyColors(data.party);
+  const logo = getPartyLogo(data.party);
+
+  const filteredMembers = searchQuery.trim()
+    ? data.members.filter((mp) => {
+        const query = searchQuery.toLowerCase();
+        return mp.name.toLowerCase().includes(query) || mp.district_name.toLowerCase().includes(query);
+      })
+    : data.members;
+
+  const expenseBreakdown = [
+    { label: 'Staff salaries', value: data.expenses.staff_salaries },
+    { label: 'Travel', value: data.expenses.travel },
+    { label: 'Hospitality', value: data.expenses.hospitality },
+    { label: 'Contracts', value: data.expenses.contracts },
+  ];
+
+  return (
+    <main className="min-h-screen bg-[#f7f7f7] dark:bg-[#000000]">
+      <div className="h-[3px]" style={{ backgroundColor: partyColors.primary }}></div>
+      <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-6 md:py-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div className="flex justify-between items-center mb-4">
+            <Link
+              href="/"
+              className="text-blue-600 dark:text-blue-400 hover:underline text-sm"
+            >
+              ← Back to home
+            </Link>
+            <ThemeToggle />
+          </div>
+
+          {/* Party Header */}
+          <div className="card">
+            <div className="flex items-center gap-4">
+              {logo && (
+                <Image
+                  src={logo}
+                  alt={data.party}
+                  width={56}
+                  height={56}
+                  className="rounded-md flex-shrink-0"
+                />
+              )}
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">
+                  {data.party}
+                </h1>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                  {data.seats} of {data.total_seats} seats in the House of Commons
+                </p>
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <KPITile label="Seat share" value={`${data.seat_share.toFixed(1)}%`} timeframe={`${data.seats} MPs`} />
+            <KPITile
+              label="Cohesion"
+              value={data.cohesion.rice_index !== null ? data.cohesion.rice_index.toFixed(2) : '—'}
+              timeframe={`Rice index, ${data.cohesion.divisions} divisions this session`}
+              tooltip="1 = the caucus always votes as a bloc, 0 = evenly split"
+            />
+            <KPITile label="Total expenses" value={formatCurrency(data.expenses.total)} timeframe="All reported quarters" />
+            <KPITile label="Expenses per MP" value={formatCurrency(data.expenses.per_mp)} timeframe="All reported quarters" />
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Spending */}
+            <div className="card">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-6">Spending</h2>
+              <div className="space-y-2">
+                {expenseBreakdown.map((item) => {
+                  const percentage = data.expenses.total > 0 ? (item.value / data.expenses.total) * 100 : 0;
+                  return (
+                    <div key={item.label} className="relative flex justify-between items-center py-1 px-2 -mx-2 rounded">
+                      <div
+                        className="absolute inset-0 rounded"
+                        style={{ backgroundColor: `${partyColors.primary}20`, width: `${percentage}%` }}
+                      />
+                      <span className="relative text-sm text-gray-800 dark:text-white z-10">{item.label}</span>
+                      <span className="relative text-sm font-semibold text-gray-800 dark:text-gray-100 z-10">
+                        {formatCurrency(item.value)}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Rebels */}
+            <div className="card">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Broke ranks most often</h2>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+                Yea/Nay ballots against the caucus majority this session
+              </p>
+              {data.rebels.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400 italic">No MP has voted against the caucus majority.</p>
+              ) : (
+                <ul className="divide-y divide-gray-100 dark:divide-slate-700">
+                  {data.rebels.map((rebel) => (
+                    <li key={rebel.mp_id} className="flex justify-between items-center py-2">
+                      <Link
+                        href={`/mp/${encodeURIComponent(rebel.district_name)}`}
+                        className="min-w-0 hover:underline"
+                      >
+                        <span className="block text-sm font-medium text-gray-900 dark:text-white truncate">{rebel.name}</span>
+                        <span className="block text-xs text-gray-500 dark:text-gray-400 truncate">{rebel.district_name}</span>
+                      </Link>
+                      <span className="text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap ml-4">
+                        <span className="font-semibold">{rebel.breaks}</span> of {rebel.counted_votes}
+                        <span className="text-xs text-gray-500 dark:text-gray-400 ml-1">({rebel.break_rate.toFixed(1)}%)</span>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          {/* Recent Divisions */}
+          <div className="card">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-6">Recent divisions</h2>
+            {data.recent_divisions.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400 italic">No divisions recorded this session.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-100 dark:border-slate-700">
+                      <th className="text-left py-2 px-2 font-semibold text-gray-700 dark:text-gray-300">Date</th>
+                      <th className="text-left py-2 px-2 font-semibold text-gray-700 dark:text-gray-300">Motion</th>
+                      <th className="text-left py-2 px-2 font-semibold text-gray-700 dark:text-gray-300">Caucus</th>
+                      <th className="text-right py-2 px-2 font-semibold text-gray-700 dark:text-gray-300">Yea</th>
+                      <th className="text-right py-2 px-2 font-semibold text-gray-700 dark:text-gray-300">Nay</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.recent_divisions.map((division) => (
+                      <tr key={division.vote_id} className="border-b border-gray-100 dark:border-slate-700">
+                        <td className="py-2 px-2 whitespace-nowrap text-gray-600 dark:text-gray-400">{formatDate(division.date)}</td>
+                        <td className="py-2 px-2 text-gray-900 dark:text-white">
+                          {(() => {
+                            const divisionPath = getDivisionPath(division.vote_id);
+                            return divisionPath ? (
+                              <Link href={divisionPath} className="line-clamp-2 hover:underline">{division.motion_title}</Link>
+                            ) : (
+                              <span className="line-clamp-2">{division.motion_title}</span>
+                            );
+                          })()}
+                        </td>
+                        <td className="py-2 px-2">{getPositionBadge(division.position)}</td>
+                        <td className="text-right py-2 px-2 font-semibold text-green-700 dark:text-green-400">{division.yea_count}</td>
+                        <td className="text-right py-2 px-2 font-semibold text-red-700 dark:text-red-400">{division.nay_count}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {/* Bills Sponsored */}
+          <div className="card">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-6">
+              Bills sponsored this session
+              <span className="text-sm font-normal text-gray-500 dark:text-gray-400 ml-2">({data.bills_sponsored.length})</span>
+            </h2>
+            {data.bills_sponsored.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400 italic">No bills sponsored this session.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100 dark:divide-slate-700">
+                {data.bills_sponsored.map((bill) => (
+                  <li key={bill.bill_number} className="py-3">
+                    <Link href={`/bill/${encodeURIComponent(bill.bill_number)}`} className="group block">
+                      <div className="flex items-baseline gap-3">
+                        <span className="text-sm font-semibold text-gray-900 dark:text-white whitespace-nowrap">{bill.bill_number}</span>
+                        <span className="text-sm text-gray-700 dark:text-gray-300 group-hover:underline line-clamp-2">{bill.title}</span>
+                      </div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        {[bill.sponsor_politician, formatDate(bill.introduced_date), bill.law ? 'Law' : bill.status]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </div>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Roster */}
+          <div className="card">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-6">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                Members
+                <span className="text-sm font-normal text-gray-500 dark:text-gray-400 ml-2">({data.members.length})</span>
+              </h2>
+              <input
+                type="text"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search by name or riding"
+                className="w-full sm:w-64 px-3 py-2 text-sm rounded-lg border border-gray-200 dark:border-slate-700 bg-white dark:bg-[#0B0F14] text-gray-900 dark:text-white focus:outline-none focus:ring-2"
+              />
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+              {filteredMembers.map((mp) => (
+                <Link
+                  key={mp.id}
+                  href={`/mp/${encodeURIComponent(mp.district_name)}`}
+                  className="flex items-center gap-3 p-2 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-800/50 transition-colors"
+                >
+                  <div
+                    className="w-1 self-stretch rounded-full flex-shrink-0"
+                    style={{ backgroundColor: partyColors.primary }}
+                  />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{mp.name}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{mp.district_name}</p>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,275 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { getPartyColors } from '@/lib/utils/party-colors';
+import ThemeToggle from '@/components/ThemeToggle';
+
+interface RidingMP {
+  id: number;
+  name: string;
+  party_name: string | null;
+  district_name: string;
+  photo_url: string | null;
+}
+
+interface RidingData {
+  id: number;
+  name: string;
+  slug: string;
+  fed_code: string | null;
+  province: string | null;
+  current_mp: RidingMP | null;
+  representatives: Array<{
+    person_id: string;
+    name: string;
+    party_name: string | null;
+    from_date: string;
+    to_date: string | null;
+  }>;
+  postal_prefixes: Array<{
+    prefix: string;
+    postal_codes: number;
+  }>;
+  neighbours: Array<{
+    id: number;
+    name: string;
+    slug: string;
+    province: string | null;
+    current_mp: RidingMP | null;
+  }>;
+}
+
+export default function RidingPage() {
+  const params = useParams();
+  const id = params.id as string;
+  const [data, setData] = useState<RidingData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchRiding = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/ridings/${encodeURIComponent(id)}`);
+
+        if (!response.ok) {
+          setError(response.status === 404 ? 'Riding not found' : 'Failed to load riding data');
+          return;
+        }
+
+        setData(await response.json());
+      } catch (err) {
+        console.error('Error fetching riding data:', err);
+        setError('Failed to load riding data');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (id) {
+      fetchRiding();
+    }
+  }, [id]);
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return null;
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-CA', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      timeZone: 'UTC',
+    });
+  };
+
+  if (loading) {
+    return (
+      <main className="min-h-screen bg-[#f7f7f7] dark:bg-[#000000]">
+        <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-6 md:py-8">
+          <div className="max-w-7xl mx-auto">
+            <div className="flex justify-end mb-4">
+              <ThemeToggle />
+            </div>
+            <div className="card">
+              <div className="animate-pulse">
+                <div className="h-8 bg-gray-200 dark:bg-slate-700 rounded w-1/3 mb-4"></div>
+                <div className="h-6 bg-gray-200 dark:bg-slate-700 rounded w-2/3 mb-8"></div>
+                <div className="space-y-4">
+                  <div className="h-4 bg-gray-200 dark:bg-slate-700 rounded"></div>
+                  <div className="h-4 bg-gray-200 dark:bg-slate-700 rounded w-5/6"></div>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <main className="min-h-screen bg-[#f7f7f7] dark:bg-[#000000]">
+        <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-6 md:py-8">
+          <div className="max-w-7xl mx-auto">
+            <div className="flex justify-end mb-4">
+              <ThemeToggle />
+            </div>
+            <div className="card">
+              <div className="text-center py-12">
+                <p className="text-red-600 dark:text-red-400 mb-4">{error || 'Riding not found'}</p>
+                <Link
+                  href="/"
+                  className="text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  ← Back to home
+                </Link>
+              </div>
+            </div>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  const currentColors = getPartyColors(data.current_mp?.party_name);
+
+  return (
+    <main className="min-h-screen bg-[#f7f7f7] dark:bg-[#000000]">
+      <div className="h-[3px]" style={{ backgroundColor: currentColors.primary }}></div>
+      <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-6 md:py-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div className="flex justify-between items-center mb-4">
+            <Link
+              href="/"
+              className="text-blue-600 dark:text-blue-400 hover:underline text-sm"
+            >
+              ← Back to home
+            </Link>
+            <ThemeToggle />
+          </div>
+
+          {/* Riding Header */}
+          <div className="card">
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">{data.name}</h1>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              {[data.province, 'Federal electoral district', data.fed_code && `FED ${data.fed_code}`]
+                .filter(Boolean)
+                .join(' · ')}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Current MP */}
+            <div className="card">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Current MP</h2>
+              {data.current_mp ? (
+                <Link
+                  href={`/mp/${encodeURIComponent(data.current_mp.district_name)}`}
+                  className="flex items-center gap-3 p-2 -mx-2 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-800/50 transition-colors"
+                >
+                  <div
+                    className="w-1 self-stretch rounded-full flex-shrink-0"
+                    style={{ backgroundColor: currentColors.primary }}
+                  />
+                  <div className="min-w-0">
+                    <p className="text-base font-semibold text-gray-900 dark:text-white truncate">{data.current_mp.name}</p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400 truncate">{data.current_mp.party_name || 'Independent'}</p>
+                  </div>
+                </Link>
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400 italic">This seat is currently vacant.</p>
+              )}
+            </div>
+
+            {/* Postal Code Prefixes */}
+            <div className="card">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Postal code areas</h2>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+                Forward sortation areas of postal codes we have matched to this riding
+              </p>
+              {data.postal_prefixes.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400 italic">No postal codes mapped to this riding yet.</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {data.postal_prefixes.map((prefix) => (
+                    <span
+                      key={prefix.prefix}
+                      title={`${prefix.postal_codes} postal code${prefix.postal_codes === 1 ? '' : 's'}`}
+                      className="inline-flex items-center px-2.5 py-1 rounded-md text-sm font-mono font-medium bg-gray-100 dark:bg-slate-800 text-gray-800 dark:text-gray-200"
+                    >
+                      {prefix.prefix}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Neighbouring Ridings */}
+          <div className="card">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-6">
+              Neighbouring ridings
+              <span className="text-sm font-normal text-gray-500 dark:text-gray-400 ml-2">({data.neighbours.length})</span>
+            </h2>
+            {data.neighbours.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400 italic">No neighbouring ridings recorded.</p>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+                {data.neighbours.map((neighbour) => (
+                  <Link
+                    key={neighbour.id}
+                    href={`/riding/${neighbour.slug}`}
+                    className="flex items-center gap-3 p-2 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-800/50 transition-colors"
+                  >
+                    <div
+                      className="w-1 self-stretch rounded-full flex-shrink-0"
+                      style={{ backgroundColor: getPartyColors(neighbour.current_mp?.party_name).primary }}
+                    />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{neighbour.name}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                        {neighbour.current_mp
+                          ? `${neighbour.current_mp.name} · ${neighbour.current_mp.party_name || 'Independent'}`
+                          : 'Vacant'}
+                      </p>
+                    </div>
+                  </Link>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Past MPs */}
+          <div className="card">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-6">Members for {data.name}</h2>
+            {data.representatives.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400 italic">No representation history recorded.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100 dark:divide-slate-700">
+                {data.representatives.map((rep) => (
+                  <li key={`${rep.person_id}-${rep.from_date}`} className="flex items-center justify-between py-2 gap-4">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <div
+                        className="w-1 self-stretch rounded-full flex-shrink-0"
+                        style={{ backgroundColor: getPartyColors(rep.party_name).primary }}
+                      />
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{rep.name}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{rep.party_name || 'Independent'}</p>
+                      </div>
+                    </div>
+                    <span className="text-sm text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                      {formatDate(rep.from_date)} – {rep.to_date ? formatDate(rep.to_date) : 'present'}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,215 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { getPartyColors } from '@/lib/utils/party-colors';
+import ThemeToggle from '@/components/ThemeToggle';
+import type { Senator, SenatorVote } from '@/types';
+
+interface SenatorData {
+  senator: Senator;
+  voteSummary: {
+    total_votes: number;
+    yea_votes: number;
+    nay_votes: number;
+    abstentions: number;
+  };
+  votes: SenatorVote[];
+}
+
+const VOTE_STYLES: Record<SenatorVote['vote_type'], string> = {
+  Yea: 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300',
+  Nay: 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300',
+  Abstention: 'bg-gray-100 dark:bg-slate-800 text-gray-700 dark:text-gray-300',
+};
+
+export default function SenatorPage() {
+  const params = useParams();
+  const id = params.id as string;
+  const [data, setData] = useState<SenatorData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSenator = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/senators/${encodeURIComponent(id)}`);
+
+        if (!response.ok) {
+          setError(response.status === 404 ? 'Senator not found' : 'Failed to load senator data');
+          return;
+        }
+
+        setData(await response.json());
+      } catch (err) {
+        console.error('Error fetching senator data:', err);
+        setError('Failed to load senator data');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (id) {
+      fetchSenator();
+    }
+  }, [id]);
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return null;
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-CA', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      timeZone: 'UTC',
+    });
+  };
+
+  if (loading) {
+    return (
+      <main className="min-h-screen bg-[#f7f7f7] dark:bg-[#000000]">
+        <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-6 md:py-8">
+          <div className="max-w-7xl mx-auto">
+            <div className="flex justify-end mb-4">
+              <ThemeToggle />
+            </div>
+            <div className="card">
+              <div className="animate-pulse">
+                <div className="h-8 bg-gray-200 dark:bg-slate-700 rounded w-1/3 mb-4"></div>
+                <div className="h-6 bg-gray-200 dark:bg-slate-700 rounded w-2/3 mb-8"></div>
+                <div className="space-y-4">
+                  <div className="h-4 bg-gray-200 dark:bg-slate-700 rounded"></div>
+                  <div className="h-4 bg-gray-200 dark:bg-slate-700 rounded w-5/6"></div>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <main className="min-h-screen bg-[#f7f7f7] dark:bg-[#000000]">
+        <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-6 md:py-8">
+          <div className="max-w-7xl mx-auto">
+            <div className="flex justify-end mb-4">
+              <ThemeToggle />
+            </div>
+            <div className="card">
+              <div className="text-center py-12">
+                <p className="text-red-600 dark:text-red-400 mb-4">{error || 'Senator not found'}</p>
+                <Link
+                  href="/senators"
+                  className="text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  ← All senators
+                </Link>
+              </div>
+            </div>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  const { senator, voteSummary, votes } = data;
+  const colors = getPartyColors(senator.affiliation);
+
+  return (
+    <main className="min-h-screen bg-[#f7f7f7] dark:bg-[#000000]">
+      <div className="h-[3px]" style={{ backgroundColor: colors.primary }}></div>
+      <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-6 md:py-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div className="flex justify-between items-center mb-4">
+            <Link
+              href="/senators"
+              className="text-blue-600 dark:text-blue-400 hover:underline text-sm"
+            >
+              ← All senators
+            </Link>
+            <ThemeToggle />
+          </div>
+
+          {/* Senator Header */}
+          <div className="card">
+            <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Senator {senator.name}</h1>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                  {[senator.affiliation || 'Non-affiliated', senator.province].filter(Boolean).join(' · ')}
+                </p>
+                <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
+                  {senator.appointed_date && <>Appointed {formatDate(senator.appointed_date)}</>}
+                  {senator.active
+                    ? senator.retirement_date && <> · Retires {formatDate(senator.retirement_date)}</>
+                    : <> · No longer sitting</>}
+                </p>
+              </div>
+              {senator.url && (
+                <a
+                  href={senator.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-sm text-blue-600 dark:text-blue-400 hover:underline whitespace-nowrap"
+                >
+                  Profile on sencanada.ca
+                </a>
+              )}
+            </div>
+          </div>
+
+          {/* Vote Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: 'Recorded votes', value: voteSummary.total_votes },
+              { label: 'Yea', value: voteSummary.yea_votes },
+              { label: 'Nay', value: voteSummary.nay_votes },
+              { label: 'Abstentions', value: voteSummary.abstentions },
+            ].map((tile) => (
+              <div key={tile.label} className="card">
+                <p className="text-sm text-gray-500 dark:text-gray-400">{tile.label}</p>
+                <p className="text-2xl font-bold text-gray-900 dark:text-gray-100">{tile.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {/* Voting History */}
+          <div className="card">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-6">Senate voting history</h2>
+            {votes.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400 italic">No recorded votes yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100 dark:divide-slate-700">
+                {votes.map((vote) => (
+                  <li key={vote.id} className="py-3 flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-gray-100">{vote.description}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {[formatDate(vote.date), vote.result].filter(Boolean).join(' · ')}
+                        {vote.bill_number && (
+                          <>
+                            {' · '}
+                            <Link href={`/bill/${encodeURIComponent(vote.bill_number)}`} className="text-blue-600 dark:text-blue-400 hover:underline">
+                              Bill {vote.bill_number}
+                            </Link>
+                          </>
+                        )}
+                      </p>
+                    </div>
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap ${VOTE_STYLES[vote.vote_type]}`}>
+                      {vote.vote_type}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { getPartyColors } from '@/lib/utils/party-colors';
+import ThemeToggle from '@/components/ThemeToggle';
+import type { Senator } from '@/types';
+
+export default function SenatorsPage() {
+  const [senators, setSenators] = useState<Senator[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+
+  useEffect(() => {
+    const fetchSenators = async () => {
+      try {
+        const response = await fetch('/api/senators');
+        if (!response.ok) {
+          setError('Failed to load senators');
+          return;
+        }
+        const result = await response.json();
+        setSenators(result.senators);
+      } catch (err) {
+        console.error('Error fetching senators:', err);
+        setError('Failed to load senators');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSenators();
+  }, []);
+
+  const query = searchQuery.trim().toLowerCase();
+  const filtered = query
+    ? senators.filter((senator) =>
+        [senator.name, senator.province, senator.affiliation]
+          .some((value) => value?.toLowerCase().includes(query))
+      )
+    : senators;
+
+  const groups = new Map<string, number>();
+  for (const senator of senators) {
+    const group = senator.affiliation || 'Non-affiliated';
+    groups.set(group, (groups.get(group) || 0) + 1);
+  }
+
+  return (
+    <main className="min-h-screen bg-[#f7f7f7] dark:bg-[#000000]">
+      <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-6 md:py-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div className="flex justify-between items-center mb-4">
+            <Link
+              href="/"
+              className="text-blue-600 dark:text-blue-400 hover:underline text-sm"
+            >
+              ← Back to home
+            </Link>
+            <ThemeToggle />
+          </div>
+
+          <div className="card">
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Senators</h1>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              {senators.length} sitting senators
+              {groups.size > 0 && ` · ${Array.from(groups.entries())
+                .sort((a, b) => b[1] - a[1])
+                .map(([group, count]) => `${group} ${count}`)
+                .join(' · ')}`}
+            </p>
+          </div>
+
+          <div className="card">
+            <input
+              type="text"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              placeholder="Search by name, province or group..."
+              className="w-full px-4 py-2 mb-6 border border-gray-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-gray-900 dark:text-gray-100"
+            />
+
+            {loading ? (
+              <div className="animate-pulse space-y-3">
+                <div className="h-4 bg-gray-200 dark:bg-slate-700 rounded"></div>
+                <div className="h-4 bg-gray-200 dark:bg-slate-700 rounded w-5/6"></div>
+                <div className="h-4 bg-gray-200 dark:bg-slate-700 rounded w-4/6"></div>
+              </div>
+            ) : error ? (
+              <p className="text-red-600 dark:text-red-400">{error}</p>
+            ) : filtered.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400 italic">No senators match your search.</p>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+                {filtered.map((senator) => (
+                  <Link
+                    key={senator.id}
+                    href={`/senator/${senator.senate_id}`}
+                    className="flex items-center gap-3 p-2 rounded-lg hover:bg-gray-50 dark:hover:bg-slate-800/50 transition-colors"
+                  >
+                    <div
+                      className="w-1 self-stretch rounded-full flex-shrink-0"
+                      style={{ backgroundColor: getPartyColors(senator.affiliation).primary }}
+                    />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{senator.name}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                        {[senator.affiliation || 'Non-affiliated', senator.province].filter(Boolean).join(' · ')}
+                      </p>
+                    </div>
+                  </Link>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
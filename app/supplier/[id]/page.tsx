@@ -0,0 +1,255 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { getPartyColors } from '@/lib/utils/party-colors';
+import ThemeToggle from '@/components/ThemeToggle';
+import type { SupplierDetail } from '@/types';
+
+export default function SupplierPage() {
+  const params = useParams();
+  const id = params.id as string;
+  const [supplier, setSupplier] = useState<SupplierDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSupplier = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/suppliers/${encodeURIComponent(id)}`);
+
+        if (!response.ok) {
+          setError(response.status === 404 ? 'Supplier not found' : 'Failed to load supplier data');
+          return;
+        }
+
+        const result = await response.json();
+        setSupplier(result.supplier);
+      } catch (err) {
+        console.error('Error fetching supplier data:', err);
+        setError('Failed to load supplier data');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (id) {
+      fetchSupplier();
+    }
+  }, [id]);
+
+  const formatCurrency = (amount: number): string => {
+    return new Intl.NumberFormat('en-CA', {
+      style: 'currency',
+      currency: 'CAD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  if (loading) {
+    return (
+      <main className="min-h-screen bg-[#f7f7f7] dark:bg-[#000000]">
+        <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-6 md:py-8">
+          <div className="max-w-7xl mx-auto">
+            <div className="flex justify-end mb-4">
+              <ThemeToggle />
+            </div>
+            <div className="card">
+              <div className="animate-pulse">
+                <div className="h-8 bg-gray-200 dark:bg-slate-700 rounded w-1/3 mb-4"></div>
+                <div className="h-6 bg-gray-200 dark:bg-slate-700 rounded w-2/3 mb-8"></div>
+                <div className="space-y-4">
+                  <div className="h-4 bg-gray-200 dark:bg-slate-700 rounded"></div>
+                  <div className="h-4 bg-gray-200 dark:bg-slate-700 rounded w-5/6"></div>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  if (error || !supplier) {
+    return (
+      <main className="min-h-screen bg-[#f7f7f7] dark:bg-[#000000]">
+        <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-6 md:py-8">
+          <div className="max-w-7xl mx-auto">
+            <div className="flex justify-end mb-4">
+              <ThemeToggle />
+            </div>
+            <div className="card">
+              <div className="text-center py-12">
+                <p className="text-red-600 dark:text-red-400 mb-4">{error || 'Supplier not found'}</p>
+                <Link
+                  href="/suppliers"
+                  className="text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  ← All suppliers
+                </Link>
+              </div>
+            </div>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  const otherNames = supplier.names.filter((name) => name !== supplier.name);
+
+  return (
+    <main className="min-h-screen bg-[#f7f7f7] dark:bg-[#000000]">
+      <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-6 md:py-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div className="flex justify-between items-center mb-4">
+            <Link
+              href="/suppliers"
+              className="text-blue-600 dark:text-blue-400 hover:underline text-sm"
+            >
+              ← All suppliers
+            </Link>
+            <ThemeToggle />
+          </div>
+
+          {/* Supplier Header */}
+          <div className="card">
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">{supplier.name}</h1>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              Contract supplier to {supplier.mp_count} {supplier.mp_count === 1 ? 'MP' : 'MPs'}
+            </p>
+            {otherNames.length > 0 && (
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
+                Also listed as: {otherNames.join(' · ')}
+              </p>
+            )}
+          </div>
+
+          {/* Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: 'Total paid', value: formatCurrency(supplier.total) },
+              { label: 'Contracts', value: supplier.contracts },
+              { label: 'MPs', value: supplier.mp_count },
+              { label: 'Largest MP share', value: `${(supplier.top_mp_share * 100).toFixed(0)}%` },
+            ].map((tile) => (
+              <div key={tile.label} className="card">
+                <p className="text-sm text-gray-500 dark:text-gray-400">{tile.label}</p>
+                <p className="text-2xl font-bold text-gray-900 dark:text-gray-100">{tile.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {/* By Party */}
+          <div className="card">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">By party</h2>
+            <div className="flex h-3 rounded-full overflow-hidden mb-4">
+              {supplier.party_totals.map((party) => (
+                <div
+                  key={party.party}
+                  style={{
+                    width: `${supplier.total > 0 ? (party.total / supplier.total) * 100 : 0}%`,
+                    backgroundColor: getPartyColors(party.party).primary,
+                  }}
+                  title={`${party.party}: ${formatCurrency(party.total)}`}
+                />
+              ))}
+            </div>
+            <ul className="space-y-2">
+              {supplier.party_totals.map((party) => (
+                <li key={party.party} className="flex items-center justify-between gap-4 text-sm">
+                  <span className="flex items-center gap-2 text-gray-900 dark:text-gray-100">
+                    <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: getPartyColors(party.party).primary }} />
+                    {party.party}
+                    <span className="text-gray-500 dark:text-gray-400">
+                      ({party.mp_count} {party.mp_count === 1 ? 'MP' : 'MPs'})
+                    </span>
+                  </span>
+                  <span className="font-semibold text-gray-900 dark:text-white tabular-nums">{formatCurrency(party.total)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {/* MPs */}
+          <div className="card">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">MPs</h2>
+            <ul className="divide-y divide-gray-100 dark:divide-slate-700">
+              {supplier.mps.map((mp) => (
+                <li key={mp.mp_id} className="py-3 flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <Link
+                      href={`/mp/${encodeURIComponent(mp.district_name)}`}
+                      className="text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+                    >
+                      {mp.name}
+                    </Link>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {[mp.party_name, mp.district_name].filter(Boolean).join(' · ')}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-sm font-semibold text-gray-900 dark:text-white tabular-nums">{formatCurrency(mp.total)}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {mp.contracts} {mp.contracts === 1 ? 'contract' : 'contracts'} ·{' '}
+                      {supplier.total > 0 ? ((mp.total / supplier.total) * 100).toFixed(0) : 0}%
+                    </p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {/* Contracts */}
+          <div className="card">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Recent contracts</h2>
+            <div className="border border-gray-100 dark:border-slate-700 rounded-xl overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="bg-gray-50 dark:bg-[#0B0F14]/50 border-b border-gray-100 dark:border-slate-700">
+                    <th className="text-left py-2.5 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Date</th>
+                    <th className="text-left py-2.5 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">MP</th>
+                    <th className="text-left py-2.5 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Description</th>
+                    <th className="text-right py-2.5 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {supplier.recent_contracts.map((contract) => (
+                    <tr key={contract.id} className="border-b border-gray-100 dark:border-slate-700 last:border-b-0 align-top">
+                      <td className="py-2.5 px-4 text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                        {contract.contract_date || contract.quarter}
+                        <span className="block text-xs text-gray-500 dark:text-gray-400">FY {contract.fiscal_year}</span>
+                      </td>
+                      <td className="py-2.5 px-4 text-sm">
+                        <Link
+                          href={`/mp/${encodeURIComponent(contract.district_name)}`}
+                          className="text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          {contract.mp_name}
+                        </Link>
+                        {contract.party_name && (
+                          <span className="block text-xs text-gray-500 dark:text-gray-400">{contract.party_name}</span>
+                        )}
+                      </td>
+                      <td className="py-2.5 px-4 text-sm text-gray-700 dark:text-gray-300">{contract.description || '—'}</td>
+                      <td className="py-2.5 px-4 text-right text-sm font-semibold text-gray-900 dark:text-white tabular-nums">
+                        {formatCurrency(contract.total)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {supplier.recent_contracts.length < supplier.contracts && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+                Showing the {supplier.recent_contracts.length} most recent of {supplier.contracts} contracts
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { getPartyColors } from '@/lib/utils/party-colors';
+import ThemeToggle from '@/components/ThemeToggle';
+import type { SupplierIndex, SupplierSort } from '@/types';
+
+const SORT_OPTIONS: Array<{ value: SupplierSort; label: string }> = [
+  { value: 'total', label: 'Total paid' },
+  { value: 'mps', label: 'Number of MPs' },
+  { value: 'contracts', label: 'Number of contracts' },
+  { value: 'name', label: 'Name' },
+];
+
+// A supplier is flagged as concentrated when one MP accounts for this share of its total
+const CONCENTRATION_THRESHOLD = 0.8;
+
+export default function SuppliersPage() {
+  const [data, setData] = useState<SupplierIndex | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [sort, setSort] = useState<SupplierSort>('total');
+
+  useEffect(() => {
+    const fetchSuppliers = async () => {
+      try {
+        setLoading(true);
+        const params = new URLSearchParams({ sort });
+        if (searchQuery.trim()) params.set('q', searchQuery.trim());
+        const response = await fetch(`/api/suppliers?${params.toString()}`);
+        if (!response.ok) {
+          setError('Failed to load suppliers');
+          return;
+        }
+        setData(await response.json());
+        setError(null);
+      } catch (err) {
+        console.error('Error fetching suppliers:', err);
+        setError('Failed to load suppliers');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    // Wait for typing to pause before searching
+    const timeout = setTimeout(fetchSuppliers, 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery, sort]);
+
+  const formatCurrency = (amount: number): string => {
+    return new Intl.NumberFormat('en-CA', {
+      style: 'currency',
+      currency: 'CAD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  return (
+    <main className="min-h-screen bg-[#f7f7f7] dark:bg-[#000000]">
+      <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-6 md:py-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div className="flex justify-between items-center mb-4">
+            <Link
+              href="/"
+              className="text-blue-600 dark:text-blue-400 hover:underline text-sm"
+            >
+              ← Back to home
+            </Link>
+            <ThemeToggle />
+          </div>
+
+          <div className="card">
+            <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100">Contract Suppliers</h1>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              Suppliers paid under contract from MP office budgets, from the Members&apos; Expenditures Reports
+            </p>
+            {data && data.supplier_count > 0 && (
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
+                {data.supplier_count} suppliers · {formatCurrency(data.total)} in contracts ·
+                the 10 largest received {(data.top_ten_share * 100).toFixed(1)}%
+              </p>
+            )}
+          </div>
+
+          <div className="card">
+            <div className="flex flex-col sm:flex-row gap-3 mb-6">
+              <input
+                type="text"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search suppliers..."
+                className="flex-1 px-4 py-2 border border-gray-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-gray-900 dark:text-gray-100"
+              />
+              <select
+                value={sort}
+                onChange={(e) => setSort(e.target.value as SupplierSort)}
+                className="px-4 py-2 border border-gray-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-gray-900 dark:text-gray-100"
+              >
+                {SORT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>Sort by {option.label.toLowerCase()}</option>
+                ))}
+              </select>
+            </div>
+
+            {loading && !data ? (
+              <div className="animate-pulse space-y-3">
+                <div className="h-4 bg-gray-200 dark:bg-slate-700 rounded"></div>
+                <div className="h-4 bg-gray-200 dark:bg-slate-700 rounded w-5/6"></div>
+                <div className="h-4 bg-gray-200 dark:bg-slate-700 rounded w-4/6"></div>
+              </div>
+            ) : error ? (
+              <p className="text-red-600 dark:text-red-400">{error}</p>
+            ) : !data || data.suppliers.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400 italic">
+                {searchQuery ? 'No suppliers match your search.' : 'No contract line items have been imported yet.'}
+              </p>
+            ) : (
+              <div className="border border-gray-100 dark:border-slate-700 rounded-xl overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="bg-gray-50 dark:bg-[#0B0F14]/50 border-b border-gray-100 dark:border-slate-700">
+                      <th className="text-left py-2.5 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Supplier</th>
+                      <th className="text-right py-2.5 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Total paid</th>
+                      <th className="text-right py-2.5 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Contracts</th>
+                      <th className="text-right py-2.5 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">MPs</th>
+                      <th className="text-left py-2.5 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Parties</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.suppliers.map((supplier) => (
+                      <tr key={supplier.slug} className="border-b border-gray-100 dark:border-slate-700 last:border-b-0">
+                        <td className="py-2.5 px-4 text-sm">
+                          <Link href={`/supplier/${supplier.slug}`} className="text-blue-600 dark:text-blue-400 hover:underline">
+                            {supplier.name}
+                          </Link>
+                          {supplier.mp_count > 1 && supplier.top_mp_share >= CONCENTRATION_THRESHOLD && (
+                            <span className="block text-xs text-amber-700 dark:text-amber-400">
+                              {(supplier.top_mp_share * 100).toFixed(0)}% from one MP
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-2.5 px-4 text-right text-sm font-semibold text-gray-900 dark:text-white tabular-nums">
+                          {formatCurrency(supplier.total)}
+                        </td>
+                        <td className="py-2.5 px-4 text-right text-sm text-gray-700 dark:text-gray-300 tabular-nums">{supplier.contracts}</td>
+                        <td className="py-2.5 px-4 text-right text-sm text-gray-700 dark:text-gray-300 tabular-nums">{supplier.mp_count}</td>
+                        <td className="py-2.5 px-4 text-sm">
+                          <div className="flex flex-wrap gap-1">
+                            {supplier.parties.map((party) => (
+                              <span
+                                key={party}
+                                className="px-1.5 py-0.5 rounded text-xs text-white"
+                                style={{ backgroundColor: getPartyColors(party).primary }}
+                              >
+                                {party}
+                              </span>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,428 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { getPartyColors } from '@/lib/utils/party-colors';
+import ThemeToggle from '@/components/ThemeToggle';
+
+type VoteType = 'Yea' | 'Nay' | 'Paired' | 'Abstained' | 'Not Voting';
+
+interface DivisionData {
+  vote_id: string;
+  parliament_number: number;
+  session_number: number;
+  division_number: number;
+  date: string | null;
+  title: string;
+  type: string | null;
+  result: string | null;
+  yeas: number;
+  nays: number;
+  paired: number;
+  margin: number;
+  bill: {
+    id: number;
+    bill_number: string;
+    title: string;
+    status_code: string | null;
+    status: string | null;
+    law: boolean | null;
+    session: string | null;
+  } | null;
+  party_breakdown: Array<{
+    party: string;
+    position: 'Yea' | 'Nay' | 'Split' | null;
+    yea: number;
+    nay: number;
+    paired: number;
+    abstained: number;
+    not_voting: number;
+  }>;
+  ballots: Array<{
+    mp_id: number;
+    mp_name: string;
+    party_name: string | null;
+    district_name: string;
+    photo_url: string | null;
+    vote_type: VoteType;
+    against_party: boolean;
+  }>;
+}
+
+export default function DivisionPage() {
+  const params = useParams();
+  const parliament = params.parliament as string;
+  const session = params.session as string;
+  const number = params.number as string;
+  const [data, setData] = useState<DivisionData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+
+  useEffect(() => {
+    const fetchDivision = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(
+          `/api/vote/${encodeURIComponent(parliament)}/${encodeURIComponent(session)}/${encodeURIComponent(number)}`
+        );
+
+        if (!response.ok) {
+          setError(response.status === 404 ? 'Division not found' : 'Failed to load division data');
+          return;
+        }
+
+        setData(await response.json());
+      } catch (err) {
+        console.error('Error fetching division data:', err);
+        setError('Failed to load division data');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (parliament && session && number) {
+      fetchDivision();
+    }
+  }, [parliament, session, number]);
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return null;
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-CA', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    });
+  };
+
+  const getVoteTypeLabel = (voteType: VoteType) => {
+    switch (voteType) {
+      case 'Yea':
+        return 'Voted For';
+      case 'Nay':
+        return 'Voted Against';
+      case 'Paired':
+        return 'Paired';
+      case 'Abstained':
+        return 'Abstained';
+      case 'Not Voting':
+        return 'Did Not Vote';
+    }
+  };
+
+  const getVoteTypeColor = (voteType: VoteType) => {
+    switch (voteType) {
+      case 'Yea':
+        return 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300 border-green-300 dark:border-green-700';
+      case 'Nay':
+        return 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300 border-red-300 dark:border-red-700';
+      case 'Paired':
+        return 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300 border-yellow-300 dark:border-yellow-700';
+      case 'Abstained':
+        return 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-200 border-gray-300 dark:border-gray-600';
+      case 'Not Voting':
+        return 'bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400 border-gray-300 dark:border-gray-600';
+    }
+  };
+
+  const getPositionBadge = (position: 'Yea' | 'Nay' | 'Split' | null) => {
+    if (!position) {
+      return <span className="text-xs text-gray-400 dark:text-gray-500">—</span>;
+    }
+    const styles = {
+      'Yea': 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300',
+      'Nay': 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300',
+      'Split': 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300',
+    };
+    return (
+      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${styles[position]}`}>
+        {position}
+      </span>
+    );
+  };
+
+  if (loading) {
+    return (
+      <main className="min-h-screen bg-gray-50 dark:bg-[#000000]">
+        <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-6 md:py-8">
+          <div className="max-w-7xl mx-auto">
+            <div className="flex justify-end mb-4">
+              <ThemeToggle />
+            </div>
+            <div className="card">
+              <div className="animate-pulse">
+                <div className="h-8 bg-gray-200 dark:bg-slate-700 rounded w-1/3 mb-4"></div>
+                <div className="h-6 bg-gray-200 dark:bg-slate-700 rounded w-2/3 mb-8"></div>
+                <div className="space-y-4">
+                  <div className="h-4 bg-gray-200 dark:bg-slate-700 rounded"></div>
+                  <div className="h-4 bg-gray-200 dark:bg-slate-700 rounded w-5/6"></div>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <main className="min-h-screen bg-gray-50 dark:bg-[#000000]">
+        <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-6 md:py-8">
+          <div className="max-w-7xl mx-auto">
+            <div className="flex justify-end mb-4">
+              <ThemeToggle />
+            </div>
+            <div className="card">
+              <div className="text-center py-12">
+                <p className="text-red-600 dark:text-red-400 mb-4">{error || 'Division not found'}</p>
+                <Link
+                  href="/"
+                  className="text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  ← Back to home
+                </Link>
+              </div>
+            </div>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  const passed = data.result === 'Agreed To' || data.result === 'Agreed to';
+  const commonsUrl = `https://www.ourcommons.ca/Members/en/votes/${data.parliament_number}/${data.session_number}/${data.division_number}`;
+
+  const filteredBallots = searchQuery.trim()
+    ? data.ballots.filter((ballot) => {
+        const query = searchQuery.toLowerCase();
+        return (
+          ballot.mp_name.toLowerCase().includes(query) ||
+          ballot.district_name.toLowerCase().includes(query)
+        );
+      })
+    : data.ballots;
+
+  const voteTypeOrder: VoteType[] = ['Yea', 'Nay', 'Paired', 'Abstained', 'Not Voting'];
+  const rebels = data.ballots.filter((ballot) => ballot.against_party);
+
+  return (
+    <main className="min-h-screen bg-gray-50 dark:bg-slate-900">
+      <div className="container mx-auto px-3 sm:px-4 py-4 sm:py-6 md:py-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div className="flex justify-between items-center mb-4">
+            <Link
+              href="/"
+              className="text-blue-600 dark:text-blue-400 hover:underline text-sm"
+            >
+              ← Back to home
+            </Link>
+            <ThemeToggle />
+          </div>
+
+          {/* Division Header */}
+          <div className="card">
+            <div className="flex items-center gap-3 mb-3">
+              <h1 className="text-3xl font-bold text-gray-900 dark:text-gray-100 flex-1">
+                Division No. {data.division_number}
+              </h1>
+              <a
+                href={commonsUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-2 text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 hover:underline font-medium text-sm whitespace-nowrap"
+              >
+                View on ourcommons.ca
+              </a>
+            </div>
+            <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-200 mb-6 leading-relaxed">
+              {data.title}
+            </h2>
+
+            <div className="space-y-2 mb-6">
+              {data.result && (
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Result:</span>
+                  <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                    passed
+                      ? 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300'
+                      : 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300'
+                  }`}>
+                    {data.result}
+                  </span>
+                  <span className="text-sm text-gray-600 dark:text-gray-400">
+                    by {data.margin} {data.margin === 1 ? 'vote' : 'votes'}
+                  </span>
+                </div>
+              )}
+              {data.date && (
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Date:</span>
+                  <span className="text-sm text-gray-900 dark:text-gray-100">{formatDate(data.date)}</span>
+                </div>
+              )}
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Session:</span>
+                <span className="text-sm text-gray-900 dark:text-gray-100">
+                  {data.parliament_number}-{data.session_number}
+                </span>
+              </div>
+              {data.type && (
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Type:</span>
+                  <span className="text-sm text-gray-900 dark:text-gray-100">{data.type}</span>
+                </div>
+              )}
+              {data.bill && (
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Bill:</span>
+                  <Link
+                    href={`/bill/${encodeURIComponent(data.bill.bill_number)}`}
+                    className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    {data.bill.bill_number} — {data.bill.title}
+                  </Link>
+                </div>
+              )}
+            </div>
+
+            {/* Tally */}
+            <div className="grid grid-cols-3 gap-4 pt-4 border-t border-gray-200 dark:border-slate-700">
+              <div>
+                <p className="text-2xl font-bold text-green-700 dark:text-green-400">{data.yeas}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">Yeas</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold text-red-700 dark:text-red-400">{data.nays}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">Nays</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold text-yellow-700 dark:text-yellow-400">{data.paired}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">Paired</p>
+              </div>
+            </div>
+          </div>
+
+          {/* Party Breakdown */}
+          <div className="card">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-6">Party Breakdown</h3>
+            {data.party_breakdown.length === 0 ? (
+              <p className="text-gray-500 dark:text-gray-400">No ballots recorded for this division.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-100 dark:border-slate-700">
+                      <th className="text-left py-2 px-2 font-semibold text-gray-700 dark:text-gray-300">Party</th>
+                      <th className="text-left py-2 px-2 font-semibold text-gray-700 dark:text-gray-300">Majority</th>
+                      <th className="text-right py-2 px-2 font-semibold text-gray-700 dark:text-gray-300">Yea</th>
+                      <th className="text-right py-2 px-2 font-semibold text-gray-700 dark:text-gray-300">Nay</th>
+                      <th className="text-right py-2 px-2 font-semibold text-gray-700 dark:text-gray-300">Paired</th>
+                      <th className="text-right py-2 px-2 font-semibold text-gray-700 dark:text-gray-300">Abstained</th>
+                      <th className="text-right py-2 px-2 font-semibold text-gray-700 dark:text-gray-300">Did not vote</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.party_breakdown.map((entry) => (
+                      <tr key={entry.party} className="border-b border-gray-100 dark:border-slate-700">
+                        <td className="py-2 px-2">
+                          <span className="inline-flex items-center gap-2 text-gray-900 dark:text-white">
+                            <span
+                              className="w-2.5 h-2.5 rounded-full flex-shrink-0"
+                              style={{ backgroundColor: getPartyColors(entry.party).primary }}
+                            />
+                            {entry.party}
+                          </span>
+                        </td>
+                        <td className="py-2 px-2">{getPositionBadge(entry.position)}</td>
+                        <td className="text-right py-2 px-2 font-semibold text-green-700 dark:text-green-400">{entry.yea}</td>
+                        <td className="text-right py-2 px-2 font-semibold text-red-700 dark:text-red-400">{entry.nay}</td>
+                        <td className="text-right py-2 px-2 text-gray-600 dark:text-gray-400">{entry.paired}</td>
+                        <td className="text-right py-2 px-2 text-gray-600 dark:text-gray-400">{entry.abstained}</td>
+                        <td className="text-right py-2 px-2 text-gray-600 dark:text-gray-400">{entry.not_voting}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {rebels.length > 0 && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-4">
+                {rebels.length} {rebels.length === 1 ? 'MP' : 'MPs'} voted against their caucus majority (marked below).
+              </p>
+            )}
+          </div>
+
+          {/* Ballots */}
+          <div className="card">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-6">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">MP Ballots</h3>
+              {data.ballots.length > 0 && (
+                <input
+                  type="text"
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  placeholder="Search by MP name or district"
+                  className="w-full sm:w-64 px-3 py-2 text-sm rounded-lg border border-gray-200 dark:border-slate-700 bg-white dark:bg-[#0B0F14] text-gray-900 dark:text-white focus:outline-none focus:ring-2"
+                />
+              )}
+            </div>
+
+            {data.ballots.length === 0 ? (
+              <p className="text-gray-500 dark:text-gray-400">No ballots recorded for this division.</p>
+            ) : filteredBallots.length === 0 ? (
+              <p className="text-gray-500 dark:text-gray-400">No MPs match your search.</p>
+            ) : (
+              <div className="space-y-8">
+                {voteTypeOrder.map((voteType) => {
+                  const ballots = filteredBallots.filter((ballot) => ballot.vote_type === voteType);
+                  if (ballots.length === 0) return null;
+
+                  return (
+                    <div key={voteType} className="space-y-4">
+                      <h4 className={`inline-block text-base font-semibold px-3 py-1 rounded border ${getVoteTypeColor(voteType)}`}>
+                        {getVoteTypeLabel(voteType)} ({ballots.length})
+                      </h4>
+                      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-2">
+                        {ballots.map((ballot) => (
+                          <Link
+                            key={ballot.mp_id}
+                            href={`/mp/${encodeURIComponent(ballot.district_name)}`}
+                            className="flex items-center gap-3 px-3 py-2 rounded border border-gray-200 dark:border-slate-700 hover:bg-gray-50 dark:hover:bg-[#0B0F14] transition-colors"
+                          >
+                            <div
+                              className="w-1 self-stretch rounded-full flex-shrink-0"
+                              style={{ backgroundColor: getPartyColors(ballot.party_name).primary }}
+                            />
+                            <div className="min-w-0 flex-1">
+                              <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                                {ballot.mp_name}
+                              </div>
+                              <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5 truncate">
+                                {ballot.district_name}
+                              </div>
+                            </div>
+                            {ballot.against_party && (
+                              <span
+                                className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-orange-100 dark:bg-orange-900/30 text-orange-800 dark:text-orange-300 whitespace-nowrap"
+                                title="Voted against the caucus majority"
+                              >
+                                Broke ranks
+                              </span>
+                            )}
+                          </Link>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
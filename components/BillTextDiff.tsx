@@ -0,0 +1,182 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { BillTextDiff as BillTextDiffType, BillTextVersion, ClauseChange } from '@/lib/utils/bill-text';
+
+interface BillTextDiffProps {
+  billNumber: string;
+  session: string | null;
+  versions: BillTextVersion[];
+}
+
+const STATUS_STYLES: Record<ClauseChange['status'], { label: string; className: string }> = {
+  added: { label: 'Added', className: 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300' },
+  deleted: { label: 'Deleted', className: 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300' },
+  changed: { label: 'Amended', className: 'bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300' },
+  unchanged: { label: 'Unchanged', className: 'bg-gray-100 dark:bg-slate-800 text-gray-600 dark:text-gray-400' },
+};
+
+function versionLabel(version: BillTextVersion): string {
+  if (!version.published_at) return version.version_name;
+  const date = new Date(version.published_at).toLocaleDateString('en-CA', { year: 'numeric', month: 'short', day: 'numeric' });
+  return `${version.version_name} (${date})`;
+}
+
+function clauseLabel(change: ClauseChange): string {
+  if (change.from_label && change.to_label && change.from_label !== change.to_label) {
+    return `Clause ${change.from_label} → ${change.to_label}`;
+  }
+  const label = change.to_label || change.from_label;
+  return label === 'Preamble' ? 'Preamble' : `Clause ${label}`;
+}
+
+export default function BillTextDiff({ billNumber, session, versions }: BillTextDiffProps) {
+  const [fromVersion, setFromVersion] = useState(versions[0].version_number);
+  const [toVersion, setToVersion] = useState(versions[versions.length - 1].version_number);
+  const [diff, setDiff] = useState<BillTextDiffType | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  useEffect(() => {
+    if (fromVersion === toVersion) {
+      setDiff(null);
+      return;
+    }
+
+    const params = new URLSearchParams({ from: String(fromVersion), to: String(toVersion) });
+    if (session) params.set('session', session);
+
+    setLoading(true);
+    setError(null);
+    fetch(`/api/bill/${encodeURIComponent(billNumber)}/texts?${params}`)
+      .then((response) => {
+        if (!response.ok) throw new Error('Failed to load comparison');
+        return response.json();
+      })
+      .then((result) => setDiff(result.diff))
+      .catch((err) => {
+        console.error('Error fetching bill text diff:', err);
+        setError('Failed to load comparison');
+      })
+      .finally(() => setLoading(false));
+  }, [billNumber, session, fromVersion, toVersion]);
+
+  const changes = diff ? diff.changes.filter((change) => showUnchanged || change.status !== 'unchanged') : [];
+
+  return (
+    <div className="card">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-1">
+        Changes Between Versions
+      </h3>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+        Compare the published text of this bill clause by clause.
+      </p>
+
+      <div className="flex flex-col sm:flex-row gap-3 mb-6">
+        <label className="flex-1 text-sm text-gray-700 dark:text-gray-300">
+          <span className="block mb-1 font-medium">From</span>
+          <select
+            value={fromVersion}
+            onChange={(e) => setFromVersion(parseInt(e.target.value, 10))}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-gray-900 dark:text-gray-100"
+          >
+            {versions.map((version) => (
+              <option key={version.version_number} value={version.version_number}>
+                {versionLabel(version)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex-1 text-sm text-gray-700 dark:text-gray-300">
+          <span className="block mb-1 font-medium">To</span>
+          <select
+            value={toVersion}
+            onChange={(e) => setToVersion(parseInt(e.target.value, 10))}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-gray-900 dark:text-gray-100"
+          >
+            {versions.map((version) => (
+              <option key={version.version_number} value={version.version_number}>
+                {versionLabel(version)}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {fromVersion === toVersion ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 italic">Pick two different versions to compare.</p>
+      ) : loading ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Comparing versions...</p>
+      ) : error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      ) : diff && (
+        <>
+          <div className="flex flex-wrap items-center gap-2 mb-4 text-xs">
+            {(['changed', 'added', 'deleted', 'unchanged'] as const).map((status) => (
+              <span key={status} className={`px-2 py-1 rounded-full font-medium ${STATUS_STYLES[status].className}`}>
+                {diff.summary[status]} {STATUS_STYLES[status].label.toLowerCase()}
+              </span>
+            ))}
+            <label className="ml-auto flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+              <input
+                type="checkbox"
+                checked={showUnchanged}
+                onChange={(e) => setShowUnchanged(e.target.checked)}
+              />
+              Show unchanged clauses
+            </label>
+          </div>
+
+          {changes.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400 italic">No clause changes between these versions.</p>
+          ) : (
+            <div className="space-y-3">
+              {changes.map((change, index) => (
+                <div key={index} className="border border-gray-200 dark:border-slate-700 rounded-lg p-3">
+                  <div className="flex items-center gap-2 mb-2">
+                    <span className="text-sm font-semibold text-gray-900 dark:text-gray-100">{clauseLabel(change)}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[change.status].className}`}>
+                      {STATUS_STYLES[change.status].label}
+                    </span>
+                  </div>
+                  {change.status === 'changed' && change.words ? (
+                    <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-line">
+                      {change.words.map((word, wordIndex) => (
+                        <span
+                          key={wordIndex}
+                          className={
+                            word.type === 'added'
+                              ? 'bg-green-100 dark:bg-green-900/40 text-green-900 dark:text-green-200'
+                              : word.type === 'deleted'
+                                ? 'bg-red-100 dark:bg-red-900/40 text-red-900 dark:text-red-200 line-through'
+                                : undefined
+                          }
+                        >
+                          {word.text}{' '}
+                        </span>
+                      ))}
+                    </p>
+                  ) : (
+                    <>
+                      {change.from_text && (
+                        <p className="text-sm whitespace-pre-line bg-red-50 dark:bg-red-900/20 text-red-900 dark:text-red-200 line-through rounded p-2 mb-2">
+                          {change.from_text}
+                        </p>
+                      )}
+                      {change.to_text && (
+                        <p className="text-sm whitespace-pre-line bg-green-50 dark:bg-green-900/20 text-green-900 dark:text-green-200 rounded p-2">
+                          {change.to_text}
+                        </p>
+                      )}
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import type { BillStage } from '@/types';
+import { CHAMBER_STAGES, ROYAL_ASSENT_STAGE, getChamberOrder } from '@/lib/utils/bill-stages';
+
+interface BillTimelineProps {
+  billNumber: string;
+  stages: BillStage[];
+}
+
+type StageStatus = 'completed' | 'current' | 'pending';
+
+function formatStageDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString('en-CA', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+export default function BillTimeline({ billNumber, stages }: BillTimelineProps) {
+  const recorded = new Map(stages.map((stage) => [`${stage.chamber}:${stage.stage}`, stage]));
+
+  // Every stage the bill can pass through, so upcoming ones are shown too
+  const steps = [
+    ...getChamberOrder(billNumber).flatMap((chamber) =>
+      CHAMBER_STAGES.map(({ stage, name }) => ({ chamber, stage, name }))
+    ),
+    { chamber: 'Royal Assent' as const, ...ROYAL_ASSENT_STAGE },
+  ].map((step) => {
+    const stage = recorded.get(`${step.chamber}:${step.stage}`);
+    const status: StageStatus = stage?.completed_at ? 'completed' : stage ? 'current' : 'pending';
+    return { ...step, completedAt: stage?.completed_at || null, status };
+  });
+
+  const chambers = Array.from(new Set(steps.map((step) => step.chamber)));
+
+  return (
+    <div className="card">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100 mb-1">
+        Legislative Timeline
+      </h3>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+        Where this bill is in the legislative process, from LEGISinfo.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {chambers.map((chamber) => (
+          <div key={chamber}>
+            <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">
+              {chamber === 'House' ? 'House of Commons' : chamber}
+            </h4>
+            <ol className="relative border-l border-gray-200 dark:border-slate-700 ml-1.5 space-y-4">
+              {steps.filter((step) => step.chamber === chamber).map((step) => (
+                <li key={step.stage} className="ml-4">
+                  <span
+                    className={`absolute -left-1.5 mt-1 w-3 h-3 rounded-full border-2 ${
+                      step.status === 'completed'
+                        ? 'bg-green-500 border-green-500'
+                        : step.status === 'current'
+                          ? 'bg-white dark:bg-slate-900 border-blue-500'
+                          : 'bg-white dark:bg-slate-900 border-gray-300 dark:border-slate-600'
+                    }`}
+                  />
+                  <p
+                    className={`text-sm font-medium ${
+                      step.status === 'pending'
+                        ? 'text-gray-400 dark:text-gray-500'
+                        : 'text-gray-900 dark:text-gray-100'
+                    }`}
+                  >
+                    {step.name}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {step.status === 'completed' && step.completedAt
+                      ? formatStageDate(step.completedAt)
+                      : step.status === 'current'
+                        ? 'In progress'
+                        : 'Not yet reached'}
+                  </p>
+                </li>
+              ))}
+            </ol>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import type { CategoryVotingProfile as CategoryVotingProfileType } from '@/types';
+import type { PartyColors } from '@/lib/utils/party-colors';
+
+interface CategoryVotingProfileProps {
+  profile: CategoryVotingProfileType[];
+  partyColors: PartyColors;
+}
+
+export default function CategoryVotingProfile({ profile, partyColors }: CategoryVotingProfileProps) {
+  const categories = profile.filter((category) => category.total_votes > 0);
+
+  return (
+    <div className="card">
+      <h2 className="text-lg font-semibold text-gray-800 dark:text-gray-100 mb-1">
+        Votes by Policy Area
+      </h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+        How this MP voted on bills in each category this session, and how often they voted with their caucus.
+      </p>
+
+      {categories.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 italic">
+          No votes on categorized bills yet this session.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {categories.map((category) => {
+            const yeaWidth = (category.yea_votes / category.total_votes) * 100;
+            const nayWidth = (category.nay_votes / category.total_votes) * 100;
+            const absentWidth = (category.absent_votes / category.total_votes) * 100;
+            return (
+              <div key={category.category_slug}>
+                <div className="flex justify-between items-baseline gap-2 mb-1">
+                  <span className="text-sm font-medium text-gray-800 dark:text-gray-100 truncate">
+                    {category.category_name}
+                  </span>
+                  <span
+                    className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap cursor-help"
+                    title={`${category.votes_with_party} with party, ${category.votes_against_party} against party`}
+                  >
+                    {category.total_votes} {category.total_votes === 1 ? 'vote' : 'votes'} ·{' '}
+                    <span className="font-semibold" style={{ color: partyColors.primary }}>
+                      {category.loyalty_percentage.toFixed(0)}%
+                    </span>{' '}
+                    with party
+                  </span>
+                </div>
+                <div
+                  className="flex h-2.5 rounded-full overflow-hidden bg-gray-100 dark:bg-slate-800"
+                  title={`${category.yea_votes} Yea, ${category.nay_votes} Nay, ${category.absent_votes} absent`}
+                >
+                  <div className="h-full bg-green-500" style={{ width: `${yeaWidth}%` }} />
+                  <div className="h-full bg-red-500" style={{ width: `${nayWidth}%` }} />
+                  <div className="h-full bg-gray-300 dark:bg-slate-600" style={{ width: `${absentWidth}%` }} />
+                </div>
+              </div>
+            );
+          })}
+
+          <div className="flex flex-wrap gap-4 pt-2 text-xs text-gray-500 dark:text-gray-400">
+            <span className="flex items-center gap-1.5"><span className="w-2.5 h-2.5 rounded-full bg-green-500" />Yea</span>
+            <span className="flex items-center gap-1.5"><span className="w-2.5 h-2.5 rounded-full bg-red-500" />Nay</span>
+            <span className="flex items-center gap-1.5"><span className="w-2.5 h-2.5 rounded-full bg-gray-300 dark:bg-slate-600" />Paired, abstained or absent</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
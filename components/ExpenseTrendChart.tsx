@@ -0,0 +1,102 @@
+'use client';
+
+import type { ExpenseQuarter } from '@/types';
+
+type ExpenseCategoryKey = 'staff_salaries' | 'travel' | 'hospitality' | 'contracts';
+
+interface ExpenseTrendChartProps {
+  quarters: ExpenseQuarter[];
+  categories: Array<{
+    key: ExpenseCategoryKey;
+    label: string;
+    color: string;
+  }>;
+  formatCurrency: (amount: number) => string;
+}
+
+// A quarter this much above the previous one is flagged as a spike
+const SPIKE_THRESHOLD_PERCENTAGE = 25;
+
+export default function ExpenseTrendChart({ quarters, categories, formatCurrency }: ExpenseTrendChartProps) {
+  const maxTotal = Math.max(...quarters.map((quarter) => quarter.total), 0);
+  const latest = quarters[quarters.length - 1];
+
+  if (!latest || maxTotal === 0) {
+    return null;
+  }
+
+  const formatChange = (quarter: ExpenseQuarter) => {
+    if (quarter.change_percentage === null) return null;
+    const arrow = quarter.change_percentage >= 0 ? '▲' : '▼';
+    return `${arrow} ${Math.abs(quarter.change_percentage).toFixed(1)}%`;
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3 flex-wrap gap-2">
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Quarterly trend</h3>
+        <div className="flex items-center gap-3 flex-wrap">
+          {categories.map((category) => (
+            <span key={category.key} className="flex items-center gap-1.5 text-xs text-gray-600 dark:text-gray-400">
+              <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: category.color }} />
+              {category.label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-end gap-1 sm:gap-2 h-40">
+        {quarters.map((quarter) => {
+          const isSpike = quarter.change_percentage !== null && quarter.change_percentage >= SPIKE_THRESHOLD_PERCENTAGE;
+          const tooltip = [
+            `Q${quarter.quarter_number} FY ${quarter.fiscal_year} (${quarter.period})`,
+            ...categories.map((category) => `${category.label}: ${formatCurrency(quarter[category.key])}`),
+            `Total: ${formatCurrency(quarter.total)}`,
+            formatChange(quarter) && `${formatChange(quarter)} vs previous quarter`,
+          ].filter(Boolean).join('\n');
+
+          return (
+            <div key={quarter.quarter} className="flex-1 h-full flex flex-col justify-end items-center min-w-0" title={tooltip}>
+              {isSpike && (
+                <span className="text-[10px] text-red-600 dark:text-red-400 mb-0.5">▲</span>
+              )}
+              <div
+                className="w-full flex flex-col-reverse rounded-t overflow-hidden"
+                style={{ height: `${(quarter.total / maxTotal) * 100}%` }}
+              >
+                {categories.map((category) => (
+                  <div
+                    key={category.key}
+                    style={{
+                      height: quarter.total > 0 ? `${(quarter[category.key] / quarter.total) * 100}%` : 0,
+                      backgroundColor: category.color,
+                    }}
+                  />
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-1 sm:gap-2 mt-1.5">
+        {quarters.map((quarter, index) => {
+          const startsFiscalYear = index === 0 || quarters[index - 1].fiscal_year !== quarter.fiscal_year;
+          return (
+            <div key={quarter.quarter} className="flex-1 min-w-0 text-center">
+              <p className="text-[10px] sm:text-xs text-gray-600 dark:text-gray-400">Q{quarter.quarter_number}</p>
+              {startsFiscalYear && (
+                <p className="text-[10px] text-gray-400 dark:text-gray-500 truncate">FY {quarter.fiscal_year}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-3">
+        Latest quarter ({latest.period}): {formatCurrency(latest.total)}
+        {formatChange(latest) && <> · {formatChange(latest)} vs previous quarter</>}
+      </p>
+    </div>
+  );
+}
@@ -2,6 +2,11 @@
 
 import { useState } from 'react';
 import type { PartyColors } from '@/lib/utils/party-colors';
+import type { ExpenseQuarter, ExpenseBenchmarks, ExpenseBenchmark } from '@/types';
+import { getFiscalYearLabel } from '@/lib/utils/fiscal-quarters';
+import { formatPercentile, RIDING_SIZE_LABELS } from '@/lib/utils/expense-benchmarks';
+import { getProvinceAbbreviation } from '@/lib/utils/ridings';
+import ExpenseTrendChart from './ExpenseTrendChart';
 
 interface MPExpenses {
   total_staff_salaries: number;
@@ -13,6 +18,8 @@ interface MPExpenses {
     quarter_number: number;
     quarter: string;
   }>;
+  quarters?: ExpenseQuarter[];
+  benchmarks?: ExpenseBenchmarks | null;
 }
 
 interface MPExpensesProps {
@@ -34,6 +41,7 @@ export default function MPExpenses({ expenses, partyColors }: MPExpensesProps) {
 
   const expenseItems = [
     {
+      key: 'staff_salaries' as const,
       label: 'Staff Salaries',
       value: expenses.total_staff_salaries,
       description: 'Total staff salary expenses across all quarters',
@@ -41,6 +49,7 @@ export default function MPExpenses({ expenses, partyColors }: MPExpensesProps) {
       colorLight: '#DBEAFE', // Light blue for backgrounds
     },
     {
+      key: 'travel' as const,
       label: 'Travel',
       value: expenses.total_travel,
       description: 'Total travel expenses across all quarters',
@@ -48,6 +57,7 @@ export default function MPExpenses({ expenses, partyColors }: MPExpensesProps) {
       colorLight: '#CCFBF1', // Light teal for backgrounds
     },
     {
+      key: 'hospitality' as const,
       label: 'Hospitality',
       value: expenses.total_hospitality,
       description: 'Total hospitality expenses across all quarters',
@@ -55,6 +65,7 @@ export default function MPExpenses({ expenses, partyColors }: MPExpensesProps) {
       colorLight: '#FEF3C7', // Light amber for backgrounds
     },
     {
+      key: 'contracts' as const,
       label: 'Contracts',
       value: expenses.total_contracts,
       description: 'Total contract expenses across all quarters',
@@ -81,15 +92,7 @@ export default function MPExpenses({ expenses, partyColors }: MPExpensesProps) {
     const fiscalYearMap = new Map<string, Set<number>>();
     
     expenses.processedQuarters.forEach((q) => {
-      // Canadian fiscal year runs from April 1 to March 31
-      // Q1 = Apr-Jun, Q2 = Jul-Sep, Q3 = Oct-Dec, Q4 = Jan-Mar
-      let fiscalYearKey: string;
-      if (q.quarter_number === 4) {
-        fiscalYearKey = `${q.year - 1}-${q.year}`;
-      } else {
-        fiscalYearKey = `${q.year}-${q.year + 1}`;
-      }
-      
+      const fiscalYearKey = getFiscalYearLabel(q.year, q.quarter_number);
       if (!fiscalYearMap.has(fiscalYearKey)) {
         fiscalYearMap.set(fiscalYearKey, new Set());
       }
@@ -112,6 +115,38 @@ export default function MPExpenses({ expenses, partyColors }: MPExpensesProps) {
   };
 
   const timeframePill = formatTimeframePill();
+  const quarters = expenses.quarters || [];
+
+  const formatChange = (quarter: ExpenseQuarter) => {
+    if (quarter.change === null) return '—';
+    const sign = quarter.change >= 0 ? '+' : '−';
+    const percentage = quarter.change_percentage !== null ? ` (${sign}${Math.abs(quarter.change_percentage).toFixed(1)}%)` : '';
+    return `${sign}${formatCurrency(Math.abs(quarter.change))}${percentage}`;
+  };
+
+  const benchmarks = expenses.benchmarks;
+  const benchmarkLabels: Record<ExpenseBenchmark['category'], string> = {
+    staff_salaries: 'Staff Salaries',
+    travel: 'Travel',
+    hospitality: 'Hospitality',
+    contracts: 'Contracts',
+    total: 'Total',
+  };
+
+  // e.g. "92nd percentile nationally · 40th among BC MPs · 71st in party"
+  const formatBenchmark = (benchmark: ExpenseBenchmark) => {
+    const parts = [`${formatPercentile(benchmark.national.percentile)} percentile nationally`];
+    if (benchmark.province && benchmarks?.province) {
+      parts.push(`${formatPercentile(benchmark.province.percentile)} among ${getProvinceAbbreviation(benchmarks.province)} MPs`);
+    }
+    if (benchmark.party && benchmarks?.party_name) {
+      parts.push(`${formatPercentile(benchmark.party.percentile)} among ${benchmarks.party_name} MPs`);
+    }
+    if (benchmark.riding_size && benchmarks?.riding_size) {
+      parts.push(`${formatPercentile(benchmark.riding_size.percentile)} among ${RIDING_SIZE_LABELS[benchmarks.riding_size]}`);
+    }
+    return parts.join(' · ');
+  };
 
   return (
     <div className="card">
@@ -176,9 +211,38 @@ export default function MPExpenses({ expenses, partyColors }: MPExpensesProps) {
         </div>
       </div>
 
+      {benchmarks && benchmarks.categories.length > 0 && (
+        <div className="mb-6">
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+            Compared with other MPs (FY {benchmarks.fiscal_year})
+          </h3>
+          <div className="flex flex-wrap gap-2">
+            {benchmarks.categories.map((benchmark) => (
+              <span
+                key={benchmark.category}
+                className="px-2.5 py-1 rounded-full text-xs bg-gray-50 dark:bg-slate-800 text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-slate-700"
+                title={`${formatCurrency(benchmark.amount)} in FY ${benchmarks.fiscal_year}, compared with ${benchmark.national.peers} MPs`}
+              >
+                <span className="font-medium text-gray-900 dark:text-white">{benchmarkLabels[benchmark.category]}:</span>{' '}
+                {formatBenchmark(benchmark)}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
       {viewMode === 'chart' ? (
         /* Bar Chart View */
         <div className="space-y-4">
+          {quarters.length > 1 && (
+            <div className="pb-6 mb-2 border-b border-gray-100 dark:border-slate-700">
+              <ExpenseTrendChart
+                quarters={quarters}
+                categories={expenseItems}
+                formatCurrency={formatCurrency}
+              />
+            </div>
+          )}
           {expenseItemsWithPercentage.map((item) => (
             <div key={item.label} className="group">
               <div className="flex items-center justify-between mb-1.5">
@@ -277,6 +341,52 @@ export default function MPExpenses({ expenses, partyColors }: MPExpensesProps) {
           </table>
         </div>
       )}
+
+      {viewMode === 'table' && quarters.length > 0 && (
+        <div className="mt-6 border border-gray-100 dark:border-slate-700 rounded-xl overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="bg-gray-50 dark:bg-[#0B0F14]/50 border-b border-gray-100 dark:border-slate-700">
+                <th className="text-left py-2.5 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Quarter</th>
+                {expenseItems.map((item) => (
+                  <th key={item.key} className="text-right py-2.5 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                    {item.label}
+                  </th>
+                ))}
+                <th className="text-right py-2.5 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Total</th>
+                <th className="text-right py-2.5 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300 whitespace-nowrap">vs. Previous</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...quarters].reverse().map((quarter) => (
+                <tr key={quarter.quarter} className="border-b border-gray-100 dark:border-slate-700 last:border-b-0">
+                  <td className="py-2.5 px-4 text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                    Q{quarter.quarter_number} FY {quarter.fiscal_year}
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">{quarter.period}</span>
+                  </td>
+                  {expenseItems.map((item) => (
+                    <td key={item.key} className="py-2.5 px-4 text-right text-sm text-gray-700 dark:text-gray-300 tabular-nums">
+                      {formatCurrency(quarter[item.key])}
+                    </td>
+                  ))}
+                  <td className="py-2.5 px-4 text-right text-sm font-semibold text-gray-900 dark:text-white tabular-nums">
+                    {formatCurrency(quarter.total)}
+                  </td>
+                  <td
+                    className={`py-2.5 px-4 text-right text-sm tabular-nums whitespace-nowrap ${
+                      quarter.change !== null && quarter.change > 0
+                        ? 'text-red-600 dark:text-red-400'
+                        : 'text-gray-600 dark:text-gray-400'
+                    }`}
+                  >
+                    {formatChange(quarter)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
     </div>
   );
 }
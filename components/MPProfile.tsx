@@ -1,9 +1,12 @@
 'use client';
 
 import { useState } from 'react';
-import type { MP, PartyLoyaltyStats, MotionBreakdown, VotingRecord } from '@/types';
-import type { PartyColors } from '@/lib/utils/party-colors';
+import type { MP, PartyLoyaltyStats, MotionBreakdown, VotingRecord, PartyHistory, MembershipEvent } from '@/types';
+import { getPartyColors, type PartyColors } from '@/lib/utils/party-colors';
+import { mergeMembershipSpans } from '@/lib/utils/memberships';
 import { getPartyLogo } from '@/lib/utils/party-logos';
+import { getRidingSlug } from '@/lib/utils/ridings';
+import { formatOrdinal } from '@/lib/utils/format';
 import Link from 'next/link';
 import KPITile from './KPITile';
 
@@ -19,15 +22,23 @@ interface MPProfileProps {
   partyLoyalty?: PartyLoyaltyStats | null;
   motions?: MotionBreakdown | null;
   votingRecord?: VotingRecord | null;
+  partyHistory?: PartyHistory | null;
 }
 
+const EVENT_LABELS: Record<MembershipEvent['event_type'], string> = {
+  'party-change': 'Changed party',
+  'riding-change': 'Changed riding',
+  'vacancy': 'Left office',
+};
+
 export default function MPProfile({ 
   mp, 
   partyColors,
   expenses,
   partyLoyalty,
   motions,
-  votingRecord
+  votingRecord,
+  partyHistory
 }: MPProfileProps) {
   const [emailCopied, setEmailCopied] = useState(false);
   const [phoneCopied, setPhoneCopied] = useState(false);
@@ -76,17 +87,35 @@ export default function MPProfile({
   const formatCurrency = (amount: number) => {
     return `$${amount.toLocaleString('en-CA', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
   };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString.substring(0, 10)).toLocaleDateString('en-CA', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      timeZone: 'UTC',
+    });
+  };
+
+  const membershipSpans = partyHistory ? mergeMembershipSpans(partyHistory.memberships) : [];
+  const membershipEvents = partyHistory?.events || [];
   
   return (
     <>
       {/* Breadcrumb */}
-      <div className="mb-4">
+      <div className="mb-4 flex justify-between items-center">
         <Link
           href="/"
           className="text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors text-sm inline-flex items-center gap-1"
         >
           ← Search
         </Link>
+        <Link
+          href={`/compare?mps=${encodeURIComponent(mp.district_name)}`}
+          className="text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors text-sm"
+        >
+          Compare with another MP →
+        </Link>
       </div>
 
       {/* Hero Section */}
@@ -109,7 +138,9 @@ export default function MPProfile({
                 {mp.name}
               </h1>
               <p className="text-base text-gray-600 dark:text-gray-300 break-words leading-relaxed">
-                {mp.district_name}
+                <Link href={`/riding/${getRidingSlug(mp.district_name)}`} className="hover:underline">
+                  {mp.district_name}
+                </Link>
               </p>
               {partyLogo && (
                 <div className="mt-1 mb-1">
@@ -252,6 +283,51 @@ export default function MPProfile({
           </div>
         )}
       </div>
+
+      {/* Party History */}
+      {(membershipSpans.length > 1 || membershipEvents.length > 0) && (
+        <div className="card">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">Party history</h2>
+          {membershipSpans.length > 0 && (
+            <ol className="space-y-3">
+              {[...membershipSpans].reverse().map((span) => (
+                <li key={span.start_date} className="flex items-start gap-3">
+                  <span
+                    className="mt-1.5 w-2.5 h-2.5 rounded-full flex-shrink-0"
+                    style={{ backgroundColor: getPartyColors(span.party_name).primary }}
+                  />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                      {span.party_name || 'Independent'} · {span.district_name}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {formatDate(span.start_date)} – {span.end_date ? formatDate(span.end_date) : 'present'}
+                      {span.parliaments.length > 0 && (
+                        <> · {span.parliaments.map(formatOrdinal).join(', ')} Parliament</>
+                      )}
+                    </p>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+          {membershipEvents.length > 0 && (
+            <div className={membershipSpans.length > 0 ? 'mt-6 pt-4 border-t border-gray-100 dark:border-slate-700' : ''}>
+              <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Detected changes</h3>
+              <ul className="space-y-1">
+                {membershipEvents.map((event) => (
+                  <li key={event.id} className="text-sm text-gray-600 dark:text-gray-300">
+                    <span className="font-medium text-gray-900 dark:text-gray-100">{EVENT_LABELS[event.event_type]}</span>
+                    {event.old_value && <>: {event.old_value}</>}
+                    {event.new_value && <> → {event.new_value}</>}
+                    <span className="text-xs text-gray-500 dark:text-gray-400"> · {formatDate(event.detected_at)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
     </>
   );
 }
@@ -0,0 +1,244 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { MPTravel, TravelTrip } from '@/types';
+
+interface MPTravelClaimsProps {
+  travel: MPTravel;
+}
+
+type SortKey = 'date' | 'destination' | 'transportation' | 'accommodation' | 'meals_incidentals' | 'total';
+
+// Destinations listed in the summary before "Show all"
+const DESTINATION_PREVIEW_COUNT = 8;
+
+const selectClassName = 'px-3 py-1.5 border border-gray-300 dark:border-slate-600 rounded-full text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:ring-offset-2 dark:focus:ring-offset-[#0B0F14] focus:border-blue-500 dark:focus:border-blue-400 bg-white dark:bg-[#0B0F14] text-gray-900 dark:text-gray-100 appearance-none cursor-pointer';
+const selectStyle = { backgroundImage: "url(\"data:image/svg+xml,%3csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 20 20'%3e%3cpath stroke='%236b7280' stroke-linecap='round' stroke-linejoin='round' stroke-width='1.5' d='M6 8l4 4 4-4'/%3e%3c/svg%3e\")", backgroundPosition: 'right 0.5rem center', backgroundRepeat: 'no-repeat', backgroundSize: '1.5em 1.5em', paddingRight: '2.5rem' };
+
+export default function MPTravelClaims({ travel }: MPTravelClaimsProps) {
+  const [searchQuery, setSearchQuery] = useState('');
+  const [selectedFiscalYear, setSelectedFiscalYear] = useState('all');
+  const [selectedTravellerType, setSelectedTravellerType] = useState('all');
+  const [sortKey, setSortKey] = useState<SortKey>('date');
+  const [sortDescending, setSortDescending] = useState(true);
+  const [showAllDestinations, setShowAllDestinations] = useState(false);
+
+  const formatCurrency = (amount: number): string => {
+    return new Intl.NumberFormat('en-CA', {
+      style: 'currency',
+      currency: 'CAD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatDates = (trip: TravelTrip) => {
+    if (!trip.start_date) return `Q${trip.quarter_number} FY ${trip.fiscal_year}`;
+    if (!trip.end_date || trip.end_date === trip.start_date) return trip.start_date;
+    return `${trip.start_date} – ${trip.end_date}`;
+  };
+
+  const fiscalYears = useMemo(
+    () => Array.from(new Set(travel.trips.map((trip) => trip.fiscal_year))).sort().reverse(),
+    [travel.trips]
+  );
+
+  const travellerTypes = useMemo(
+    () => Array.from(new Set(
+      travel.trips.flatMap((trip) => trip.travellers.map((traveller) => traveller.type).filter((type): type is string => Boolean(type)))
+    )).sort(),
+    [travel.trips]
+  );
+
+  const filteredTrips = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    const trips = travel.trips.filter((trip) => {
+      if (selectedFiscalYear !== 'all' && trip.fiscal_year !== selectedFiscalYear) return false;
+      if (selectedTravellerType !== 'all' && !trip.travellers.some((traveller) => traveller.type === selectedTravellerType)) {
+        return false;
+      }
+      if (!query) return true;
+      return [trip.origin, trip.destination, trip.purpose, trip.claim_number, ...trip.travellers.map((traveller) => traveller.name)]
+        .some((value) => value?.toLowerCase().includes(query));
+    });
+
+    const direction = sortDescending ? -1 : 1;
+    return [...trips].sort((a, b) => {
+      if (sortKey === 'date') return direction * (a.start_date || '').localeCompare(b.start_date || '');
+      if (sortKey === 'destination') return direction * (a.destination || '').localeCompare(b.destination || '');
+      return direction * (a[sortKey] - b[sortKey]);
+    });
+  }, [travel.trips, searchQuery, selectedFiscalYear, selectedTravellerType, sortKey, sortDescending]);
+
+  const filteredTotal = filteredTrips.reduce((sum, trip) => sum + trip.total, 0);
+  const destinations = showAllDestinations
+    ? travel.destinations
+    : travel.destinations.slice(0, DESTINATION_PREVIEW_COUNT);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDescending(!sortDescending);
+    } else {
+      setSortKey(key);
+      setSortDescending(key !== 'destination');
+    }
+  };
+
+  const sortableHeader = (key: SortKey, label: string, align: 'left' | 'right' = 'right') => (
+    <th className={`py-2.5 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300 whitespace-nowrap ${align === 'left' ? 'text-left' : 'text-right'}`}>
+      <button onClick={() => handleSort(key)} className="hover:text-gray-900 dark:hover:text-white">
+        {label}
+        {sortKey === key && <span className="ml-1 text-xs">{sortDescending ? '▼' : '▲'}</span>}
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-6 flex-wrap gap-2">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Travel Claims</h2>
+        <span className="text-sm text-gray-600 dark:text-gray-400">
+          {travel.trips.length} trips · {formatCurrency(travel.total)}
+        </span>
+      </div>
+
+      {/* Per-destination summary */}
+      <div className="mb-6">
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">By destination</h3>
+        <div className="border border-gray-100 dark:border-slate-700 rounded-xl overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="bg-gray-50 dark:bg-[#0B0F14]/50 border-b border-gray-100 dark:border-slate-700">
+                <th className="text-left py-2.5 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Destination</th>
+                <th className="text-right py-2.5 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Trips</th>
+                <th className="text-right py-2.5 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Transport</th>
+                <th className="text-right py-2.5 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Accommodation</th>
+                <th className="text-right py-2.5 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Meals</th>
+                <th className="text-right py-2.5 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {destinations.map((destination) => (
+                <tr
+                  key={destination.destination}
+                  className="border-b border-gray-100 dark:border-slate-700 last:border-b-0 cursor-pointer hover:bg-gray-50 dark:hover:bg-slate-800/50"
+                  onClick={() => setSearchQuery(destination.destination === 'Unknown' ? '' : destination.destination)}
+                  title="Show trips to this destination"
+                >
+                  <td className="py-2.5 px-4 text-sm text-gray-900 dark:text-white">{destination.destination}</td>
+                  <td className="py-2.5 px-4 text-right text-sm text-gray-700 dark:text-gray-300 tabular-nums">{destination.trips}</td>
+                  <td className="py-2.5 px-4 text-right text-sm text-gray-700 dark:text-gray-300 tabular-nums">{formatCurrency(destination.transportation)}</td>
+                  <td className="py-2.5 px-4 text-right text-sm text-gray-700 dark:text-gray-300 tabular-nums">{formatCurrency(destination.accommodation)}</td>
+                  <td className="py-2.5 px-4 text-right text-sm text-gray-700 dark:text-gray-300 tabular-nums">{formatCurrency(destination.meals_incidentals)}</td>
+                  <td className="py-2.5 px-4 text-right text-sm font-semibold text-gray-900 dark:text-white tabular-nums">{formatCurrency(destination.total)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {travel.destinations.length > DESTINATION_PREVIEW_COUNT && (
+          <button
+            onClick={() => setShowAllDestinations(!showAllDestinations)}
+            className="mt-2 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            {showAllDestinations ? 'Show fewer' : `Show all ${travel.destinations.length} destinations`}
+          </button>
+        )}
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3 mb-3">
+        <input
+          type="text"
+          placeholder="Destination, purpose or traveller"
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          className="flex-1 min-w-[200px] px-4 py-1.5 rounded-full text-sm focus:outline-none bg-white dark:bg-[#0B0F14] text-gray-800 dark:text-gray-100 border border-gray-300 dark:border-slate-600 focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:ring-offset-2 dark:focus:ring-offset-[#0B0F14] focus:border-blue-500 dark:focus:border-blue-400"
+        />
+        {fiscalYears.length > 1 && (
+          <select
+            value={selectedFiscalYear}
+            onChange={(e) => setSelectedFiscalYear(e.target.value)}
+            className={selectClassName}
+            style={selectStyle}
+          >
+            <option value="all">All Fiscal Years</option>
+            {fiscalYears.map((fiscalYear) => (
+              <option key={fiscalYear} value={fiscalYear}>FY {fiscalYear}</option>
+            ))}
+          </select>
+        )}
+        {travellerTypes.length > 0 && (
+          <select
+            value={selectedTravellerType}
+            onChange={(e) => setSelectedTravellerType(e.target.value)}
+            className={selectClassName}
+            style={selectStyle}
+          >
+            <option value="all">All Travellers</option>
+            {travellerTypes.map((type) => (
+              <option key={type} value={type}>{type}</option>
+            ))}
+          </select>
+        )}
+      </div>
+      <p className="mb-3 text-sm text-gray-600 dark:text-gray-400">
+        Showing {filteredTrips.length} of {travel.trips.length} trips · {formatCurrency(filteredTotal)}
+      </p>
+
+      {/* Trips */}
+      <div className="border border-gray-100 dark:border-slate-700 rounded-xl overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="bg-gray-50 dark:bg-[#0B0F14]/50 border-b border-gray-100 dark:border-slate-700">
+              {sortableHeader('date', 'Dates', 'left')}
+              {sortableHeader('destination', 'Trip', 'left')}
+              <th className="text-left py-2.5 px-4 text-sm font-semibold text-gray-700 dark:text-gray-300">Travellers</th>
+              {sortableHeader('transportation', 'Transport')}
+              {sortableHeader('accommodation', 'Accommodation')}
+              {sortableHeader('meals_incidentals', 'Meals')}
+              {sortableHeader('total', 'Total')}
+            </tr>
+          </thead>
+          <tbody>
+            {filteredTrips.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="py-12 text-center text-gray-500 dark:text-gray-400">
+                  No trips match your filters.
+                </td>
+              </tr>
+            ) : (
+              filteredTrips.map((trip) => (
+                <tr key={trip.id} className="border-b border-gray-100 dark:border-slate-700 last:border-b-0 align-top">
+                  <td className="py-2.5 px-4 text-sm text-gray-700 dark:text-gray-300 whitespace-nowrap">{formatDates(trip)}</td>
+                  <td className="py-2.5 px-4 text-sm text-gray-900 dark:text-white">
+                    {trip.origin ? `${trip.origin} → ` : ''}{trip.destination || 'Unknown'}
+                    {trip.purpose && (
+                      <span className="block text-xs text-gray-500 dark:text-gray-400">{trip.purpose}</span>
+                    )}
+                  </td>
+                  <td className="py-2.5 px-4 text-sm text-gray-700 dark:text-gray-300">
+                    {trip.travellers.map((traveller, index) => (
+                      <span key={index} className="block whitespace-nowrap">
+                        {traveller.name || 'Unnamed'}
+                        {traveller.type && (
+                          <span className="ml-1.5 px-1.5 py-0.5 rounded text-[10px] bg-gray-100 dark:bg-slate-800 text-gray-600 dark:text-gray-400">
+                            {traveller.type}
+                          </span>
+                        )}
+                      </span>
+                    ))}
+                  </td>
+                  <td className="py-2.5 px-4 text-right text-sm text-gray-700 dark:text-gray-300 tabular-nums">{formatCurrency(trip.transportation)}</td>
+                  <td className="py-2.5 px-4 text-right text-sm text-gray-700 dark:text-gray-300 tabular-nums">{formatCurrency(trip.accommodation)}</td>
+                  <td className="py-2.5 px-4 text-right text-sm text-gray-700 dark:text-gray-300 tabular-nums">{formatCurrency(trip.meals_incidentals)}</td>
+                  <td className="py-2.5 px-4 text-right text-sm font-semibold text-gray-900 dark:text-white tabular-nums">{formatCurrency(trip.total)}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
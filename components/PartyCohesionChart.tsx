@@ -0,0 +1,65 @@
+'use client';
+
+import Link from 'next/link';
+import { getPartyColors } from '@/lib/utils/party-colors';
+import { normalizeToMajorParty, getPartySlug } from '@/lib/utils/parties';
+
+interface PartyCohesionChartProps {
+  cohesion: Array<{
+    party: string;
+    divisions: number;
+    rice_index: number | null;
+    agreement_index: number | null;
+    unanimous_divisions: number;
+  }>;
+}
+
+export default function PartyCohesionChart({ cohesion }: PartyCohesionChartProps) {
+  const parties = cohesion.filter((party) => party.divisions > 0 && party.rice_index !== null);
+
+  if (parties.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400 italic">
+        No division data yet for this session.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {parties.map((party) => {
+        const partyColors = getPartyColors(party.party);
+        const rice = party.rice_index ?? 0;
+        const majorParty = normalizeToMajorParty(party.party);
+        return (
+          <div key={party.party}>
+            <div className="flex justify-between items-baseline mb-1">
+              {majorParty ? (
+                <Link href={`/party/${getPartySlug(majorParty)}`} className="text-xs font-medium text-gray-800 dark:text-white hover:underline">
+                  {party.party}
+                </Link>
+              ) : (
+                <span className="text-xs font-medium text-gray-800 dark:text-white">{party.party}</span>
+              )}
+              <span
+                className="text-sm font-semibold text-gray-800 dark:text-gray-100 cursor-help"
+                title={`Rice index ${rice.toFixed(3)}, agreement index ${(party.agreement_index ?? 0).toFixed(3)} across ${party.divisions} divisions (${party.unanimous_divisions} unanimous)`}
+              >
+                {rice.toFixed(2)}
+              </span>
+            </div>
+            <div className="h-2 rounded-full bg-gray-100 dark:bg-slate-800 overflow-hidden">
+              <div
+                className="h-full rounded-full"
+                style={{ width: `${rice * 100}%`, backgroundColor: partyColors.primary }}
+              />
+            </div>
+          </div>
+        );
+      })}
+      <p className="text-xs text-gray-500 dark:text-gray-400 pt-1">
+        Rice index: 1 = caucus always votes as a bloc, 0 = evenly split.
+      </p>
+    </div>
+  );
+}
@@ -7,14 +7,21 @@ import { getPartyLogo } from '@/lib/utils/party-logos';
 import Image from 'next/image';
 import DonutChart from './DonutChart';
 
+type LoyaltyMode = 'sponsor' | 'majority';
+
 interface PartyLoyaltyStatsProps {
   stats: PartyLoyaltyStatsType;
+  majorityStats?: PartyLoyaltyStatsType | null; // Optional stats measured against the caucus majority
   partyColors: PartyColors;
   votes?: Vote[]; // Optional votes array for sponsor party breakdown
 }
 
-export default function PartyLoyaltyStats({ stats, partyColors, votes = [] }: PartyLoyaltyStatsProps) {
+export default function PartyLoyaltyStats({ stats, majorityStats, partyColors, votes = [] }: PartyLoyaltyStatsProps) {
   const [isTableExpanded, setIsTableExpanded] = useState(false);
+  const [mode, setMode] = useState<LoyaltyMode>('sponsor');
+
+  const hasMajorityStats = Boolean(majorityStats && majorityStats.total_votes > 0);
+  const activeStats = mode === 'majority' && majorityStats ? majorityStats : stats;
 
   // Calculate voting breakdown by sponsor party
   const getSponsorPartyBreakdown = () => {
@@ -109,22 +116,51 @@ export default function PartyLoyaltyStats({ stats, partyColors, votes = [] }: Pa
 
   return (
     <div className="card">
-      <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-6">
-        Party Loyalty
-      </h2>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-6">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+          Party Loyalty
+        </h2>
+        {hasMajorityStats && (
+          <div className="inline-flex rounded-lg border border-gray-200 dark:border-slate-700 p-0.5 text-xs font-medium">
+            {([
+              { value: 'sponsor', label: 'By bill sponsor' },
+              { value: 'majority', label: 'By party majority' },
+            ] as { value: LoyaltyMode; label: string }[]).map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setMode(option.value)}
+                className={`px-3 py-1 rounded-md transition-colors ${
+                  mode === option.value
+                    ? 'text-white'
+                    : 'text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white'
+                }`}
+                style={{ backgroundColor: mode === option.value ? partyColors.primary : undefined }}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {mode === 'majority' && hasMajorityStats && (
+        <p className="text-xs text-gray-500 dark:text-gray-400 -mt-3 mb-6">
+          Every recorded division, compared with how the majority of the MP&apos;s own caucus voted.
+        </p>
+      )}
 
       <div className="flex flex-col md:flex-row gap-8 items-center md:items-start">
         {/* Left: Donut Chart */}
         <div className="flex-shrink-0">
           <div className="flex flex-col items-center">
             <DonutChart
-              percentage={stats.loyalty_percentage}
+              percentage={activeStats.loyalty_percentage}
               size={140}
               strokeWidth={10}
               color={partyColors.primary}
             />
             <p className="text-base text-gray-900 dark:text-white leading-relaxed mt-4 text-center">
-              Votes with party: <span className="font-semibold">{stats.loyalty_percentage.toFixed(0)}%</span>
+              Votes with party: <span className="font-semibold">{activeStats.loyalty_percentage.toFixed(0)}%</span>
             </p>
           </div>
         </div>
@@ -133,15 +169,15 @@ export default function PartyLoyaltyStats({ stats, partyColors, votes = [] }: Pa
         <div className="flex-1 space-y-3 min-w-0">
           <div className="flex justify-between items-center">
             <span className="text-gray-600 dark:text-gray-300">Party-line votes</span>
-            <span className="text-xl font-semibold text-gray-900 dark:text-white">{stats.votes_with_party}</span>
+            <span className="text-xl font-semibold text-gray-900 dark:text-white">{activeStats.votes_with_party}</span>
           </div>
           <div className="flex justify-between items-center">
             <span className="text-gray-600 dark:text-gray-300">Breaks with party</span>
-            <span className="text-xl font-semibold text-gray-900 dark:text-white">{stats.votes_against_party}</span>
+            <span className="text-xl font-semibold text-gray-900 dark:text-white">{activeStats.votes_against_party}</span>
           </div>
           <div className="flex justify-between items-center">
-            <span className="text-gray-600 dark:text-gray-300">Independent votes</span>
-            <span className="text-xl font-semibold text-gray-900 dark:text-white">{stats.free_votes}</span>
+            <span className="text-gray-600 dark:text-gray-300">{mode === 'majority' ? 'Split caucus votes' : 'Independent votes'}</span>
+            <span className="text-xl font-semibold text-gray-900 dark:text-white">{activeStats.free_votes}</span>
           </div>
         </div>
       </div>
@@ -13,7 +13,7 @@ interface VotingHistoryProps {
 interface GroupedBill {
   bill_number: string;
   bill_title: string;
-  category?: string;
+  categories: string[]; // primary first
   votes: Array<{
     id: string;
     date: string;
@@ -24,10 +24,17 @@ interface GroupedBill {
   }>;
 }
 
+// All categories assigned to a vote's bill, primary first
+function getVoteCategories(vote: { category?: string; categories?: string[] }): string[] {
+  if (vote.categories && vote.categories.length > 0) return vote.categories;
+  return vote.category ? [vote.category] : [];
+}
+
 export default function VotingHistory({ votingRecord, partyColors }: VotingHistoryProps) {
   const router = useRouter();
   const { votes, total_votes } = votingRecord;
   const [searchQuery, setSearchQuery] = useState('');
+  const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [expandedBills, setExpandedBills] = useState<Set<string>>(new Set());
 
   // Get full title for display, cleaning up bill number prefixes
@@ -47,20 +54,33 @@ export default function VotingHistory({ votingRecord, partyColors }: VotingHisto
     return title.trim();
   };
 
-  // Filter votes by search query
+  // Get unique categories
+  const categories = useMemo(() => {
+    const categorySet = new Set<string>();
+    votes.forEach(vote => {
+      getVoteCategories(vote).forEach(category => categorySet.add(category));
+    });
+    return Array.from(categorySet).sort();
+  }, [votes]);
+
+  // Filter votes by search query and category (primary or secondary)
   const filteredVotes = useMemo(() => {
-    if (!searchQuery.trim()) {
-      return votes;
-    }
-    
-    const query = searchQuery.toLowerCase();
+    const query = searchQuery.trim().toLowerCase();
     return votes.filter(vote => {
+      if (selectedCategory !== 'all' && !getVoteCategories(vote).includes(selectedCategory)) {
+        return false;
+      }
+
+      if (!query) {
+        return true;
+      }
+
       const billMatch = vote.bill_number?.toLowerCase().includes(query);
       const titleMatch = vote.motion_title?.toLowerCase().includes(query);
       const billTitleMatch = vote.bill_title?.toLowerCase().includes(query);
       return billMatch || titleMatch || billTitleMatch;
     });
-  }, [votes, searchQuery]);
+  }, [votes, searchQuery, selectedCategory]);
 
   // Group votes by bill_number
   const groupedBills = useMemo(() => {
@@ -78,7 +98,7 @@ export default function VotingHistory({ votingRecord, partyColors }: VotingHisto
         billMap.set(billKey, {
           bill_number: vote.bill_number,
           bill_title: getFullTitle(vote),
-          category: vote.category,
+          categories: getVoteCategories(vote),
           votes: [],
         });
       }
@@ -218,6 +238,22 @@ export default function VotingHistory({ votingRecord, partyColors }: VotingHisto
                   </button>
                 )}
               </div>
+
+              {/* Category filter - Pill style */}
+              {categories.length > 0 && (
+                <select
+                  id="vote-category-filter"
+                  value={selectedCategory}
+                  onChange={(e) => setSelectedCategory(e.target.value)}
+                  className="px-3 py-1.5 border border-gray-300 dark:border-slate-600 rounded-full text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:ring-offset-2 dark:focus:ring-offset-[#0B0F14] focus:border-blue-500 dark:focus:border-blue-400 bg-white dark:bg-[#0B0F14] text-gray-900 dark:text-gray-100 appearance-none cursor-pointer"
+                  style={{ backgroundImage: "url(\"data:image/svg+xml,%3csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 20 20'%3e%3cpath stroke='%236b7280' stroke-linecap='round' stroke-linejoin='round' stroke-width='1.5' d='M6 8l4 4 4-4'/%3e%3c/svg%3e\")", backgroundPosition: 'right 0.5rem center', backgroundRepeat: 'no-repeat', backgroundSize: '1.5em 1.5em', paddingRight: '2.5rem' }}
+                >
+                  <option value="all">All Categories</option>
+                  {categories.map(category => (
+                    <option key={category} value={category}>{category}</option>
+                  ))}
+                </select>
+              )}
             </div>
 
             {/* Results count */}
@@ -230,7 +266,7 @@ export default function VotingHistory({ votingRecord, partyColors }: VotingHisto
           <div className="space-y-0 border-t border-gray-100 dark:border-slate-700 pt-0">
             {groupedBills.length === 0 ? (
               <div className="py-12 text-center text-gray-500 dark:text-gray-400">
-                No votes match your search.
+                No votes match your filters.
               </div>
             ) : (
               groupedBills.map((bill) => {
@@ -301,11 +337,17 @@ export default function VotingHistory({ votingRecord, partyColors }: VotingHisto
                           <span className="text-sm text-gray-500 dark:text-gray-400">
                             {formatDate(latestVote.date)}
                           </span>
-                          {bill.category && (
-                            <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 dark:bg-purple-900/30 text-purple-800 dark:text-purple-300">
-                              {bill.category}
+                          {bill.categories.map((category, index) => (
+                            <span
+                              key={category}
+                              className={index === 0
+                                ? 'inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 dark:bg-purple-900/30 text-purple-800 dark:text-purple-300'
+                                : 'inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium border border-purple-200 dark:border-purple-800 text-purple-700 dark:text-purple-400'}
+                              title={index === 0 ? 'Primary policy area' : 'Secondary policy area'}
+                            >
+                              {category}
                             </span>
-                          )}
+                          ))}
                         </div>
 
                         {/* Bill Title */}
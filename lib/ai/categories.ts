@@ -0,0 +1,67 @@
+/**
+ * Policy categories and the provider interface shared by every bill categorizer
+ */
+
+// Must match the rows in bill_policy_categories (scripts/setup-bill-categories.ts)
+export const CATEGORIES = [
+  'Economy & Finance',
+  'Health',
+  'Housing',
+  'Environment & Climate',
+  'Justice & Public Safety',
+  'Immigration & Citizenship',
+  'Indigenous Affairs',
+  'Defence & Foreign Affairs',
+  'Infrastructure & Transport',
+  'Labour & Employment',
+  'Education & Youth',
+  'Digital, Privacy & AI',
+  'Culture, Media & Sport',
+  'Government & Democratic Reform',
+];
+
+export interface CategorizeBillParams {
+  billNumber?: string;
+  title: string;
+  description?: string;
+}
+
+export interface CategoryScore {
+  category: string;
+  confidence: number; // 0-1
+}
+
+export interface CategorizationProvider {
+  name: string;
+  // Whether the provider has what it needs to run (API key, endpoint, training data...)
+  isConfigured(): boolean;
+  // Ranked categories, best first; an empty list means the provider could not decide
+  categorize(params: CategorizeBillParams): Promise<CategoryScore[]>;
+}
+
+/**
+ * Match a category name returned by a model to one of CATEGORIES (case and spacing insensitive)
+ */
+export function matchCategory(name: string | null | undefined): string | null {
+  if (!name) {
+    return null;
+  }
+  const normalized = name.trim().toLowerCase().replace(/\s+/g, ' ');
+  return CATEGORIES.find((category) => category.toLowerCase() === normalized) || null;
+}
+
+/**
+ * Sort scores best first, dropping unknown categories and duplicates
+ */
+export function rankScores(scores: CategoryScore[]): CategoryScore[] {
+  const best = new Map<string, number>();
+  for (const score of scores) {
+    const category = matchCategory(score.category);
+    if (!category || !isFinite(score.confidence)) continue;
+    const confidence = Math.min(1, Math.max(0, score.confidence));
+    best.set(category, Math.max(best.get(category) || 0, confidence));
+  }
+  return Array.from(best.entries())
+    .map(([category, confidence]) => ({ category, confidence }))
+    .sort((a, b) => b.confidence - a.confidence);
+}
@@ -0,0 +1,50 @@
+import type { CategorizationProvider, CategorizeBillParams, CategoryScore } from '../categories';
+
+const KEYWORD_MAP: Record<string, string[]> = {
+  'Economy & Finance': ['budget', 'tax', 'revenue', 'fiscal', 'economic', 'financial', 'bank', 'currency', 'trade', 'commerce', 'tariff', 'debt'],
+  'Health': ['health', 'medical', 'hospital', 'pharmaceutical', 'drug', 'disease', 'healthcare', 'mental health', 'public health', 'vaccine'],
+  'Housing': ['housing', 'rent', 'mortgage', 'homeless', 'affordable housing', 'residential', 'tenant', 'landlord'],
+  'Environment & Climate': ['environment', 'climate', 'carbon', 'emission', 'pollution', 'renewable', 'energy', 'green', 'sustainability', 'wildlife', 'conservation'],
+  'Justice & Public Safety': ['criminal', 'justice', 'police', 'law enforcement', 'prison', 'sentencing', 'crime', 'safety', 'security', 'firearm', 'gun'],
+  'Immigration & Citizenship': ['immigration', 'immigrant', 'refugee', 'citizenship', 'visa', 'border', 'asylum', 'borders'],
+  'Indigenous Affairs': ['indigenous', 'first nations', 'aboriginal', 'inuit', 'metis', 'reserve', 'treaty'],
+  'Defence & Foreign Affairs': ['defence', 'defense', 'military', 'armed forces', 'veteran', 'foreign', 'diplomatic', 'international', 'nato', 'peacekeeping'],
+  'Infrastructure & Transport': ['infrastructure', 'transport', 'highway', 'road', 'railway', 'airport', 'port', 'bridge', 'transit', 'public transit'],
+  'Labour & Employment': ['labour', 'labor', 'employment', 'worker', 'union', 'wage', 'salary', 'workplace', 'employment insurance'],
+  'Education & Youth': ['education', 'school', 'university', 'college', 'student', 'youth', 'child', 'learning', 'curriculum'],
+  'Digital, Privacy & AI': ['digital', 'privacy', 'data', 'artificial intelligence', 'ai', 'cyber', 'internet', 'online', 'technology', 'tech', 'algorithm'],
+  'Culture, Media & Sport': ['culture', 'media', 'sport', 'arts', 'heritage', 'broadcasting', 'television', 'radio', 'museum', 'library'],
+  'Government & Democratic Reform': ['government', 'democratic', 'election', 'voting', 'parliament', 'senate', 'electoral', 'reform', 'constitution'],
+};
+
+/**
+ * Last-resort categorizer: counts keyword hits per category.
+ * Confidence is each category's share of all hits, so one stray keyword never looks certain
+ * unless nothing else matched.
+ */
+export const keywordProvider: CategorizationProvider = {
+  name: 'keywords',
+
+  isConfigured() {
+    return true;
+  },
+
+  async categorize({ title, description }: CategorizeBillParams): Promise<CategoryScore[]> {
+    const text = `${title} ${description || ''}`.toLowerCase();
+
+    const hits = Object.entries(KEYWORD_MAP).map(([category, keywords]) => ({
+      category,
+      hits: keywords.reduce((score, keyword) => score + (text.includes(keyword) ? 1 : 0), 0),
+    }));
+    const total = hits.reduce((sum, entry) => sum + entry.hits, 0);
+
+    if (total === 0) {
+      return [];
+    }
+
+    return hits
+      .filter((entry) => entry.hits > 0)
+      .map((entry) => ({ category: entry.category, confidence: entry.hits / total }))
+      .sort((a, b) => b.confidence - a.confidence);
+  },
+};
@@ -0,0 +1,191 @@
+import { queryAll } from '@/lib/db/database';
+import { rankScores } from '../categories';
+import type { CategorizationProvider, CategorizeBillParams, CategoryScore } from '../categories';
+
+/**
+ * Offline categorizer: multinomial naive Bayes over TF-IDF weighted title tokens,
+ * trained on bills that already have a category.
+ *
+ * Bills categorized by this provider or by keyword matching are left out of the
+ * training set so the model never learns from its own (or the crudest) guesses.
+ */
+
+interface NaiveBayesModel {
+  categories: string[];
+  logPriors: Map<string, number>;
+  logLikelihoods: Map<string, Map<string, number>>;
+  unseenLogLikelihoods: Map<string, number>;
+  idf: Map<string, number>;
+  documents: number;
+}
+
+const MIN_TRAINING_DOCUMENTS = 30;
+const MODEL_TTL_MS = 60 * 60 * 1000;
+const SMOOTHING = 1;
+const MAX_RESULTS = 5;
+
+// Words that appear in nearly every bill title and say nothing about the policy area
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'act', 'acts', 'bill', 'amend', 'amends', 'amending', 'amendment',
+  'amendments', 'canada', 'canadian', 'respecting', 'certain', 'other', 'related', 'relation',
+  'make', 'makes', 'making', 'consequential', 'into', 'from', 'that', 'this', 'its', 'their',
+  'motion', 'concurrence', 'reading', 'second', 'third', 'report', 'committee',
+]);
+
+// An untrainable result is cached too, so a small database isn't re-queried on every call
+let cache: { model: NaiveBayesModel | null; loadedAt: number } | null = null;
+let trainingPromise: Promise<NaiveBayesModel | null> | null = null;
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length >= 3 && !STOPWORDS.has(token) && !/^\d+$/.test(token));
+}
+
+function termFrequencies(tokens: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokens) {
+    counts.set(token, (counts.get(token) || 0) + 1);
+  }
+  return counts;
+}
+
+function train(documents: Array<{ text: string; category: string }>): NaiveBayesModel {
+  const tokenized = documents.map((doc) => ({ category: doc.category, tf: termFrequencies(tokenize(doc.text)) }));
+
+  const documentFrequency = new Map<string, number>();
+  for (const doc of tokenized) {
+    doc.tf.forEach((_, token) => documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1));
+  }
+
+  const idf = new Map<string, number>();
+  documentFrequency.forEach((df, token) => idf.set(token, Math.log((tokenized.length + 1) / (df + 1)) + 1));
+
+  const categoryDocs = new Map<string, number>();
+  const categoryWeights = new Map<string, Map<string, number>>();
+  for (const doc of tokenized) {
+    categoryDocs.set(doc.category, (categoryDocs.get(doc.category) || 0) + 1);
+    const weights = categoryWeights.get(doc.category) || new Map<string, number>();
+    doc.tf.forEach((count, token) => weights.set(token, (weights.get(token) || 0) + count * idf.get(token)!));
+    categoryWeights.set(doc.category, weights);
+  }
+
+  const vocabularySize = idf.size;
+  const categories = Array.from(categoryDocs.keys());
+  const logPriors = new Map<string, number>();
+  const logLikelihoods = new Map<string, Map<string, number>>();
+  const unseenLogLikelihoods = new Map<string, number>();
+
+  for (const category of categories) {
+    logPriors.set(category, Math.log(categoryDocs.get(category)! / tokenized.length));
+
+    const weights = categoryWeights.get(category)!;
+    let total = 0;
+    weights.forEach((weight) => { total += weight; });
+    const denominator = total + SMOOTHING * vocabularySize;
+
+    const likelihoods = new Map<string, number>();
+    weights.forEach((weight, token) => likelihoods.set(token, Math.log((weight + SMOOTHING) / denominator)));
+    logLikelihoods.set(category, likelihoods);
+    unseenLogLikelihoods.set(category, Math.log(SMOOTHING / denominator));
+  }
+
+  return {
+    categories,
+    logPriors,
+    logLikelihoods,
+    unseenLogLikelihoods,
+    idf,
+    documents: tokenized.length,
+  };
+}
+
+function classify(model: NaiveBayesModel, text: string): CategoryScore[] {
+  // Tokens never seen in training carry no signal for any category
+  const tf = termFrequencies(tokenize(text).filter((token) => model.idf.has(token)));
+  if (tf.size === 0) {
+    return [];
+  }
+
+  const logScores = model.categories.map((category) => {
+    const likelihoods = model.logLikelihoods.get(category)!;
+    const unseen = model.unseenLogLikelihoods.get(category)!;
+    let score = model.logPriors.get(category)!;
+    tf.forEach((count, token) => {
+      score += count * model.idf.get(token)! * (likelihoods.get(token) ?? unseen);
+    });
+    return { category, score };
+  });
+
+  // Softmax, shifted by the max for numerical stability
+  const max = Math.max(...logScores.map((entry) => entry.score));
+  const exps = logScores.map((entry) => ({ category: entry.category, value: Math.exp(entry.score - max) }));
+  const sum = exps.reduce((total, entry) => total + entry.value, 0);
+
+  return rankScores(exps.map((entry) => ({ category: entry.category, confidence: entry.value / sum }))).slice(0, MAX_RESULTS);
+}
+
+async function loadModel(): Promise<NaiveBayesModel | null> {
+  const rows = await queryAll<{ title: string; long_title: string | null; short_title: string | null; category: string }>(`
+    SELECT DISTINCT ON (bm.bill_number)
+      bm.title, bm.long_title, bm.short_title, c.name AS category
+    FROM bills_motions bm
+    JOIN bill_policy_categories c ON c.id = bm.policy_category_id
+    WHERE bm.bill_number IS NOT NULL
+      AND (bm.category_provider IS NULL OR bm.category_provider NOT IN ('naive-bayes', 'keywords'))
+    ORDER BY bm.bill_number, bm.id DESC
+  `);
+
+  const documents = rows.map((row) => ({
+    text: [row.title, row.long_title, row.short_title].filter(Boolean).join(' '),
+    category: row.category,
+  }));
+
+  if (documents.length < MIN_TRAINING_DOCUMENTS || new Set(documents.map((doc) => doc.category)).size < 2) {
+    console.warn(`[Naive Bayes] Not enough categorized bills to train (${documents.length}, need ${MIN_TRAINING_DOCUMENTS})`);
+    return null;
+  }
+
+  const model = train(documents);
+  console.log(`[Naive Bayes] Trained on ${model.documents} bills, ${model.idf.size} terms, ${model.categories.length} categories`);
+  return model;
+}
+
+async function getModel(): Promise<NaiveBayesModel | null> {
+  if (cache && Date.now() - cache.loadedAt < MODEL_TTL_MS) {
+    return cache.model;
+  }
+
+  // Concurrent callers share one training run
+  if (!trainingPromise) {
+    trainingPromise = loadModel()
+      .then((model) => {
+        cache = { model, loadedAt: Date.now() };
+        return model;
+      })
+      .finally(() => {
+        trainingPromise = null;
+      });
+  }
+  return trainingPromise;
+}
+
+export const naiveBayesProvider: CategorizationProvider = {
+  name: 'naive-bayes',
+
+  // Availability depends on the training data, which is checked when the model loads
+  isConfigured() {
+    return true;
+  },
+
+  async categorize({ title, description }: CategorizeBillParams): Promise<CategoryScore[]> {
+    const model = await getModel();
+    if (!model) {
+      return [];
+    }
+    return classify(model, `${title} ${description || ''}`);
+  },
+};
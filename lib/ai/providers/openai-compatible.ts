@@ -0,0 +1,121 @@
+import { httpPost } from '@/lib/api/http-client';
+import { CATEGORIES, rankScores, matchCategory } from '../categories';
+import type { CategorizationProvider, CategorizeBillParams, CategoryScore } from '../categories';
+
+interface OpenAICompatibleOptions {
+  name: string;
+  baseUrl: () => string | undefined;
+  apiKey: () => string | undefined;
+  model: () => string;
+  // Local servers usually run without authentication
+  requiresApiKey?: boolean;
+  // Whether the endpoint accepts response_format: { type: 'json_object' }
+  jsonMode?: boolean;
+  timeout?: number;
+}
+
+const DEFAULT_TIMEOUT = 20000;
+
+function buildMessages({ billNumber, title, description }: CategorizeBillParams) {
+  return [
+    {
+      role: 'system',
+      content: `You are a policy categorization assistant. Categorize Canadian parliamentary bills using these categories:
+
+${CATEGORIES.map((cat, i) => `${i + 1}. ${cat}`).join('\n')}
+
+Respond with JSON only, in the form {"categories": [{"name": "<exact category name>", "confidence": <0 to 1>}]}.
+List up to 3 categories, most likely first. Confidences should reflect how sure you are and sum to at most 1.`,
+    },
+    {
+      role: 'user',
+      content: `Categorize this bill:
+
+Bill Number: ${billNumber || 'N/A'}
+Title: ${title}
+${description ? `Description: ${description}` : ''}`,
+    },
+  ];
+}
+
+/**
+ * Parse the model reply. Models that ignore the JSON instruction and answer with a bare
+ * category name are accepted, but get no confidence beyond the review threshold.
+ */
+function parseReply(content: string): CategoryScore[] {
+  const jsonMatch = content.match(/\{[\s\S]*\}/);
+  if (jsonMatch) {
+    try {
+      const parsed = JSON.parse(jsonMatch[0]);
+      const entries: any[] = Array.isArray(parsed.categories) ? parsed.categories : [];
+      return rankScores(entries.map((entry) => ({
+        category: String(entry.name ?? entry.category ?? ''),
+        confidence: Number(entry.confidence),
+      })));
+    } catch {
+      // Fall through to the plain-text check
+    }
+  }
+
+  const category = matchCategory(content);
+  return category ? [{ category, confidence: 0.5 }] : [];
+}
+
+/**
+ * Provider for any OpenAI-compatible chat completions endpoint
+ * (api.openai.com, or a local server such as Ollama, LM Studio or llama.cpp)
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): CategorizationProvider {
+  return {
+    name: options.name,
+
+    isConfigured() {
+      return Boolean(options.baseUrl() && (options.apiKey() || !options.requiresApiKey));
+    },
+
+    async categorize(params: CategorizeBillParams): Promise<CategoryScore[]> {
+      const apiKey = options.apiKey();
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (apiKey) {
+        headers['Authorization'] = `Bearer ${apiKey}`;
+      }
+
+      const response = await httpPost(`${options.baseUrl()!.replace(/\/$/, '')}/chat/completions`, {
+        model: options.model(),
+        messages: buildMessages(params),
+        temperature: 0.3,
+        max_tokens: 200,
+        ...(options.jsonMode ? { response_format: { type: 'json_object' } } : {}),
+      }, {
+        headers,
+        timeout: options.timeout || DEFAULT_TIMEOUT,
+        validateStatus: () => true,
+      });
+
+      if (response.status < 200 || response.status >= 300) {
+        throw new Error(`${options.name} API error: HTTP ${response.status} ${JSON.stringify(response.data)}`);
+      }
+
+      const content = response.data?.choices?.[0]?.message?.content?.trim() || '';
+      return parseReply(content);
+    },
+  };
+}
+
+export const openAIProvider = createOpenAICompatibleProvider({
+  name: 'openai',
+  baseUrl: () => 'https://api.openai.com/v1',
+  apiKey: () => process.env.OPENAI_API_KEY,
+  model: () => process.env.OPENAI_MODEL || 'gpt-4o-mini', // mini for cost efficiency
+  requiresApiKey: true,
+  jsonMode: true,
+});
+
+// e.g. CATEGORIZER_LOCAL_URL=http://localhost:11434/v1 CATEGORIZER_LOCAL_MODEL=llama3.1
+export const localProvider = createOpenAICompatibleProvider({
+  name: 'local',
+  baseUrl: () => process.env.CATEGORIZER_LOCAL_URL,
+  apiKey: () => process.env.CATEGORIZER_LOCAL_API_KEY,
+  model: () => process.env.CATEGORIZER_LOCAL_MODEL || 'llama3.1',
+  timeout: 60000,
+});
@@ -1,5 +1,6 @@
 import type { Vote, VotingRecord, Motion, MotionBreakdown, PartyLoyaltyStats } from '@/types';
 import { getMPVotingRecord as getOpenParliamentVotes, getMPMotions as getOpenParliamentMotions } from './openparliament';
+import { normalizeToMajorParty } from '@/lib/utils/parties';
 
 /**
  * Get voting record for an MP from OpenParliament API
@@ -54,31 +55,6 @@ function partiesMatch(party1: string | undefined, party2: string | undefined): b
   return false;
 }
 
-/**
- * Normalize party name to one of the 5 major parties for filtering
- */
-function normalizeToMajorParty(partyName: string | undefined): string | null {
-  if (!partyName) return null;
-  const lower = partyName.toLowerCase().trim();
-  
-  // Liberal variations
-  if (lower.includes('liberal') || lower === 'lib' || lower === 'lpc') return 'Liberal';
-  
-  // Conservative variations
-  if (lower.includes('conservative') || lower === 'cpc' || lower === 'con' || lower === 'pc') return 'Conservative';
-  
-  // Bloc Québécois variations
-  if (lower.includes('bloc') || lower.includes('quebecois') || lower === 'bq') return 'Bloc Québécois';
-  
-  // NDP variations
-  if (lower.includes('ndp') || lower.includes('new democratic') || lower === 'npd') return 'NDP';
-  
-  // Green variations
-  if (lower.includes('green') || lower === 'gpc' || lower === 'gp') return 'Green Party';
-  
-  return null;
-}
-
 /**
  * Calculate party loyalty statistics based on bill sponsor
  * Logic:
@@ -123,7 +99,9 @@ export async function getPartyLoyaltyStats(
         debugBreakdown[sponsorMajorParty] = { yea: 0, nay: 0, abstained: 0 };
       }
 
-      const isSameParty = mpMajorParty && sponsorMajorParty === mpMajorParty;
+      // Compare with the party the MP sat with on the vote date (floor-crossers change mid-record)
+      const voteMajorParty = vote.party_at_vote !== undefined ? normalizeToMajorParty(vote.party_at_vote) : mpMajorParty;
+      const isSameParty = voteMajorParty && sponsorMajorParty === voteMajorParty;
       const isAbstainedOrPaired = vote.vote_type === 'Paired' || vote.vote_type === 'Abstained' || vote.vote_type === 'Not Voting';
       
       if (isAbstainedOrPaired) {
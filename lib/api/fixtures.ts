@@ -0,0 +1,339 @@
+import axios, { AxiosAdapter, AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Recorded HTTP fixtures for offline development
+ *
+ * Controlled by environment variables:
+ *   FIXTURE_MODE=record   Pass requests through and save every response to FIXTURE_DIR
+ *   FIXTURE_MODE=replay   Serve responses from FIXTURE_DIR, fail on anything not recorded
+ *   FIXTURE_MODE=server   Send requests to the stand-in server at FIXTURE_SERVER_URL
+ *                         (scripts/fixture-server.ts), e.g. for a second process or machine
+ *   FIXTURE_DIR           Defaults to fixtures/http
+ *
+ * Installed by the shared HTTP client (lib/api/http-client.ts); also covers axios' default
+ * instance and global fetch once installFixtureMode() has run.
+ */
+
+export type FixtureMode = 'record' | 'replay' | 'server';
+
+export interface Fixture {
+  request: {
+    method: string;
+    url: string;
+    // Hash of the request body, for methods other than GET and HEAD
+    body_hash?: string;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+  };
+  recorded_at: string;
+}
+
+// Only headers that matter to the clients; cookies and tracing headers are noise in fixtures
+const RECORDED_HEADERS = ['content-type', 'etag', 'last-modified', 'cache-control'];
+
+let installed = false;
+
+export function getFixtureMode(): FixtureMode | null {
+  const mode = process.env.FIXTURE_MODE;
+  if (mode === 'record' || mode === 'replay' || mode === 'server') {
+    return mode;
+  }
+  return null;
+}
+
+export function getFixtureDir(): string {
+  return path.resolve(process.env.FIXTURE_DIR || path.join('fixtures', 'http'));
+}
+
+/**
+ * Short hash of the request body. GET and HEAD requests have none, so they hash to null;
+ * other methods always get one, so POSTs to the same URL with different bodies stay apart.
+ */
+export function requestBodyHash(method: string, body?: string): string | null {
+  const upper = method.toUpperCase();
+  if (upper === 'GET' || upper === 'HEAD') {
+    return null;
+  }
+  return createHash('sha1').update(body ?? '').digest('hex').slice(0, 10);
+}
+
+/**
+ * Canonical form of a request: method plus URL with sorted query parameters, plus the
+ * body hash for methods that send one
+ */
+export function fixtureKey(method: string, url: string, body?: string): string {
+  const parsed = new URL(url);
+  parsed.hash = '';
+  parsed.searchParams.sort();
+  const bodyHash = requestBodyHash(method, body);
+  return `${method.toUpperCase()} ${parsed.toString()}${bodyHash ? ` ${bodyHash}` : ''}`;
+}
+
+export function fixturePath(method: string, url: string, body?: string): string {
+  const parsed = new URL(url);
+  const hash = createHash('sha1').update(fixtureKey(method, url, body)).digest('hex').slice(0, 10);
+  const bodyHash = requestBodyHash(method, body);
+  const slug = parsed.pathname
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80) || 'root';
+  const name = [method.toUpperCase(), slug, bodyHash, hash].filter(Boolean).join('-');
+  return path.join(getFixtureDir(), parsed.host, `${name}.json`);
+}
+
+export function readFixture(method: string, url: string, body?: string): Fixture | null {
+  const file = fixturePath(method, url, body);
+  if (!fs.existsSync(file)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as Fixture;
+}
+
+/**
+ * Every recorded fixture in FIXTURE_DIR, in file name order
+ */
+export function listFixtures(): Fixture[] {
+  const dir = getFixtureDir();
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  const fixtures: Fixture[] = [];
+  for (const host of fs.readdirSync(dir).sort()) {
+    const hostDir = path.join(dir, host);
+    if (!fs.statSync(hostDir).isDirectory()) continue;
+    for (const file of fs.readdirSync(hostDir).sort()) {
+      if (file.endsWith('.json')) {
+        fixtures.push(JSON.parse(fs.readFileSync(path.join(hostDir, file), 'utf8')) as Fixture);
+      }
+    }
+  }
+  return fixtures;
+}
+
+export function writeFixture(
+  method: string,
+  url: string,
+  response: { status: number; statusText?: string; headers: Record<string, string>; body: string },
+  requestBody?: string
+): void {
+  const file = fixturePath(method, url, requestBody);
+  const bodyHash = requestBodyHash(method, requestBody);
+  const headers: Record<string, string> = {};
+  for (const name of RECORDED_HEADERS) {
+    if (response.headers[name]) {
+      headers[name] = response.headers[name];
+    }
+  }
+
+  const fixture: Fixture = {
+    request: {
+      method: method.toUpperCase(),
+      url: new URL(url).toString(),
+      ...(bodyHash ? { body_hash: bodyHash } : {}),
+    },
+    response: {
+      status: response.status,
+      statusText: response.statusText || '',
+      headers,
+      body: response.body,
+    },
+    recorded_at: new Date().toISOString(),
+  };
+
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(fixture, null, 2));
+  console.log(`[Fixtures] Recorded ${method.toUpperCase()} ${url}`);
+}
+
+/**
+ * Rewrite https://host/path?query to <FIXTURE_SERVER_URL>/https/host/path?query; the scheme is
+ * kept so http:// and https:// requests replay their own recordings
+ */
+export function toFixtureServerUrl(url: string): string {
+  const serverUrl = process.env.FIXTURE_SERVER_URL;
+  if (!serverUrl) {
+    throw new Error('FIXTURE_MODE=server requires FIXTURE_SERVER_URL');
+  }
+  const parsed = new URL(url);
+  return `${serverUrl.replace(/\/+$/, '')}/${parsed.protocol.replace(/:$/, '')}/${parsed.host}${parsed.pathname}${parsed.search}`;
+}
+
+function missingFixtureMessage(method: string, url: string): string {
+  return `[Fixtures] No recorded response for ${method.toUpperCase()} ${url} (run with FIXTURE_MODE=record first)`;
+}
+
+/**
+ * Request body as sent on the wire; axios has already serialized JSON bodies by the time the
+ * adapter runs
+ */
+function requestBodyText(data: unknown): string | undefined {
+  if (data === undefined || data === null) {
+    return undefined;
+  }
+  if (typeof data === 'string') {
+    return data;
+  }
+  if (Buffer.isBuffer(data)) {
+    return data.toString('utf8');
+  }
+  if (data instanceof URLSearchParams) {
+    return data.toString();
+  }
+  return JSON.stringify(data);
+}
+
+function headersToRecord(headers: unknown): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (!headers || typeof headers !== 'object') {
+    return result;
+  }
+  for (const [name, value] of Object.entries(headers as Record<string, unknown>)) {
+    if (value !== undefined && value !== null) {
+      result[name.toLowerCase()] = String(value);
+    }
+  }
+  return result;
+}
+
+function createAxiosAdapter(realAdapter: AxiosAdapter): AxiosAdapter {
+  return async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const mode = getFixtureMode();
+    const method = (config.method || 'get').toUpperCase();
+    const url = axios.getUri(config);
+    const requestBody = requestBodyText(config.data);
+
+    if (mode === 'replay') {
+      const fixture = readFixture(method, url, requestBody);
+      if (!fixture) {
+        throw new AxiosError(missingFixtureMessage(method, url), 'ERR_FIXTURE_MISSING', config);
+      }
+
+      const response: AxiosResponse = {
+        data: fixture.response.body,
+        status: fixture.response.status,
+        statusText: fixture.response.statusText,
+        headers: new AxiosHeaders(fixture.response.headers),
+        config,
+        request: {},
+      };
+
+      // Same contract as axios' own settle(): honour the caller's validateStatus
+      if (!config.validateStatus || config.validateStatus(response.status)) {
+        return response;
+      }
+      throw new AxiosError(
+        `Request failed with status code ${response.status}`,
+        response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        response.request,
+        response
+      );
+    }
+
+    if (mode === 'server') {
+      return realAdapter({
+        ...config,
+        url: toFixtureServerUrl(url),
+        baseURL: undefined,
+        params: undefined,
+        httpsAgent: undefined,
+      });
+    }
+
+    if (mode === 'record') {
+      try {
+        const response = await realAdapter(config);
+        writeFixture(method, url, {
+          status: response.status,
+          statusText: response.statusText,
+          headers: headersToRecord(response.headers),
+          body: typeof response.data === 'string' ? response.data : JSON.stringify(response.data),
+        }, requestBody);
+        return response;
+      } catch (error) {
+        // Record 4xx/5xx responses too so replay reproduces the same failures
+        if (axios.isAxiosError(error) && error.response) {
+          const data = error.response.data;
+          writeFixture(method, url, {
+            status: error.response.status,
+            statusText: error.response.statusText,
+            headers: headersToRecord(error.response.headers),
+            body: typeof data === 'string' ? data : JSON.stringify(data ?? ''),
+          }, requestBody);
+        }
+        throw error;
+      }
+    }
+
+    return realAdapter(config);
+  };
+}
+
+function createFetch(realFetch: typeof fetch): typeof fetch {
+  return async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const mode = getFixtureMode();
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
+    const method = (init?.method || (typeof input === 'object' && 'method' in input ? input.method : 'GET')).toUpperCase();
+    const requestBody = requestBodyText(init?.body);
+
+    // Leave relative URLs and local requests alone (e.g. Next.js internals)
+    if (!mode || !/^https?:\/\//.test(url)) {
+      return realFetch(input, init);
+    }
+
+    if (mode === 'replay') {
+      const fixture = readFixture(method, url, requestBody);
+      if (!fixture) {
+        throw new Error(missingFixtureMessage(method, url));
+      }
+      const { status, statusText, headers, body } = fixture.response;
+      return new Response(status === 204 || status === 304 ? null : body, { status, statusText, headers });
+    }
+
+    if (mode === 'server') {
+      return realFetch(toFixtureServerUrl(url), init);
+    }
+
+    const response = await realFetch(input, init);
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      headers[name] = value;
+    });
+    writeFixture(method, url, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      body: await response.clone().text(),
+    }, requestBody);
+    return response;
+  };
+}
+
+/**
+ * Hook axios and fetch into the fixture layer when FIXTURE_MODE is set.
+ * Safe to call from every data source module; it only installs once and is a no-op otherwise.
+ */
+export function installFixtureMode(): void {
+  const mode = getFixtureMode();
+  if (installed || !mode) {
+    return;
+  }
+  installed = true;
+
+  const realAdapter = axios.getAdapter(axios.defaults.adapter);
+  axios.defaults.adapter = createAxiosAdapter(realAdapter);
+
+  if (typeof globalThis.fetch === 'function') {
+    globalThis.fetch = createFetch(globalThis.fetch.bind(globalThis));
+  }
+
+  console.log(`[Fixtures] ${mode} mode (${mode === 'server' ? process.env.FIXTURE_SERVER_URL : getFixtureDir()})`);
+}
@@ -0,0 +1,275 @@
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import * as https from 'https';
+import { installFixtureMode, getFixtureMode } from './fixtures';
+
+/**
+ * Shared HTTP client for every external data source
+ * (OpenParliament, ourcommons.ca, Represent, LEGISinfo, sencanada.ca) and the AI categorizers
+ *
+ * - Exponential backoff with jitter on 429, 5xx and transient network errors (honours Retry-After)
+ * - Per-host token bucket so bulk syncs stay polite
+ * - ETag / If-Modified-Since revalidation with an in-memory response cache
+ * - One User-Agent and one structured log line per outbound request
+ *
+ * Errors are plain AxiosErrors, so callers can keep checking error.response?.status.
+ */
+
+export const USER_AGENT = 'Mozilla/5.0 (compatible; PoliTracker/0.1; +https://github.com/raahulbis/Politracker)';
+
+export interface HttpGetOptions {
+  params?: Record<string, any>;
+  headers?: Record<string, string>;
+  timeout?: number;
+  responseType?: 'json' | 'text';
+  validateStatus?: (status: number) => boolean;
+  // Number of retries after the first attempt (default 3)
+  retries?: number;
+  // Send If-None-Match / If-Modified-Since from earlier responses (default true, GET only)
+  conditional?: boolean;
+}
+
+export type HttpPostOptions = Omit<HttpGetOptions, 'conditional'>;
+
+type HttpMethod = 'GET' | 'HEAD' | 'POST';
+
+interface RateLimit {
+  ratePerSecond: number;
+  burst: number;
+}
+
+interface TokenBucket extends RateLimit {
+  tokens: number;
+  lastRefill: number;
+  queue: Promise<void>;
+}
+
+interface CachedResponse {
+  etag?: string;
+  lastModified?: string;
+  data: any;
+  headers: AxiosResponse['headers'];
+}
+
+// OpenParliament asks API users to keep request rates modest; Represent allows 60 requests/minute
+const HOST_RATE_LIMITS: Record<string, RateLimit> = {
+  'api.openparliament.ca': { ratePerSecond: 2, burst: 2 },
+  'represent.opennorth.ca': { ratePerSecond: 1, burst: 5 },
+  'www.ourcommons.ca': { ratePerSecond: 2, burst: 4 },
+  'www.parl.ca': { ratePerSecond: 2, burst: 4 },
+};
+const DEFAULT_RATE_LIMIT: RateLimit = { ratePerSecond: 5, burst: 10 };
+
+const DEFAULT_TIMEOUT = 20000;
+const DEFAULT_RETRIES = 3;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+const MAX_RETRY_AFTER_MS = 60000;
+const MAX_CACHED_RESPONSES = 500;
+
+const RETRY_STATUSES = new Set([429, 500, 502, 503, 504]);
+const RETRY_ERROR_CODES = new Set(['ECONNABORTED', 'ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE']);
+
+// Fixture mode swaps the axios adapter, so it must be installed before the instance is created
+installFixtureMode();
+
+const client = axios.create({
+  // Only disable SSL verification in development if explicitly set
+  httpsAgent: new https.Agent({
+    keepAlive: true,
+    rejectUnauthorized: process.env.NODE_ENV === 'production' || process.env.SSL_REJECT_UNAUTHORIZED !== 'false',
+  }),
+  headers: {
+    'User-Agent': USER_AGENT,
+  },
+});
+
+const buckets = new Map<string, TokenBucket>();
+const responseCache = new Map<string, CachedResponse>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function logRequest(entry: Record<string, unknown>): void {
+  if (process.env.HTTP_LOG === 'off') {
+    return;
+  }
+  console.log(`[HTTP] ${JSON.stringify(entry)}`);
+}
+
+function getBucket(host: string): TokenBucket {
+  let bucket = buckets.get(host);
+  if (!bucket) {
+    const limit = HOST_RATE_LIMITS[host] || DEFAULT_RATE_LIMIT;
+    bucket = { ...limit, tokens: limit.burst, lastRefill: Date.now(), queue: Promise.resolve() };
+    buckets.set(host, bucket);
+  }
+  return bucket;
+}
+
+/**
+ * Wait for a token from the host's bucket. Waiters are queued so requests go out in order.
+ */
+function acquireToken(host: string): Promise<void> {
+  const bucket = getBucket(host);
+
+  const take = async () => {
+    for (;;) {
+      const now = Date.now();
+      bucket.tokens = Math.min(bucket.burst, bucket.tokens + ((now - bucket.lastRefill) / 1000) * bucket.ratePerSecond);
+      bucket.lastRefill = now;
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return;
+      }
+      await sleep(Math.ceil(((1 - bucket.tokens) / bucket.ratePerSecond) * 1000));
+    }
+  };
+
+  const next = bucket.queue.then(take);
+  bucket.queue = next.catch(() => undefined);
+  return next;
+}
+
+function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return null;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.min(seconds * 1000, MAX_RETRY_AFTER_MS);
+  }
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.min(Math.max(date - Date.now(), 0), MAX_RETRY_AFTER_MS);
+  }
+  return null;
+}
+
+function backoffDelay(attempt: number, retryAfter: unknown): number {
+  const fromHeader = parseRetryAfter(retryAfter);
+  if (fromHeader !== null) {
+    return fromHeader;
+  }
+  const exponential = Math.min(BASE_BACKOFF_MS * Math.pow(2, attempt - 1), MAX_BACKOFF_MS);
+  // Full jitter in the upper half keeps parallel callers from retrying in lockstep
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+function rememberResponse(key: string, response: AxiosResponse): void {
+  const etag = response.headers['etag'];
+  const lastModified = response.headers['last-modified'];
+  if (!etag && !lastModified) {
+    return;
+  }
+
+  responseCache.delete(key);
+  responseCache.set(key, {
+    etag: etag ? String(etag) : undefined,
+    lastModified: lastModified ? String(lastModified) : undefined,
+    data: response.data,
+    headers: response.headers,
+  });
+
+  // Map iteration order is insertion order, so the first key is the oldest
+  if (responseCache.size > MAX_CACHED_RESPONSES) {
+    const oldest = responseCache.keys().next().value;
+    if (oldest !== undefined) {
+      responseCache.delete(oldest);
+    }
+  }
+}
+
+async function send<T>(method: HttpMethod, url: string, options: HttpGetOptions, data?: unknown): Promise<AxiosResponse<T>> {
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  // A 304 recorded as a fixture would be useless on replay, so never revalidate while recording
+  const conditional = method === 'GET' && (options.conditional ?? true) && getFixtureMode() !== 'record';
+  const callerValidateStatus = options.validateStatus || ((status: number) => status >= 200 && status < 300);
+
+  const config: AxiosRequestConfig = {
+    method,
+    data,
+    params: options.params,
+    timeout: options.timeout ?? DEFAULT_TIMEOUT,
+    responseType: options.responseType ?? 'json',
+    headers: { ...options.headers },
+    validateStatus: (status) => status === 304 || callerValidateStatus(status),
+  };
+
+  const fullUrl = client.getUri({ ...config, url });
+  const host = new URL(fullUrl).host;
+  const cached = conditional ? responseCache.get(fullUrl) : undefined;
+
+  if (cached?.etag) {
+    config.headers!['If-None-Match'] = cached.etag;
+  }
+  if (cached?.lastModified) {
+    config.headers!['If-Modified-Since'] = cached.lastModified;
+  }
+
+  for (let attempt = 1; ; attempt++) {
+    await acquireToken(host);
+    const startedAt = Date.now();
+
+    try {
+      const response = await client.request<T>({ ...config, url });
+      const durationMs = Date.now() - startedAt;
+
+      if (response.status === 304 && cached) {
+        logRequest({ method, url: fullUrl, status: 304, ms: durationMs, attempt, cache: 'revalidated' });
+        return { ...response, status: 200, statusText: 'OK', data: cached.data, headers: cached.headers };
+      }
+
+      // Callers that accept 4xx/5xx through validateStatus still get retries on transient statuses
+      if (RETRY_STATUSES.has(response.status) && attempt <= retries) {
+        const delay = backoffDelay(attempt, response.headers['retry-after']);
+        logRequest({ method, url: fullUrl, status: response.status, ms: durationMs, attempt, retry_in_ms: delay });
+        await sleep(delay);
+        continue;
+      }
+
+      logRequest({ method, url: fullUrl, status: response.status, ms: durationMs, attempt });
+      if (conditional && response.status === 200) {
+        rememberResponse(fullUrl, response);
+      }
+      return response;
+    } catch (error: any) {
+      const durationMs = Date.now() - startedAt;
+      const status: number | undefined = error.response?.status;
+      const retryable = status !== undefined ? RETRY_STATUSES.has(status) : RETRY_ERROR_CODES.has(error.code);
+
+      if (retryable && attempt <= retries) {
+        const delay = backoffDelay(attempt, error.response?.headers?.['retry-after']);
+        logRequest({ method, url: fullUrl, status: status ?? null, error: error.code || error.message, ms: durationMs, attempt, retry_in_ms: delay });
+        await sleep(delay);
+        continue;
+      }
+
+      logRequest({ method, url: fullUrl, status: status ?? null, error: error.code || error.message, ms: durationMs, attempt });
+      throw error;
+    }
+  }
+}
+
+/**
+ * GET a URL through the shared client
+ */
+export async function httpGet<T = any>(url: string, options: HttpGetOptions = {}): Promise<AxiosResponse<T>> {
+  return send<T>('GET', url, options);
+}
+
+/**
+ * HEAD a URL through the shared client, e.g. to check that a file exists without downloading it
+ */
+export async function httpHead(url: string, options: HttpPostOptions = {}): Promise<AxiosResponse<void>> {
+  return send<void>('HEAD', url, options);
+}
+
+/**
+ * POST a JSON body through the shared client. Rate limits and server errors are retried like
+ * GETs, so only use it for requests that are safe to repeat.
+ */
+export async function httpPost<T = any>(url: string, data: unknown, options: HttpPostOptions = {}): Promise<AxiosResponse<T>> {
+  return send<T>('POST', url, options, data);
+}
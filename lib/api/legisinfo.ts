@@ -0,0 +1,243 @@
+import { httpGet } from './http-client';
+import {
+  BillChamber,
+  BillStageKey,
+  CHAMBER_STAGES,
+  ROYAL_ASSENT_STAGE,
+  getStageSortOrder,
+} from '@/lib/utils/bill-stages';
+
+const LEGISINFO_BASE = 'https://www.parl.ca/legisinfo/en/bill';
+
+export interface LegisinfoStage {
+  chamber: BillChamber;
+  stage: BillStageKey;
+  stage_name: string;
+  completed_at: string | null; // null while the stage is under way
+  sort_order: number;
+}
+
+type LegisinfoReadingDateField =
+  | 'PassedHouseFirstReadingDateTime'
+  | 'PassedHouseSecondReadingDateTime'
+  | 'PassedHouseThirdReadingDateTime'
+  | 'PassedSenateFirstReadingDateTime'
+  | 'PassedSenateSecondReadingDateTime'
+  | 'PassedSenateThirdReadingDateTime'
+  | 'ReceivedRoyalAssentDateTime';
+
+export interface LegisinfoBillStageEntry {
+  BillStageNameEn?: string;
+  StageNameEn?: string;
+  NameEn?: string;
+  Name?: string;
+  CompletedDateTime?: string | null;
+  IsCompleted?: boolean;
+  Sittings?: Array<{ Date?: string | null; SittingDate?: string | null }>;
+}
+
+export interface LegisinfoPublicationFile {
+  UrlEn?: string;
+  Url?: string;
+  FileUrl?: string;
+}
+
+export interface LegisinfoPublicationEntry {
+  PublicationTypeNameEn?: string;
+  PublicationTypeName?: string;
+  NameEn?: string;
+  Title?: string;
+  PublicationFiles?: LegisinfoPublicationFile[];
+  Files?: LegisinfoPublicationFile[];
+  PublicationDateTime?: string | null;
+  PublishedDateTime?: string | null;
+  Date?: string | null;
+}
+
+/**
+ * The parts of a bill's LEGISinfo JSON read by the sync steps; the whole record is stored
+ * as-is in bill_legisinfo, so other fields pass through untyped
+ */
+export type LegisinfoBill = { [field: string]: unknown } & Partial<Record<LegisinfoReadingDateField, string | null>> & {
+  BillId?: number;
+  BillStages?: {
+    HouseBillStages?: LegisinfoBillStageEntry[];
+    SenateBillStages?: LegisinfoBillStageEntry[];
+  };
+  Publications?: LegisinfoPublicationEntry[];
+};
+
+// Top-level LEGISinfo fields carrying the date each reading passed
+const READING_DATE_FIELDS: { chamber: BillChamber; stage: BillStageKey; field: LegisinfoReadingDateField }[] = [
+  { chamber: 'House', stage: 'first-reading', field: 'PassedHouseFirstReadingDateTime' },
+  { chamber: 'House', stage: 'second-reading', field: 'PassedHouseSecondReadingDateTime' },
+  { chamber: 'House', stage: 'third-reading', field: 'PassedHouseThirdReadingDateTime' },
+  { chamber: 'Senate', stage: 'first-reading', field: 'PassedSenateFirstReadingDateTime' },
+  { chamber: 'Senate', stage: 'second-reading', field: 'PassedSenateSecondReadingDateTime' },
+  { chamber: 'Senate', stage: 'third-reading', field: 'PassedSenateThirdReadingDateTime' },
+  { chamber: 'Royal Assent', stage: 'royal-assent', field: 'ReceivedRoyalAssentDateTime' },
+];
+
+/**
+ * Fetch a bill's LEGISinfo JSON, e.g. https://www.parl.ca/legisinfo/en/bill/45-1/c-2/json
+ * Returns null when LEGISinfo has no such bill.
+ */
+export async function fetchLegisinfoBill(session: string, billNumber: string): Promise<LegisinfoBill | null> {
+  const response = await httpGet<LegisinfoBill | LegisinfoBill[]>(`${LEGISINFO_BASE}/${session}/${billNumber.toLowerCase()}/json`, {
+    headers: {
+      'Accept': 'application/json',
+    },
+    validateStatus: (status) => status < 500,
+  });
+
+  if (response.status === 404) {
+    return null;
+  }
+  if (response.status !== 200) {
+    throw new Error(`LEGISinfo API returned ${response.status}`);
+  }
+
+  // The API returns an array with the bill as its only item
+  const data = Array.isArray(response.data) ? response.data[0] : response.data;
+  return data || null;
+}
+
+function toStageKey(name: string): BillStageKey | null {
+  if (/royal assent/i.test(name)) return 'royal-assent';
+  if (/first reading/i.test(name)) return 'first-reading';
+  if (/second reading/i.test(name)) return 'second-reading';
+  if (/third reading/i.test(name)) return 'third-reading';
+  if (/report stage|consideration .*report/i.test(name)) return 'report';
+  if (/committee/i.test(name)) return 'committee';
+  return null;
+}
+
+function toDate(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function latestSittingDate(stage: LegisinfoBillStageEntry): string | null {
+  const sittings = Array.isArray(stage.Sittings) ? stage.Sittings : [];
+  const dates = sittings
+    .map((sitting) => toDate(sitting?.Date ?? sitting?.SittingDate))
+    .filter((date): date is string => date !== null)
+    .sort();
+  return dates.length > 0 ? dates[dates.length - 1] : null;
+}
+
+/**
+ * Stage events for one bill from its LEGISinfo JSON
+ *
+ * Reading and royal assent dates come from the top-level Passed*DateTime fields; committee and
+ * report stages (and the current stage, with no completion date) come from BillStages.
+ */
+export function parseLegisinfoStages(data: LegisinfoBill, billNumber: string): LegisinfoStage[] {
+  const stages = new Map<string, LegisinfoStage>();
+
+  const addStage = (chamber: BillChamber, stage: BillStageKey, completedAt: string | null) => {
+    const key = `${chamber}:${stage}`;
+    const existing = stages.get(key);
+    if (existing) {
+      existing.completed_at = existing.completed_at || completedAt;
+      return;
+    }
+    const name = stage === 'royal-assent'
+      ? ROYAL_ASSENT_STAGE.name
+      : CHAMBER_STAGES.find((s) => s.stage === stage)!.name;
+    stages.set(key, {
+      chamber,
+      stage,
+      stage_name: name,
+      completed_at: completedAt,
+      sort_order: getStageSortOrder(billNumber, chamber, stage),
+    });
+  };
+
+  for (const { chamber, stage, field } of READING_DATE_FIELDS) {
+    const completedAt = toDate(data[field]);
+    if (completedAt) {
+      addStage(chamber, stage, completedAt);
+    }
+  }
+
+  const chamberLists: { chamber: BillChamber; list: LegisinfoBillStageEntry[] | undefined }[] = [
+    { chamber: 'House', list: data.BillStages?.HouseBillStages },
+    { chamber: 'Senate', list: data.BillStages?.SenateBillStages },
+  ];
+  for (const { chamber, list } of chamberLists) {
+    if (!Array.isArray(list)) continue;
+    for (const entry of list) {
+      const name = entry?.BillStageNameEn ?? entry?.StageNameEn ?? entry?.NameEn ?? entry?.Name;
+      const stage = typeof name === 'string' ? toStageKey(name) : null;
+      if (!stage) continue;
+      const completedAt = toDate(entry?.CompletedDateTime) ?? (entry?.IsCompleted ? latestSittingDate(entry) : null);
+      addStage(stage === 'royal-assent' ? 'Royal Assent' : chamber, stage, completedAt);
+    }
+  }
+
+  return Array.from(stages.values()).sort((a, b) => a.sort_order - b.sort_order);
+}
+
+export interface LegisinfoPublication {
+  version_number: number; // 1 for first reading, increasing with each reprint
+  version_name: string;
+  url: string;
+  published_at: string | null;
+}
+
+const PARL_BASE = 'https://www.parl.ca';
+
+function pickDocumentUrl(files: LegisinfoPublicationFile[] | undefined): string | null {
+  if (!Array.isArray(files)) return null;
+  const urls = files
+    .map((file) => file?.UrlEn ?? file?.Url ?? file?.FileUrl)
+    .filter((url): url is string => typeof url === 'string' && url.length > 0)
+    .map((url) => (url.startsWith('http') ? url : `${PARL_BASE}${url.startsWith('/') ? '' : '/'}${url}`));
+
+  // XML carries the cleanest clause structure; HTML is the fallback, PDFs are skipped
+  return urls.find((url) => /\.xml(\?|$)/i.test(url)) ?? urls.find((url) => /\.html?(\?|$)/i.test(url)) ?? null;
+}
+
+/**
+ * Published text versions of a bill listed in its LEGISinfo JSON, oldest first
+ *
+ * Bills with no publication list yet have no versions; the source URL identifies each version.
+ */
+export function parseLegisinfoPublications(data: LegisinfoBill): LegisinfoPublication[] {
+  const publications = Array.isArray(data.Publications) ? data.Publications : [];
+  const versions: Omit<LegisinfoPublication, 'version_number'>[] = [];
+
+  for (const publication of publications) {
+    const name = publication?.PublicationTypeNameEn ?? publication?.PublicationTypeName ?? publication?.NameEn ?? publication?.Title;
+    const url = pickDocumentUrl(publication?.PublicationFiles ?? publication?.Files);
+    if (typeof name !== 'string' || !url || versions.some((version) => version.url === url)) continue;
+    versions.push({
+      version_name: name,
+      url,
+      published_at: toDate(publication?.PublicationDateTime ?? publication?.PublishedDateTime ?? publication?.Date),
+    });
+  }
+  versions.sort((a, b) => (a.published_at || '').localeCompare(b.published_at || ''));
+
+  return versions.map((version, index) => ({ ...version, version_number: index + 1 }));
+}
+
+/**
+ * Raw XML or HTML of a published bill version, or null if it is not available
+ */
+export async function fetchBillDocument(url: string): Promise<string | null> {
+  const response = await httpGet<string>(url, {
+    responseType: 'text',
+    validateStatus: (status) => status < 500,
+  });
+
+  if (response.status === 404) {
+    return null;
+  }
+  if (response.status !== 200) {
+    throw new Error(`parl.ca returned ${response.status} for ${url}`);
+  }
+  return response.data;
+}
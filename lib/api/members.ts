@@ -0,0 +1,98 @@
+import { parseStringPromise } from 'xml2js';
+import { httpGet } from './http-client';
+import type { SeatTerm, CaucusTerm } from '@/lib/utils/memberships';
+
+const COMMONS_BASE = 'https://www.ourcommons.ca';
+
+export interface MemberProfileTerms {
+  seats: SeatTerm[];
+  caucuses: CaucusTerm[];
+}
+
+function getValue(field: any): string {
+  if (Array.isArray(field)) {
+    return getValue(field[0]);
+  }
+  if (typeof field === 'string') {
+    return field;
+  }
+  if (field && typeof field === 'object' && field._) {
+    return field._ || '';
+  }
+  return '';
+}
+
+// ourcommons.ca dates look like "2021-09-20T00:00:00"; nil dates come back as attribute-only objects
+function toDate(field: any): string | null {
+  const value = getValue(field);
+  return /^\d{4}-\d{2}-\d{2}/.test(value) ? value.substring(0, 10) : null;
+}
+
+function toList(container: any, key: string): any[] {
+  const items = container?.[key];
+  if (!items) return [];
+  return Array.isArray(items) ? items : [items];
+}
+
+/**
+ * ourcommons.ca profile slug, e.g. "Ziad Aboultaif" -> "ziad-aboultaif".
+ * The site resolves profiles by PersonId, so an outdated name still works.
+ */
+function nameToSlug(firstName: string, lastName: string): string {
+  const clean = (value: string) =>
+    value.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]/g, '');
+  return `${clean(firstName)}-${clean(lastName)}`;
+}
+
+/**
+ * Fetch every seat and caucus term on an MP's ourcommons.ca profile, across all parliaments
+ */
+export async function fetchMemberProfileTerms(personId: string, firstName: string, lastName: string): Promise<MemberProfileTerms> {
+  const url = `${COMMONS_BASE}/Members/en/${nameToSlug(firstName, lastName)}(${personId})/xml`;
+  const response = await httpGet<string>(url, {
+    responseType: 'text',
+    headers: {
+      'Accept': 'application/xml, text/xml',
+    },
+    timeout: 15000,
+    validateStatus: (status) => status < 500,
+  });
+
+  if (response.status !== 200) {
+    throw new Error(`Failed to fetch profile XML for ${personId}: HTTP ${response.status}`);
+  }
+
+  const result = await parseStringPromise(response.data, {
+    trim: true,
+    explicitArray: false,
+    explicitRoot: false,
+  });
+
+  const seats: SeatTerm[] = [];
+  for (const role of toList(result?.MemberOfParliamentRoles, 'MemberOfParliamentRole')) {
+    const districtName = getValue(role.ConstituencyName);
+    const fromDate = toDate(role.FromDateTime);
+    if (!districtName || !fromDate) continue;
+
+    const parliament = parseInt(getValue(role.ParliamentNumber), 10);
+    seats.push({
+      districtName,
+      province: getValue(role.ConstituencyProvinceTerritoryName) || null,
+      partyName: getValue(role.CaucusShortName) || null,
+      parliamentNumber: Number.isNaN(parliament) ? null : parliament,
+      fromDate,
+      toDate: toDate(role.ToDateTime),
+    });
+  }
+
+  const caucuses: CaucusTerm[] = [];
+  for (const role of toList(result?.CaucusMemberRoles, 'CaucusMemberRole')) {
+    const partyName = getValue(role.CaucusShortName);
+    const fromDate = toDate(role.FromDateTime);
+    if (!partyName || !fromDate) continue;
+
+    caucuses.push({ partyName, fromDate, toDate: toDate(role.ToDateTime) });
+  }
+
+  return { seats, caucuses };
+}
@@ -1,17 +1,10 @@
-import axios from 'axios';
-import * as https from 'https';
 import type { Vote, VotingRecord, Motion, MotionBreakdown } from '@/types';
 import { cacheVoteDetails, getCachedVoteDetails, cacheMPVotes, getCachedMPVotes } from './openparliament-cache';
 import { getDatabase } from '@/lib/db/database';
+import { httpGet } from './http-client';
 
 const OPENPARLIAMENT_API_BASE = 'https://api.openparliament.ca';
 
-// Only disable SSL verification in development if explicitly set
-// In production, always verify SSL certificates for security
-const httpsAgent = new https.Agent({
-  rejectUnauthorized: process.env.NODE_ENV === 'production' || process.env.SSL_REJECT_UNAUTHORIZED !== 'false'
-});
-
 /**
  * Convert MP name to OpenParliament slug
  * e.g., "Justin Trudeau" -> "justin-trudeau"
@@ -136,65 +129,41 @@ export async function getMPVotingRecord(mpName: string, limit: number = 500): Pr
     const batchSize = 100;
 
     while (offset < limit) {
-      let retryCount = 0;
-      const maxRetries = 3;
-      let success = false;
+      // Retries and rate limiting are handled by the shared HTTP client
       let response: any = null;
-      
-      while (!success && retryCount < maxRetries) {
-        try {
-          const apiUrl = `${OPENPARLIAMENT_API_BASE}/votes/ballots/`;
-          const params = {
-            politician: slug,
-            limit: Math.min(batchSize, limit - offset),
-            offset,
+      const apiUrl = `${OPENPARLIAMENT_API_BASE}/votes/ballots/`;
+      const params = {
+        politician: slug,
+        limit: Math.min(batchSize, limit - offset),
+        offset,
+      };
+      console.log(`[OpenParliament] API call: ${apiUrl}?politician=${slug}&limit=${params.limit}&offset=${offset}`);
+
+      try {
+        response = await httpGet(apiUrl, { params });
+        console.log(`[OpenParliament] API response status: ${response.status}, ballots returned: ${response.data?.objects?.length || 0}`);
+      } catch (error: any) {
+        if (error.response?.status === 404) {
+          // 404 means the politician slug doesn't exist
+          console.warn(`[OpenParliament] Politician "${slug}" not found (404) for MP "${mpName}". The name might not match OpenParliament's records.`);
+          // Return empty record instead of throwing
+          return {
+            mp_id: slug,
+            mp_name: mpName,
+            total_votes: 0,
+            votes: [],
           };
-          console.log(`[OpenParliament] API call: ${apiUrl}?politician=${slug}&limit=${params.limit}&offset=${offset}`);
-          
-          response = await axios.get(apiUrl, {
-            httpsAgent,
-            params,
-            timeout: 20000,
-          });
-          success = true;
-          
-          console.log(`[OpenParliament] API response status: ${response.status}, ballots returned: ${response.data?.objects?.length || 0}`);
-        } catch (error: any) {
-          if (error.response?.status === 429) {
-            // Rate limited - exponential backoff
-            retryCount++;
-            const backoffDelay = Math.min(2000 * Math.pow(2, retryCount), 60000); // Max 60 seconds
-            console.warn(`Rate limited (429) fetching ballots for ${mpName}. Waiting ${backoffDelay/1000}s before retry ${retryCount}/${maxRetries}...`);
-            await new Promise(resolve => setTimeout(resolve, backoffDelay));
-          } else if (error.response?.status === 404) {
-            // 404 means the politician slug doesn't exist
-            console.warn(`[OpenParliament] Politician "${slug}" not found (404) for MP "${mpName}". The name might not match OpenParliament's records.`);
-            // Return empty record instead of throwing
-            return {
-              mp_id: slug,
-              mp_name: mpName,
-              total_votes: 0,
-              votes: [],
-            };
-          } else {
-            // Log other errors before throwing
-            console.error(`[OpenParliament] Error fetching ballots for ${mpName} (slug: ${slug}):`, {
-              status: error.response?.status,
-              statusText: error.response?.statusText,
-              message: error.message,
-              url: error.config?.url,
-            });
-            // Other error - throw it
-            throw error;
-          }
         }
+        // Log other errors before throwing
+        console.error(`[OpenParliament] Error fetching ballots for ${mpName} (slug: ${slug}):`, {
+          status: error.response?.status,
+          statusText: error.response?.statusText,
+          message: error.message,
+          url: error.config?.url,
+        });
+        throw error;
       }
       
-      if (!response) {
-        console.error(`Failed to fetch ballots for ${mpName} after ${maxRetries} retries`);
-        break;
-      }
-
       const ballots = response.data.objects || [];
       console.log(`[OpenParliament] Retrieved ${ballots.length} ballots for ${mpName} (offset: ${offset})`);
       
@@ -208,9 +177,6 @@ export async function getMPVotingRecord(mpName: string, limit: number = 500): Pr
 
       // Check if there's more data
       if (!response.data.pagination?.next_url || offset >= limit) break;
-      
-      // Delay between ballot fetches to avoid rate limiting (increased to 1 second)
-      await new Promise(resolve => setTimeout(resolve, 1000));
     }
 
     // Fetch vote details for each ballot to get full information
@@ -239,53 +205,17 @@ export async function getMPVotingRecord(mpName: string, limit: number = 500): Pr
 
     console.log(`Using ${voteUrlArray.length - uncachedVoteUrls.length} cached vote details, fetching ${uncachedVoteUrls.length} new ones`);
     
-    // Fetch vote details one at a time with retry logic for timeouts and rate limits
-    for (let i = 0; i < uncachedVoteUrls.length; i++) {
-      const voteUrl = uncachedVoteUrls[i];
-      let retryCount = 0;
-      const maxRetries = 3;
-      let success = false;
-      
-      while (!success && retryCount < maxRetries) {
-        try {
-          const voteResponse = await axios.get(`${OPENPARLIAMENT_API_BASE}${voteUrl}`, {
-            httpsAgent,
-            timeout: 20000,
-          });
-          const voteData = voteResponse.data;
-          voteDetailsCache.set(voteUrl, voteData);
-          // Cache the vote details for future use
-          cacheVoteDetails(voteUrl, voteData);
-          success = true;
-        } catch (error: any) {
-          const isTimeout = error.code === 'ECONNABORTED' || error.message?.includes('timeout');
-          const isRateLimit = error.response?.status === 429;
-          
-          if (isTimeout || isRateLimit) {
-            // Retry on timeout or rate limit
-            retryCount++;
-            const backoffDelay = Math.min(2000 * Math.pow(2, retryCount - 1), 30000); // Max 30 seconds
-            if (isTimeout) {
-              console.warn(`Timeout fetching ${voteUrl}. Retrying (${retryCount}/${maxRetries}) after ${backoffDelay/1000}s...`);
-            } else {
-              console.warn(`Rate limited (429) for ${voteUrl}. Waiting ${backoffDelay/1000}s before retry ${retryCount}/${maxRetries}...`);
-            }
-            await new Promise(resolve => setTimeout(resolve, backoffDelay));
-          } else {
-            // Other error - log and skip
-            console.error(`Error fetching vote details for ${voteUrl}:`, error.message);
-            success = true; // Move on to next vote
-          }
-        }
-      }
-      
-      if (!success) {
-        console.error(`Failed to fetch vote details for ${voteUrl} after ${maxRetries} retries`);
-      }
-      
-      // Delay between requests to avoid rate limiting and reduce load (increased to 1 second)
-      if (i < uncachedVoteUrls.length - 1) {
-        await new Promise(resolve => setTimeout(resolve, 1000)); // 1 second between requests
+    // Fetch vote details one at a time (the shared HTTP client retries timeouts and rate limits)
+    for (const voteUrl of uncachedVoteUrls) {
+      try {
+        const voteResponse = await httpGet(`${OPENPARLIAMENT_API_BASE}${voteUrl}`);
+        const voteData = voteResponse.data;
+        voteDetailsCache.set(voteUrl, voteData);
+        // Cache the vote details for future use
+        cacheVoteDetails(voteUrl, voteData);
+      } catch (error: any) {
+        // Log and skip - the vote is left out of the record
+        console.error(`Error fetching vote details for ${voteUrl}:`, error.message);
       }
     }
 
@@ -318,8 +248,7 @@ export async function getMPVotingRecord(mpName: string, limit: number = 500): Pr
             
             if (!billData) {
               // Fetch bill details to get sponsor and date
-              const billResponse = await axios.get(`${OPENPARLIAMENT_API_BASE}${voteData.bill_url}`, {
-                httpsAgent,
+              const billResponse = await httpGet(`${OPENPARLIAMENT_API_BASE}${voteData.bill_url}`, {
                 timeout: 10000,
               });
               billData = billResponse.data;
@@ -330,9 +259,9 @@ export async function getMPVotingRecord(mpName: string, limit: number = 500): Pr
             // Get sponsor's party from bill data
             if (billData?.sponsor_politician_membership_url) {
               try {
-                const membershipResponse = await axios.get(
+                const membershipResponse = await httpGet(
                   `${OPENPARLIAMENT_API_BASE}${billData.sponsor_politician_membership_url}`,
-                  { httpsAgent, timeout: 10000 }
+                  { timeout: 10000 }
                 );
                 sponsorParty = membershipResponse.data.party?.short_name?.en || 
                               membershipResponse.data.party?.name?.en;
@@ -606,8 +535,7 @@ export async function getMPMotions(mpName: string, limit: number = 100): Promise
     const batchSize = 50;
 
     while (offset < limit) {
-      const response = await axios.get(`${OPENPARLIAMENT_API_BASE}/bills/`, {
-        httpsAgent,
+      const response = await httpGet(`${OPENPARLIAMENT_API_BASE}/bills/`, {
         params: {
           sponsor_politician: slug,
           limit: Math.min(batchSize, limit - offset),
@@ -631,8 +559,7 @@ export async function getMPMotions(mpName: string, limit: number = 100): Promise
       allBills.map(async (bill) => {
         try {
           // Fetch full bill details for status and other info
-          const billResponse = await axios.get(`${OPENPARLIAMENT_API_BASE}${bill.url}`, {
-            httpsAgent,
+          const billResponse = await httpGet(`${OPENPARLIAMENT_API_BASE}${bill.url}`, {
             timeout: 10000,
           });
 
@@ -642,9 +569,9 @@ export async function getMPMotions(mpName: string, limit: number = 100): Promise
           let sponsorParty: string | undefined;
           if (billData.sponsor_politician_membership_url) {
             try {
-              const membershipResponse = await axios.get(
+              const membershipResponse = await httpGet(
                 `${OPENPARLIAMENT_API_BASE}${billData.sponsor_politician_membership_url}`,
-                { httpsAgent, timeout: 10000 }
+                { timeout: 10000 }
               );
               sponsorParty = membershipResponse.data.party?.short_name?.en || 
                             membershipResponse.data.party?.name?.en;
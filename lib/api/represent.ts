@@ -1,6 +1,5 @@
-import axios from 'axios';
-import * as https from 'https';
 import { normalizePostalCode, validatePostalCodeFormat } from '@/lib/utils/postal-code';
+import { httpGet } from './http-client';
 
 const REPRESENT_API_BASE = 'https://represent.opennorth.ca';
 
@@ -51,27 +50,16 @@ export async function fetchPostalCodeData(postalCode: string): Promise<{
   }
 
   try {
-    // Only disable SSL verification in development if explicitly set
-    // In production, always verify SSL certificates for security
-    const httpsAgent = new https.Agent({
-      rejectUnauthorized: process.env.NODE_ENV === 'production' || process.env.SSL_REJECT_UNAUTHORIZED !== 'false'
-    });
-
     // Use the correct URL format: /postcodes/{postal_code}/
     // Don't use sets parameter - we want all data including representatives
     const url = `${REPRESENT_API_BASE}/postcodes/${normalized}/`;
     console.log(`[Represent API] Fetching: ${url}`);
     
-    const response = await axios.get<PostalCodeResponse>(
-      url,
-      {
-        httpsAgent,
-        params: {
-          // Don't restrict to sets - we want representatives too
-        },
-        timeout: 5000, // Reduced timeout to 5 seconds to fail faster
-      }
-    );
+    // Single retry only - this runs inside a user-facing search request
+    const response = await httpGet<PostalCodeResponse>(url, {
+      timeout: 5000, // Reduced timeout to 5 seconds to fail faster
+      retries: 1,
+    });
     
     console.log(`[Represent API] Response status: ${response.status}`);
     console.log(`[Represent API] Response data keys:`, Object.keys(response.data || {}));
@@ -0,0 +1,230 @@
+import { httpGet } from './http-client';
+import { getSenateGroupName, extractSenateBillNumber } from '@/lib/utils/senate';
+
+/**
+ * sencanada.ca has no JSON API, so senators and divisions are read from the public HTML
+ * pages: the senators list, the per-session votes list and each division's details page.
+ */
+
+const SENATE_BASE = 'https://sencanada.ca';
+
+export interface SenatorListing {
+  senate_id: string; // profile slug, e.g. "smith-larry"
+  name: string;
+  first_name: string | null;
+  last_name: string | null;
+  affiliation: string | null;
+  province: string | null;
+  appointed_date: string | null;
+  retirement_date: string | null;
+  url: string;
+}
+
+export interface SenateDivisionListing {
+  division_id: string;
+  session: string;
+  date: string | null;
+  description: string;
+  bill_number: string | null;
+  result: string | null;
+  yeas: number;
+  nays: number;
+  abstentions: number;
+  url: string;
+}
+
+export interface SenateBallot {
+  senate_id: string;
+  name: string;
+  vote_type: 'Yea' | 'Nay' | 'Abstention';
+}
+
+const SENATOR_LINK = /href="(?:https:\/\/sencanada\.ca)?\/en\/senators\/([a-z0-9-]+)\/?"[^>]*>([\s\S]*?)<\/a>/i;
+
+function cleanText(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&quot;/g, '"')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function tableRows(html: string): string[] {
+  return html.match(/<tr\b[\s\S]*?<\/tr>/gi) || [];
+}
+
+function rowCells(row: string): string[] {
+  return (row.match(/<t[dh]\b[\s\S]*?<\/t[dh]>/gi) || []).map(cleanText);
+}
+
+function toIsoDate(value: string): string | null {
+  const iso = value.match(/\d{4}-\d{2}-\d{2}/);
+  if (iso) return iso[0];
+  // Otherwise only written-out dates such as "June 20, 2025" - bare numbers are vote counts
+  if (!/^[A-Za-z]+\.? \d{1,2}, \d{4}$/.test(value)) return null;
+  const date = new Date(`${value} UTC`);
+  return isNaN(date.getTime()) ? null : date.toISOString().substring(0, 10);
+}
+
+// Listings show names as "Last, First"
+function splitName(listed: string): { name: string; first_name: string | null; last_name: string | null } {
+  const [last, first] = listed.split(',').map((part) => part.trim());
+  if (!first) {
+    return { name: listed, first_name: null, last_name: null };
+  }
+  return { name: `${first} ${last}`, first_name: first, last_name: last };
+}
+
+async function fetchPage(path: string): Promise<string> {
+  const response = await httpGet<string>(`${SENATE_BASE}${path}`, {
+    responseType: 'text',
+    timeout: 30000,
+  });
+  return response.data;
+}
+
+/**
+ * Sitting senators from https://sencanada.ca/en/senators-list/
+ */
+export async function fetchSenators(): Promise<SenatorListing[]> {
+  const html = await fetchPage('/en/senators-list/');
+  const senators: SenatorListing[] = [];
+
+  for (const row of tableRows(html)) {
+    const link = row.match(SENATOR_LINK);
+    if (!link) continue;
+
+    const cells = rowCells(row);
+    const dates = cells.map(toIsoDate).filter((date): date is string => date !== null);
+    // Cells after the name: affiliation, province, then appointment and retirement dates
+    const [, affiliation, province] = cells;
+
+    senators.push({
+      senate_id: link[1],
+      ...splitName(cleanText(link[2])),
+      affiliation: getSenateGroupName(affiliation),
+      province: province || null,
+      appointed_date: dates[0] || null,
+      retirement_date: dates[1] || null,
+      url: `${SENATE_BASE}/en/senators/${link[1]}/`,
+    });
+  }
+
+  return senators;
+}
+
+/**
+ * Recorded divisions of one session (e.g. "45-1") from the Senate votes list
+ */
+export async function fetchSenateDivisions(session: string): Promise<SenateDivisionListing[]> {
+  const html = await fetchPage(`/en/in-the-chamber/votes/${session}`);
+  const divisions: SenateDivisionListing[] = [];
+
+  for (const row of tableRows(html)) {
+    const link = row.match(/href="((?:https:\/\/sencanada\.ca)?\/en\/in-the-chamber\/votes\/details\/(\d+)\/[^"]*)"/i);
+    if (!link) continue;
+
+    const cells = rowCells(row);
+    const counts = cells.filter((cell) => /^\d+$/.test(cell)).map((cell) => parseInt(cell, 10));
+    const date = cells.map(toIsoDate).find((value) => value !== null) || null;
+    const result = cells.find((cell) => /adopted|defeated|negatived|carried/i.test(cell)) || null;
+    // The subject is the longest cell that is not the result
+    const description = cells
+      .filter((cell) => cell !== result && !/^\d+$/.test(cell))
+      .sort((a, b) => b.length - a.length)[0] || '';
+
+    divisions.push({
+      division_id: link[2],
+      session,
+      date,
+      description,
+      bill_number: extractSenateBillNumber(description),
+      result,
+      yeas: counts[0] ?? 0,
+      nays: counts[1] ?? 0,
+      abstentions: counts[2] ?? 0,
+      url: link[1].startsWith('http') ? link[1] : `${SENATE_BASE}${link[1]}`,
+    });
+  }
+
+  return divisions;
+}
+
+function toVoteType(label: string): SenateBallot['vote_type'] | null {
+  if (/^(yea|yeas|for)\b/i.test(label)) return 'Yea';
+  if (/^(nay|nays|against)\b/i.test(label)) return 'Nay';
+  if (/^abstention/i.test(label)) return 'Abstention';
+  return null;
+}
+
+/**
+ * How each senator voted on a division, parsed from its details page
+ *
+ * Ballots are either grouped under Yeas / Nays / Abstentions headings or laid out as a table
+ * with one column per vote; both layouts are handled.
+ */
+function parseDivisionBallots(html: string): SenateBallot[] {
+  const ballots = new Map<string, SenateBallot>();
+
+  // Table layout: a header row naming the vote columns, then a mark in one of them per senator
+  let columns: (SenateBallot['vote_type'] | null)[] = [];
+  for (const row of tableRows(html)) {
+    const link = row.match(SENATOR_LINK);
+    const cells = rowCells(row);
+    if (!link) {
+      if (cells.some((cell) => toVoteType(cell))) columns = cells.map(toVoteType);
+      continue;
+    }
+    const index = cells.findIndex((cell, i) => i > 0 && columns[i] && cell.length > 0);
+    if (index > 0) {
+      ballots.set(link[1], { senate_id: link[1], name: splitName(cleanText(link[2])).name, vote_type: columns[index]! });
+    }
+  }
+  if (ballots.size > 0) {
+    return Array.from(ballots.values());
+  }
+
+  // Heading layout: every senator link belongs to the last Yeas / Nays / Abstentions heading above it
+  let current: SenateBallot['vote_type'] | null = null;
+  const tokens = html.match(/<h[1-6]\b[\s\S]*?<\/h[1-6]>|<a\b[^>]*\/en\/senators\/[\s\S]*?<\/a>/gi) || [];
+  for (const token of tokens) {
+    const link = token.match(SENATOR_LINK);
+    if (!link) {
+      current = toVoteType(cleanText(token));
+      continue;
+    }
+    if (current) {
+      ballots.set(link[1], { senate_id: link[1], name: splitName(cleanText(link[2])).name, vote_type: current });
+    }
+  }
+
+  return Array.from(ballots.values());
+}
+
+/**
+ * How each senator voted on a division, from its details page
+ *
+ * Throws if the parsed ballots don't add up to the totals listed for the division, so a change
+ * in the page layout fails the sync instead of storing partial votes.
+ */
+export async function fetchSenateDivisionBallots(
+  division: Pick<SenateDivisionListing, 'url' | 'yeas' | 'nays' | 'abstentions'>
+): Promise<SenateBallot[]> {
+  const html = (await httpGet<string>(division.url, { responseType: 'text', timeout: 30000 })).data;
+  const ballots = parseDivisionBallots(html);
+
+  const count = (voteType: SenateBallot['vote_type']) => ballots.filter((ballot) => ballot.vote_type === voteType).length;
+  const parsed = { yeas: count('Yea'), nays: count('Nay'), abstentions: count('Abstention') };
+  if (parsed.yeas !== division.yeas || parsed.nays !== division.nays || parsed.abstentions !== division.abstentions) {
+    throw new Error(
+      `Parsed ${parsed.yeas}-${parsed.nays}-${parsed.abstentions} ballots from ${division.url}, ` +
+      `but the division lists ${division.yeas}-${division.nays}-${division.abstentions}`
+    );
+  }
+
+  return ballots;
+}
@@ -0,0 +1,178 @@
+import { queryAll } from './database';
+
+export type AlignmentAnswer = 'agree' | 'disagree' | 'skip';
+
+export interface AlignmentQuestion {
+  id: number;
+  slug: string;
+  vote_id: string;
+  bill_number: string | null;
+  bill_title: string | null;
+  question: string;
+  explanation: string | null;
+  agree_position: 'Yea' | 'Nay';
+  motion_title: string | null;
+  date: string | null;
+  result: string | null;
+}
+
+export interface AlignmentScore {
+  compared: number; // answered questions the MP or party took a side on
+  agreed: number;
+  agreement_percentage: number | null;
+}
+
+export interface MPAlignment extends AlignmentScore {
+  mp_id: number;
+  name: string;
+  party_name: string | null;
+  district_name: string;
+  photo_url: string | null;
+  rank: number | null; // null when the MP voted on too few of the answered questions
+}
+
+export interface PartyAlignment extends AlignmentScore {
+  party: string;
+}
+
+export interface AlignmentResult {
+  answered: number;
+  closest_mps: MPAlignment[];
+  parties: PartyAlignment[];
+  your_mp: MPAlignment | null;
+  ranked_mps: number;
+}
+
+// An MP is only ranked after taking a side on at least half of the user's answered questions
+const MIN_COMPARED_SHARE = 0.5;
+const DEFAULT_CLOSEST_LIMIT = 10;
+
+/**
+ * Active quiz questions with the division and bill each one is based on
+ */
+export async function getAlignmentQuestions(): Promise<AlignmentQuestion[]> {
+  return queryAll<AlignmentQuestion>(`
+    SELECT
+      q.id,
+      q.slug,
+      q.vote_id,
+      q.bill_number,
+      b.title AS bill_title,
+      q.question,
+      q.explanation,
+      q.agree_position,
+      m.name AS motion_title,
+      m.date::text AS date,
+      m.result
+    FROM alignment_questions q
+    LEFT JOIN motions m
+      ON '/votes/' || m.parliament_number || '-' || m.session_number || '/' || m.decision_division_number || '/' = q.vote_id
+    LEFT JOIN LATERAL (
+      SELECT title FROM bills_motions
+      WHERE bill_number = q.bill_number
+      ORDER BY id DESC
+      LIMIT 1
+    ) b ON true
+    WHERE q.active
+    ORDER BY q.sort_order, q.id
+  `);
+}
+
+function score(compared: number, agreed: number): AlignmentScore {
+  return {
+    compared,
+    agreed,
+    agreement_percentage: compared > 0 ? (agreed / compared) * 100 : null,
+  };
+}
+
+/**
+ * Score a user's answers against every current MP's ballot and every party's majority position
+ * on the same divisions. Paired, abstained and missed votes are not counted either way.
+ *
+ * yourDistrict is the user's riding; their MP is returned whether or not they rank.
+ */
+export async function scoreAlignment(
+  answers: Record<number, AlignmentAnswer>,
+  yourDistrict?: string | null,
+  closestLimit: number = DEFAULT_CLOSEST_LIMIT
+): Promise<AlignmentResult> {
+  const questions = await getAlignmentQuestions();
+  const answered = questions.filter((question) => answers[question.id] === 'agree' || answers[question.id] === 'disagree');
+
+  // The ballot that matches each answer
+  const wanted = new Map<string, 'Yea' | 'Nay'>();
+  for (const question of answered) {
+    const opposite = question.agree_position === 'Yea' ? 'Nay' : 'Yea';
+    wanted.set(question.vote_id, answers[question.id] === 'agree' ? question.agree_position : opposite);
+  }
+  const voteIds = Array.from(wanted.keys());
+
+  const mps = await queryAll<Omit<MPAlignment, keyof AlignmentScore | 'rank'>>(`
+    SELECT id AS mp_id, name, party_name, district_name, photo_url
+    FROM mps
+  `);
+
+  const ballots = voteIds.length > 0
+    ? await queryAll<{ mp_id: number; vote_id: string; vote_type: string }>(`
+        SELECT mp_id, vote_id, vote_type
+        FROM votes
+        WHERE vote_id = ANY($1::text[]) AND vote_type IN ('Yea', 'Nay')
+      `, [voteIds])
+    : [];
+
+  const positions = voteIds.length > 0
+    ? await queryAll<{ vote_id: string; party: string; position: string }>(`
+        SELECT vote_id, party, position
+        FROM party_positions
+        WHERE vote_id = ANY($1::text[]) AND position IN ('Yea', 'Nay')
+      `, [voteIds])
+    : [];
+
+  const mpTallies = new Map<number, { compared: number; agreed: number }>();
+  for (const ballot of ballots) {
+    const tally = mpTallies.get(ballot.mp_id) || { compared: 0, agreed: 0 };
+    tally.compared++;
+    if (wanted.get(ballot.vote_id) === ballot.vote_type) tally.agreed++;
+    mpTallies.set(ballot.mp_id, tally);
+  }
+
+  const partyTallies = new Map<string, { compared: number; agreed: number }>();
+  for (const row of positions) {
+    const tally = partyTallies.get(row.party) || { compared: 0, agreed: 0 };
+    tally.compared++;
+    if (wanted.get(row.vote_id) === row.position) tally.agreed++;
+    partyTallies.set(row.party, tally);
+  }
+
+  const minCompared = Math.max(1, Math.ceil(answered.length * MIN_COMPARED_SHARE));
+  const scored = mps.map((mp) => {
+    const tally = mpTallies.get(mp.mp_id) || { compared: 0, agreed: 0 };
+    return { ...mp, ...score(tally.compared, tally.agreed), rank: null as number | null };
+  });
+
+  // Highest agreement first; more shared votes breaks ties
+  const ranked = scored
+    .filter((mp) => mp.compared >= minCompared)
+    .sort((a, b) => (b.agreement_percentage! - a.agreement_percentage!) || (b.compared - a.compared) || a.name.localeCompare(b.name));
+  ranked.forEach((mp, index) => {
+    mp.rank = index + 1;
+  });
+
+  const district = yourDistrict?.trim().toLowerCase();
+  const yourMP = district
+    ? scored.find((mp) => mp.district_name.toLowerCase() === district) || null
+    : null;
+
+  const parties = Array.from(partyTallies.entries())
+    .map(([party, tally]) => ({ party, ...score(tally.compared, tally.agreed) }))
+    .sort((a, b) => (b.agreement_percentage ?? 0) - (a.agreement_percentage ?? 0));
+
+  return {
+    answered: answered.length,
+    closest_mps: ranked.slice(0, closestLimit),
+    parties,
+    your_mp: yourMP,
+    ranked_mps: ranked.length,
+  };
+}
@@ -0,0 +1,43 @@
+import { queryAll, queryOne } from './database';
+import type { BillStage } from '@/types';
+import type { LegisinfoBill } from '@/lib/api/legisinfo';
+
+export interface BillLegisinfo {
+  session: string;
+  data: LegisinfoBill;
+  stages: BillStage[];
+  fetched_at: string;
+}
+
+/**
+ * Stored LEGISinfo record and stage timeline for a bill, as synced by scripts/sync-bill-stages.ts
+ *
+ * Without a session, the session of the bill's latest bills_motions row is used.
+ * Returns null when the bill has not been synced yet.
+ */
+export async function getBillLegisinfo(billNumber: string, session?: string | null): Promise<BillLegisinfo | null> {
+  const record = await queryOne<{ session: string; data: LegisinfoBill; fetched_at: string }>(`
+    SELECT session, data, fetched_at
+    FROM bill_legisinfo
+    WHERE bill_number = $1
+      AND session = COALESCE($2, (
+        SELECT session FROM bills_motions
+        WHERE bill_number = $1 AND session IS NOT NULL
+        ORDER BY id DESC
+        LIMIT 1
+      ))
+  `, [billNumber, session || null]);
+
+  if (!record) {
+    return null;
+  }
+
+  const stages = await queryAll<BillStage>(`
+    SELECT chamber, stage, stage_name, completed_at, sort_order
+    FROM bill_stages
+    WHERE bill_number = $1 AND session = $2
+    ORDER BY sort_order, id
+  `, [billNumber, record.session]);
+
+  return { ...record, stages };
+}
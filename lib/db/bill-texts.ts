@@ -0,0 +1,70 @@
+import { queryAll } from './database';
+import { diffBillClauses, BillClause, BillTextDiff, BillTextVersion } from '@/lib/utils/bill-text';
+
+export interface BillTextComparison {
+  session: string;
+  from: BillTextVersion;
+  to: BillTextVersion;
+  diff: BillTextDiff;
+}
+
+// Without a session, the session of the bill's latest bills_motions row is used
+const SESSION_FILTER = `
+  session = COALESCE($2, (
+    SELECT session FROM bills_motions
+    WHERE bill_number = $1 AND session IS NOT NULL
+    ORDER BY id DESC
+    LIMIT 1
+  ))
+`;
+
+/**
+ * Stored text versions of a bill, oldest first
+ */
+export async function getBillTextVersions(billNumber: string, session?: string | null): Promise<BillTextVersion[]> {
+  return queryAll<BillTextVersion>(`
+    SELECT version_number, version_name, source_url, published_at, jsonb_array_length(clauses) AS clause_count
+    FROM bill_texts
+    WHERE bill_number = $1 AND ${SESSION_FILTER}
+    ORDER BY version_number
+  `, [billNumber, session || null]);
+}
+
+/**
+ * Clause-level diff between two stored versions of a bill, or null if either version is missing
+ */
+export async function compareBillTexts(
+  billNumber: string,
+  fromVersion: number,
+  toVersion: number,
+  session?: string | null
+): Promise<BillTextComparison | null> {
+  const rows = await queryAll<BillTextVersion & { session: string; clauses: BillClause[] }>(`
+    SELECT session, version_number, version_name, source_url, published_at,
+      jsonb_array_length(clauses) AS clause_count, clauses
+    FROM bill_texts
+    WHERE bill_number = $1 AND ${SESSION_FILTER} AND version_number = ANY($3::int[])
+  `, [billNumber, session || null, [fromVersion, toVersion]]);
+
+  const from = rows.find((row) => row.version_number === fromVersion);
+  const to = rows.find((row) => row.version_number === toVersion);
+  if (!from || !to) {
+    return null;
+  }
+
+  const versionInfo = (row: typeof from): BillTextVersion => ({
+    version_number: row.version_number,
+    version_name: row.version_name,
+    source_url: row.source_url,
+    published_at: row.published_at,
+    clause_count: row.clause_count,
+  });
+
+  return {
+    session: from.session,
+    from: versionInfo(from),
+    to: versionInfo(to),
+    diff: diffBillClauses(from.clauses, to.clauses),
+  };
+}
+
@@ -1,5 +1,12 @@
-import { queryOne, queryAll, queryRun, convertPlaceholders } from './database';
+import type { PoolClient } from 'pg';
+import { queryOne, queryAll, transaction, convertPlaceholders } from './database';
+import { getBillCategoryLists } from './get-bill-category';
 import { categorizeBill } from '../ai/categorize-bill';
+import type { CategorizationResult } from '../ai/categorize-bill';
+
+// Secondary categories need at least this weight; a bill gets at most MAX_BILL_CATEGORIES in total
+const SECONDARY_CATEGORY_MIN_WEIGHT = 0.2;
+const MAX_BILL_CATEGORIES = 3;
 
 /**
  * Get all unique bills that an MP has voted on
@@ -50,16 +57,96 @@ export async function getCategoryIdByName(categoryName: string): Promise<number
 }
 
 /**
- * Update bill with category
+ * Replace a bill's categories in bill_categories inside an open transaction.
+ * The first entry is the primary category.
  */
-export async function updateBillCategory(billNumber: string, categoryId: number): Promise<void> {
-  const sql = convertPlaceholders(`
-    UPDATE bills_motions
-    SET policy_category_id = ?, updated_at = CURRENT_TIMESTAMP
-    WHERE bill_number = ?
-  `);
-  
-  await queryRun(sql, [categoryId, billNumber]);
+export async function replaceBillCategories(
+  client: PoolClient,
+  billNumber: string,
+  categories: Array<{ categoryId: number; weight: number }>
+): Promise<void> {
+  await client.query('DELETE FROM bill_categories WHERE bill_number = $1', [billNumber]);
+  for (let i = 0; i < categories.length; i++) {
+    await client.query(`
+      INSERT INTO bill_categories (bill_number, category_id, weight, is_primary)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (bill_number, category_id) DO NOTHING
+    `, [billNumber, categories[i].categoryId, categories[i].weight, i === 0]);
+  }
+}
+
+/**
+ * Update bill with its primary category (plus the provider, confidence and ranked scores behind it)
+ * and assign secondary categories from the remaining scores.
+ * Returns the assigned category names, primary first.
+ *
+ * Bills whose category an editor has locked are left untouched; their current categories are returned.
+ * The lock check and the writes share one transaction, so an override saved meanwhile is never overwritten.
+ */
+export async function updateBillCategory(
+  billNumber: string,
+  categoryId: number,
+  result?: CategorizationResult
+): Promise<string[]> {
+  const assignedNames = await transaction(async (client) => {
+    // Manual overrides update the same rows, so they wait for (or are waited on by) this lock
+    await client.query('SELECT id FROM bills_motions WHERE bill_number = $1 FOR UPDATE', [billNumber]);
+    const locked = await client.query('SELECT 1 FROM bill_category_locks WHERE bill_number = $1', [billNumber]);
+    if (locked.rows.length > 0) {
+      return null;
+    }
+
+    await client.query(`
+      UPDATE bills_motions
+      SET policy_category_id = $1,
+          category_provider = $2,
+          category_confidence = $3,
+          category_scores = $4,
+          category_low_confidence = $5,
+          categorized_at = CURRENT_TIMESTAMP,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE bill_number = $6
+    `, [
+      categoryId,
+      result?.provider || null,
+      result?.confidence ?? null,
+      result ? JSON.stringify(result.scores) : null,
+      result?.lowConfidence || false,
+      billNumber,
+    ]);
+
+    const secondaryScores = (result?.scores || [])
+      .slice(1)
+      .filter((score) => score.confidence >= SECONDARY_CATEGORY_MIN_WEIGHT)
+      .slice(0, MAX_BILL_CATEGORIES - 1);
+
+    const categoryRows = (await client.query<{ id: number; name: string }>(`
+      SELECT id, name FROM bill_policy_categories
+      WHERE id = $1 OR name = ANY($2::text[])
+    `, [categoryId, secondaryScores.map((score) => score.category)])).rows;
+
+    const assigned = [{ categoryId, weight: result?.confidence ?? 1 }];
+    for (const score of secondaryScores) {
+      const row = categoryRows.find((category) => category.name === score.category);
+      if (row && row.id !== categoryId) {
+        assigned.push({ categoryId: row.id, weight: score.confidence });
+      }
+    }
+
+    await replaceBillCategories(client, billNumber, assigned);
+
+    return assigned
+      .map((entry) => categoryRows.find((category) => category.id === entry.categoryId)?.name)
+      .filter((name): name is string => Boolean(name));
+  });
+
+  if (assignedNames === null) {
+    console.log(`[Categorize] Skipping ${billNumber}: category is locked by an editor`);
+    const existing = await getBillCategoryLists([billNumber]);
+    return existing.get(billNumber) || [];
+  }
+
+  return assignedNames;
 }
 
 /**
@@ -88,52 +175,52 @@ export async function ensureBillExists(billNumber: string, billTitle: string | n
 }
 
 /**
- * Ensure a bill has a category - check if exists, categorize if missing, and return category name
- * This is a synchronous check for existing categories, async categorization if needed
+ * Ensure a bill has categories - check if they exist, categorize if missing, and return the
+ * category names (primary first)
  */
 export async function ensureBillHasCategory(
   billNumber: string,
   billTitle: string | null
-): Promise<string | null> {
+): Promise<string[]> {
   // Ensure bill exists in bills_motions
   await ensureBillExists(billNumber, billTitle);
 
   // Check if already categorized
+  const existing = await getBillCategoryLists([billNumber]);
+  if (existing.has(billNumber)) {
+    return existing.get(billNumber)!;
+  }
+
   const existingCategoryId = await getBillCategory(billNumber);
   if (existingCategoryId) {
-    // Get category name
-    const sql = convertPlaceholders(`
-      SELECT name FROM bill_policy_categories WHERE id = ?
-    `);
-    const category = await queryOne<{ name: string }>(sql, [existingCategoryId]);
-    return category?.name || null;
+    // Categorized before bill_categories existed: carry the single category over as primary
+    return updateBillCategory(billNumber, existingCategoryId);
   }
 
-  // Categorize using LLM
+  // Categorize with the configured providers
   console.log(`[Categorize] Categorizing ${billNumber} with title: "${billTitle || billNumber}"`);
-  const categoryName = await categorizeBill({
+  const result = await categorizeBill({
     billNumber,
     title: billTitle || billNumber,
   });
-  console.log(`[Categorize] Result for ${billNumber}: ${categoryName || 'null'}`);
+  console.log(`[Categorize] Result for ${billNumber}: ${result ? `${result.category} (${result.provider}, ${result.confidence.toFixed(2)})` : 'null'}`);
 
-  if (categoryName) {
-    const categoryId = await getCategoryIdByName(categoryName);
+  if (result) {
+    const categoryId = await getCategoryIdByName(result.category);
     if (categoryId) {
-      await updateBillCategory(billNumber, categoryId);
-      return categoryName;
+      return updateBillCategory(billNumber, categoryId, result);
     } else {
-      console.warn(`Category "${categoryName}" not found in database for bill ${billNumber}`);
-      return null;
+      console.warn(`Category "${result.category}" not found in database for bill ${billNumber}`);
+      return [];
     }
   }
 
-  return null;
+  return [];
 }
 
 /**
  * Categorize all bills that an MP has voted on
- * Checks existing categories first, then uses LLM for uncategorized bills
+ * Checks existing categories first, then runs the categorization providers for uncategorized bills
  */
 export async function categorizeMPBills(mpId: number): Promise<{
   total: number;
@@ -161,20 +248,20 @@ export async function categorizeMPBills(mpId: number): Promise<{
         continue;
       }
 
-      // Categorize using LLM
-      const categoryName = await categorizeBill({
+      // Categorize with the configured providers
+      const result = await categorizeBill({
         billNumber: bill.bill_number,
         title: bill.bill_title || bill.bill_number,
       });
 
-      if (categoryName) {
-        const categoryId = await getCategoryIdByName(categoryName);
+      if (result) {
+        const categoryId = await getCategoryIdByName(result.category);
         if (categoryId) {
-          await updateBillCategory(bill.bill_number, categoryId);
+          await updateBillCategory(bill.bill_number, categoryId, result);
           newlyCategorized++;
-          console.log(`✓ Categorized ${bill.bill_number} as "${categoryName}"`);
+          console.log(`✓ Categorized ${bill.bill_number} as "${result.category}" (${result.provider}, ${result.confidence.toFixed(2)})`);
         } else {
-          console.warn(`Category "${categoryName}" not found in database for bill ${bill.bill_number}`);
+          console.warn(`Category "${result.category}" not found in database for bill ${bill.bill_number}`);
           failed++;
         }
       } else {
@@ -0,0 +1,263 @@
+import { queryOne, queryAll, transaction } from './database';
+import { replaceBillCategories } from './categorize-bills';
+
+export interface CategoryReviewItem {
+  bill_number: string;
+  title: string;
+  session: string | null;
+  introduced_date: string | null;
+  category_id: number | null;
+  category_name: string | null;
+  secondary_categories: string[];
+  category_provider: string | null;
+  category_confidence: number | null;
+  category_low_confidence: boolean;
+  categorized_at: string | null;
+  locked: boolean;
+  locked_by: string | null;
+  locked_at: string | null;
+}
+
+export interface CategoryReviewQueue {
+  items: CategoryReviewItem[];
+  total: number;
+}
+
+export interface CategoryAuditEntry {
+  id: number;
+  bill_number: string;
+  action: 'override' | 'unlock';
+  previous_category: string | null;
+  new_category: string | null;
+  secondary_categories: string[];
+  previous_provider: string | null;
+  previous_confidence: number | null;
+  editor: string;
+  reason: string | null;
+  created_at: string;
+}
+
+export interface CategoryOverride {
+  billNumber: string;
+  categoryId: number;
+  secondaryCategoryIds?: number[];
+  editor: string;
+  reason?: string | null;
+}
+
+/**
+ * Every policy category, for the editor's pickers
+ */
+export async function getPolicyCategories(): Promise<Array<{ id: number; name: string }>> {
+  return queryAll<{ id: number; name: string }>('SELECT id, name FROM bill_policy_categories ORDER BY name');
+}
+
+/**
+ * The given category ids that are not in bill_policy_categories
+ */
+export async function getUnknownCategoryIds(ids: number[]): Promise<number[]> {
+  const rows = await queryAll<{ id: number }>(
+    'SELECT id FROM bill_policy_categories WHERE id = ANY($1::int[])',
+    [ids]
+  );
+  const known = new Set(rows.map((row) => row.id));
+  return Array.from(new Set(ids)).filter((id) => !known.has(id));
+}
+
+/**
+ * Bills in review order: unlocked bills first, then least confident first
+ * (bills categorized before confidence was recorded count as least confident).
+ */
+export async function getCategoryReviewQueue(options: {
+  lowConfidenceOnly?: boolean;
+  includeLocked?: boolean;
+  limit?: number;
+  offset?: number;
+} = {}): Promise<CategoryReviewQueue> {
+  const conditions: string[] = [];
+  if (options.lowConfidenceOnly) {
+    conditions.push('(bm.category_low_confidence OR bm.policy_category_id IS NULL)');
+  }
+  if (!options.includeLocked) {
+    conditions.push('l.bill_number IS NULL');
+  }
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  // Latest row per bill, same as the bill pages
+  const fromSql = `
+    FROM bills_motions bm
+    INNER JOIN (
+      SELECT bill_number, MAX(id) as max_id
+      FROM bills_motions
+      WHERE type = 'Bill' AND bill_number IS NOT NULL
+      GROUP BY bill_number
+    ) latest ON bm.bill_number = latest.bill_number AND bm.id = latest.max_id
+    LEFT JOIN bill_policy_categories bpc ON bm.policy_category_id = bpc.id
+    LEFT JOIN bill_category_locks l ON l.bill_number = bm.bill_number
+    ${where}
+  `;
+
+  const totalRow = await queryOne<{ total: string }>(`SELECT COUNT(*) as total ${fromSql}`);
+
+  const items = await queryAll<CategoryReviewItem>(`
+    SELECT
+      bm.bill_number,
+      bm.title,
+      bm.session,
+      bm.introduced_date::text AS introduced_date,
+      bm.policy_category_id AS category_id,
+      bpc.name AS category_name,
+      COALESCE((
+        SELECT array_agg(c.name ORDER BY bc.weight DESC)
+        FROM bill_categories bc
+        INNER JOIN bill_policy_categories c ON bc.category_id = c.id
+        WHERE bc.bill_number = bm.bill_number AND NOT bc.is_primary
+      ), ARRAY[]::text[]) AS secondary_categories,
+      bm.category_provider,
+      bm.category_confidence,
+      bm.category_low_confidence,
+      bm.categorized_at::text AS categorized_at,
+      l.bill_number IS NOT NULL AS locked,
+      l.locked_by,
+      l.locked_at::text AS locked_at
+    ${fromSql}
+    ORDER BY
+      l.bill_number IS NOT NULL,
+      bm.category_confidence ASC NULLS FIRST,
+      bm.bill_number
+    LIMIT $1 OFFSET $2
+  `, [options.limit ?? 50, options.offset ?? 0]);
+
+  return {
+    items,
+    total: parseInt(totalRow?.total || '0', 10),
+  };
+}
+
+/**
+ * Manual category changes for a bill, newest first
+ */
+export async function getCategoryAudit(billNumber: string): Promise<CategoryAuditEntry[]> {
+  return queryAll<CategoryAuditEntry>(`
+    SELECT
+      a.id,
+      a.bill_number,
+      a.action,
+      previous_cat.name AS previous_category,
+      new_cat.name AS new_category,
+      COALESCE((
+        SELECT array_agg(c.name ORDER BY c.name)
+        FROM bill_policy_categories c
+        WHERE c.id = ANY(a.secondary_category_ids)
+      ), ARRAY[]::text[]) AS secondary_categories,
+      a.previous_provider,
+      a.previous_confidence,
+      a.editor,
+      a.reason,
+      a.created_at::text AS created_at
+    FROM bill_category_audit a
+    LEFT JOIN bill_policy_categories previous_cat ON a.previous_category_id = previous_cat.id
+    LEFT JOIN bill_policy_categories new_cat ON a.new_category_id = new_cat.id
+    WHERE a.bill_number = $1
+    ORDER BY a.created_at DESC, a.id DESC
+  `, [billNumber]);
+}
+
+/**
+ * Set a bill's categories by hand and lock them, so automatic categorization never overwrites them.
+ * The previous category and its provenance are recorded in the audit table.
+ * Returns false if the bill doesn't exist.
+ */
+export async function overrideBillCategory(override: CategoryOverride): Promise<boolean> {
+  const secondaryIds = Array.from(new Set(override.secondaryCategoryIds || []))
+    .filter((id) => id !== override.categoryId);
+
+  return transaction(async (client) => {
+    const current = await client.query<{
+      policy_category_id: number | null;
+      category_provider: string | null;
+      category_confidence: number | null;
+    }>(`
+      SELECT policy_category_id, category_provider, category_confidence
+      FROM bills_motions
+      WHERE bill_number = $1
+      ORDER BY id DESC
+      LIMIT 1
+      FOR UPDATE
+    `, [override.billNumber]);
+
+    if (current.rows.length === 0) {
+      return false;
+    }
+    const previous = current.rows[0];
+
+    await client.query(`
+      INSERT INTO bill_category_audit (
+        bill_number, action, previous_category_id, new_category_id, secondary_category_ids,
+        previous_provider, previous_confidence, editor, reason
+      )
+      VALUES ($1, 'override', $2, $3, $4, $5, $6, $7, $8)
+    `, [
+      override.billNumber,
+      previous.policy_category_id,
+      override.categoryId,
+      secondaryIds,
+      previous.category_provider,
+      previous.category_confidence,
+      override.editor,
+      override.reason || null,
+    ]);
+
+    await client.query(`
+      UPDATE bills_motions
+      SET policy_category_id = $1,
+          category_provider = 'manual',
+          category_confidence = 1,
+          category_scores = NULL,
+          category_low_confidence = false,
+          categorized_at = CURRENT_TIMESTAMP,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE bill_number = $2
+    `, [override.categoryId, override.billNumber]);
+
+    await replaceBillCategories(client, override.billNumber, [
+      { categoryId: override.categoryId, weight: 1 },
+      ...secondaryIds.map((categoryId) => ({ categoryId, weight: 1 })),
+    ]);
+
+    await client.query(`
+      INSERT INTO bill_category_locks (bill_number, category_id, locked_by, reason, locked_at)
+      VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP)
+      ON CONFLICT (bill_number) DO UPDATE SET
+        category_id = EXCLUDED.category_id,
+        locked_by = EXCLUDED.locked_by,
+        reason = EXCLUDED.reason,
+        locked_at = EXCLUDED.locked_at
+    `, [override.billNumber, override.categoryId, override.editor, override.reason || null]);
+
+    return true;
+  });
+}
+
+/**
+ * Remove an editor's lock so the categorizers may update the bill again. The current category is kept.
+ * Returns false if the bill wasn't locked.
+ */
+export async function unlockBillCategory(billNumber: string, editor: string, reason?: string | null): Promise<boolean> {
+  return transaction(async (client) => {
+    const deleted = await client.query<{ category_id: number }>(`
+      DELETE FROM bill_category_locks WHERE bill_number = $1 RETURNING category_id
+    `, [billNumber]);
+
+    if (deleted.rows.length === 0) {
+      return false;
+    }
+
+    await client.query(`
+      INSERT INTO bill_category_audit (bill_number, action, previous_category_id, editor, reason)
+      VALUES ($1, 'unlock', $2, $3, $4)
+    `, [billNumber, deleted.rows[0].category_id, editor, reason || null]);
+
+    return true;
+  });
+}
@@ -0,0 +1,195 @@
+import { queryAll, convertPlaceholders } from './database';
+import { getCurrentSessionStartDate } from './sessions';
+import { getMajorityLoyaltyStats } from './party-positions';
+import type { MP, PartyLoyaltyStats, CommitteeMemberRole } from '@/types';
+
+export interface ComparedMP {
+  id: number;
+  name: string;
+  party_name: string | null;
+  district_name: string;
+  district_id: string | null;
+  photo_url: string | null;
+  salary: number;
+  loyalty: PartyLoyaltyStats;
+  expenses: {
+    staff_salaries: number;
+    travel: number;
+    hospitality: number;
+    contracts: number;
+    total: number;
+  };
+  committees: string[];
+}
+
+export interface PairAgreement {
+  mp_a: number;
+  mp_b: number;
+  shared_divisions: number;
+  agreed: number;
+  agreement_rate: number | null;
+}
+
+export interface SharedCommittee {
+  committee_name: string;
+  mp_ids: number[];
+}
+
+export interface Disagreement {
+  vote_id: string;
+  date: string;
+  motion_title: string;
+  bill_number: string | null;
+  ballots: Record<string, string>; // mp id -> vote_type
+}
+
+export interface MPComparison {
+  since: string | null;
+  mps: ComparedMP[];
+  agreement: PairAgreement[];
+  shared_committees: SharedCommittee[];
+  disagreements: Disagreement[];
+}
+
+const DISAGREEMENTS_LIMIT = 50;
+const BASE_SALARY = 209800;
+
+/**
+ * Committees the MP currently sits on (no end date, or one in the future)
+ */
+function currentCommittees(committees: CommitteeMemberRole[] | undefined): string[] {
+  const now = new Date();
+  const names = (committees || [])
+    .filter((role) => role.committee_name && (!role.to_date_time || new Date(role.to_date_time) > now))
+    .map((role) => role.committee_name!.trim());
+  return Array.from(new Set(names)).sort();
+}
+
+/**
+ * Compare 2-4 MPs on this session's divisions: pairwise agreement where both cast a Yea/Nay,
+ * party-majority loyalty, expenses, salary, shared committees and the divisions where they split.
+ */
+export async function compareMPs(mps: MP[]): Promise<MPComparison> {
+  const ids = mps.map((mp) => mp.id!);
+  const since = await getCurrentSessionStartDate();
+
+  const expenseRows = await queryAll<{
+    mp_id: number;
+    staff_salaries: number;
+    travel: number;
+    hospitality: number;
+    contracts: number;
+  }>(convertPlaceholders(`
+    SELECT
+      mp_id,
+      COALESCE(SUM(staff_salaries), 0)::float AS staff_salaries,
+      COALESCE(SUM(travel), 0)::float AS travel,
+      COALESCE(SUM(hospitality), 0)::float AS hospitality,
+      COALESCE(SUM(contracts), 0)::float AS contracts
+    FROM mp_expenses
+    WHERE mp_id = ANY($1::int[])
+    GROUP BY mp_id
+  `), [ids]);
+
+  const compared = await Promise.all(mps.map(async (mp): Promise<ComparedMP> => {
+    const expenses = expenseRows.find((row) => row.mp_id === mp.id);
+    const staffSalaries = expenses?.staff_salaries || 0;
+    const travel = expenses?.travel || 0;
+    const hospitality = expenses?.hospitality || 0;
+    const contracts = expenses?.contracts || 0;
+
+    return {
+      id: mp.id!,
+      name: mp.name,
+      party_name: mp.party_name || null,
+      district_name: mp.district_name,
+      district_id: mp.district_id || null,
+      photo_url: mp.photo_url || null,
+      salary: mp.salary || BASE_SALARY,
+      loyalty: await getMajorityLoyaltyStats(
+        mp.id!,
+        mp.district_id || mp.district_name || mp.name,
+        mp.name,
+        mp.party_name || 'Unknown',
+        since
+      ),
+      expenses: {
+        staff_salaries: staffSalaries,
+        travel,
+        hospitality,
+        contracts,
+        total: staffSalaries + travel + hospitality + contracts,
+      },
+      committees: currentCommittees(mp.committees),
+    };
+  }));
+
+  // Each pair once (a < b); only divisions where both MPs took a side
+  const agreementRows = await queryAll<Omit<PairAgreement, 'agreement_rate'>>(convertPlaceholders(`
+    SELECT
+      a.mp_id AS mp_a,
+      b.mp_id AS mp_b,
+      COUNT(*)::int AS shared_divisions,
+      COUNT(*) FILTER (WHERE a.vote_type = b.vote_type)::int AS agreed
+    FROM votes a
+    JOIN votes b ON b.vote_id = a.vote_id AND a.mp_id < b.mp_id
+    WHERE a.mp_id = ANY($1::int[])
+      AND b.mp_id = ANY($1::int[])
+      AND a.vote_type IN ('Yea', 'Nay')
+      AND b.vote_type IN ('Yea', 'Nay')
+      AND ($2::text IS NULL OR a.date >= $2)
+    GROUP BY a.mp_id, b.mp_id
+  `), [ids, since]);
+
+  const agreement: PairAgreement[] = [];
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      const [mpA, mpB] = ids[i] < ids[j] ? [ids[i], ids[j]] : [ids[j], ids[i]];
+      const row = agreementRows.find((r) => r.mp_a === mpA && r.mp_b === mpB);
+      const shared = row?.shared_divisions || 0;
+      const agreed = row?.agreed || 0;
+      agreement.push({
+        mp_a: mpA,
+        mp_b: mpB,
+        shared_divisions: shared,
+        agreed,
+        agreement_rate: shared > 0 ? (agreed / shared) * 100 : null,
+      });
+    }
+  }
+
+  const committeeMembers = new Map<string, number[]>();
+  for (const mp of compared) {
+    for (const committee of mp.committees) {
+      committeeMembers.set(committee, [...(committeeMembers.get(committee) || []), mp.id]);
+    }
+  }
+  const sharedCommittees = Array.from(committeeMembers.entries())
+    .filter(([, mpIds]) => mpIds.length > 1)
+    .map(([committee_name, mp_ids]) => ({ committee_name, mp_ids }))
+    .sort((a, b) => b.mp_ids.length - a.mp_ids.length || a.committee_name.localeCompare(b.committee_name));
+
+  const disagreements = await queryAll<Disagreement>(convertPlaceholders(`
+    SELECT
+      v.vote_id,
+      MIN(v.date) AS date,
+      MAX(v.motion_title) AS motion_title,
+      MAX(v.bill_number) AS bill_number,
+      json_object_agg(v.mp_id, v.vote_type) AS ballots
+    FROM votes v
+    WHERE v.mp_id = ANY($1::int[])
+      AND ($2::text IS NULL OR v.date >= $2)
+    GROUP BY v.vote_id
+    HAVING COUNT(DISTINCT v.vote_type) FILTER (WHERE v.vote_type IN ('Yea', 'Nay')) > 1
+    ORDER BY MIN(v.date) DESC, v.vote_id DESC
+    LIMIT $3
+  `), [ids, since, DISAGREEMENTS_LIMIT]);
+
+  return {
+    since,
+    mps: compared,
+    agreement,
+    shared_committees: sharedCommittees,
+    disagreements,
+  };
+}
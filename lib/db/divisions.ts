@@ -0,0 +1,195 @@
+import { queryAll, queryOne, convertPlaceholders } from './database';
+import { getPartyPositionsForVote, majorityPosition } from './party-positions';
+import type { PartyPosition } from './party-positions';
+import { MEMBERSHIP_AT_VOTE_JOIN } from './memberships';
+import { normalizeToMajorParty } from '@/lib/utils/parties';
+import { getDivisionVoteId } from '@/lib/utils/divisions';
+import type { Vote } from '@/types';
+
+type VoteType = Vote['vote_type'];
+
+export interface DivisionBallot {
+  mp_id: number;
+  mp_name: string;
+  party_name: string | null;
+  district_name: string;
+  photo_url: string | null;
+  vote_type: VoteType;
+  against_party: boolean; // Yea/Nay against the caucus majority
+}
+
+export interface DivisionPartyBreakdown {
+  party: string;
+  position: PartyPosition | null; // null for MPs without a caucus
+  yea: number;
+  nay: number;
+  paired: number;
+  abstained: number;
+  not_voting: number;
+}
+
+export interface DivisionBill {
+  id: number;
+  bill_number: string;
+  title: string;
+  status_code: string | null;
+  status: string | null;
+  law: boolean | null;
+  session: string | null;
+}
+
+export interface Division {
+  vote_id: string;
+  parliament_number: number;
+  session_number: number;
+  division_number: number;
+  date: string | null;
+  title: string;
+  type: string | null;
+  result: string | null;
+  yeas: number;
+  nays: number;
+  paired: number;
+  margin: number;
+  bill: DivisionBill | null;
+  party_breakdown: DivisionPartyBreakdown[];
+  ballots: DivisionBallot[];
+}
+
+/**
+ * A single division with every stored ballot, each party's breakdown and majority position,
+ * and the bill it was held on.
+ *
+ * The motions table (ourcommons.ca) is the source for the official tallies and result;
+ * divisions only known from ballots fall back to counting them.
+ */
+export async function getDivision(parliament: number, session: number, divisionNumber: number): Promise<Division | null> {
+  const voteId = getDivisionVoteId(parliament, session, divisionNumber);
+
+  const motion = await queryOne<{
+    name: string;
+    result: string;
+    number_of_yeas: number;
+    number_of_nays: number;
+    number_of_paired: number;
+    date: string;
+    type: string;
+  }>(convertPlaceholders(`
+    SELECT name, result, number_of_yeas, number_of_nays, number_of_paired, date::text AS date, type
+    FROM motions
+    WHERE parliament_number = $1 AND session_number = $2 AND decision_division_number = $3
+    LIMIT 1
+  `), [parliament, session, divisionNumber]);
+
+  const rows = await queryAll<Omit<DivisionBallot, 'against_party'> & {
+    date: string;
+    motion_title: string;
+    result: string;
+    bill_id: number | null;
+    bill_number: string | null;
+  }>(convertPlaceholders(`
+    SELECT
+      m.id AS mp_id,
+      m.name AS mp_name,
+      COALESCE(ms.party_name, m.party_name) AS party_name,
+      m.district_name,
+      m.photo_url,
+      v.vote_type,
+      v.date,
+      v.motion_title,
+      v.result,
+      v.bill_id,
+      v.bill_number
+    FROM votes v
+    INNER JOIN mps m ON v.mp_id = m.id
+    ${MEMBERSHIP_AT_VOTE_JOIN}
+    WHERE v.vote_id = $1
+    ORDER BY COALESCE(ms.party_name, m.party_name), m.name
+  `), [voteId]);
+
+  if (!motion && rows.length === 0) {
+    return null;
+  }
+
+  // Prefer the linked bill row; older ballots only carry the bill number
+  const billId = rows.find((row) => row.bill_id)?.bill_id || null;
+  const billNumber = rows.find((row) => row.bill_number)?.bill_number || null;
+  let bill: DivisionBill | null = null;
+  if (billId) {
+    bill = await queryOne<DivisionBill>(convertPlaceholders(`
+      SELECT id, bill_number, title, status_code, status, law, session
+      FROM bills_motions
+      WHERE id = $1
+    `), [billId]);
+  } else if (billNumber) {
+    bill = await queryOne<DivisionBill>(convertPlaceholders(`
+      SELECT id, bill_number, title, status_code, status, law, session
+      FROM bills_motions
+      WHERE bill_number = $1 AND (session IS NULL OR session = $2)
+      ORDER BY id DESC
+      LIMIT 1
+    `), [billNumber, `${parliament}-${session}`]);
+  }
+
+  const positions = await getPartyPositionsForVote(voteId);
+
+  const breakdown = new Map<string, DivisionPartyBreakdown>();
+  for (const row of rows) {
+    const party = normalizeToMajorParty(row.party_name) || row.party_name || 'Independent';
+    const entry = breakdown.get(party) || { party, position: null, yea: 0, nay: 0, paired: 0, abstained: 0, not_voting: 0 };
+    if (row.vote_type === 'Yea') entry.yea++;
+    else if (row.vote_type === 'Nay') entry.nay++;
+    else if (row.vote_type === 'Paired') entry.paired++;
+    else if (row.vote_type === 'Abstained') entry.abstained++;
+    else entry.not_voting++;
+    breakdown.set(party, entry);
+  }
+
+  // Caucus positions come from party_positions; fall back to the ballots if it hasn't been computed yet
+  const partyBreakdown = Array.from(breakdown.values()).map((entry) => {
+    const majorParty = normalizeToMajorParty(entry.party);
+    if (!majorParty) {
+      return entry;
+    }
+    const stored = positions.find((row) => row.party === majorParty);
+    return { ...entry, position: stored ? stored.position : majorityPosition(entry.yea, entry.nay) };
+  }).sort((a, b) => (b.yea + b.nay + b.paired + b.abstained + b.not_voting) - (a.yea + a.nay + a.paired + a.abstained + a.not_voting));
+
+  const ballots: DivisionBallot[] = rows.map((row) => {
+    const party = normalizeToMajorParty(row.party_name);
+    const position = party ? partyBreakdown.find((entry) => entry.party === party)?.position : null;
+    return {
+      mp_id: row.mp_id,
+      mp_name: row.mp_name,
+      party_name: row.party_name,
+      district_name: row.district_name,
+      photo_url: row.photo_url,
+      vote_type: row.vote_type,
+      against_party: (row.vote_type === 'Yea' || row.vote_type === 'Nay')
+        && (position === 'Yea' || position === 'Nay')
+        && row.vote_type !== position,
+    };
+  });
+
+  const yeas = motion ? motion.number_of_yeas : ballots.filter((b) => b.vote_type === 'Yea').length;
+  const nays = motion ? motion.number_of_nays : ballots.filter((b) => b.vote_type === 'Nay').length;
+  const paired = motion ? motion.number_of_paired : ballots.filter((b) => b.vote_type === 'Paired').length;
+
+  return {
+    vote_id: voteId,
+    parliament_number: parliament,
+    session_number: session,
+    division_number: divisionNumber,
+    date: motion?.date || rows[0]?.date || null,
+    title: motion?.name || rows[0]?.motion_title || `Division No. ${divisionNumber}`,
+    type: motion?.type || null,
+    result: motion?.result || rows[0]?.result || null,
+    yeas,
+    nays,
+    paired,
+    margin: Math.abs(yeas - nays),
+    bill,
+    party_breakdown: partyBreakdown,
+    ballots,
+  };
+}
@@ -0,0 +1,133 @@
+import { queryAll, queryOne } from './database';
+import { normalizeToMajorParty } from '@/lib/utils/parties';
+import { getRidingSlug } from '@/lib/utils/ridings';
+import { getFiscalYearLabel } from '@/lib/utils/fiscal-quarters';
+import { percentileRank, getRidingSizeClass } from '@/lib/utils/expense-benchmarks';
+import type {
+  ExpenseBenchmark,
+  ExpenseBenchmarks,
+  ExpenseCategoryKey,
+  ExpensePercentile,
+  RidingSizeClass,
+} from '@/types';
+
+// Peer groups smaller than this (e.g. the territories) don't give a meaningful percentile
+const MIN_PEER_GROUP_SIZE = 5;
+
+const CATEGORIES: ExpenseCategoryKey[] = ['staff_salaries', 'travel', 'hospitality', 'contracts', 'total'];
+
+interface MPSpending {
+  mp_id: number;
+  party: string | null;
+  province: string | null;
+  riding_size: RidingSizeClass | null;
+  amounts: Record<ExpenseCategoryKey, number>;
+}
+
+// Fiscal years start in April, so January-March (Q4) belongs to the previous year's fiscal year
+const FISCAL_YEAR_START_SQL = 'CASE WHEN e.quarter_number = 4 THEN e.year - 1 ELSE e.year END';
+
+function rank(mp: MPSpending, peers: MPSpending[], category: ExpenseCategoryKey): ExpensePercentile | null {
+  if (peers.length < MIN_PEER_GROUP_SIZE) {
+    return null;
+  }
+  return {
+    percentile: percentileRank(mp.amounts[category], peers.map((peer) => peer.amounts[category])),
+    peers: peers.length,
+  };
+}
+
+/**
+ * An MP's spending percentile in each expense category for the latest fiscal year on file,
+ * against all MPs, their party (5 major parties), their province and ridings of similar
+ * land area. Returns null when the MP has no expenses in that fiscal year.
+ */
+export async function getMPExpenseBenchmarks(mpId: number): Promise<ExpenseBenchmarks | null> {
+  const latest = await queryOne<{ fiscal_year_start: number | null }>(`
+    SELECT MAX(${FISCAL_YEAR_START_SQL}) AS fiscal_year_start FROM mp_expenses e
+  `);
+  const fiscalYearStart = latest?.fiscal_year_start;
+  if (!fiscalYearStart) {
+    return null;
+  }
+
+  const [spending, districts] = await Promise.all([
+    queryAll<{
+      mp_id: number;
+      party_name: string | null;
+      district_name: string;
+      staff_salaries: number;
+      travel: number;
+      hospitality: number;
+      contracts: number;
+    }>(`
+      SELECT
+        m.id AS mp_id,
+        m.party_name,
+        m.district_name,
+        COALESCE(SUM(e.staff_salaries), 0)::float AS staff_salaries,
+        COALESCE(SUM(e.travel), 0)::float AS travel,
+        COALESCE(SUM(e.hospitality), 0)::float AS hospitality,
+        COALESCE(SUM(e.contracts), 0)::float AS contracts
+      FROM mp_expenses e
+      JOIN mps m ON m.id = e.mp_id
+      WHERE (${FISCAL_YEAR_START_SQL}) = $1
+      GROUP BY m.id, m.party_name, m.district_name
+    `, [fiscalYearStart]),
+    queryAll<{ slug: string; province: string | null; area_km2: number | null }>(`
+      SELECT slug, province, area_km2 FROM electoral_districts
+    `),
+  ]);
+
+  const districtsBySlug = new Map(districts.map((district) => [district.slug, district]));
+  const sortedAreas = districts
+    .map((district) => district.area_km2)
+    .filter((area): area is number => area !== null)
+    .sort((a, b) => a - b);
+
+  const mps: MPSpending[] = spending.map((row) => {
+    const district = districtsBySlug.get(getRidingSlug(row.district_name));
+    return {
+      mp_id: row.mp_id,
+      party: normalizeToMajorParty(row.party_name),
+      province: district?.province || null,
+      riding_size: district?.area_km2 != null ? getRidingSizeClass(district.area_km2, sortedAreas) : null,
+      amounts: {
+        staff_salaries: row.staff_salaries,
+        travel: row.travel,
+        hospitality: row.hospitality,
+        contracts: row.contracts,
+        total: row.staff_salaries + row.travel + row.hospitality + row.contracts,
+      },
+    };
+  });
+
+  const mp = mps.find((row) => row.mp_id === mpId);
+  if (!mp) {
+    return null;
+  }
+
+  const partyPeers = mp.party ? mps.filter((row) => row.party === mp.party) : [];
+  const provincePeers = mp.province ? mps.filter((row) => row.province === mp.province) : [];
+  const sizePeers = mp.riding_size ? mps.filter((row) => row.riding_size === mp.riding_size) : [];
+
+  const categories: ExpenseBenchmark[] = CATEGORIES.map((category) => ({
+    category,
+    amount: mp.amounts[category],
+    national: {
+      percentile: percentileRank(mp.amounts[category], mps.map((row) => row.amounts[category])),
+      peers: mps.length,
+    },
+    party: rank(mp, partyPeers, category),
+    province: rank(mp, provincePeers, category),
+    riding_size: rank(mp, sizePeers, category),
+  }));
+
+  return {
+    fiscal_year: getFiscalYearLabel(fiscalYearStart, 1),
+    party_name: mp.party,
+    province: mp.province,
+    riding_size: mp.riding_size,
+    categories,
+  };
+}
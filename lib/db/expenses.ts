@@ -0,0 +1,177 @@
+import { queryAll } from './database';
+import {
+  getFiscalYearLabel,
+  getQuarterPeriod,
+  getFiscalQuarterKey,
+} from '@/lib/utils/fiscal-quarters';
+import type { ExpenseQuarter, MPTravel, TravelTrip, TravelDestinationSummary } from '@/types';
+
+/**
+ * An MP's expenses per reported quarter, in fiscal order, with the change from the
+ * previous reported quarter (null for the first one, and the percentage is null when
+ * the previous quarter was zero).
+ */
+export async function getMPExpenseQuarters(mpId: number): Promise<ExpenseQuarter[]> {
+  const rows = await queryAll<{
+    year: number;
+    quarter_number: number;
+    quarter: string;
+    staff_salaries: number;
+    travel: number;
+    hospitality: number;
+    contracts: number;
+  }>(`
+    SELECT
+      year,
+      quarter_number,
+      quarter,
+      COALESCE(staff_salaries, 0)::float AS staff_salaries,
+      COALESCE(travel, 0)::float AS travel,
+      COALESCE(hospitality, 0)::float AS hospitality,
+      COALESCE(contracts, 0)::float AS contracts
+    FROM mp_expenses
+    WHERE mp_id = $1
+  `, [mpId]);
+
+  rows.sort((a, b) => getFiscalQuarterKey(a.year, a.quarter_number) - getFiscalQuarterKey(b.year, b.quarter_number));
+
+  let previousTotal: number | null = null;
+  return rows.map((row) => {
+    const total = row.staff_salaries + row.travel + row.hospitality + row.contracts;
+    const change = previousTotal === null ? null : total - previousTotal;
+    const changePercentage = change !== null && previousTotal ? (change / previousTotal) * 100 : null;
+    previousTotal = total;
+
+    return {
+      ...row,
+      fiscal_year: getFiscalYearLabel(row.year, row.quarter_number),
+      period: getQuarterPeriod(row.year, row.quarter_number),
+      total,
+      change,
+      change_percentage: changePercentage,
+    };
+  });
+}
+
+/**
+ * An MP's itemized travel claims, newest first, with each claim's travellers grouped into
+ * one trip and a per-destination summary (largest total first). Rows without a claim
+ * number are treated as trips of their own.
+ */
+export async function getMPTravel(mpId: number): Promise<MPTravel> {
+  const rows = await queryAll<{
+    id: number;
+    source_file: string;
+    claim_number: string | null;
+    year: number;
+    quarter_number: number;
+    traveller_name: string | null;
+    traveller_type: string | null;
+    purpose: string | null;
+    start_date: string | null;
+    end_date: string | null;
+    origin: string | null;
+    destination: string | null;
+    transportation: number;
+    accommodation: number;
+    meals_incidentals: number;
+    total: number;
+  }>(`
+    SELECT
+      id,
+      source_file,
+      claim_number,
+      year,
+      quarter_number,
+      traveller_name,
+      traveller_type,
+      purpose,
+      start_date,
+      end_date,
+      origin,
+      destination,
+      COALESCE(transportation, 0)::float AS transportation,
+      COALESCE(accommodation, 0)::float AS accommodation,
+      COALESCE(meals_incidentals, 0)::float AS meals_incidentals,
+      COALESCE(total, 0)::float AS total
+    FROM expense_travel_claims
+    WHERE mp_id = $1
+    ORDER BY source_file, source_row
+  `, [mpId]);
+
+  const trips = new Map<string, TravelTrip>();
+  for (const row of rows) {
+    const key = row.claim_number ? `${row.source_file}:${row.claim_number}` : `row:${row.id}`;
+    let trip = trips.get(key);
+    if (!trip) {
+      trip = {
+        id: row.id,
+        claim_number: row.claim_number,
+        year: row.year,
+        quarter_number: row.quarter_number,
+        fiscal_year: getFiscalYearLabel(row.year, row.quarter_number),
+        start_date: row.start_date,
+        end_date: row.end_date,
+        origin: row.origin,
+        destination: row.destination,
+        purpose: row.purpose,
+        travellers: [],
+        transportation: 0,
+        accommodation: 0,
+        meals_incidentals: 0,
+        total: 0,
+      };
+      trips.set(key, trip);
+    }
+
+    // A claim's rows can cover different legs; keep the trip's earliest and latest dates
+    if (row.start_date && (!trip.start_date || row.start_date < trip.start_date)) trip.start_date = row.start_date;
+    if (row.end_date && (!trip.end_date || row.end_date > trip.end_date)) trip.end_date = row.end_date;
+    trip.origin = trip.origin || row.origin;
+    trip.destination = trip.destination || row.destination;
+    trip.purpose = trip.purpose || row.purpose;
+
+    trip.travellers.push({
+      name: row.traveller_name,
+      type: row.traveller_type,
+      transportation: row.transportation,
+      accommodation: row.accommodation,
+      meals_incidentals: row.meals_incidentals,
+      total: row.total,
+    });
+    trip.transportation += row.transportation;
+    trip.accommodation += row.accommodation;
+    trip.meals_incidentals += row.meals_incidentals;
+    trip.total += row.total;
+  }
+
+  const tripList = Array.from(trips.values()).sort((a, b) =>
+    (b.start_date || '').localeCompare(a.start_date || '') ||
+    getFiscalQuarterKey(b.year, b.quarter_number) - getFiscalQuarterKey(a.year, a.quarter_number)
+  );
+
+  const destinations = new Map<string, TravelDestinationSummary>();
+  for (const trip of tripList) {
+    const name = trip.destination || 'Unknown';
+    const summary = destinations.get(name) || {
+      destination: name,
+      trips: 0,
+      transportation: 0,
+      accommodation: 0,
+      meals_incidentals: 0,
+      total: 0,
+    };
+    summary.trips++;
+    summary.transportation += trip.transportation;
+    summary.accommodation += trip.accommodation;
+    summary.meals_incidentals += trip.meals_incidentals;
+    summary.total += trip.total;
+    destinations.set(name, summary);
+  }
+
+  return {
+    trips: tripList,
+    destinations: Array.from(destinations.values()).sort((a, b) => b.total - a.total),
+    total: tripList.reduce((sum, trip) => sum + trip.total, 0),
+  };
+}
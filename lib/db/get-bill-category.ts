@@ -44,3 +44,41 @@ export async function getBillCategoryNames(billNumbers: string[]): Promise<Map<s
   return categoryMap;
 }
 
+
+/**
+ * Get every assigned category for multiple bills at once, primary first then by weight
+ */
+export async function getBillCategoryLists(billNumbers: string[]): Promise<Map<string, string[]>> {
+  const categoryMap = new Map<string, string[]>();
+
+  if (billNumbers.length === 0) return categoryMap;
+
+  const rows = await queryAll<{ bill_number: string; category_name: string }>(`
+    SELECT bc.bill_number, bpc.name as category_name
+    FROM bill_categories bc
+    INNER JOIN bill_policy_categories bpc ON bc.category_id = bpc.id
+    WHERE bc.bill_number = ANY($1::text[])
+    ORDER BY bc.bill_number, bc.is_primary DESC, bc.weight DESC, bpc.name
+  `, [billNumbers]);
+
+  for (const row of rows) {
+    const categories = categoryMap.get(row.bill_number) || [];
+    categories.push(row.category_name);
+    categoryMap.set(row.bill_number, categories);
+  }
+
+  return categoryMap;
+}
+
+/**
+ * Bill numbers (out of the given ones) whose category an editor has locked
+ */
+export async function getLockedBillNumbers(billNumbers: string[]): Promise<Set<string>> {
+  if (billNumbers.length === 0) return new Set();
+
+  const rows = await queryAll<{ bill_number: string }>(`
+    SELECT bill_number FROM bill_category_locks WHERE bill_number = ANY($1::text[])
+  `, [billNumbers]);
+
+  return new Set(rows.map((row) => row.bill_number));
+}
@@ -0,0 +1,67 @@
+import { queryAll } from './database';
+import type { Membership, MembershipEvent } from '@/types';
+
+/**
+ * LATERAL join giving the membership (alias ms) an MP held on the date of vote v, from
+ * memberships. ms columns are NULL when the MP has no synced membership covering the
+ * date, so callers fall back to mps.party_name with COALESCE(ms.party_name, m.party_name).
+ *
+ * votes.date is TEXT ("YYYY-MM-DD", sometimes with a time), so dates are compared as text.
+ */
+export const MEMBERSHIP_AT_VOTE_JOIN = `
+  LEFT JOIN LATERAL (
+    SELECT id, party_name, major_party, district_name
+    FROM memberships
+    WHERE mp_id = v.mp_id
+      AND start_date::text <= LEFT(v.date, 10)
+      AND (end_date IS NULL OR end_date::text >= LEFT(v.date, 10))
+    ORDER BY start_date DESC
+    LIMIT 1
+  ) ms ON true
+`;
+
+const EVENT_COLUMNS = `
+  e.id, e.mp_id, e.person_id, e.name, e.event_type, e.old_value, e.new_value,
+  e.detected_at::text AS detected_at, m.district_name
+`;
+
+/**
+ * An MP's memberships across all parliaments, oldest first
+ */
+export async function getMPMemberships(mpId: number): Promise<Membership[]> {
+  return queryAll<Membership>(`
+    SELECT
+      id, party_name, district_name, province, parliament_number, session_number,
+      start_date::text AS start_date, end_date::text AS end_date
+    FROM memberships
+    WHERE mp_id = $1
+    ORDER BY start_date
+  `, [mpId]);
+}
+
+/**
+ * Party, riding and vacancy changes detected for an MP, most recent first
+ */
+export async function getMembershipEvents(mpId: number): Promise<MembershipEvent[]> {
+  return queryAll<MembershipEvent>(`
+    SELECT ${EVENT_COLUMNS}
+    FROM membership_events e
+    LEFT JOIN mps m ON m.id = e.mp_id
+    WHERE e.mp_id = $1
+    ORDER BY e.detected_at DESC, e.id DESC
+  `, [mpId]);
+}
+
+/**
+ * Most recently detected floor crossings across the House
+ */
+export async function getRecentPartySwitches(limit: number = 5): Promise<MembershipEvent[]> {
+  return queryAll<MembershipEvent>(`
+    SELECT ${EVENT_COLUMNS}
+    FROM membership_events e
+    LEFT JOIN mps m ON m.id = e.mp_id
+    WHERE e.event_type = 'party-change'
+    ORDER BY e.detected_at DESC, e.id DESC
+    LIMIT $1
+  `, [limit]);
+}
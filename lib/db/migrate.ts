@@ -0,0 +1,183 @@
+import { createHash } from 'crypto';
+import { PoolClient } from 'pg';
+import { queryAll, queryExec, transaction } from './database';
+import { migrations } from './migrations';
+
+/**
+ * A single numbered schema migration.
+ * `up` and `down` are plain SQL and may contain multiple statements.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  down: string;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: 'applied' | 'pending' | 'modified' | 'missing';
+  applied_at: string | null;
+  checksum: string;
+}
+
+interface MigrationRow {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: string;
+}
+
+// Arbitrary key so concurrent runners (e.g. two deploys) serialize on the same lock
+const MIGRATION_LOCK_KEY = 4512025;
+
+/**
+ * Checksum of the `up` SQL, used to detect migrations edited after they were applied
+ */
+export function migrationChecksum(migration: Migration): string {
+  return createHash('sha256').update(migration.up.trim()).digest('hex');
+}
+
+async function ensureMigrationsTable(): Promise<void> {
+  await queryExec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum TEXT NOT NULL,
+      applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+  `);
+}
+
+async function getAppliedMigrations(): Promise<Map<number, MigrationRow>> {
+  await ensureMigrationsTable();
+  const rows = await queryAll<MigrationRow>(
+    'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version'
+  );
+  return new Map(rows.map((row) => [row.version, row]));
+}
+
+function getSortedMigrations(): Migration[] {
+  const sorted = [...migrations].sort((a, b) => a.version - b.version);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].version === sorted[i - 1].version) {
+      throw new Error(`Duplicate migration version ${sorted[i].version}`);
+    }
+  }
+  return sorted;
+}
+
+/**
+ * Compare the migrations in code with the schema_migrations ledger
+ */
+export async function getMigrationStatus(): Promise<MigrationStatus[]> {
+  const applied = await getAppliedMigrations();
+  const statuses: MigrationStatus[] = [];
+
+  for (const migration of getSortedMigrations()) {
+    const checksum = migrationChecksum(migration);
+    const row = applied.get(migration.version);
+    applied.delete(migration.version);
+
+    statuses.push({
+      version: migration.version,
+      name: migration.name,
+      state: !row ? 'pending' : row.checksum === checksum ? 'applied' : 'modified',
+      applied_at: row ? String(row.applied_at) : null,
+      checksum,
+    });
+  }
+
+  // Versions recorded in the ledger that no longer exist in code
+  for (const row of applied.values()) {
+    statuses.push({
+      version: row.version,
+      name: row.name,
+      state: 'missing',
+      applied_at: String(row.applied_at),
+      checksum: row.checksum,
+    });
+  }
+
+  return statuses.sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Refuse to run when the ledger disagrees with the code, so environments never drift silently
+ */
+function assertNoDrift(statuses: MigrationStatus[]): void {
+  const drifted = statuses.filter((s) => s.state === 'modified' || s.state === 'missing');
+  if (drifted.length > 0) {
+    const details = drifted
+      .map((s) => `  ${String(s.version).padStart(3, '0')} ${s.name} (${s.state})`)
+      .join('\n');
+    throw new Error(`Migration checksum verification failed:\n${details}`);
+  }
+}
+
+async function lockMigrations(client: PoolClient): Promise<void> {
+  await client.query('SELECT pg_advisory_xact_lock($1)', [MIGRATION_LOCK_KEY]);
+}
+
+/**
+ * Apply pending migrations in order, each in its own transaction.
+ * Stops at `targetVersion` when given.
+ */
+export async function migrateUp(targetVersion?: number): Promise<Migration[]> {
+  const statuses = await getMigrationStatus();
+  assertNoDrift(statuses);
+
+  const pendingVersions = new Set(
+    statuses.filter((s) => s.state === 'pending').map((s) => s.version)
+  );
+  const pending = getSortedMigrations().filter(
+    (m) => pendingVersions.has(m.version) && (targetVersion === undefined || m.version <= targetVersion)
+  );
+
+  for (const migration of pending) {
+    await transaction(async (client) => {
+      await lockMigrations(client);
+
+      // Another runner may have applied it while we waited for the lock
+      const existing = await client.query('SELECT 1 FROM schema_migrations WHERE version = $1', [migration.version]);
+      if (existing.rows.length > 0) {
+        return;
+      }
+
+      await client.query(migration.up);
+      await client.query(
+        'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+        [migration.version, migration.name, migrationChecksum(migration)]
+      );
+    });
+  }
+
+  return pending;
+}
+
+/**
+ * Roll back the most recently applied migrations, newest first
+ */
+export async function migrateDown(steps: number = 1): Promise<Migration[]> {
+  const statuses = await getMigrationStatus();
+  assertNoDrift(statuses);
+
+  const appliedVersions = new Set(
+    statuses.filter((s) => s.state === 'applied').map((s) => s.version)
+  );
+  const toRollBack = getSortedMigrations()
+    .filter((m) => appliedVersions.has(m.version))
+    .reverse()
+    .slice(0, steps);
+
+  for (const migration of toRollBack) {
+    await transaction(async (client) => {
+      await lockMigrations(client);
+      await client.query(migration.down);
+      await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+    });
+  }
+
+  return toRollBack;
+}
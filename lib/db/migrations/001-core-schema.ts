@@ -0,0 +1,212 @@
+import type { Migration } from '../migrate';
+
+/**
+ * Baseline schema previously created by scripts/setup-database.ts.
+ * Uses IF NOT EXISTS so databases created before migrations existed can adopt the ledger.
+ */
+const migration: Migration = {
+  version: 1,
+  name: 'core-schema',
+  up: `
+    CREATE TABLE IF NOT EXISTS mps (
+      id SERIAL PRIMARY KEY,
+      name TEXT NOT NULL,
+      first_name TEXT,
+      last_name TEXT,
+      email TEXT,
+      phone TEXT,
+      photo_url TEXT,
+      party_name TEXT,
+      district_name TEXT NOT NULL,
+      district_id TEXT,
+      elected_office TEXT DEFAULT 'MP',
+      url TEXT,
+      source_url TEXT,
+      personal_url TEXT,
+      gender TEXT,
+      committees TEXT,
+      associations TEXT,
+      parliamentary_positions TEXT,
+      salary REAL DEFAULT 209800,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(district_name, name)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_mps_name ON mps(name);
+    CREATE INDEX IF NOT EXISTS idx_mps_district_name ON mps(district_name);
+    CREATE INDEX IF NOT EXISTS idx_mps_district_id ON mps(district_id);
+
+    CREATE TABLE IF NOT EXISTS postal_code_mappings (
+      id SERIAL PRIMARY KEY,
+      postal_code TEXT NOT NULL UNIQUE,
+      mp_id INTEGER NOT NULL,
+      district_name TEXT NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (mp_id) REFERENCES mps(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_postal_code ON postal_code_mappings(postal_code);
+    CREATE INDEX IF NOT EXISTS idx_postal_code_mp_id ON postal_code_mappings(mp_id);
+
+    CREATE TABLE IF NOT EXISTS postal_code_cache (
+      postal_code TEXT PRIMARY KEY,
+      fed_boundary_id TEXT,
+      riding_name TEXT,
+      district_name TEXT,
+      source TEXT DEFAULT 'represent',
+      fetched_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      expires_at TIMESTAMP NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_postal_code_cache_expires ON postal_code_cache(expires_at);
+    CREATE INDEX IF NOT EXISTS idx_postal_code_cache_district ON postal_code_cache(district_name);
+
+    CREATE TABLE IF NOT EXISTS bill_policy_categories (
+      id SERIAL PRIMARY KEY,
+      name TEXT NOT NULL UNIQUE,
+      slug TEXT NOT NULL UNIQUE,
+      description TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_bill_categories_name ON bill_policy_categories(name);
+    CREATE INDEX IF NOT EXISTS idx_bill_categories_slug ON bill_policy_categories(slug);
+
+    CREATE TABLE IF NOT EXISTS bills_motions (
+      id SERIAL PRIMARY KEY,
+      bill_number TEXT,
+      motion_number TEXT,
+      title TEXT NOT NULL,
+      type TEXT NOT NULL,
+      status TEXT,
+      introduced_date TEXT,
+      parliament_number INTEGER,
+      session_number INTEGER,
+      long_title TEXT,
+      short_title TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_bills_motions_bill_number ON bills_motions(bill_number);
+    CREATE INDEX IF NOT EXISTS idx_bills_motions_type ON bills_motions(type);
+
+    CREATE TABLE IF NOT EXISTS votes (
+      id SERIAL PRIMARY KEY,
+      vote_id TEXT NOT NULL,
+      mp_id INTEGER NOT NULL,
+      date TEXT NOT NULL,
+      bill_number TEXT,
+      bill_title TEXT,
+      motion_title TEXT NOT NULL,
+      vote_type TEXT NOT NULL,
+      result TEXT NOT NULL,
+      party_position TEXT,
+      parliament_number INTEGER,
+      session_number INTEGER,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (mp_id) REFERENCES mps(id) ON DELETE CASCADE,
+      UNIQUE(vote_id, mp_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_votes_mp_id ON votes(mp_id);
+    CREATE INDEX IF NOT EXISTS idx_votes_date ON votes(date);
+    CREATE INDEX IF NOT EXISTS idx_votes_vote_id ON votes(vote_id);
+    CREATE INDEX IF NOT EXISTS idx_votes_mp_date ON votes(mp_id, date);
+
+    CREATE TABLE IF NOT EXISTS mp_bill_sponsorships (
+      id SERIAL PRIMARY KEY,
+      mp_id INTEGER NOT NULL,
+      bill_motion_id INTEGER NOT NULL,
+      sponsor_type TEXT NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (mp_id) REFERENCES mps(id) ON DELETE CASCADE,
+      FOREIGN KEY (bill_motion_id) REFERENCES bills_motions(id) ON DELETE CASCADE,
+      UNIQUE(mp_id, bill_motion_id, sponsor_type)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_sponsorships_mp_id ON mp_bill_sponsorships(mp_id);
+    CREATE INDEX IF NOT EXISTS idx_sponsorships_bill_id ON mp_bill_sponsorships(bill_motion_id);
+
+    CREATE TABLE IF NOT EXISTS vote_details_cache (
+      vote_url TEXT PRIMARY KEY,
+      vote_data TEXT NOT NULL,
+      fetched_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      expires_at TIMESTAMP NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_vote_details_cache_expires ON vote_details_cache(expires_at);
+
+    CREATE TABLE IF NOT EXISTS votes_cache (
+      id SERIAL PRIMARY KEY,
+      mp_id INTEGER NOT NULL,
+      vote_id TEXT NOT NULL,
+      vote_data TEXT NOT NULL,
+      fetched_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      expires_at TIMESTAMP NOT NULL,
+      FOREIGN KEY (mp_id) REFERENCES mps(id) ON DELETE CASCADE,
+      UNIQUE(mp_id, vote_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_votes_cache_mp_id ON votes_cache(mp_id);
+    CREATE INDEX IF NOT EXISTS idx_votes_cache_expires ON votes_cache(expires_at);
+
+    CREATE TABLE IF NOT EXISTS party_loyalty_cache (
+      mp_id INTEGER PRIMARY KEY,
+      votes_with_party INTEGER NOT NULL,
+      votes_against_party INTEGER NOT NULL,
+      free_votes INTEGER NOT NULL,
+      loyalty_percentage REAL NOT NULL,
+      opposition_percentage REAL NOT NULL,
+      free_vote_percentage REAL NOT NULL,
+      calculated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      expires_at TIMESTAMP NOT NULL,
+      FOREIGN KEY (mp_id) REFERENCES mps(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_party_loyalty_cache_expires ON party_loyalty_cache(expires_at);
+
+    CREATE TABLE IF NOT EXISTS mp_expenses (
+      id SERIAL PRIMARY KEY,
+      mp_id INTEGER NOT NULL,
+      quarter TEXT NOT NULL,
+      year INTEGER NOT NULL,
+      quarter_number INTEGER NOT NULL,
+      staff_salaries REAL DEFAULT 0,
+      travel REAL DEFAULT 0,
+      hospitality REAL DEFAULT 0,
+      contracts REAL DEFAULT 0,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (mp_id) REFERENCES mps(id) ON DELETE CASCADE,
+      UNIQUE(mp_id, year, quarter_number)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_mp_expenses_mp_id ON mp_expenses(mp_id);
+    CREATE INDEX IF NOT EXISTS idx_mp_expenses_quarter ON mp_expenses(year, quarter_number);
+
+    CREATE TABLE IF NOT EXISTS processed_expense_files (
+      filename TEXT PRIMARY KEY,
+      processed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      rows_processed INTEGER DEFAULT 0
+    );
+  `,
+  down: `
+    DROP TABLE IF EXISTS processed_expense_files;
+    DROP TABLE IF EXISTS mp_expenses;
+    DROP TABLE IF EXISTS party_loyalty_cache;
+    DROP TABLE IF EXISTS votes_cache;
+    DROP TABLE IF EXISTS vote_details_cache;
+    DROP TABLE IF EXISTS mp_bill_sponsorships;
+    DROP TABLE IF EXISTS votes;
+    DROP TABLE IF EXISTS bills_motions;
+    DROP TABLE IF EXISTS bill_policy_categories;
+    DROP TABLE IF EXISTS postal_code_cache;
+    DROP TABLE IF EXISTS postal_code_mappings;
+    DROP TABLE IF EXISTS mps;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,38 @@
+import type { Migration } from '../migrate';
+
+/**
+ * Columns previously added by add-sponsor-party-column.ts, add-updated-at-column.ts
+ * and the bill_id guard in setup-database.ts
+ */
+const migration: Migration = {
+  version: 2,
+  name: 'votes-bill-link',
+  up: `
+    ALTER TABLE votes ADD COLUMN IF NOT EXISTS sponsor_party TEXT;
+    ALTER TABLE votes ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP;
+    ALTER TABLE votes ADD COLUMN IF NOT EXISTS bill_id INTEGER;
+
+    DO $$
+    BEGIN
+      IF NOT EXISTS (
+        SELECT 1 FROM information_schema.table_constraints
+        WHERE table_name = 'votes' AND constraint_name = 'votes_bill_id_fkey'
+      ) THEN
+        ALTER TABLE votes
+        ADD CONSTRAINT votes_bill_id_fkey
+        FOREIGN KEY (bill_id) REFERENCES bills_motions(id) ON DELETE SET NULL;
+      END IF;
+    END $$;
+
+    CREATE INDEX IF NOT EXISTS idx_votes_bill_id ON votes(bill_id);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_votes_bill_id;
+    ALTER TABLE votes DROP CONSTRAINT IF EXISTS votes_bill_id_fkey;
+    ALTER TABLE votes DROP COLUMN IF EXISTS bill_id;
+    ALTER TABLE votes DROP COLUMN IF EXISTS updated_at;
+    ALTER TABLE votes DROP COLUMN IF EXISTS sponsor_party;
+  `,
+};
+
+export default migration;
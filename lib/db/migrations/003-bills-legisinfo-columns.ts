@@ -0,0 +1,47 @@
+import type { Migration } from '../migrate';
+
+/**
+ * Bill category link (add-bill-category-column.ts) and the OpenParliament/LEGISinfo
+ * columns that sync-bills-one-time.ts used to add on the fly
+ */
+const migration: Migration = {
+  version: 3,
+  name: 'bills-legisinfo-columns',
+  up: `
+    ALTER TABLE bills_motions ADD COLUMN IF NOT EXISTS policy_category_id INTEGER
+      REFERENCES bill_policy_categories(id) ON DELETE SET NULL;
+    ALTER TABLE bills_motions ADD COLUMN IF NOT EXISTS law BOOLEAN;
+    ALTER TABLE bills_motions ADD COLUMN IF NOT EXISTS legisinfo_id INTEGER;
+    ALTER TABLE bills_motions ADD COLUMN IF NOT EXISTS private_member_bill BOOLEAN;
+    ALTER TABLE bills_motions ADD COLUMN IF NOT EXISTS session TEXT;
+    ALTER TABLE bills_motions ADD COLUMN IF NOT EXISTS sponsor_politician TEXT;
+    ALTER TABLE bills_motions ADD COLUMN IF NOT EXISTS sponsor_politician_membership TEXT;
+    ALTER TABLE bills_motions ADD COLUMN IF NOT EXISTS sponsor_party TEXT;
+    ALTER TABLE bills_motions ADD COLUMN IF NOT EXISTS status_code TEXT;
+
+    CREATE INDEX IF NOT EXISTS idx_bills_motions_category ON bills_motions(policy_category_id);
+    CREATE INDEX IF NOT EXISTS idx_bills_motions_legisinfo_id ON bills_motions(legisinfo_id);
+    CREATE INDEX IF NOT EXISTS idx_bills_motions_session ON bills_motions(session);
+
+    ALTER TABLE party_loyalty_cache ADD COLUMN IF NOT EXISTS abstained_paired_votes INTEGER DEFAULT 0;
+  `,
+  down: `
+    ALTER TABLE party_loyalty_cache DROP COLUMN IF EXISTS abstained_paired_votes;
+
+    DROP INDEX IF EXISTS idx_bills_motions_session;
+    DROP INDEX IF EXISTS idx_bills_motions_legisinfo_id;
+    DROP INDEX IF EXISTS idx_bills_motions_category;
+
+    ALTER TABLE bills_motions DROP COLUMN IF EXISTS status_code;
+    ALTER TABLE bills_motions DROP COLUMN IF EXISTS sponsor_party;
+    ALTER TABLE bills_motions DROP COLUMN IF EXISTS sponsor_politician_membership;
+    ALTER TABLE bills_motions DROP COLUMN IF EXISTS sponsor_politician;
+    ALTER TABLE bills_motions DROP COLUMN IF EXISTS session;
+    ALTER TABLE bills_motions DROP COLUMN IF EXISTS private_member_bill;
+    ALTER TABLE bills_motions DROP COLUMN IF EXISTS legisinfo_id;
+    ALTER TABLE bills_motions DROP COLUMN IF EXISTS law;
+    ALTER TABLE bills_motions DROP COLUMN IF EXISTS policy_category_id;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,56 @@
+import type { Migration } from '../migrate';
+
+/**
+ * Tables from setup-motions-table.ts and setup-sessions-table.ts, including the
+ * initial current session (45th Parliament, from May 25, 2025)
+ */
+const migration: Migration = {
+  version: 4,
+  name: 'motions-and-sessions',
+  up: `
+    CREATE TABLE IF NOT EXISTS motions (
+      id SERIAL PRIMARY KEY,
+      decision_division_number INTEGER NOT NULL UNIQUE,
+      name TEXT NOT NULL,
+      result TEXT NOT NULL,
+      number_of_yeas INTEGER NOT NULL,
+      number_of_nays INTEGER NOT NULL,
+      number_of_paired INTEGER NOT NULL DEFAULT 0,
+      date TIMESTAMP NOT NULL,
+      type TEXT NOT NULL,
+      parliament_number INTEGER NOT NULL,
+      session_number INTEGER NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_motions_decision_division_number ON motions(decision_division_number);
+    CREATE INDEX IF NOT EXISTS idx_motions_parliament_session ON motions(parliament_number, session_number);
+    CREATE INDEX IF NOT EXISTS idx_motions_date ON motions(date);
+    CREATE INDEX IF NOT EXISTS idx_motions_type ON motions(type);
+
+    CREATE TABLE IF NOT EXISTS sessions (
+      id SERIAL PRIMARY KEY,
+      session_number INTEGER NOT NULL,
+      start_date DATE NOT NULL,
+      end_date DATE,
+      is_current BOOLEAN NOT NULL DEFAULT false,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_sessions_is_current ON sessions(is_current);
+    CREATE INDEX IF NOT EXISTS idx_sessions_start_date ON sessions(start_date);
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_sessions_number ON sessions(session_number);
+
+    INSERT INTO sessions (session_number, start_date, end_date, is_current)
+    VALUES (45, '2025-05-25', NULL, true)
+    ON CONFLICT (session_number) DO NOTHING;
+  `,
+  down: `
+    DROP TABLE IF EXISTS sessions;
+    DROP TABLE IF EXISTS motions;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,44 @@
+import type { Migration } from '../migrate';
+
+/**
+ * Job ledger for the sync orchestrator (scripts/sync.ts): one row per run and one per step
+ */
+const migration: Migration = {
+  version: 5,
+  name: 'sync-runs',
+  up: `
+    CREATE TABLE IF NOT EXISTS sync_runs (
+      id SERIAL PRIMARY KEY,
+      status TEXT NOT NULL DEFAULT 'running',
+      steps TEXT NOT NULL,
+      resumed_from_run_id INTEGER REFERENCES sync_runs(id) ON DELETE SET NULL,
+      started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      finished_at TIMESTAMP,
+      error TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_sync_runs_started_at ON sync_runs(started_at);
+    CREATE INDEX IF NOT EXISTS idx_sync_runs_status ON sync_runs(status);
+
+    CREATE TABLE IF NOT EXISTS sync_run_steps (
+      id SERIAL PRIMARY KEY,
+      run_id INTEGER NOT NULL REFERENCES sync_runs(id) ON DELETE CASCADE,
+      step TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'running',
+      started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      finished_at TIMESTAMP,
+      rows_inserted INTEGER NOT NULL DEFAULT 0,
+      rows_updated INTEGER NOT NULL DEFAULT 0,
+      error TEXT,
+      UNIQUE(run_id, step)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_sync_run_steps_run_id ON sync_run_steps(run_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS sync_run_steps;
+    DROP TABLE IF EXISTS sync_runs;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,31 @@
+import type { Migration } from '../migrate';
+
+/**
+ * Each party's majority position on every division, derived from the stored ballots
+ * (see lib/db/party-positions.ts). position is 'Yea', 'Nay' or 'Split' (tied caucus).
+ */
+const migration: Migration = {
+  version: 6,
+  name: 'party-positions',
+  up: `
+    CREATE TABLE IF NOT EXISTS party_positions (
+      id SERIAL PRIMARY KEY,
+      vote_id TEXT NOT NULL,
+      party TEXT NOT NULL,
+      position TEXT NOT NULL,
+      yea_count INTEGER NOT NULL DEFAULT 0,
+      nay_count INTEGER NOT NULL DEFAULT 0,
+      abstained_count INTEGER NOT NULL DEFAULT 0,
+      computed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(vote_id, party)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_party_positions_vote_id ON party_positions(vote_id);
+    CREATE INDEX IF NOT EXISTS idx_party_positions_party ON party_positions(party);
+  `,
+  down: `
+    DROP TABLE IF EXISTS party_positions;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,56 @@
+import type { Migration } from '../migrate';
+
+/**
+ * Federal electoral districts (ridings) as first-class records, the ridings that share
+ * a border with each one, and every MP who has held the seat (see scripts/sync-ridings.ts).
+ *
+ * Districts are matched to mps, postal_code_mappings and postal_code_cache by name.
+ */
+const migration: Migration = {
+  version: 7,
+  name: 'electoral-districts',
+  up: `
+    CREATE TABLE IF NOT EXISTS electoral_districts (
+      id SERIAL PRIMARY KEY,
+      name TEXT NOT NULL UNIQUE,
+      slug TEXT NOT NULL UNIQUE,
+      fed_code TEXT UNIQUE,
+      province TEXT,
+      boundary_url TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_electoral_districts_province ON electoral_districts(province);
+
+    CREATE TABLE IF NOT EXISTS electoral_district_neighbours (
+      district_id INTEGER NOT NULL,
+      neighbour_id INTEGER NOT NULL,
+      PRIMARY KEY (district_id, neighbour_id),
+      FOREIGN KEY (district_id) REFERENCES electoral_districts(id) ON DELETE CASCADE,
+      FOREIGN KEY (neighbour_id) REFERENCES electoral_districts(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS electoral_district_representatives (
+      id SERIAL PRIMARY KEY,
+      district_id INTEGER NOT NULL,
+      person_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      party_name TEXT,
+      from_date DATE NOT NULL,
+      to_date DATE,
+      FOREIGN KEY (district_id) REFERENCES electoral_districts(id) ON DELETE CASCADE,
+      UNIQUE(district_id, person_id, from_date)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_district_representatives_district ON electoral_district_representatives(district_id);
+    CREATE INDEX IF NOT EXISTS idx_district_representatives_person ON electoral_district_representatives(person_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS electoral_district_representatives;
+    DROP TABLE IF EXISTS electoral_district_neighbours;
+    DROP TABLE IF EXISTS electoral_districts;
+  `,
+};
+
+export default migration;
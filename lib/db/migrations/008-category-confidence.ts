@@ -0,0 +1,32 @@
+import type { Migration } from '../migrate';
+
+/**
+ * Categorization provenance stored next to policy_category_id (see lib/ai/categorize-bill.ts):
+ * the provider that chose the category, its confidence, the full ranked list of
+ * { category, confidence } scores and whether the result is below the review threshold.
+ */
+const migration: Migration = {
+  version: 8,
+  name: 'category-confidence',
+  up: `
+    ALTER TABLE bills_motions ADD COLUMN IF NOT EXISTS category_provider TEXT;
+    ALTER TABLE bills_motions ADD COLUMN IF NOT EXISTS category_confidence REAL;
+    ALTER TABLE bills_motions ADD COLUMN IF NOT EXISTS category_scores JSONB;
+    ALTER TABLE bills_motions ADD COLUMN IF NOT EXISTS category_low_confidence BOOLEAN NOT NULL DEFAULT false;
+    ALTER TABLE bills_motions ADD COLUMN IF NOT EXISTS categorized_at TIMESTAMP;
+
+    CREATE INDEX IF NOT EXISTS idx_bills_motions_category_low_confidence
+      ON bills_motions(category_low_confidence) WHERE category_low_confidence;
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_bills_motions_category_low_confidence;
+
+    ALTER TABLE bills_motions DROP COLUMN IF EXISTS categorized_at;
+    ALTER TABLE bills_motions DROP COLUMN IF EXISTS category_low_confidence;
+    ALTER TABLE bills_motions DROP COLUMN IF EXISTS category_scores;
+    ALTER TABLE bills_motions DROP COLUMN IF EXISTS category_confidence;
+    ALTER TABLE bills_motions DROP COLUMN IF EXISTS category_provider;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,38 @@
+import type { Migration } from '../migrate';
+
+/**
+ * Multi-label bill categories: every policy area a bill touches, with the categorizer's
+ * weight for each. The primary category is still mirrored in bills_motions.policy_category_id.
+ *
+ * Keyed by bill_number like the rest of the categorization code. Existing single
+ * categories are carried over as primary categories.
+ */
+const migration: Migration = {
+  version: 9,
+  name: 'bill-categories',
+  up: `
+    CREATE TABLE IF NOT EXISTS bill_categories (
+      bill_number TEXT NOT NULL,
+      category_id INTEGER NOT NULL,
+      weight REAL NOT NULL DEFAULT 1,
+      is_primary BOOLEAN NOT NULL DEFAULT false,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (bill_number, category_id),
+      FOREIGN KEY (category_id) REFERENCES bill_policy_categories(id) ON DELETE CASCADE
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_bill_categories_category_id ON bill_categories(category_id);
+
+    INSERT INTO bill_categories (bill_number, category_id, weight, is_primary)
+    SELECT DISTINCT ON (bill_number) bill_number, policy_category_id, COALESCE(category_confidence, 1), true
+    FROM bills_motions
+    WHERE bill_number IS NOT NULL AND policy_category_id IS NOT NULL
+    ORDER BY bill_number, id DESC
+    ON CONFLICT (bill_number, category_id) DO NOTHING;
+  `,
+  down: `
+    DROP TABLE IF EXISTS bill_categories;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,46 @@
+import type { Migration } from '../migrate';
+
+/**
+ * Manual category review: a lock per bill that keeps automatic categorization from
+ * overwriting an editor's choice, and an audit trail of every manual change.
+ *
+ * Both are keyed by bill_number so they survive bills_motions rows being re-synced.
+ */
+const migration: Migration = {
+  version: 10,
+  name: 'category-reviews',
+  up: `
+    CREATE TABLE IF NOT EXISTS bill_category_locks (
+      bill_number TEXT PRIMARY KEY,
+      category_id INTEGER NOT NULL,
+      locked_by TEXT NOT NULL,
+      reason TEXT,
+      locked_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (category_id) REFERENCES bill_policy_categories(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS bill_category_audit (
+      id SERIAL PRIMARY KEY,
+      bill_number TEXT NOT NULL,
+      action TEXT NOT NULL,
+      previous_category_id INTEGER,
+      new_category_id INTEGER,
+      secondary_category_ids INTEGER[],
+      previous_provider TEXT,
+      previous_confidence REAL,
+      editor TEXT NOT NULL,
+      reason TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (previous_category_id) REFERENCES bill_policy_categories(id) ON DELETE SET NULL,
+      FOREIGN KEY (new_category_id) REFERENCES bill_policy_categories(id) ON DELETE SET NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_bill_category_audit_bill_number ON bill_category_audit(bill_number, created_at);
+  `,
+  down: `
+    DROP TABLE IF EXISTS bill_category_audit;
+    DROP TABLE IF EXISTS bill_category_locks;
+  `,
+};
+
+export default migration;
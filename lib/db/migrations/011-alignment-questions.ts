@@ -0,0 +1,33 @@
+import type { Migration } from '../migrate';
+
+/**
+ * Alignment quiz: plain-language questions, each tied to one real division.
+ * agree_position is the ballot that matches answering "agree", so a question can be
+ * phrased either way round. Seeded by scripts/seed-alignment-questions.ts.
+ */
+const migration: Migration = {
+  version: 11,
+  name: 'alignment-questions',
+  up: `
+    CREATE TABLE IF NOT EXISTS alignment_questions (
+      id SERIAL PRIMARY KEY,
+      slug TEXT NOT NULL UNIQUE,
+      vote_id TEXT NOT NULL,
+      bill_number TEXT,
+      question TEXT NOT NULL,
+      explanation TEXT,
+      agree_position TEXT NOT NULL DEFAULT 'Yea' CHECK (agree_position IN ('Yea', 'Nay')),
+      sort_order INTEGER NOT NULL DEFAULT 0,
+      active BOOLEAN NOT NULL DEFAULT true,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_alignment_questions_vote_id ON alignment_questions(vote_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS alignment_questions;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,43 @@
+import type { Migration } from '../migrate';
+
+/**
+ * LEGISinfo snapshots and legislative-stage events, filled by scripts/sync-bill-stages.ts
+ *
+ * bill_legisinfo keeps the raw bill JSON (notes, web references) so the bill page no longer
+ * proxies parl.ca; bill_stages has one row per completed or current stage in each chamber.
+ */
+const migration: Migration = {
+  version: 12,
+  name: 'bill-stages',
+  up: `
+    CREATE TABLE IF NOT EXISTS bill_legisinfo (
+      bill_number TEXT NOT NULL,
+      session TEXT NOT NULL,
+      legisinfo_id INTEGER,
+      data JSONB NOT NULL,
+      fetched_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (bill_number, session)
+    );
+
+    CREATE TABLE IF NOT EXISTS bill_stages (
+      id SERIAL PRIMARY KEY,
+      bill_number TEXT NOT NULL,
+      session TEXT NOT NULL,
+      chamber TEXT NOT NULL CHECK (chamber IN ('House', 'Senate', 'Royal Assent')),
+      stage TEXT NOT NULL,
+      stage_name TEXT NOT NULL,
+      completed_at TIMESTAMP,
+      sort_order INTEGER NOT NULL DEFAULT 0,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (bill_number, session, chamber, stage)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_bill_stages_bill ON bill_stages(bill_number, session);
+  `,
+  down: `
+    DROP TABLE IF EXISTS bill_stages;
+    DROP TABLE IF EXISTS bill_legisinfo;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,34 @@
+import type { Migration } from '../migrate';
+
+/**
+ * Published text of each bill version (first reading, as reported by committee, as passed,
+ * royal assent), filled by scripts/sync-bill-texts.ts
+ *
+ * clauses holds the text split into numbered clauses ([{ label, text }]) for the diff view.
+ */
+const migration: Migration = {
+  version: 13,
+  name: 'bill-texts',
+  up: `
+    CREATE TABLE IF NOT EXISTS bill_texts (
+      id SERIAL PRIMARY KEY,
+      bill_number TEXT NOT NULL,
+      session TEXT NOT NULL,
+      version_number INTEGER NOT NULL,
+      version_name TEXT NOT NULL,
+      source_url TEXT NOT NULL,
+      published_at TIMESTAMP,
+      text TEXT NOT NULL,
+      clauses JSONB NOT NULL DEFAULT '[]',
+      fetched_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (bill_number, session, version_number)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_bill_texts_bill ON bill_texts(bill_number, session);
+  `,
+  down: `
+    DROP TABLE IF EXISTS bill_texts;
+  `,
+};
+
+export default migration;
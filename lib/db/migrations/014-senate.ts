@@ -0,0 +1,68 @@
+import type { Migration } from '../migrate';
+
+/**
+ * Senators and Senate recorded divisions, filled by scripts/sync-senators.ts and
+ * scripts/sync-senate-divisions.ts
+ *
+ * senate_id is the senator's sencanada.ca profile slug (e.g. "smith-larry"); senators who
+ * left before the first sync are added from division ballots with active = false.
+ */
+const migration: Migration = {
+  version: 14,
+  name: 'senate',
+  up: `
+    CREATE TABLE IF NOT EXISTS senators (
+      id SERIAL PRIMARY KEY,
+      senate_id TEXT NOT NULL UNIQUE,
+      name TEXT NOT NULL,
+      first_name TEXT,
+      last_name TEXT,
+      affiliation TEXT,
+      province TEXT,
+      appointed_date DATE,
+      retirement_date DATE,
+      photo_url TEXT,
+      url TEXT,
+      active BOOLEAN NOT NULL DEFAULT true,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_senators_active ON senators(active);
+
+    CREATE TABLE IF NOT EXISTS senate_divisions (
+      id SERIAL PRIMARY KEY,
+      division_id TEXT NOT NULL UNIQUE,
+      session TEXT NOT NULL,
+      date DATE,
+      description TEXT NOT NULL,
+      bill_number TEXT,
+      result TEXT,
+      yeas INTEGER NOT NULL DEFAULT 0,
+      nays INTEGER NOT NULL DEFAULT 0,
+      abstentions INTEGER NOT NULL DEFAULT 0,
+      url TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_senate_divisions_bill ON senate_divisions(bill_number, session);
+    CREATE INDEX IF NOT EXISTS idx_senate_divisions_date ON senate_divisions(date);
+
+    CREATE TABLE IF NOT EXISTS senate_votes (
+      division_id INTEGER NOT NULL REFERENCES senate_divisions(id) ON DELETE CASCADE,
+      senator_id INTEGER NOT NULL REFERENCES senators(id) ON DELETE CASCADE,
+      vote_type TEXT NOT NULL CHECK (vote_type IN ('Yea', 'Nay', 'Abstention')),
+      PRIMARY KEY (division_id, senator_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_senate_votes_senator ON senate_votes(senator_id);
+  `,
+  down: `
+    DROP TABLE IF EXISTS senate_votes;
+    DROP TABLE IF EXISTS senate_divisions;
+    DROP TABLE IF EXISTS senators;
+  `,
+};
+
+export default migration;
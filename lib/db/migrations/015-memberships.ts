@@ -0,0 +1,41 @@
+import type { Migration } from '../migrate';
+
+/**
+ * Per-parliament House memberships: the party and riding an MP held over each period,
+ * filled by scripts/sync-memberships.ts from the ourcommons.ca member profiles.
+ *
+ * A membership is split whenever the caucus changes, so floor-crossers get one row per
+ * party. person_id is the ourcommons.ca PersonId (mps.district_id). major_party is the
+ * party normalized to the 5 major parties (NULL for independents), matching party_positions.party.
+ */
+const migration: Migration = {
+  version: 15,
+  name: 'memberships',
+  up: `
+    CREATE TABLE IF NOT EXISTS memberships (
+      id SERIAL PRIMARY KEY,
+      person_id TEXT NOT NULL,
+      mp_id INTEGER REFERENCES mps(id) ON DELETE SET NULL,
+      name TEXT NOT NULL,
+      party_name TEXT,
+      major_party TEXT,
+      district_name TEXT NOT NULL,
+      province TEXT,
+      parliament_number INTEGER,
+      session_number INTEGER,
+      start_date DATE NOT NULL,
+      end_date DATE,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(person_id, start_date)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_memberships_mp ON memberships(mp_id, start_date);
+    CREATE INDEX IF NOT EXISTS idx_memberships_parliament ON memberships(parliament_number);
+  `,
+  down: `
+    DROP TABLE IF EXISTS memberships;
+  `,
+};
+
+export default migration;
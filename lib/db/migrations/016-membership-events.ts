@@ -0,0 +1,32 @@
+import type { Migration } from '../migrate';
+
+/**
+ * Log of party, riding and vacancy changes detected by scripts/fetch-mps.ts when it
+ * refreshes the mps table. Rows keep the person_id and name so events outlive the mps
+ * row of an MP who has left office.
+ */
+const migration: Migration = {
+  version: 16,
+  name: 'membership-events',
+  up: `
+    CREATE TABLE IF NOT EXISTS membership_events (
+      id SERIAL PRIMARY KEY,
+      mp_id INTEGER REFERENCES mps(id) ON DELETE SET NULL,
+      person_id TEXT,
+      name TEXT NOT NULL,
+      event_type TEXT NOT NULL CHECK (event_type IN ('party-change', 'riding-change', 'vacancy')),
+      old_value TEXT,
+      new_value TEXT,
+      detected_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_membership_events_mp ON membership_events(mp_id);
+    CREATE INDEX IF NOT EXISTS idx_membership_events_person ON membership_events(person_id);
+    CREATE INDEX IF NOT EXISTS idx_membership_events_type_detected ON membership_events(event_type, detected_at DESC);
+  `,
+  down: `
+    DROP TABLE IF EXISTS membership_events;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,18 @@
+import type { Migration } from '../migrate';
+
+/**
+ * Land area of each riding, computed by scripts/sync-ridings.ts from the Represent
+ * boundary shape. Used to compare MPs with ridings of similar geographic size.
+ */
+const migration: Migration = {
+  version: 17,
+  name: 'riding-area',
+  up: `
+    ALTER TABLE electoral_districts ADD COLUMN IF NOT EXISTS area_km2 REAL;
+  `,
+  down: `
+    ALTER TABLE electoral_districts DROP COLUMN IF EXISTS area_km2;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,89 @@
+import type { Migration } from '../migrate';
+
+/**
+ * Line items from the detailed Members' Expenditures files: travel claims, hospitality
+ * events and contracts. Each row is keyed by the file and row it was imported from, so
+ * re-importing a file updates its rows in place.
+ */
+const migration: Migration = {
+  version: 18,
+  name: 'expense-line-items',
+  up: `
+    CREATE TABLE IF NOT EXISTS expense_travel_claims (
+      id SERIAL PRIMARY KEY,
+      mp_id INTEGER NOT NULL REFERENCES mps(id) ON DELETE CASCADE,
+      quarter TEXT NOT NULL,
+      year INTEGER NOT NULL,
+      quarter_number INTEGER NOT NULL,
+      claim_number TEXT,
+      traveller_name TEXT,
+      traveller_type TEXT,
+      purpose TEXT,
+      start_date TEXT,
+      end_date TEXT,
+      origin TEXT,
+      destination TEXT,
+      transportation REAL DEFAULT 0,
+      accommodation REAL DEFAULT 0,
+      meals_incidentals REAL DEFAULT 0,
+      total REAL DEFAULT 0,
+      source_file TEXT NOT NULL,
+      source_row INTEGER NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(source_file, source_row)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_expense_travel_claims_mp ON expense_travel_claims(mp_id, year, quarter_number);
+
+    CREATE TABLE IF NOT EXISTS expense_hospitality_events (
+      id SERIAL PRIMARY KEY,
+      mp_id INTEGER NOT NULL REFERENCES mps(id) ON DELETE CASCADE,
+      quarter TEXT NOT NULL,
+      year INTEGER NOT NULL,
+      quarter_number INTEGER NOT NULL,
+      claim_number TEXT,
+      event_date TEXT,
+      location TEXT,
+      attendees INTEGER,
+      purpose TEXT,
+      event_type TEXT,
+      supplier TEXT,
+      total REAL DEFAULT 0,
+      source_file TEXT NOT NULL,
+      source_row INTEGER NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(source_file, source_row)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_expense_hospitality_events_mp ON expense_hospitality_events(mp_id, year, quarter_number);
+
+    CREATE TABLE IF NOT EXISTS expense_contracts (
+      id SERIAL PRIMARY KEY,
+      mp_id INTEGER NOT NULL REFERENCES mps(id) ON DELETE CASCADE,
+      quarter TEXT NOT NULL,
+      year INTEGER NOT NULL,
+      quarter_number INTEGER NOT NULL,
+      supplier TEXT NOT NULL,
+      description TEXT,
+      contract_date TEXT,
+      total REAL DEFAULT 0,
+      source_file TEXT NOT NULL,
+      source_row INTEGER NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(source_file, source_row)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_expense_contracts_mp ON expense_contracts(mp_id, year, quarter_number);
+    CREATE INDEX IF NOT EXISTS idx_expense_contracts_supplier ON expense_contracts(supplier);
+  `,
+  down: `
+    DROP TABLE IF EXISTS expense_contracts;
+    DROP TABLE IF EXISTS expense_hospitality_events;
+    DROP TABLE IF EXISTS expense_travel_claims;
+  `,
+};
+
+export default migration;
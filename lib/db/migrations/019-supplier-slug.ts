@@ -0,0 +1,22 @@
+import type { Migration } from '../migrate';
+
+/**
+ * Normalized supplier key on contract line items, so spelling variants of one supplier
+ * ("Bell Canada", "BELL CANADA INC.") are grouped in the supplier index. Filled by
+ * scripts/import-mp-expenses.ts; re-import with --force to key rows imported before.
+ */
+const migration: Migration = {
+  version: 19,
+  name: 'supplier-slug',
+  up: `
+    ALTER TABLE expense_contracts ADD COLUMN IF NOT EXISTS supplier_slug TEXT;
+
+    CREATE INDEX IF NOT EXISTS idx_expense_contracts_supplier_slug ON expense_contracts(supplier_slug);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_expense_contracts_supplier_slug;
+    ALTER TABLE expense_contracts DROP COLUMN IF EXISTS supplier_slug;
+  `,
+};
+
+export default migration;
@@ -0,0 +1,34 @@
+import type { Migration } from '../migrate';
+
+/**
+ * Key stored bill text versions by their source URL instead of their position in the
+ * publication list, so a reprint listed out of order no longer overwrites another version.
+ * version_number is kept as the display order and renumbered on every sync.
+ *
+ * Text stored from the parl.ca document viewer (used when LEGISinfo listed no publications)
+ * is dropped; it was a rendered page rather than a published version.
+ */
+const migration: Migration = {
+  version: 20,
+  name: 'bill-text-source-key',
+  up: `
+    DELETE FROM bill_texts WHERE source_url LIKE '%/DocumentViewer/%';
+
+    DELETE FROM bill_texts t
+    USING bill_texts newer
+    WHERE newer.bill_number = t.bill_number
+      AND newer.session = t.session
+      AND newer.source_url = t.source_url
+      AND newer.id > t.id;
+
+    ALTER TABLE bill_texts DROP CONSTRAINT IF EXISTS bill_texts_bill_number_session_version_number_key;
+    CREATE UNIQUE INDEX IF NOT EXISTS idx_bill_texts_source ON bill_texts(bill_number, session, source_url);
+  `,
+  down: `
+    DROP INDEX IF EXISTS idx_bill_texts_source;
+    ALTER TABLE bill_texts ADD CONSTRAINT bill_texts_bill_number_session_version_number_key
+      UNIQUE (bill_number, session, version_number);
+  `,
+};
+
+export default migration;
@@ -0,0 +1,46 @@
+import type { Migration } from '../migrate';
+import coreSchema from './001-core-schema';
+import votesBillLink from './002-votes-bill-link';
+import billsLegisinfoColumns from './003-bills-legisinfo-columns';
+import motionsAndSessions from './004-motions-and-sessions';
+import syncRuns from './005-sync-runs';
+import partyPositions from './006-party-positions';
+import electoralDistricts from './007-electoral-districts';
+import categoryConfidence from './008-category-confidence';
+import billCategories from './009-bill-categories';
+import categoryReviews from './010-category-reviews';
+import alignmentQuestions from './011-alignment-questions';
+import billStages from './012-bill-stages';
+import billTexts from './013-bill-texts';
+import senate from './014-senate';
+import memberships from './015-memberships';
+import membershipEvents from './016-membership-events';
+import ridingArea from './017-riding-area';
+import expenseLineItems from './018-expense-line-items';
+import supplierSlug from './019-supplier-slug';
+import billTextSourceKey from './020-bill-text-source-key';
+
+// Register new migrations here. Never edit a migration once it has been applied
+// anywhere - add a new one instead (checksums are verified on every run).
+export const migrations: Migration[] = [
+  coreSchema,
+  votesBillLink,
+  billsLegisinfoColumns,
+  motionsAndSessions,
+  syncRuns,
+  partyPositions,
+  electoralDistricts,
+  categoryConfidence,
+  billCategories,
+  categoryReviews,
+  alignmentQuestions,
+  billStages,
+  billTexts,
+  senate,
+  memberships,
+  membershipEvents,
+  ridingArea,
+  expenseLineItems,
+  supplierSlug,
+  billTextSourceKey,
+];
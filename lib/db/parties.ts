@@ -0,0 +1,176 @@
+import { queryAll, queryOne, convertPlaceholders } from './database';
+import { getCurrentSessionStartDate } from './sessions';
+import { MEMBERSHIP_AT_VOTE_JOIN } from './memberships';
+import { getPartyCohesion } from './party-cohesion';
+import type { CohesionSummary, DivisionCohesion } from './party-cohesion';
+import { normalizeToMajorParty, getPartySlug } from '@/lib/utils/parties';
+import type { MajorParty } from '@/lib/utils/parties';
+
+export interface PartyMember {
+  id: number;
+  name: string;
+  party_name: string;
+  district_name: string;
+  district_id: string | null;
+  photo_url: string | null;
+}
+
+export interface PartyExpenses {
+  staff_salaries: number;
+  travel: number;
+  hospitality: number;
+  contracts: number;
+  total: number;
+  per_mp: number;
+}
+
+export interface PartyBill {
+  bill_number: string;
+  title: string;
+  introduced_date: string | null;
+  status_code: string | null;
+  status: string | null;
+  law: boolean | null;
+  session: string | null;
+  sponsor_politician: string | null;
+  sponsor_party: string | null;
+}
+
+export interface PartyRebel {
+  mp_id: number;
+  name: string;
+  district_name: string;
+  breaks: number;
+  counted_votes: number;
+  break_rate: number;
+}
+
+export interface PartyProfile {
+  party: MajorParty;
+  slug: string;
+  seats: number;
+  total_seats: number;
+  seat_share: number;
+  members: PartyMember[];
+  expenses: PartyExpenses;
+  bills_sponsored: PartyBill[];
+  cohesion: CohesionSummary;
+  recent_divisions: DivisionCohesion[];
+  rebels: PartyRebel[];
+}
+
+const RECENT_DIVISIONS_LIMIT = 15;
+const REBELS_LIMIT = 10;
+
+/**
+ * Everything shown on a party page: roster, seat share, spending, bills sponsored
+ * this session, recent divisions with the caucus position and the MPs who broke ranks most.
+ *
+ * MPs and sponsors are matched with normalizeToMajorParty, since party names vary by source.
+ */
+export async function getPartyProfile(party: MajorParty): Promise<PartyProfile> {
+  const allMPs = await queryAll<PartyMember>(`
+    SELECT id, name, party_name, district_name, district_id, photo_url
+    FROM mps
+    WHERE party_name IS NOT NULL AND party_name != ''
+    ORDER BY name
+  `);
+  const members = allMPs.filter((mp) => normalizeToMajorParty(mp.party_name) === party);
+  const memberIds = members.map((mp) => mp.id);
+
+  const totalSeats = await queryOne<{ count: number }>('SELECT COUNT(*)::int AS count FROM mps');
+
+  const expenseTotals = await queryOne<Omit<PartyExpenses, 'total' | 'per_mp'>>(convertPlaceholders(`
+    SELECT
+      COALESCE(SUM(staff_salaries), 0)::float AS staff_salaries,
+      COALESCE(SUM(travel), 0)::float AS travel,
+      COALESCE(SUM(hospitality), 0)::float AS hospitality,
+      COALESCE(SUM(contracts), 0)::float AS contracts
+    FROM mp_expenses
+    WHERE mp_id = ANY($1::int[])
+  `), [memberIds]);
+  const expenseTotal = expenseTotals
+    ? expenseTotals.staff_salaries + expenseTotals.travel + expenseTotals.hospitality + expenseTotals.contracts
+    : 0;
+
+  // Latest row per bill_number, same as the home page bill list
+  const sessionStartDate = await getCurrentSessionStartDate();
+  const sponsoredBills = await queryAll<PartyBill>(convertPlaceholders(`
+    SELECT
+      bm.bill_number,
+      bm.title,
+      bm.introduced_date,
+      bm.status_code,
+      bm.status,
+      bm.law,
+      bm.session,
+      bm.sponsor_politician,
+      COALESCE(
+        bm.sponsor_party,
+        (SELECT party_name FROM mps WHERE name = bm.sponsor_politician LIMIT 1)
+      ) as sponsor_party
+    FROM bills_motions bm
+    INNER JOIN (
+      SELECT bill_number, MAX(id) as max_id
+      FROM bills_motions
+      WHERE type = 'Bill' AND bill_number IS NOT NULL
+      GROUP BY bill_number
+    ) latest ON bm.bill_number = latest.bill_number AND bm.id = latest.max_id
+    WHERE ($1::text IS NULL OR (bm.introduced_date IS NOT NULL AND CAST(bm.introduced_date AS DATE) >= CAST($1 AS DATE)))
+    ORDER BY bm.introduced_date DESC NULLS LAST, bm.bill_number DESC
+  `), [sessionStartDate]);
+  const billsSponsored = sponsoredBills.filter((bill) => normalizeToMajorParty(bill.sponsor_party) === party);
+
+  const cohesion = await getPartyCohesion(party, { since: sessionStartDate }, RECENT_DIVISIONS_LIMIT);
+
+  // Only divisions where both the MP and the caucus majority took a side count towards breaks.
+  // Ballots cast while the MP sat in another caucus are left out, so crossings do not count as breaks.
+  const rebels = await queryAll<Omit<PartyRebel, 'break_rate'>>(convertPlaceholders(`
+    SELECT
+      m.id AS mp_id,
+      m.name,
+      m.district_name,
+      COUNT(*) FILTER (WHERE v.vote_type <> pp.position)::int AS breaks,
+      COUNT(*)::int AS counted_votes
+    FROM votes v
+    JOIN mps m ON m.id = v.mp_id
+    ${MEMBERSHIP_AT_VOTE_JOIN}
+    JOIN party_positions pp ON pp.vote_id = v.vote_id AND pp.party = $1
+    WHERE v.mp_id = ANY($2::int[])
+      AND (ms.id IS NULL OR ms.major_party = $1)
+      AND v.vote_type IN ('Yea', 'Nay')
+      AND pp.position IN ('Yea', 'Nay')
+      AND ($3::text IS NULL OR v.date >= $3)
+    GROUP BY m.id, m.name, m.district_name
+    HAVING COUNT(*) FILTER (WHERE v.vote_type <> pp.position) > 0
+    ORDER BY breaks DESC, m.name
+    LIMIT $4
+  `), [party, memberIds, sessionStartDate, REBELS_LIMIT]);
+
+  const seats = members.length;
+  const total = totalSeats?.count || 0;
+
+  return {
+    party,
+    slug: getPartySlug(party),
+    seats,
+    total_seats: total,
+    seat_share: total > 0 ? (seats / total) * 100 : 0,
+    members,
+    expenses: {
+      staff_salaries: expenseTotals?.staff_salaries || 0,
+      travel: expenseTotals?.travel || 0,
+      hospitality: expenseTotals?.hospitality || 0,
+      contracts: expenseTotals?.contracts || 0,
+      total: expenseTotal,
+      per_mp: seats > 0 ? expenseTotal / seats : 0,
+    },
+    bills_sponsored: billsSponsored,
+    cohesion: cohesion.overall,
+    recent_divisions: cohesion.recent_divisions,
+    rebels: rebels.map((rebel) => ({
+      ...rebel,
+      break_rate: rebel.counted_votes > 0 ? (rebel.breaks / rebel.counted_votes) * 100 : 0,
+    })),
+  };
+}
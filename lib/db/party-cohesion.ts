@@ -0,0 +1,201 @@
+import { queryAll, queryOne, convertPlaceholders } from './database';
+import { MAJOR_PARTIES } from '@/lib/utils/parties';
+import type { MajorParty } from '@/lib/utils/parties';
+
+/**
+ * Party cohesion on recorded divisions, computed from the caucus tallies in party_positions.
+ *
+ * Rice index:      |Yea - Nay| / (Yea + Nay)                        (0 = evenly split, 1 = unanimous)
+ * Agreement index: (max(Yea, Nay) - 0.5 * min(Yea, Nay)) / (Yea + Nay)  (Hix et al., -0.5 to 1)
+ *
+ * Absences and pairs are not votes cast (the House has no formal abstention),
+ * so both indices use Yea/Nay ballots only.
+ */
+
+export interface CohesionSummary {
+  divisions: number;
+  rice_index: number | null;
+  agreement_index: number | null;
+  unanimous_divisions: number;
+}
+
+export interface SessionCohesion extends CohesionSummary {
+  session: string; // e.g. "45-1"
+  parliament_number: number;
+  session_number: number;
+}
+
+export interface CategoryCohesion extends CohesionSummary {
+  category_name: string;
+  category_slug: string;
+}
+
+export interface DivisionCohesion {
+  vote_id: string;
+  date: string;
+  motion_title: string;
+  position: string;
+  yea_count: number;
+  nay_count: number;
+  abstained_count: number;
+  rice_index: number;
+  agreement_index: number;
+}
+
+export interface PartyCohesion {
+  party: MajorParty;
+  overall: CohesionSummary;
+  by_session: SessionCohesion[];
+  by_category: CategoryCohesion[];
+  recent_divisions: DivisionCohesion[];
+}
+
+export interface CohesionFilter {
+  session?: string | null; // "<parliament>-<session>"
+  since?: string | null; // YYYY-MM-DD
+}
+
+const RICE_SQL = 'ABS(pp.yea_count - pp.nay_count)::float / (pp.yea_count + pp.nay_count)';
+const AGREEMENT_SQL = '(GREATEST(pp.yea_count, pp.nay_count) - 0.5 * LEAST(pp.yea_count, pp.nay_count))::float / (pp.yea_count + pp.nay_count)';
+
+const SUMMARY_COLUMNS = `
+  COUNT(*)::int AS divisions,
+  AVG(${RICE_SQL}) AS rice_index,
+  AVG(${AGREEMENT_SQL}) AS agreement_index,
+  COUNT(*) FILTER (WHERE pp.yea_count = 0 OR pp.nay_count = 0)::int AS unanimous_divisions
+`;
+
+// One row per division: the date, title, session and bill are the same on every ballot
+const DIVISIONS_SQL = `
+  SELECT
+    vote_id,
+    MIN(date) AS date,
+    MAX(motion_title) AS motion_title,
+    MAX(parliament_number) AS parliament_number,
+    MAX(session_number) AS session_number,
+    MAX(bill_id) AS bill_id,
+    MAX(bill_number) AS bill_number
+  FROM votes
+  GROUP BY vote_id
+`;
+
+const DEFAULT_RECENT_DIVISIONS = 20;
+
+function buildWhere(party: MajorParty | null, filter: CohesionFilter): { where: string; params: any[] } {
+  const conditions = ['pp.yea_count + pp.nay_count > 0'];
+  const params: any[] = [];
+
+  if (party) {
+    params.push(party);
+    conditions.push(`pp.party = $${params.length}`);
+  }
+
+  const sessionMatch = filter.session?.match(/^(\d+)-(\d+)$/);
+  if (sessionMatch) {
+    params.push(parseInt(sessionMatch[1], 10), parseInt(sessionMatch[2], 10));
+    conditions.push(`d.parliament_number = $${params.length - 1} AND d.session_number = $${params.length}`);
+  }
+
+  if (filter.since) {
+    params.push(filter.since);
+    conditions.push(`d.date >= $${params.length}`);
+  }
+
+  return { where: conditions.join(' AND '), params };
+}
+
+/**
+ * Cohesion of one party: overall, per session, per policy category and on its most recent divisions
+ */
+export async function getPartyCohesion(
+  party: MajorParty,
+  filter: CohesionFilter = {},
+  recentLimit: number = DEFAULT_RECENT_DIVISIONS
+): Promise<PartyCohesion> {
+  const { where, params } = buildWhere(party, filter);
+  const from = `
+    FROM party_positions pp
+    JOIN (${DIVISIONS_SQL}) d ON d.vote_id = pp.vote_id
+  `;
+
+  const overall = await queryOne<CohesionSummary>(convertPlaceholders(`
+    SELECT ${SUMMARY_COLUMNS}
+    ${from}
+    WHERE ${where}
+  `), params);
+
+  // Sessions are always listed in full so the trend stays visible when filtering
+  const { where: partyWhere, params: partyParams } = buildWhere(party, {});
+  const bySession = await queryAll<SessionCohesion>(convertPlaceholders(`
+    SELECT
+      d.parliament_number || '-' || d.session_number AS session,
+      d.parliament_number,
+      d.session_number,
+      ${SUMMARY_COLUMNS}
+    ${from}
+    WHERE ${partyWhere} AND d.parliament_number IS NOT NULL AND d.session_number IS NOT NULL
+    GROUP BY d.parliament_number, d.session_number
+    ORDER BY d.parliament_number DESC, d.session_number DESC
+  `), partyParams);
+
+  // Divisions without a linked bill_id fall back to the latest bills_motions row for their bill number
+  const byCategory = await queryAll<CategoryCohesion>(convertPlaceholders(`
+    SELECT
+      c.name AS category_name,
+      c.slug AS category_slug,
+      ${SUMMARY_COLUMNS}
+    ${from}
+    JOIN bills_motions b ON b.id = COALESCE(
+      d.bill_id,
+      (SELECT MAX(id) FROM bills_motions WHERE bill_number = d.bill_number)
+    )
+    JOIN bill_policy_categories c ON c.id = b.policy_category_id
+    WHERE ${where}
+    GROUP BY c.name, c.slug
+    ORDER BY divisions DESC, c.name
+  `), params);
+
+  const recentDivisions = await queryAll<DivisionCohesion>(convertPlaceholders(`
+    SELECT
+      pp.vote_id,
+      d.date,
+      d.motion_title,
+      pp.position,
+      pp.yea_count,
+      pp.nay_count,
+      pp.abstained_count,
+      ${RICE_SQL} AS rice_index,
+      ${AGREEMENT_SQL} AS agreement_index
+    ${from}
+    WHERE ${where}
+    ORDER BY d.date DESC, pp.vote_id DESC
+    LIMIT $${params.length + 1}
+  `), [...params, recentLimit]);
+
+  return {
+    party,
+    overall: overall || { divisions: 0, rice_index: null, agreement_index: null, unanimous_divisions: 0 },
+    by_session: bySession,
+    by_category: byCategory,
+    recent_divisions: recentDivisions,
+  };
+}
+
+/**
+ * Overall cohesion for each of the 5 major parties (home page chart)
+ */
+export async function getCohesionByParty(filter: CohesionFilter = {}): Promise<Array<CohesionSummary & { party: MajorParty }>> {
+  const { where, params } = buildWhere(null, filter);
+
+  const rows = await queryAll<CohesionSummary & { party: MajorParty }>(convertPlaceholders(`
+    SELECT pp.party, ${SUMMARY_COLUMNS}
+    FROM party_positions pp
+    JOIN (${DIVISIONS_SQL}) d ON d.vote_id = pp.vote_id
+    WHERE ${where}
+    GROUP BY pp.party
+  `), params);
+
+  return MAJOR_PARTIES
+    .map((party) => rows.find((row) => row.party === party))
+    .filter((row): row is CohesionSummary & { party: MajorParty } => Boolean(row));
+}
@@ -0,0 +1,240 @@
+import { queryAll, queryOne, transaction, convertPlaceholders } from './database';
+import { normalizeToMajorParty } from '@/lib/utils/parties';
+import { MEMBERSHIP_AT_VOTE_JOIN } from './memberships';
+import type { PartyLoyaltyStats, CategoryVotingProfile } from '@/types';
+import type { SyncStepResult } from './sync-runs';
+
+export type PartyPosition = 'Yea' | 'Nay' | 'Split';
+
+export interface PartyPositionRow {
+  vote_id: string;
+  party: string;
+  position: PartyPosition;
+  yea_count: number;
+  nay_count: number;
+  abstained_count: number;
+}
+
+// Multi-row upserts are chunked to stay well under PostgreSQL's parameter limit
+const UPSERT_BATCH_SIZE = 500;
+
+/**
+ * Majority position of a caucus on one division. A tie between Yea and Nay is a split caucus.
+ */
+export function majorityPosition(yeaCount: number, nayCount: number): PartyPosition {
+  if (yeaCount > nayCount) return 'Yea';
+  if (nayCount > yeaCount) return 'Nay';
+  return 'Split';
+}
+
+/**
+ * Derive every party's majority position on every division from the stored ballots
+ * and upsert them into party_positions, removing positions the ballots no longer support.
+ *
+ * MPs are grouped by the party they belonged to on the vote date (memberships, falling
+ * back to the mps table), normalized to the 5 major parties; independents have no caucus
+ * and are left out.
+ */
+export async function computePartyPositions(): Promise<SyncStepResult> {
+  const ballots = await queryAll<{ vote_id: string; party_name: string | null; vote_type: string; ballots: number }>(`
+    SELECT v.vote_id, COALESCE(ms.party_name, m.party_name) AS party_name, v.vote_type, COUNT(*)::int AS ballots
+    FROM votes v
+    JOIN mps m ON m.id = v.mp_id
+    ${MEMBERSHIP_AT_VOTE_JOIN}
+    GROUP BY v.vote_id, COALESCE(ms.party_name, m.party_name), v.vote_type
+  `);
+
+  const positions = new Map<string, PartyPositionRow>();
+  for (const row of ballots) {
+    const party = normalizeToMajorParty(row.party_name);
+    if (!party) continue;
+
+    const key = `${row.vote_id}|${party}`;
+    let position = positions.get(key);
+    if (!position) {
+      position = { vote_id: row.vote_id, party, position: 'Split', yea_count: 0, nay_count: 0, abstained_count: 0 };
+      positions.set(key, position);
+    }
+
+    if (row.vote_type === 'Yea') {
+      position.yea_count += row.ballots;
+    } else if (row.vote_type === 'Nay') {
+      position.nay_count += row.ballots;
+    } else {
+      position.abstained_count += row.ballots;
+    }
+  }
+
+  const rows = Array.from(positions.values()).map((row) => ({
+    ...row,
+    position: majorityPosition(row.yea_count, row.nay_count),
+  }));
+
+  return transaction(async (client) => {
+    let inserted = 0;
+    let updated = 0;
+
+    for (let i = 0; i < rows.length; i += UPSERT_BATCH_SIZE) {
+      const batch = rows.slice(i, i + UPSERT_BATCH_SIZE);
+      const params: any[] = [];
+      const values = batch.map((row, index) => {
+        const offset = index * 6;
+        params.push(row.vote_id, row.party, row.position, row.yea_count, row.nay_count, row.abstained_count);
+        return `($${offset + 1}, $${offset + 2}, $${offset + 3}, $${offset + 4}, $${offset + 5}, $${offset + 6})`;
+      });
+
+      // xmax is 0 for freshly inserted rows, which separates inserts from updates in one statement
+      const result = await client.query<{ inserted: boolean }>(convertPlaceholders(`
+        INSERT INTO party_positions (vote_id, party, position, yea_count, nay_count, abstained_count)
+        VALUES ${values.join(', ')}
+        ON CONFLICT (vote_id, party) DO UPDATE SET
+          position = EXCLUDED.position,
+          yea_count = EXCLUDED.yea_count,
+          nay_count = EXCLUDED.nay_count,
+          abstained_count = EXCLUDED.abstained_count,
+          computed_at = CURRENT_TIMESTAMP
+        WHERE (party_positions.position, party_positions.yea_count, party_positions.nay_count, party_positions.abstained_count)
+          IS DISTINCT FROM (EXCLUDED.position, EXCLUDED.yea_count, EXCLUDED.nay_count, EXCLUDED.abstained_count)
+        RETURNING (xmax = 0) AS inserted
+      `), params);
+
+      for (const row of result.rows) {
+        if (row.inserted) {
+          inserted++;
+        } else {
+          updated++;
+        }
+      }
+    }
+
+    // Caucuses that no longer cast a ballot on a division, e.g. after a membership correction
+    await client.query(`
+      DELETE FROM party_positions pp
+      WHERE NOT EXISTS (
+        SELECT 1 FROM UNNEST($1::text[], $2::text[]) AS computed(vote_id, party)
+        WHERE computed.vote_id = pp.vote_id AND computed.party = pp.party
+      )
+    `, [rows.map((row) => row.vote_id), rows.map((row) => row.party)]);
+
+    return { inserted, updated };
+  });
+}
+
+/**
+ * Get the stored party positions for one division
+ */
+export async function getPartyPositionsForVote(voteId: string): Promise<PartyPositionRow[]> {
+  const sql = convertPlaceholders(`
+    SELECT vote_id, party, position, yea_count, nay_count, abstained_count
+    FROM party_positions
+    WHERE vote_id = $1
+    ORDER BY party
+  `);
+  return queryAll<PartyPositionRow>(sql, [voteId]);
+}
+
+/**
+ * Party loyalty measured against the MP's own caucus on every division:
+ * - Yea/Nay matching the caucus majority -> Party-line vote
+ * - Yea/Nay opposing the caucus majority -> Break with party
+ * - Caucus split evenly, or the MP has no major-party caucus -> Independent vote
+ * - Paired, abstained or not voting -> counted separately
+ *
+ * Each division is compared with the caucus the MP sat in on that date, so votes cast
+ * before crossing the floor count against the old party. partyName is used for dates
+ * without a synced membership. Reads party_positions, so it reflects the last
+ * computePartyPositions() run.
+ */
+export async function getMajorityLoyaltyStats(
+  mpDbId: number,
+  mpId: string,
+  mpName: string,
+  partyName: string,
+  sinceDate: string | null
+): Promise<PartyLoyaltyStats> {
+  const party = normalizeToMajorParty(partyName);
+
+  const sql = convertPlaceholders(`
+    SELECT
+      COUNT(*)::int AS total_votes,
+      COUNT(*) FILTER (WHERE v.vote_type IN ('Yea', 'Nay') AND pp.position = v.vote_type)::int AS votes_with_party,
+      COUNT(*) FILTER (WHERE v.vote_type IN ('Yea', 'Nay') AND pp.position IN ('Yea', 'Nay') AND pp.position <> v.vote_type)::int AS votes_against_party,
+      COUNT(*) FILTER (WHERE v.vote_type NOT IN ('Yea', 'Nay'))::int AS abstained_paired_votes
+    FROM votes v
+    ${MEMBERSHIP_AT_VOTE_JOIN}
+    LEFT JOIN party_positions pp ON pp.vote_id = v.vote_id
+      AND pp.party = CASE WHEN ms.id IS NULL THEN $2 ELSE ms.major_party END
+    WHERE v.mp_id = $1
+      AND ($3::text IS NULL OR v.date >= $3)
+  `);
+  const counts = await queryOne<{
+    total_votes: number;
+    votes_with_party: number;
+    votes_against_party: number;
+    abstained_paired_votes: number;
+  }>(sql, [mpDbId, party, sinceDate]);
+
+  const totalVotes = counts?.total_votes || 0;
+  const votesWithParty = counts?.votes_with_party || 0;
+  const votesAgainstParty = counts?.votes_against_party || 0;
+  const abstainedPairedVotes = counts?.abstained_paired_votes || 0;
+  const freeVotes = totalVotes - votesWithParty - votesAgainstParty - abstainedPairedVotes;
+
+  return {
+    mp_id: mpId,
+    mp_name: mpName,
+    party_name: partyName,
+    total_votes: totalVotes,
+    votes_with_party: votesWithParty,
+    votes_against_party: votesAgainstParty,
+    free_votes: freeVotes,
+    abstained_paired_votes: abstainedPairedVotes,
+    loyalty_percentage: totalVotes > 0 ? (votesWithParty / totalVotes) * 100 : 0,
+    opposition_percentage: totalVotes > 0 ? (votesAgainstParty / totalVotes) * 100 : 0,
+    free_vote_percentage: totalVotes > 0 ? (freeVotes / totalVotes) * 100 : 0,
+  };
+}
+
+/**
+ * Yea/Nay/absent counts and caucus loyalty for each policy category an MP has voted on,
+ * by the primary category of the bill each division was held on. Ballots without a linked
+ * bill_id fall back to the latest bills_motions row for their bill number. Loyalty uses the
+ * MP's caucus on each vote date, as in getMajorityLoyaltyStats.
+ */
+export async function getCategoryVotingProfile(
+  mpDbId: number,
+  partyName: string,
+  sinceDate: string | null
+): Promise<CategoryVotingProfile[]> {
+  const party = normalizeToMajorParty(partyName);
+
+  const rows = await queryAll<Omit<CategoryVotingProfile, 'loyalty_percentage'>>(convertPlaceholders(`
+    SELECT
+      c.name AS category_name,
+      c.slug AS category_slug,
+      COUNT(*)::int AS total_votes,
+      COUNT(*) FILTER (WHERE v.vote_type = 'Yea')::int AS yea_votes,
+      COUNT(*) FILTER (WHERE v.vote_type = 'Nay')::int AS nay_votes,
+      COUNT(*) FILTER (WHERE v.vote_type NOT IN ('Yea', 'Nay'))::int AS absent_votes,
+      COUNT(*) FILTER (WHERE v.vote_type IN ('Yea', 'Nay') AND pp.position = v.vote_type)::int AS votes_with_party,
+      COUNT(*) FILTER (WHERE v.vote_type IN ('Yea', 'Nay') AND pp.position IN ('Yea', 'Nay') AND pp.position <> v.vote_type)::int AS votes_against_party
+    FROM votes v
+    JOIN bills_motions b ON b.id = COALESCE(
+      v.bill_id,
+      (SELECT MAX(id) FROM bills_motions WHERE bill_number = v.bill_number)
+    )
+    JOIN bill_policy_categories c ON c.id = b.policy_category_id
+    ${MEMBERSHIP_AT_VOTE_JOIN}
+    LEFT JOIN party_positions pp ON pp.vote_id = v.vote_id
+      AND pp.party = CASE WHEN ms.id IS NULL THEN $2 ELSE ms.major_party END
+    WHERE v.mp_id = $1
+      AND ($3::text IS NULL OR v.date >= $3)
+    GROUP BY c.name, c.slug
+    ORDER BY total_votes DESC, c.name
+  `), [mpDbId, party, sinceDate]);
+
+  return rows.map((row) => ({
+    ...row,
+    loyalty_percentage: row.total_votes > 0 ? (row.votes_with_party / row.total_votes) * 100 : 0,
+  }));
+}
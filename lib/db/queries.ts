@@ -1,6 +1,7 @@
 import { queryOne, queryAll, queryRun, convertPlaceholders } from './database';
 import type { MP, Vote, VotingRecord, CommitteeMemberRole } from '@/types';
 import { normalizePostalCode } from '@/lib/utils/postal-code';
+import { MEMBERSHIP_AT_VOTE_JOIN } from './memberships';
 
 /**
  * Get postal code from cache (if not expired)
@@ -263,10 +264,14 @@ export async function getMPVotingRecord(mpId: string, mpName: string, dbMPId?: n
           v.sponsor_party
         ) as final_sponsor_party,
         -- Get category from bill if available
-        bc.name as bill_category
+        bc.name as bill_category,
+        -- Party the MP belonged to on the vote date
+        COALESCE(ms.party_name, m.party_name) as party_at_vote
       FROM votes v
+      JOIN mps m ON m.id = v.mp_id
       LEFT JOIN bills_motions b ON v.bill_id = b.id
       LEFT JOIN bill_policy_categories bc ON b.policy_category_id = bc.id
+      ${MEMBERSHIP_AT_VOTE_JOIN}
       WHERE v.mp_id = $1 AND v.date >= $2
       ORDER BY v.date DESC
       LIMIT 5000
@@ -307,10 +312,14 @@ export async function getMPVotingRecord(mpId: string, mpName: string, dbMPId?: n
           v.sponsor_party
         ) as final_sponsor_party,
         -- Get category from bill if available
-        bc.name as bill_category
+        bc.name as bill_category,
+        -- Party the MP belonged to on the vote date
+        COALESCE(ms.party_name, m.party_name) as party_at_vote
       FROM votes v
+      JOIN mps m ON m.id = v.mp_id
       LEFT JOIN bills_motions b ON v.bill_id = b.id
       LEFT JOIN bill_policy_categories bc ON b.policy_category_id = bc.id
+      ${MEMBERSHIP_AT_VOTE_JOIN}
       WHERE v.mp_id = $1
       ORDER BY v.date DESC
       LIMIT 5000
@@ -336,6 +345,7 @@ export async function getMPVotingRecord(mpId: string, mpName: string, dbMPId?: n
       party_position: v.party_position as 'For' | 'Against' | 'Free Vote' | undefined,
       sponsor_party: v.final_sponsor_party || v.sponsor_party as string | undefined,
       category: v.bill_category as string | undefined,
+      party_at_vote: v.party_at_vote as string | undefined,
     })),
   };
 }
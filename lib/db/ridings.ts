@@ -0,0 +1,116 @@
+import { queryAll, queryOne, convertPlaceholders } from './database';
+import { getRidingSlug } from '@/lib/utils/ridings';
+
+export interface Riding {
+  id: number;
+  name: string;
+  slug: string;
+  fed_code: string | null;
+  province: string | null;
+}
+
+export interface RidingMP {
+  id: number;
+  name: string;
+  party_name: string | null;
+  district_name: string;
+  photo_url: string | null;
+}
+
+export interface RidingRepresentative {
+  person_id: string;
+  name: string;
+  party_name: string | null;
+  from_date: string;
+  to_date: string | null;
+}
+
+export interface PostalPrefix {
+  prefix: string; // forward sortation area, e.g. "K1P"
+  postal_codes: number;
+}
+
+export interface NeighbouringRiding extends Riding {
+  current_mp: RidingMP | null;
+}
+
+export interface RidingProfile extends Riding {
+  current_mp: RidingMP | null;
+  representatives: RidingRepresentative[];
+  postal_prefixes: PostalPrefix[];
+  neighbours: NeighbouringRiding[];
+}
+
+/**
+ * Current MPs keyed by riding slug. Names are compared by slug because the
+ * sources disagree on dashes and accents (e.g. "—" vs "-").
+ */
+async function getCurrentMPsBySlug(): Promise<Map<string, RidingMP>> {
+  const mps = await queryAll<RidingMP>(`
+    SELECT id, name, party_name, district_name, photo_url
+    FROM mps
+    WHERE district_name IS NOT NULL AND district_name != ''
+  `);
+  return new Map(mps.map((mp) => [getRidingSlug(mp.district_name), mp]));
+}
+
+/**
+ * Find a riding by slug, FED code or name
+ */
+export async function getRiding(identifier: string): Promise<Riding | null> {
+  const sql = convertPlaceholders(`
+    SELECT id, name, slug, fed_code, province
+    FROM electoral_districts
+    WHERE slug = $1 OR fed_code = $2 OR name = $2
+    LIMIT 1
+  `);
+  return queryOne<Riding>(sql, [getRidingSlug(identifier), identifier]);
+}
+
+/**
+ * Everything shown on a riding page: the sitting MP, everyone who has held the seat,
+ * the postal code prefixes we have mapped to it and the ridings that border it
+ */
+export async function getRidingProfile(riding: Riding): Promise<RidingProfile> {
+  const mpsBySlug = await getCurrentMPsBySlug();
+  const currentMP = mpsBySlug.get(riding.slug) || null;
+
+  const representatives = await queryAll<RidingRepresentative>(convertPlaceholders(`
+    SELECT person_id, name, party_name, from_date::text AS from_date, to_date::text AS to_date
+    FROM electoral_district_representatives
+    WHERE district_id = $1
+    ORDER BY from_date DESC
+  `), [riding.id]);
+
+  // Postal codes are stored against the riding name as spelled by whichever source mapped them
+  const districtNames = Array.from(new Set([riding.name, currentMP?.district_name].filter(Boolean)));
+  const postalPrefixes = await queryAll<PostalPrefix>(convertPlaceholders(`
+    SELECT LEFT(postal_code, 3) AS prefix, COUNT(*)::int AS postal_codes
+    FROM (
+      SELECT postal_code FROM postal_code_mappings WHERE district_name = ANY($1::text[])
+      UNION
+      SELECT postal_code FROM postal_code_cache WHERE district_name = ANY($1::text[])
+    ) codes
+    GROUP BY LEFT(postal_code, 3)
+    ORDER BY prefix
+  `), [districtNames]);
+
+  const neighbours = await queryAll<Riding>(convertPlaceholders(`
+    SELECT d.id, d.name, d.slug, d.fed_code, d.province
+    FROM electoral_district_neighbours n
+    JOIN electoral_districts d ON d.id = n.neighbour_id
+    WHERE n.district_id = $1
+    ORDER BY d.name
+  `), [riding.id]);
+
+  return {
+    ...riding,
+    current_mp: currentMP,
+    representatives,
+    postal_prefixes: postalPrefixes,
+    neighbours: neighbours.map((neighbour) => ({
+      ...neighbour,
+      current_mp: mpsBySlug.get(neighbour.slug) || null,
+    })),
+  };
+}
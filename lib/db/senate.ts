@@ -0,0 +1,90 @@
+import { queryAll, queryOne } from './database';
+import type { Senator, SenateDivision, SenatorVote } from '@/types';
+
+export interface SenatorVoteSummary {
+  total_votes: number;
+  yea_votes: number;
+  nay_votes: number;
+  abstentions: number;
+}
+
+const SENATOR_COLUMNS = `
+  id, senate_id, name, first_name, last_name, affiliation, province,
+  appointed_date::text AS appointed_date, retirement_date::text AS retirement_date,
+  photo_url, url, active
+`;
+
+const DIVISION_COLUMNS = `
+  d.id, d.division_id, d.session, d.date::text AS date, d.description, d.bill_number,
+  d.result, d.yeas, d.nays, d.abstentions, d.url
+`;
+
+// senators.id is a SERIAL, i.e. a 32-bit PostgreSQL integer
+const MAX_SENATOR_ID = 2147483647;
+
+/**
+ * Senators by last name; former senators (only known from old ballots) are left out unless asked for
+ */
+export async function getSenators(includeInactive: boolean = false): Promise<Senator[]> {
+  return queryAll<Senator>(`
+    SELECT ${SENATOR_COLUMNS}
+    FROM senators
+    WHERE active OR $1
+    ORDER BY COALESCE(last_name, name), first_name
+  `, [includeInactive]);
+}
+
+/**
+ * Find a senator by sencanada.ca slug or database id
+ */
+export async function getSenator(identifier: string): Promise<Senator | null> {
+  // Digits beyond the integer id column's range can only be a slug
+  const number = /^\d+$/.test(identifier) ? parseInt(identifier, 10) : NaN;
+  const id = number <= MAX_SENATOR_ID ? number : null;
+  const senator = await queryOne<Senator>(`
+    SELECT ${SENATOR_COLUMNS}
+    FROM senators
+    WHERE senate_id = $1 OR id = $2
+    LIMIT 1
+  `, [identifier.toLowerCase(), id]);
+  return senator || null;
+}
+
+/**
+ * A senator's recorded votes, most recent first
+ */
+export async function getSenatorVotes(senatorId: number, limit: number = 200): Promise<SenatorVote[]> {
+  return queryAll<SenatorVote>(`
+    SELECT ${DIVISION_COLUMNS}, v.vote_type
+    FROM senate_votes v
+    JOIN senate_divisions d ON d.id = v.division_id
+    WHERE v.senator_id = $1
+    ORDER BY d.date DESC NULLS LAST, d.id DESC
+    LIMIT $2
+  `, [senatorId, limit]);
+}
+
+export async function getSenatorVoteSummary(senatorId: number): Promise<SenatorVoteSummary> {
+  const summary = await queryOne<SenatorVoteSummary>(`
+    SELECT
+      COUNT(*)::int AS total_votes,
+      COUNT(*) FILTER (WHERE vote_type = 'Yea')::int AS yea_votes,
+      COUNT(*) FILTER (WHERE vote_type = 'Nay')::int AS nay_votes,
+      COUNT(*) FILTER (WHERE vote_type = 'Abstention')::int AS abstentions
+    FROM senate_votes
+    WHERE senator_id = $1
+  `, [senatorId]);
+  return summary || { total_votes: 0, yea_votes: 0, nay_votes: 0, abstentions: 0 };
+}
+
+/**
+ * Senate divisions on a bill, oldest first. Without a session, every session is included.
+ */
+export async function getSenateDivisionsForBill(billNumber: string, session?: string | null): Promise<SenateDivision[]> {
+  return queryAll<SenateDivision>(`
+    SELECT ${DIVISION_COLUMNS}
+    FROM senate_divisions d
+    WHERE d.bill_number = $1 AND ($2::text IS NULL OR d.session = $2)
+    ORDER BY d.date NULLS LAST, d.id
+  `, [billNumber.toUpperCase(), session || null]);
+}
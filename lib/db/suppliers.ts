@@ -0,0 +1,172 @@
+import { queryAll, queryOne } from './database';
+import { getFiscalYearLabel } from '@/lib/utils/fiscal-quarters';
+import type {
+  SupplierContract,
+  SupplierDetail,
+  SupplierIndex,
+  SupplierMP,
+  SupplierParty,
+  SupplierSort,
+  SupplierSummary,
+} from '@/types';
+
+const SUPPLIER_ORDER: Record<SupplierSort, string> = {
+  total: 's.total DESC',
+  mps: 's.mp_count DESC, s.total DESC',
+  contracts: 's.contracts DESC, s.total DESC',
+  name: 's.name ASC',
+};
+
+export function isSupplierSort(value: string | null | undefined): value is SupplierSort {
+  return typeof value === 'string' && Object.hasOwn(SUPPLIER_ORDER, value);
+}
+
+/**
+ * Suppliers paid from MP office budgets, grouped by supplier_slug, with totals across every
+ * imported quarter. Parties are the MPs' current parties. A search matches any spelling of
+ * the supplier's name.
+ */
+export async function getSupplierIndex(
+  options: { search?: string; sort?: SupplierSort; limit?: number } = {}
+): Promise<SupplierIndex> {
+  // Plain substring match, so % and _ in the search are not wildcards
+  const search = options.search?.trim().toLowerCase() || null;
+  const orderBy = SUPPLIER_ORDER[isSupplierSort(options.sort) ? options.sort : 'total'];
+
+  const [suppliers, stats] = await Promise.all([
+    queryAll<SupplierSummary>(`
+      WITH mp_totals AS (
+        SELECT supplier_slug, mp_id, SUM(total) AS total
+        FROM expense_contracts
+        WHERE supplier_slug IS NOT NULL
+        GROUP BY supplier_slug, mp_id
+      ),
+      suppliers AS (
+        SELECT
+          c.supplier_slug AS slug,
+          MODE() WITHIN GROUP (ORDER BY c.supplier) AS name,
+          COALESCE(SUM(c.total), 0)::float AS total,
+          COUNT(*)::int AS contracts,
+          COUNT(DISTINCT c.mp_id)::int AS mp_count,
+          COALESCE(ARRAY_AGG(DISTINCT m.party_name) FILTER (WHERE m.party_name IS NOT NULL), '{}') AS parties,
+          BOOL_OR(POSITION($1::text IN LOWER(c.supplier)) > 0) AS matches_search
+        FROM expense_contracts c
+        JOIN mps m ON m.id = c.mp_id
+        WHERE c.supplier_slug IS NOT NULL
+        GROUP BY c.supplier_slug
+      )
+      SELECT
+        s.slug, s.name, s.total, s.contracts, s.mp_count, s.parties,
+        COALESCE(t.top_total / NULLIF(s.total, 0), 0)::float AS top_mp_share
+      FROM suppliers s
+      JOIN (
+        SELECT supplier_slug, MAX(total) AS top_total FROM mp_totals GROUP BY supplier_slug
+      ) t ON t.supplier_slug = s.slug
+      WHERE $1::text IS NULL OR s.matches_search
+      ORDER BY ${orderBy}
+      LIMIT $2
+    `, [search, options.limit || 500]),
+    queryOne<{ supplier_count: number; total: number; top_ten_total: number }>(`
+      SELECT
+        COUNT(*)::int AS supplier_count,
+        COALESCE(SUM(total), 0)::float AS total,
+        COALESCE(SUM(total) FILTER (WHERE rank <= 10), 0)::float AS top_ten_total
+      FROM (
+        SELECT SUM(total) AS total, ROW_NUMBER() OVER (ORDER BY SUM(total) DESC) AS rank
+        FROM expense_contracts
+        WHERE supplier_slug IS NOT NULL
+        GROUP BY supplier_slug
+      ) s
+    `),
+  ]);
+
+  return {
+    suppliers,
+    supplier_count: stats?.supplier_count || 0,
+    total: stats?.total || 0,
+    top_ten_share: stats?.total ? stats.top_ten_total / stats.total : 0,
+  };
+}
+
+/**
+ * A supplier's MP clients (largest first), spending by party and most recent contracts;
+ * null if no contract has this slug
+ */
+export async function getSupplier(slug: string, contractLimit: number = 100): Promise<SupplierDetail | null> {
+  const [names, mps, contracts] = await Promise.all([
+    queryOne<{ name: string | null; names: string[] | null }>(`
+      SELECT
+        MODE() WITHIN GROUP (ORDER BY supplier) AS name,
+        ARRAY_AGG(DISTINCT supplier) AS names
+      FROM expense_contracts
+      WHERE supplier_slug = $1
+    `, [slug]),
+    queryAll<SupplierMP>(`
+      SELECT
+        m.id AS mp_id,
+        m.name,
+        m.district_name,
+        m.party_name,
+        COALESCE(SUM(c.total), 0)::float AS total,
+        COUNT(*)::int AS contracts
+      FROM expense_contracts c
+      JOIN mps m ON m.id = c.mp_id
+      WHERE c.supplier_slug = $1
+      GROUP BY m.id, m.name, m.district_name, m.party_name
+      ORDER BY total DESC
+    `, [slug]),
+    queryAll<Omit<SupplierContract, 'fiscal_year'> & { year: number; quarter_number: number }>(`
+      SELECT
+        c.id,
+        m.name AS mp_name,
+        m.district_name,
+        m.party_name,
+        c.quarter,
+        c.year,
+        c.quarter_number,
+        c.contract_date,
+        c.description,
+        COALESCE(c.total, 0)::float AS total
+      FROM expense_contracts c
+      JOIN mps m ON m.id = c.mp_id
+      WHERE c.supplier_slug = $1
+      ORDER BY
+        (CASE WHEN c.quarter_number = 4 THEN c.year - 1 ELSE c.year END) DESC,
+        c.quarter_number DESC,
+        c.contract_date DESC NULLS LAST
+      LIMIT $2
+    `, [slug, contractLimit]),
+  ]);
+
+  if (!names?.name || mps.length === 0) {
+    return null;
+  }
+
+  const total = mps.reduce((sum, mp) => sum + mp.total, 0);
+
+  const parties = new Map<string, SupplierParty>();
+  for (const mp of mps) {
+    const party = mp.party_name || 'Independent';
+    const entry = parties.get(party) || { party, total: 0, mp_count: 0 };
+    entry.total += mp.total;
+    entry.mp_count++;
+    parties.set(party, entry);
+  }
+
+  return {
+    slug,
+    name: names.name,
+    names: names.names || [],
+    total,
+    contracts: mps.reduce((sum, mp) => sum + mp.contracts, 0),
+    mp_count: mps.length,
+    parties: Array.from(parties.keys()),
+    top_mp_share: total > 0 ? mps[0].total / total : 0,
+    mps,
+    party_totals: Array.from(parties.values()).sort((a, b) => b.total - a.total),
+    recent_contracts: contracts.map(({ year, quarter_number, ...contract }) => ({
+      ...contract,
+      fiscal_year: getFiscalYearLabel(year, quarter_number),
+    })),
+  };
+}
@@ -0,0 +1,161 @@
+import { queryOne, queryAll, convertPlaceholders } from './database';
+
+export type SyncRunStatus = 'running' | 'succeeded' | 'failed';
+export type SyncStepStatus = 'running' | 'succeeded' | 'failed' | 'skipped';
+
+export interface SyncRunStep {
+  id: number;
+  run_id: number;
+  step: string;
+  status: SyncStepStatus;
+  started_at: string;
+  finished_at: string | null;
+  rows_inserted: number;
+  rows_updated: number;
+  error: string | null;
+}
+
+export interface SyncRun {
+  id: number;
+  status: SyncRunStatus;
+  steps: string[];
+  resumed_from_run_id: number | null;
+  started_at: string;
+  finished_at: string | null;
+  error: string | null;
+  step_results: SyncRunStep[];
+}
+
+export interface SyncStepResult {
+  inserted?: number;
+  updated?: number;
+}
+
+interface SyncRunRow {
+  id: number;
+  status: SyncRunStatus;
+  steps: string;
+  resumed_from_run_id: number | null;
+  started_at: string;
+  finished_at: string | null;
+  error: string | null;
+}
+
+async function loadRun(row: SyncRunRow | null): Promise<SyncRun | null> {
+  if (!row) {
+    return null;
+  }
+
+  const stepsSql = convertPlaceholders(`
+    SELECT id, run_id, step, status, started_at, finished_at, rows_inserted, rows_updated, error
+    FROM sync_run_steps
+    WHERE run_id = $1
+    ORDER BY id
+  `);
+  const stepResults = await queryAll<SyncRunStep>(stepsSql, [row.id]);
+
+  return {
+    ...row,
+    steps: row.steps.split(',').filter(Boolean),
+    step_results: stepResults,
+  };
+}
+
+/**
+ * Start a new run in the ledger and return its id
+ */
+export async function createSyncRun(steps: string[], resumedFromRunId: number | null = null): Promise<number> {
+  const sql = convertPlaceholders(`
+    INSERT INTO sync_runs (status, steps, resumed_from_run_id)
+    VALUES ('running', $1, $2)
+    RETURNING id
+  `);
+  const row = await queryOne<{ id: number }>(sql, [steps.join(','), resumedFromRunId]);
+  return row!.id;
+}
+
+export async function finishSyncRun(runId: number, status: Exclude<SyncRunStatus, 'running'>, error: string | null = null): Promise<void> {
+  const sql = convertPlaceholders(`
+    UPDATE sync_runs
+    SET status = $1, error = $2, finished_at = CURRENT_TIMESTAMP
+    WHERE id = $3
+  `);
+  await queryOne(sql, [status, error, runId]);
+}
+
+export async function startSyncStep(runId: number, step: string): Promise<number> {
+  const sql = convertPlaceholders(`
+    INSERT INTO sync_run_steps (run_id, step, status)
+    VALUES ($1, $2, 'running')
+    RETURNING id
+  `);
+  const row = await queryOne<{ id: number }>(sql, [runId, step]);
+  return row!.id;
+}
+
+/**
+ * Record a step that was not executed in this run (already completed by the run being resumed)
+ */
+export async function skipSyncStep(runId: number, step: string): Promise<void> {
+  const sql = convertPlaceholders(`
+    INSERT INTO sync_run_steps (run_id, step, status, finished_at)
+    VALUES ($1, $2, 'skipped', CURRENT_TIMESTAMP)
+  `);
+  await queryOne(sql, [runId, step]);
+}
+
+export async function finishSyncStep(stepId: number, result: SyncStepResult | void): Promise<void> {
+  const sql = convertPlaceholders(`
+    UPDATE sync_run_steps
+    SET status = 'succeeded', rows_inserted = $1, rows_updated = $2, finished_at = CURRENT_TIMESTAMP
+    WHERE id = $3
+  `);
+  await queryOne(sql, [result?.inserted ?? 0, result?.updated ?? 0, stepId]);
+}
+
+export async function failSyncStep(stepId: number, error: string): Promise<void> {
+  const sql = convertPlaceholders(`
+    UPDATE sync_run_steps
+    SET status = 'failed', error = $1, finished_at = CURRENT_TIMESTAMP
+    WHERE id = $2
+  `);
+  await queryOne(sql, [error, stepId]);
+}
+
+/**
+ * Most recent run, whatever its outcome
+ */
+export async function getLastSyncRun(): Promise<SyncRun | null> {
+  const row = await queryOne<SyncRunRow>(`
+    SELECT id, status, steps, resumed_from_run_id, started_at, finished_at, error
+    FROM sync_runs
+    ORDER BY started_at DESC, id DESC
+    LIMIT 1
+  `);
+  return loadRun(row);
+}
+
+/**
+ * Most recent run that completed every step
+ */
+export async function getLastSuccessfulSyncRun(): Promise<SyncRun | null> {
+  const row = await queryOne<SyncRunRow>(`
+    SELECT id, status, steps, resumed_from_run_id, started_at, finished_at, error
+    FROM sync_runs
+    WHERE status = 'succeeded'
+    ORDER BY finished_at DESC, id DESC
+    LIMIT 1
+  `);
+  return loadRun(row);
+}
+
+/**
+ * The run to resume from: the latest run if it failed or never finished (e.g. the process was killed)
+ */
+export async function getResumableSyncRun(): Promise<SyncRun | null> {
+  const lastRun = await getLastSyncRun();
+  if (!lastRun || lastRun.status === 'succeeded') {
+    return null;
+  }
+  return lastRun;
+}
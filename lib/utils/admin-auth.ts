@@ -0,0 +1,29 @@
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+
+/**
+ * Admin API routes are disabled unless ADMIN_API_TOKEN is set. Requests authenticate with
+ * `Authorization: Bearer <token>`; the editor's name is supplied separately for the audit trail.
+ */
+export function requireAdmin(request: NextRequest): NextResponse | null {
+  const token = process.env.ADMIN_API_TOKEN;
+  if (!token) {
+    return NextResponse.json(
+      { error: 'Admin API is not configured' },
+      { status: 503 }
+    );
+  }
+
+  const header = request.headers.get('authorization') || '';
+  const provided = Buffer.from(header.replace(/^Bearer\s+/i, ''));
+  const expected = Buffer.from(token);
+
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  return null;
+}
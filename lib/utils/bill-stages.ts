@@ -0,0 +1,44 @@
+/**
+ * Legislative stages a bill passes through, in order within each chamber
+ *
+ * Shared by the LEGISinfo stage parser and the bill timeline so both agree on keys and labels.
+ */
+
+export type BillChamber = 'House' | 'Senate' | 'Royal Assent';
+
+export type BillStageKey =
+  | 'first-reading'
+  | 'second-reading'
+  | 'committee'
+  | 'report'
+  | 'third-reading'
+  | 'royal-assent';
+
+export const CHAMBER_STAGES: { stage: BillStageKey; name: string }[] = [
+  { stage: 'first-reading', name: 'First reading' },
+  { stage: 'second-reading', name: 'Second reading' },
+  { stage: 'committee', name: 'Committee' },
+  { stage: 'report', name: 'Report stage' },
+  { stage: 'third-reading', name: 'Third reading' },
+];
+
+export const ROYAL_ASSENT_STAGE = { stage: 'royal-assent' as BillStageKey, name: 'Royal assent' };
+
+/**
+ * Chambers in the order a bill visits them - Senate bills (S-) start in the Senate
+ */
+export function getChamberOrder(billNumber: string): ('House' | 'Senate')[] {
+  return billNumber.trim().toUpperCase().startsWith('S-') ? ['Senate', 'House'] : ['House', 'Senate'];
+}
+
+/**
+ * Position of a stage on the bill's timeline, used as bill_stages.sort_order
+ */
+export function getStageSortOrder(billNumber: string, chamber: BillChamber, stage: BillStageKey): number {
+  if (chamber === 'Royal Assent') {
+    return 100;
+  }
+  const chamberIndex = getChamberOrder(billNumber).indexOf(chamber);
+  const stageIndex = CHAMBER_STAGES.findIndex((s) => s.stage === stage);
+  return chamberIndex * 10 + Math.max(stageIndex, 0);
+}
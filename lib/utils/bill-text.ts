@@ -0,0 +1,223 @@
+/**
+ * Bill text parsing and clause-level comparison between versions
+ *
+ * Bill documents (parl.ca XML or HTML) are flattened to plain text and split into numbered
+ * clauses; two versions are then compared clause by clause, with a word diff for clauses
+ * that were amended.
+ */
+
+export interface BillClause {
+  label: string; // Clause number, e.g. "12" or "12.1" (added in committee); "Preamble" for text before clause 1
+  text: string;
+}
+
+// One stored version of a bill's text, as listed by /api/bill/[id]/texts
+export interface BillTextVersion {
+  version_number: number; // Display order, oldest first; renumbered when a version is added
+  version_name: string;
+  source_url: string;
+  published_at: string | null;
+  clause_count: number;
+}
+
+export type ClauseChangeStatus = 'unchanged' | 'changed' | 'added' | 'deleted';
+
+export interface WordChange {
+  type: 'same' | 'added' | 'deleted';
+  text: string;
+}
+
+export interface ClauseChange {
+  status: ClauseChangeStatus;
+  from_label: string | null;
+  to_label: string | null;
+  from_text?: string;
+  to_text?: string;
+  words?: WordChange[]; // Only for changed clauses short enough to word-diff
+}
+
+export interface BillTextDiff {
+  summary: Record<ClauseChangeStatus, number>;
+  changes: ClauseChange[];
+}
+
+// Word diffs are quadratic; longer clause pairs are shown as a whole replacement
+const MAX_WORD_DIFF_CELLS = 250_000;
+
+const BLOCK_TAGS = /<\/?(p|div|section|subsection|paragraph|subparagraph|clause|heading|title|br|li|tr|h[1-6]|marginalnote|label)\b[^>]*>/gi;
+
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+  '&apos;': "'",
+  '&nbsp;': ' ',
+};
+
+/**
+ * Plain text of an XML or HTML bill document, one block per line
+ */
+export function billDocumentToText(document: string): string {
+  return document
+    .replace(/<(script|style|head)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(BLOCK_TAGS, '\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&(amp|lt|gt|quot|#39|apos|nbsp);/g, (entity) => ENTITIES[entity])
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter((line) => line.length > 0)
+    .join('\n');
+}
+
+/**
+ * Split bill text into numbered clauses
+ *
+ * A line starting with a number opens a new clause only if it follows the current one
+ * (N+1, or N.1 for clauses added in committee), so section numbers quoted from the Act
+ * being amended stay inside the amending clause.
+ */
+export function extractBillClauses(text: string): BillClause[] {
+  const clauses: BillClause[] = [];
+  let current: BillClause = { label: 'Preamble', text: '' };
+  // Compared as whole numbers, so 12.10 follows 12.9
+  let currentNumber = { clause: 0, inserted: 0 };
+
+  for (const line of text.split('\n')) {
+    const match = line.match(/^(\d+)(?:\.(\d+))?\s+\S/);
+    const number = match ? { clause: parseInt(match[1], 10), inserted: parseInt(match[2] || '0', 10) } : null;
+    const follows = number !== null
+      && (number.clause > currentNumber.clause || (number.clause === currentNumber.clause && number.inserted > currentNumber.inserted))
+      && number.clause <= currentNumber.clause + 1;
+
+    if (follows) {
+      if (current.text) clauses.push(current);
+      const label = match![2] ? `${match![1]}.${match![2]}` : match![1];
+      current = { label, text: line.slice(label.length).trim() };
+      currentNumber = number;
+    } else {
+      current.text = current.text ? `${current.text}\n${line}` : line;
+    }
+  }
+  if (current.text) clauses.push(current);
+
+  return clauses;
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+// Longest common subsequence over two sequences, as matched index pairs
+function lcsPairs<T>(a: T[], b: T[], equal: (x: T, y: T) => boolean): [number, number][] {
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = equal(a[i], b[j]) ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (equal(a[i], b[j])) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+function diffWords(from: string, to: string): WordChange[] | undefined {
+  const a = from.split(/\s+/).filter(Boolean);
+  const b = to.split(/\s+/).filter(Boolean);
+  if (a.length * b.length > MAX_WORD_DIFF_CELLS) {
+    return undefined;
+  }
+
+  const changes: WordChange[] = [];
+  const push = (type: WordChange['type'], word: string) => {
+    const last = changes[changes.length - 1];
+    if (last?.type === type) last.text += ` ${word}`;
+    else changes.push({ type, text: word });
+  };
+
+  let i = 0;
+  let j = 0;
+  for (const [matchA, matchB] of lcsPairs(a, b, (x, y) => x === y)) {
+    while (i < matchA) push('deleted', a[i++]);
+    while (j < matchB) push('added', b[j++]);
+    push('same', a[i]);
+    i++;
+    j++;
+  }
+  while (i < a.length) push('deleted', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  return changes;
+}
+
+/**
+ * Compare two versions of a bill clause by clause
+ *
+ * Identical clauses are matched even when renumbered. Within each run of unmatched clauses,
+ * a deleted and an added clause with the same number are treated as one amended clause.
+ */
+export function diffBillClauses(from: BillClause[], to: BillClause[]): BillTextDiff {
+  const changes: ClauseChange[] = [];
+
+  const flushGap = (deleted: BillClause[], added: BillClause[]) => {
+    const addedByLabel = new Map(added.map((clause) => [clause.label, clause]));
+    const paired = new Set<BillClause>();
+
+    for (const clause of deleted) {
+      const amended = addedByLabel.get(clause.label);
+      if (amended) {
+        paired.add(amended);
+        changes.push({
+          status: 'changed',
+          from_label: clause.label,
+          to_label: amended.label,
+          from_text: clause.text,
+          to_text: amended.text,
+          words: diffWords(clause.text, amended.text),
+        });
+      } else {
+        changes.push({ status: 'deleted', from_label: clause.label, to_label: null, from_text: clause.text });
+      }
+    }
+    for (const clause of added) {
+      if (!paired.has(clause)) {
+        changes.push({ status: 'added', from_label: null, to_label: clause.label, to_text: clause.text });
+      }
+    }
+  };
+
+  const fromKeys = from.map((clause) => normalize(clause.text));
+  const toKeys = to.map((clause) => normalize(clause.text));
+
+  let i = 0;
+  let j = 0;
+  for (const [matchFrom, matchTo] of lcsPairs(fromKeys, toKeys, (x, y) => x === y)) {
+    flushGap(from.slice(i, matchFrom), to.slice(j, matchTo));
+    changes.push({ status: 'unchanged', from_label: from[matchFrom].label, to_label: to[matchTo].label });
+    i = matchFrom + 1;
+    j = matchTo + 1;
+  }
+  flushGap(from.slice(i), to.slice(j));
+
+  const summary: Record<ClauseChangeStatus, number> = { unchanged: 0, changed: 0, added: 0, deleted: 0 };
+  for (const change of changes) {
+    summary[change.status]++;
+  }
+
+  return { summary, changes };
+}
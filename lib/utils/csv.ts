@@ -0,0 +1,89 @@
+/**
+ * CSV parsing for imported data files
+ *
+ * Handles quoted fields containing commas, line breaks and doubled quotes (""), CRLF line
+ * endings and a leading byte order mark, as found in the House of Commons exports.
+ */
+
+/**
+ * Parse CSV text into rows of fields. Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Index of the first column whose header matches one of the names, ignoring case,
+ * spacing and punctuation; -1 if there is none
+ */
+export function findColumn(header: string[], names: string[]): number {
+  const normalized = header.map(normalizeHeader);
+  for (const name of names) {
+    const index = normalized.indexOf(normalizeHeader(name));
+    if (index !== -1) return index;
+  }
+  return -1;
+}
+
+/**
+ * Parse a money amount such as "1,234.56", "$1,234.56" or "(12.00)" (negative); 0 if empty
+ */
+export function parseAmount(value: string | undefined): number {
+  if (!value) return 0;
+  const trimmed = value.trim();
+  const negative = /^\(.*\)$/.test(trimmed) || trimmed.startsWith('-');
+  const amount = parseFloat(trimmed.replace(/[^0-9.]/g, ''));
+  if (isNaN(amount)) return 0;
+  return negative ? -amount : amount;
+}
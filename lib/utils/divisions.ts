@@ -0,0 +1,20 @@
+/**
+ * Division (recorded vote) identifiers
+ *
+ * Ballots are stored under the OpenParliament vote URL, e.g. "/votes/45-1/59/"
+ * (parliament 45, session 1, division 59); division pages live at /vote/45/1/59.
+ */
+
+const VOTE_ID_PATTERN = /^\/votes\/(\d+)-(\d+)\/(\d+)\/?$/;
+
+export function getDivisionVoteId(parliament: number, session: number, divisionNumber: number): string {
+  return `/votes/${parliament}-${session}/${divisionNumber}/`;
+}
+
+/**
+ * Division page path for a stored vote_id, or null if the id is not a division URL
+ */
+export function getDivisionPath(voteId: string): string | null {
+  const match = voteId.match(VOTE_ID_PATTERN);
+  return match ? `/vote/${match[1]}/${match[2]}/${match[3]}` : null;
+}
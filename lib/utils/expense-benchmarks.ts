@@ -0,0 +1,49 @@
+/**
+ * Expense benchmarking helpers
+ *
+ * An MP's percentile in a peer group is the share of peers who spent less, counting
+ * ties as half, so the middle of the group sits at the 50th percentile.
+ */
+
+import type { RidingSizeClass } from '@/types';
+import { formatOrdinal } from './format';
+
+// Ridings are split into quartiles by land area, smallest first
+const RIDING_SIZE_CLASSES: RidingSizeClass[] = ['compact', 'mid-size', 'large', 'very-large'];
+
+export const RIDING_SIZE_LABELS: Record<RidingSizeClass, string> = {
+  'compact': 'compact (urban) ridings',
+  'mid-size': 'mid-size ridings',
+  'large': 'large ridings',
+  'very-large': 'very large (rural and remote) ridings',
+};
+
+/**
+ * Percentile (0-100) of value among peer values, which should include the value itself
+ */
+export function percentileRank(value: number, peers: number[]): number {
+  if (peers.length === 0) return 0;
+  let below = 0;
+  let equal = 0;
+  for (const peer of peers) {
+    if (peer < value) below++;
+    else if (peer === value) equal++;
+  }
+  return ((below + equal / 2) / peers.length) * 100;
+}
+
+/**
+ * Size class of a riding given the areas of every riding, sorted ascending
+ */
+export function getRidingSizeClass(areaKm2: number, sortedAreas: number[]): RidingSizeClass {
+  const rank = sortedAreas.filter((area) => area < areaKm2).length;
+  const quartile = Math.min(3, Math.floor((rank / Math.max(sortedAreas.length, 1)) * 4));
+  return RIDING_SIZE_CLASSES[quartile];
+}
+
+/**
+ * "92nd" style ordinal for a percentile
+ */
+export function formatPercentile(percentile: number): string {
+  return formatOrdinal(Math.round(percentile));
+}
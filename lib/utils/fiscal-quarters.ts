@@ -0,0 +1,43 @@
+/**
+ * Federal fiscal quarters
+ *
+ * The fiscal year runs from April 1 to March 31. Expense quarters are stored with the
+ * calendar year they fall in: Q1 = Apr-Jun, Q2 = Jul-Sep, Q3 = Oct-Dec of that year, and
+ * Q4 = Jan-Mar, which closes the fiscal year that started the previous April.
+ */
+
+const QUARTER_MONTHS: Record<number, string> = {
+  1: 'Apr–Jun',
+  2: 'Jul–Sep',
+  3: 'Oct–Dec',
+  4: 'Jan–Mar',
+};
+
+/**
+ * Calendar year in which the quarter's fiscal year starts
+ */
+export function getFiscalYearStart(year: number, quarterNumber: number): number {
+  return quarterNumber === 4 ? year - 1 : year;
+}
+
+/**
+ * Fiscal year label, e.g. "2024-2025"
+ */
+export function getFiscalYearLabel(year: number, quarterNumber: number): string {
+  const start = getFiscalYearStart(year, quarterNumber);
+  return `${start}-${start + 1}`;
+}
+
+/**
+ * Months covered by a quarter, e.g. "Jan–Mar 2025"
+ */
+export function getQuarterPeriod(year: number, quarterNumber: number): string {
+  return `${QUARTER_MONTHS[quarterNumber] || `Q${quarterNumber}`} ${year}`;
+}
+
+/**
+ * Chronological sort key, since Q4 of a calendar year comes before its Q1
+ */
+export function getFiscalQuarterKey(year: number, quarterNumber: number): number {
+  return getFiscalYearStart(year, quarterNumber) * 10 + quarterNumber;
+}
@@ -0,0 +1,11 @@
+/**
+ * Shared display formatting
+ */
+
+/**
+ * English ordinal for a whole number, e.g. 1 -> "1st", 12 -> "12th", 92 -> "92nd"
+ */
+export function formatOrdinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] || 'th';
+  return `${n}${suffix}`;
+}
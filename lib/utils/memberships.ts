@@ -0,0 +1,158 @@
+/**
+ * House membership periods
+ *
+ * ourcommons.ca profiles list seat terms (riding, per parliament) and caucus terms
+ * separately; a membership is the overlap of one seat term with one caucus term.
+ * Dates are "YYYY-MM-DD" strings, and a null end date means the term is ongoing.
+ *
+ * Changes between MP syncs are detected separately and logged to membership_events.
+ */
+
+import type { Membership, MembershipEventType } from '@/types';
+
+export interface SeatTerm {
+  districtName: string;
+  province: string | null;
+  partyName: string | null;
+  parliamentNumber: number | null;
+  fromDate: string;
+  toDate: string | null;
+}
+
+export interface CaucusTerm {
+  partyName: string;
+  fromDate: string;
+  toDate: string | null;
+}
+
+export interface MembershipPeriod {
+  districtName: string;
+  province: string | null;
+  partyName: string | null;
+  parliamentNumber: number | null;
+  startDate: string;
+  endDate: string | null;
+}
+
+function overlaps(a: { fromDate: string; toDate: string | null }, b: { fromDate: string; toDate: string | null }): boolean {
+  return (a.toDate === null || a.toDate >= b.fromDate) && (b.toDate === null || b.toDate >= a.fromDate);
+}
+
+/**
+ * Split each seat term at caucus changes. Seat terms without any caucus data keep the
+ * party listed on the seat term itself.
+ */
+export function buildMembershipPeriods(seats: SeatTerm[], caucuses: CaucusTerm[]): MembershipPeriod[] {
+  const sortedCaucuses = [...caucuses].sort((a, b) => a.fromDate.localeCompare(b.fromDate));
+  const periods: MembershipPeriod[] = [];
+
+  for (const seat of [...seats].sort((a, b) => a.fromDate.localeCompare(b.fromDate))) {
+    const seatCaucuses = sortedCaucuses.filter((caucus) => overlaps(seat, caucus));
+
+    if (seatCaucuses.length === 0) {
+      periods.push({
+        districtName: seat.districtName,
+        province: seat.province,
+        partyName: seat.partyName,
+        parliamentNumber: seat.parliamentNumber,
+        startDate: seat.fromDate,
+        endDate: seat.toDate,
+      });
+      continue;
+    }
+
+    for (const caucus of seatCaucuses) {
+      const startDate = caucus.fromDate > seat.fromDate ? caucus.fromDate : seat.fromDate;
+      let endDate = seat.toDate;
+      if (caucus.toDate !== null && (endDate === null || caucus.toDate < endDate)) {
+        endDate = caucus.toDate;
+      }
+
+      // Two caucus terms starting on the same day would collide; the later one wins
+      const previous = periods[periods.length - 1];
+      if (previous && previous.startDate === startDate) {
+        periods.pop();
+      }
+
+      periods.push({
+        districtName: seat.districtName,
+        province: seat.province,
+        partyName: caucus.partyName,
+        parliamentNumber: seat.parliamentNumber,
+        startDate,
+        endDate,
+      });
+    }
+  }
+
+  return periods;
+}
+
+export interface MembershipSpan {
+  party_name: string | null;
+  district_name: string;
+  start_date: string;
+  end_date: string | null;
+  parliaments: number[];
+}
+
+/**
+ * Merge consecutive memberships with the same party and riding (re-elections) into one span
+ */
+export function mergeMembershipSpans(memberships: Membership[]): MembershipSpan[] {
+  const spans: MembershipSpan[] = [];
+
+  for (const membership of [...memberships].sort((a, b) => a.start_date.localeCompare(b.start_date))) {
+    const last = spans[spans.length - 1];
+    if (last && last.party_name === membership.party_name && last.district_name === membership.district_name) {
+      last.end_date = membership.end_date;
+    } else {
+      spans.push({
+        party_name: membership.party_name,
+        district_name: membership.district_name,
+        start_date: membership.start_date,
+        end_date: membership.end_date,
+        parliaments: [],
+      });
+    }
+
+    const current = spans[spans.length - 1];
+    if (membership.parliament_number !== null && !current.parliaments.includes(membership.parliament_number)) {
+      current.parliaments.push(membership.parliament_number);
+    }
+  }
+
+  return spans;
+}
+
+export interface MembershipChange {
+  event_type: MembershipEventType;
+  old_value: string | null;
+  new_value: string | null;
+}
+
+function differs(previous: string | null | undefined, current: string | null | undefined): boolean {
+  const before = previous?.trim();
+  const after = current?.trim();
+  // A missing value on either side is a gap in the feed, not a change
+  return !!before && !!after && before !== after;
+}
+
+/**
+ * Party and riding changes between the stored mps row and the latest member feed entry
+ */
+export function detectMembershipChanges(
+  previous: { party_name: string | null; district_name: string | null },
+  current: { party_name: string | null | undefined; district_name: string | null | undefined }
+): MembershipChange[] {
+  const changes: MembershipChange[] = [];
+
+  if (differs(previous.party_name, current.party_name)) {
+    changes.push({ event_type: 'party-change', old_value: previous.party_name, new_value: current.party_name ?? null });
+  }
+  if (differs(previous.district_name, current.district_name)) {
+    changes.push({ event_type: 'riding-change', old_value: previous.district_name, new_value: current.district_name ?? null });
+  }
+
+  return changes;
+}
@@ -0,0 +1,122 @@
+/**
+ * Matching names from imported files (e.g. "Aboultaif, Ziad" with a constituency) to rows
+ * in the mps table
+ *
+ * Names are compared without honorifics, accents, punctuation or case. A name shared by
+ * several MPs is settled by the constituency; a row that still fits more than one MP is
+ * reported as ambiguous instead of guessed.
+ */
+
+import { getRidingSlug } from './ridings';
+
+export interface MatchableMP {
+  id: number;
+  name: string;
+  first_name: string | null;
+  last_name: string | null;
+  district_name: string;
+}
+
+export type MPMatch<T extends MatchableMP> =
+  | { status: 'matched'; mp: T }
+  | { status: 'ambiguous'; candidates: T[] }
+  | { status: 'unmatched'; reason: string };
+
+export interface MPNameIndex<T extends MatchableMP> {
+  byName: Map<string, T[]>;
+  byLastName: Map<string, T[]>;
+}
+
+const HONORIFICS = /^(the\s+)?(right\s+honourable|honourable|right\s+hon\.?|rt\.?\s+hon\.?|hon\.?|dr\.?)\s+/i;
+
+/**
+ * Lowercase, accent- and punctuation-free form of a name
+ */
+export function normalizePersonName(name: string): string {
+  return name
+    .trim()
+    .replace(HONORIFICS, '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * First and last name from "Lastname, Firstname" (the expenditure files) or "Firstname Lastname".
+ * Honorifics are dropped wherever they sit, e.g. "Lastname, Hon. Firstname".
+ */
+export function splitPersonName(name: string): { firstName: string; lastName: string } {
+  const clean = name.trim().replace(HONORIFICS, '');
+  const comma = clean.indexOf(',');
+  if (comma !== -1) {
+    return {
+      firstName: clean.slice(comma + 1).trim().replace(HONORIFICS, ''),
+      lastName: clean.slice(0, comma).trim(),
+    };
+  }
+  const parts = clean.split(/\s+/);
+  return { firstName: parts[0] || '', lastName: parts.slice(1).join(' ') };
+}
+
+function addToIndex<T>(map: Map<string, T[]>, key: string, value: T) {
+  if (!key) return;
+  const list = map.get(key) || [];
+  if (!list.includes(value)) list.push(value);
+  map.set(key, list);
+}
+
+export function buildMPNameIndex<T extends MatchableMP>(mps: T[]): MPNameIndex<T> {
+  const byName = new Map<string, T[]>();
+  const byLastName = new Map<string, T[]>();
+
+  for (const mp of mps) {
+    addToIndex(byName, normalizePersonName(mp.name), mp);
+    const { firstName, lastName } = mp.first_name && mp.last_name
+      ? { firstName: mp.first_name, lastName: mp.last_name }
+      : splitPersonName(mp.name);
+    addToIndex(byName, normalizePersonName(`${firstName} ${lastName}`), mp);
+    addToIndex(byLastName, normalizePersonName(lastName), mp);
+  }
+
+  return { byName, byLastName };
+}
+
+/**
+ * Match a name and constituency from an imported row against the index
+ */
+export function matchMP<T extends MatchableMP>(index: MPNameIndex<T>, name: string, constituency: string): MPMatch<T> {
+  if (!name.trim()) {
+    return { status: 'unmatched', reason: 'no name' };
+  }
+  if (/^vacant\b/i.test(name.trim())) {
+    return { status: 'unmatched', reason: 'vacant seat' };
+  }
+
+  const { firstName, lastName } = splitPersonName(name);
+  let candidates = index.byName.get(normalizePersonName(`${firstName} ${lastName}`)) || [];
+
+  // Same last name and a first name that is a shortened form of the other (e.g. "Rob" / "Robert")
+  if (candidates.length === 0) {
+    const first = normalizePersonName(firstName).split(' ')[0] || '';
+    candidates = (index.byLastName.get(normalizePersonName(lastName)) || []).filter((mp) => {
+      const mpFirst = normalizePersonName(mp.first_name || splitPersonName(mp.name).firstName).split(' ')[0] || '';
+      return first !== '' && mpFirst !== '' && (mpFirst.startsWith(first) || first.startsWith(mpFirst));
+    });
+  }
+
+  if (candidates.length === 0) {
+    return { status: 'unmatched', reason: 'no MP with this name' };
+  }
+  if (candidates.length === 1) {
+    return { status: 'matched', mp: candidates[0] };
+  }
+
+  const riding = getRidingSlug(constituency);
+  const inRiding = riding ? candidates.filter((mp) => getRidingSlug(mp.district_name) === riding) : [];
+  if (inRiding.length === 1) {
+    return { status: 'matched', mp: inRiding[0] };
+  }
+  return { status: 'ambiguous', candidates };
+}
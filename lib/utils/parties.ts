@@ -0,0 +1,61 @@
+/**
+ * Party name helpers shared by the loyalty and party-position calculations
+ */
+
+export const MAJOR_PARTIES = ['Liberal', 'Conservative', 'Bloc Québécois', 'NDP', 'Green Party'] as const;
+
+export type MajorParty = typeof MAJOR_PARTIES[number];
+
+// URL slugs for party routes (/api/parties/[party])
+const PARTY_SLUGS: Record<MajorParty, string> = {
+  'Liberal': 'liberal',
+  'Conservative': 'conservative',
+  'Bloc Québécois': 'bloc-quebecois',
+  'NDP': 'ndp',
+  'Green Party': 'green',
+};
+
+/**
+ * Normalize party name to one of the 5 major parties for filtering
+ */
+export function normalizeToMajorParty(partyName: string | null | undefined): MajorParty | null {
+  if (!partyName) return null;
+  const lower = partyName.toLowerCase().trim();
+  
+  // Liberal variations
+  if (lower.includes('liberal') || lower === 'lib' || lower === 'lpc') return 'Liberal';
+  
+  // Conservative variations
+  if (lower.includes('conservative') || lower === 'cpc' || lower === 'con' || lower === 'pc') return 'Conservative';
+  
+  // Bloc Québécois variations
+  if (lower.includes('bloc') || lower.includes('quebecois') || lower === 'bq') return 'Bloc Québécois';
+  
+  // NDP variations
+  if (lower.includes('ndp') || lower.includes('new democratic') || lower === 'npd') return 'NDP';
+  
+  // Green variations
+  if (lower.includes('green') || lower === 'gpc' || lower === 'gp') return 'Green Party';
+  
+  return null;
+}
+
+export function getPartySlug(party: MajorParty): string {
+  return PARTY_SLUGS[party];
+}
+
+/**
+ * Resolve a route parameter (slug or any party name variation) to a major party;
+ * null for unknown or malformed parameters
+ */
+export function getPartyFromParam(param: string): MajorParty | null {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(param).trim().toLowerCase();
+  } catch {
+    // Malformed percent-encoding (e.g. "%E0") matches no party
+    return null;
+  }
+  const bySlug = MAJOR_PARTIES.find((party) => PARTY_SLUGS[party] === decoded);
+  return bySlug || normalizeToMajorParty(decoded.replace(/-/g, ' '));
+}
@@ -0,0 +1,95 @@
+/**
+ * Riding (federal electoral district) helpers shared by the riding sync, API and pages
+ */
+
+// First two digits of an Elections Canada FED code are the province/territory code
+const PROVINCE_CODES: Record<string, string> = {
+  '10': 'Newfoundland and Labrador',
+  '11': 'Prince Edward Island',
+  '12': 'Nova Scotia',
+  '13': 'New Brunswick',
+  '24': 'Quebec',
+  '35': 'Ontario',
+  '46': 'Manitoba',
+  '47': 'Saskatchewan',
+  '48': 'Alberta',
+  '59': 'British Columbia',
+  '60': 'Yukon',
+  '61': 'Northwest Territories',
+  '62': 'Nunavut',
+};
+
+/**
+ * URL slug for a riding name
+ * e.g., "Abitibi—Baie-James—Nunavik—Eeyou" -> "abitibi-baie-james-nunavik-eeyou"
+ */
+export function getRidingSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Province or territory for an Elections Canada FED code (e.g. "35075" -> "Ontario")
+ */
+export function getProvinceFromFedCode(fedCode: string | null | undefined): string | null {
+  if (!fedCode) {
+    return null;
+  }
+  return PROVINCE_CODES[fedCode.substring(0, 2)] || null;
+}
+
+const PROVINCE_ABBREVIATIONS: Record<string, string> = {
+  'Newfoundland and Labrador': 'NL',
+  'Prince Edward Island': 'PE',
+  'Nova Scotia': 'NS',
+  'New Brunswick': 'NB',
+  'Quebec': 'QC',
+  'Ontario': 'ON',
+  'Manitoba': 'MB',
+  'Saskatchewan': 'SK',
+  'Alberta': 'AB',
+  'British Columbia': 'BC',
+  'Yukon': 'YT',
+  'Northwest Territories': 'NT',
+  'Nunavut': 'NU',
+};
+
+/**
+ * Two-letter abbreviation for a province or territory name, or the name itself if unknown
+ */
+export function getProvinceAbbreviation(province: string): string {
+  return PROVINCE_ABBREVIATIONS[province] || province;
+}
+
+const EARTH_RADIUS_KM = 6371.0088;
+
+// Area of one closed [lng, lat] ring on the sphere (spherical excess approximation)
+function ringAreaKm2(ring: number[][]): number {
+  const n = ring.length;
+  if (n < 3) return 0;
+
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  let total = 0;
+  for (let i = 0; i < n; i++) {
+    const previous = ring[(i + n - 1) % n];
+    const current = ring[i];
+    const next = ring[(i + 1) % n];
+    total += (toRadians(next[0]) - toRadians(previous[0])) * Math.sin(toRadians(current[1]));
+  }
+  return Math.abs((total * EARTH_RADIUS_KM * EARTH_RADIUS_KM) / 2);
+}
+
+/**
+ * Area in km² of a GeoJSON MultiPolygon (Represent's simple_shape), holes excluded
+ */
+export function getMultiPolygonAreaKm2(coordinates: number[][][][]): number {
+  return coordinates.reduce((sum, polygon) => {
+    const [outer, ...holes] = polygon;
+    if (!outer) return sum;
+    return sum + ringAreaKm2(outer) - holes.reduce((holeSum, hole) => holeSum + ringAreaKm2(hole), 0);
+  }, 0);
+}
@@ -0,0 +1,32 @@
+/**
+ * Senate parliamentary groups
+ *
+ * sencanada.ca lists affiliations by abbreviation; senators are stored with the full group name.
+ */
+
+const SENATE_GROUPS: Record<string, string> = {
+  ISG: 'Independent Senators Group',
+  CSG: 'Canadian Senators Group',
+  PSG: 'Progressive Senate Group',
+  C: 'Conservative Party of Canada',
+  CPC: 'Conservative Party of Canada',
+  NA: 'Non-affiliated',
+  'NON-AFFILIATED': 'Non-affiliated',
+};
+
+/**
+ * Full group name for a sencanada.ca affiliation ("ISG", "C", "Non-affiliated", ...)
+ */
+export function getSenateGroupName(affiliation: string | null | undefined): string | null {
+  const code = affiliation?.trim();
+  if (!code) return null;
+  return SENATE_GROUPS[code.toUpperCase()] || code;
+}
+
+/**
+ * Bill number mentioned in a Senate division subject, e.g. "Bill C-5, third reading" → "C-5"
+ */
+export function extractSenateBillNumber(description: string): string | null {
+  const match = description.match(/\bBill\s+([CS]-\d+[A-Z]?)\b/i) || description.match(/\b([CS]-\d+[A-Z]?)\b/);
+  return match ? match[1].toUpperCase() : null;
+}
@@ -0,0 +1,22 @@
+/**
+ * Supplier names from the Members' Expenditures contract files
+ */
+
+// Legal-form suffixes dropped before comparing names, e.g. "Bell Canada Inc." -> "bell-canada"
+const CORPORATE_SUFFIXES = /(\s+(inc|incorporated|ltd|limited|ltee|corp|corporation|co|company|llp|lp|ulc|enr|senc|srl))+$/;
+
+/**
+ * URL slug grouping spelling variants of a supplier name: case, accents, punctuation and
+ * legal-form suffixes are ignored, and "&" is read as "and"
+ */
+export function getSupplierSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(CORPORATE_SUFFIXES, '')
+    .replace(/\s+/g, '-');
+}
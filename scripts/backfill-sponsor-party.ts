@@ -1,15 +1,9 @@
-import axios from 'axios';
-import * as https from 'https';
 import { transaction, convertPlaceholders, queryAll, queryOne, closeDatabase } from '../lib/db/database';
 import { cacheVoteDetails, getCachedVoteDetails } from '../lib/api/openparliament-cache';
+import { httpGet } from '../lib/api/http-client';
 
 const OPENPARLIAMENT_API_BASE = 'https://api.openparliament.ca';
 
-// Only disable SSL verification in development if explicitly set
-const httpsAgent = new https.Agent({
-  rejectUnauthorized: process.env.NODE_ENV === 'production' || process.env.SSL_REJECT_UNAUTHORIZED !== 'false'
-});
-
 /**
  * Get sponsor party from bill details
  */
@@ -41,9 +35,9 @@ async function getSponsorPartyFromBill(billNumber: string, session?: string): Pr
         let membershipData = cachedMembership;
         
         if (!membershipData) {
-          const membershipResponse = await axios.get(
+          const membershipResponse = await httpGet(
             `${OPENPARLIAMENT_API_BASE}${bill.sponsor_politician_membership}`,
-            { httpsAgent, timeout: 10000 }
+            { timeout: 10000 }
           );
           membershipData = membershipResponse.data;
           cacheVoteDetails(bill.sponsor_politician_membership, membershipData);
@@ -70,8 +64,7 @@ async function getSponsorPartyFromBill(billNumber: string, session?: string): Pr
         let billData = cachedBill;
         
         if (!billData) {
-          const billResponse = await axios.get(`${OPENPARLIAMENT_API_BASE}${billUrl}`, {
-            httpsAgent,
+          const billResponse = await httpGet(`${OPENPARLIAMENT_API_BASE}${billUrl}`, {
             timeout: 15000,
           });
           billData = billResponse.data;
@@ -85,9 +78,9 @@ async function getSponsorPartyFromBill(billNumber: string, session?: string): Pr
             let membershipData = cachedMembership;
             
             if (!membershipData) {
-              const membershipResponse = await axios.get(
+              const membershipResponse = await httpGet(
                 `${OPENPARLIAMENT_API_BASE}${billData.sponsor_politician_membership_url}`,
-                { httpsAgent, timeout: 10000 }
+                { timeout: 10000 }
               );
               membershipData = membershipResponse.data;
               cacheVoteDetails(billData.sponsor_politician_membership_url, membershipData);
@@ -209,9 +202,9 @@ async function backfillSponsorParty() {
               console.log(`  Using membership URL from DB: ${membershipUrl} for bill ${billNumber}`);
             }
             // Always fetch fresh from API (cache might have empty objects)
-            const membershipResponse = await axios.get(
+            const membershipResponse = await httpGet(
               `${OPENPARLIAMENT_API_BASE}${membershipUrl}`,
-              { httpsAgent, timeout: 10000 }
+              { timeout: 10000 }
             );
             const membershipData = membershipResponse.data;
             
@@ -252,8 +245,7 @@ async function backfillSponsorParty() {
             let voteData = cachedVote;
             
             if (!voteData) {
-              const voteResponse = await axios.get(`${OPENPARLIAMENT_API_BASE}${voteId}`, {
-                httpsAgent,
+              const voteResponse = await httpGet(`${OPENPARLIAMENT_API_BASE}${voteId}`, {
                 timeout: 15000,
               });
               voteData = voteResponse.data;
@@ -274,8 +266,7 @@ async function backfillSponsorParty() {
               let billData = cachedBill;
               
               if (!billData) {
-                const billResponse = await axios.get(`${OPENPARLIAMENT_API_BASE}${billUrl}`, {
-                  httpsAgent,
+                const billResponse = await httpGet(`${OPENPARLIAMENT_API_BASE}${billUrl}`, {
                   timeout: 15000,
                 });
                 billData = billResponse.data;
@@ -288,9 +279,9 @@ async function backfillSponsorParty() {
                 let membershipData = cachedMembership;
                 
                 if (!membershipData) {
-                  const membershipResponse = await axios.get(
+                  const membershipResponse = await httpGet(
                     `${OPENPARLIAMENT_API_BASE}${billData.sponsor_politician_membership_url}`,
-                    { httpsAgent, timeout: 10000 }
+                    { timeout: 10000 }
                   );
                   membershipData = membershipResponse.data;
                   cacheVoteDetails(billData.sponsor_politician_membership_url, membershipData);
@@ -340,11 +331,6 @@ async function backfillSponsorParty() {
         console.error(`Error processing vote ${voteId}:`, error.message);
       }
     }));
-
-    // Delay between batches to avoid rate limiting
-    if (i + batchSize < voteIds.length) {
-      await new Promise(resolve => setTimeout(resolve, 1000));
-    }
   }
 
   console.log('\n✅ Sponsor party backfill complete!');
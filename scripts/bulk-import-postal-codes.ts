@@ -1,13 +1,12 @@
 import { getDatabase, closeDatabase } from '../lib/db/database';
-import axios from 'axios';
-import * as https from 'https';
+import { httpGet } from '../lib/api/http-client';
 
 /**
  * Bulk import postal codes for all MPs using OpenNorth Represent API
  * This is a one-time setup script to populate postal code mappings
  * 
  * Note: OpenNorth API has rate limits, so this may take a while
- * The script will process in batches with delays
+ * Requests are throttled to those limits by the shared HTTP client
  */
 
 const REPRESENT_API_BASE = 'https://represent.opennorth.ca/api';
@@ -33,19 +32,14 @@ interface PostalCodeResponse {
 async function getPostalCodeData(postalCode: string): Promise<PostalCodeResponse | null> {
   try {
     // Use OpenNorth API to get postal code data
-    const httpsAgent = new https.Agent({
-      rejectUnauthorized: false // For development
-    });
-
-    const response = await axios.get(`${REPRESENT_API_BASE}/postcodes/${postalCode}/`, {
-      httpsAgent,
+    const response = await httpGet<PostalCodeResponse>(`${REPRESENT_API_BASE}/postcodes/${postalCode}/`, {
       params: {
         sets: 'federal-electoral-districts',
       },
       timeout: 10000,
     });
 
-    return response.data as PostalCodeResponse;
+    return response.data;
   } catch (error: any) {
     if (error.response?.status === 404) {
       return null; // Postal code not found
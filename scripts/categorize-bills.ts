@@ -0,0 +1,115 @@
+#!/usr/bin/env tsx
+
+/**
+ * Categorize bills in bulk with the configured providers (see lib/ai/categorize-bill.ts).
+ * Bills whose category was locked in the review queue are skipped.
+ *
+ * Usage:
+ *   npm run db:categorize-bills                                   Categorize bills without a category
+ *   npm run db:categorize-bills -- --low-confidence               Also re-run bills flagged as low confidence
+ *   npm run db:categorize-bills -- --all                          Re-run every bill (e.g. to assign secondary categories)
+ *   npm run db:categorize-bills -- --providers naive-bayes,keywords   Override the provider order (no API key needed)
+ *   npm run db:categorize-bills -- --limit 50
+ */
+
+import { queryAll, closeDatabase } from '../lib/db/database';
+import { getCategoryIdByName, updateBillCategory } from '../lib/db/categorize-bills';
+import { categorizeBill } from '../lib/ai/categorize-bill';
+
+interface CategorizeOptions {
+  all?: boolean;
+  lowConfidence?: boolean;
+  limit?: number;
+}
+
+function getArgValue(flag: string): string | undefined {
+  const index = process.argv.indexOf(flag);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function categorizeBills(options: CategorizeOptions = {}): Promise<{ inserted: number; updated: number }> {
+  // Latest row per bill, same as the bill pages
+  const bills = await queryAll<{ bill_number: string; title: string; long_title: string | null; policy_category_id: number | null }>(`
+    SELECT bm.bill_number, bm.title, bm.long_title, bm.policy_category_id
+    FROM bills_motions bm
+    INNER JOIN (
+      SELECT bill_number, MAX(id) as max_id
+      FROM bills_motions
+      WHERE type = 'Bill' AND bill_number IS NOT NULL
+      GROUP BY bill_number
+    ) latest ON bm.bill_number = latest.bill_number AND bm.id = latest.max_id
+    WHERE (${options.all ? 'TRUE' : 'bm.policy_category_id IS NULL'}
+      ${options.lowConfidence ? 'OR bm.category_low_confidence' : ''})
+      -- Categories set by an editor are never overwritten
+      AND NOT EXISTS (SELECT 1 FROM bill_category_locks l WHERE l.bill_number = bm.bill_number)
+    ORDER BY bm.bill_number
+  `);
+
+  const toCategorize = options.limit ? bills.slice(0, options.limit) : bills;
+  console.log(`Categorizing ${toCategorize.length} bills...\n`);
+
+  let inserted = 0;
+  let updated = 0;
+  let lowConfidence = 0;
+  let failed = 0;
+
+  for (const bill of toCategorize) {
+    const result = await categorizeBill({
+      billNumber: bill.bill_number,
+      title: bill.title,
+      description: bill.long_title && bill.long_title !== bill.title ? bill.long_title : undefined,
+    });
+
+    const categoryId = result ? await getCategoryIdByName(result.category) : null;
+    if (!result || !categoryId) {
+      console.warn(`  ⚠ Could not categorize ${bill.bill_number}`);
+      failed++;
+      continue;
+    }
+
+    const assigned = await updateBillCategory(bill.bill_number, categoryId, result);
+    if (bill.policy_category_id) updated++;
+    else inserted++;
+    if (result.lowConfidence) lowConfidence++;
+
+    console.log(
+      `  ✓ ${bill.bill_number}: ${result.category} (${result.provider}, ${result.confidence.toFixed(2)})` +
+        `${assigned.length > 1 ? ` + ${assigned.slice(1).join(', ')}` : ''}${result.lowConfidence ? ' [low confidence]' : ''}`
+    );
+  }
+
+  console.log('\n✓ Categorization complete!');
+  console.log(`  Newly categorized: ${inserted}`);
+  console.log(`  Re-categorized: ${updated}`);
+  console.log(`  Flagged low confidence: ${lowConfidence}`);
+  console.log(`  Failed: ${failed}`);
+
+  return { inserted, updated };
+}
+
+async function main() {
+  const providers = getArgValue('--providers');
+  if (providers) {
+    process.env.CATEGORIZER_PROVIDERS = providers;
+  }
+  const limit = getArgValue('--limit');
+
+  try {
+    await categorizeBills({
+      all: process.argv.includes('--all'),
+      lowConfidence: process.argv.includes('--low-confidence'),
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+  } catch (error: any) {
+    console.error('Fatal error:', error.message);
+    process.exit(1);
+  } finally {
+    await closeDatabase();
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { categorizeBills };
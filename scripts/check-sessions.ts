@@ -15,7 +15,7 @@ async function checkSessions() {
 
     if (allSessions.length === 0) {
       console.log('⚠️  No sessions found in database!');
-      console.log('   Run: npm run setup-sessions-table (or node -r ts-node/register scripts/setup-sessions-table.ts)');
+      console.log('   Run: npm run db:migrate');
       console.log('   to create the sessions table and add a current session.\n');
     } else {
       allSessions.forEach((session, i) => {
@@ -50,7 +50,7 @@ async function checkSessions() {
   } catch (error: any) {
     if (error.message.includes('does not exist')) {
       console.error('❌ Sessions table does not exist!');
-      console.error('   Run: npm run setup-sessions-table (or node -r ts-node/register scripts/setup-sessions-table.ts)');
+      console.error('   Run: npm run db:migrate');
       console.error('   to create the sessions table.\n');
     } else {
       console.error('❌ Error checking sessions table:', error.message);
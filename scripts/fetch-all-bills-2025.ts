@@ -1,15 +1,9 @@
-import axios from 'axios';
-import * as https from 'https';
 import { transaction, convertPlaceholders, queryExec, closeDatabase } from '../lib/db/database';
 import { getCurrentSessionStartDate } from '../lib/db/sessions';
+import { httpGet } from '../lib/api/http-client';
 
 const OPENPARLIAMENT_API_BASE = 'https://api.openparliament.ca';
 
-// Only disable SSL verification in development if explicitly set
-const httpsAgent = new https.Agent({
-  rejectUnauthorized: process.env.NODE_ENV === 'production' || process.env.SSL_REJECT_UNAUTHORIZED !== 'false'
-});
-
 interface OpenParliamentBill {
   session: string;
   legisinfo_id: number;
@@ -114,45 +108,22 @@ async function fetchAllBills(introducedDate?: string): Promise<OpenParliamentBil
   console.log(`Fetching all bills introduced on or after ${introducedDate}...`);
 
   while (hasMore) {
-    let retryCount = 0;
-    const maxRetries = 3;
-    let success = false;
-    let response: any = null;
-
-    while (!success && retryCount < maxRetries) {
-      try {
-        const url = `${OPENPARLIAMENT_API_BASE}/bills/`;
-        const params = {
+    console.log(`Fetching bills (offset: ${offset}, limit: ${limit})...`);
+
+    // Retries on 429/5xx are handled by the shared HTTP client
+    let response;
+    try {
+      response = await httpGet<OpenParliamentResponse>(`${OPENPARLIAMENT_API_BASE}/bills/`, {
+        params: {
           introduced__gte: introducedDate,
           limit,
           offset,
-        };
-
-        console.log(`Fetching bills (offset: ${offset}, limit: ${limit})...`);
-        
-        response = await axios.get<OpenParliamentResponse>(url, {
-          httpsAgent,
-          params,
-          timeout: 30000,
-        });
-
-        success = true;
-      } catch (error: any) {
-        if (error.response?.status === 429) {
-          // Rate limited - exponential backoff
-          retryCount++;
-          const backoffDelay = Math.min(2000 * Math.pow(2, retryCount), 60000);
-          console.warn(`Rate limited (429). Waiting ${backoffDelay/1000}s before retry ${retryCount}/${maxRetries}...`);
-          await new Promise(resolve => setTimeout(resolve, backoffDelay));
-        } else {
-          console.error(`Error fetching bills (offset: ${offset}):`, error.message);
-          throw error;
-        }
-      }
-    }
-
-    if (!response) {
-      throw new Error(`Failed to fetch bills after ${maxRetries} retries`);
+        },
+        timeout: 30000,
+      });
+    } catch (error: any) {
+      console.error(`Error fetching bills (offset: ${offset}):`, error.message);
+      throw error;
     }
 
     const bills = response.data.objects || [];
@@ -168,11 +139,6 @@ async function fetchAllBills(introducedDate?: string): Promise<OpenParliamentBil
       if (!response.data.pagination?.next_url) {
         hasMore = false;
       }
-
-      // Delay between requests to avoid rate limiting
-      if (hasMore) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
     }
   }
 
@@ -235,11 +201,7 @@ async function fetchBillDetails(bill: OpenParliamentBill): Promise<OpenParliamen
 
   // Fetch full bill details for missing fields
   try {
-    // Small delay to avoid rate limiting
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
-    const response = await axios.get<OpenParliamentBill>(`${OPENPARLIAMENT_API_BASE}${bill.url}`, {
-      httpsAgent,
+    const response = await httpGet<OpenParliamentBill>(`${OPENPARLIAMENT_API_BASE}${bill.url}`, {
       timeout: 15000,
     });
 
@@ -251,10 +213,6 @@ async function fetchBillDetails(bill: OpenParliamentBill): Promise<OpenParliamen
       url: bill.url,
     };
   } catch (error: any) {
-    if (error.response?.status === 429) {
-      // Rate limited - wait longer before returning
-      await new Promise(resolve => setTimeout(resolve, 2000));
-    }
     console.warn(`Could not fetch full details for bill ${bill.number || bill.legisinfo_id}: ${error.message}`);
     return bill; // Return original if fetch fails
   }
@@ -450,11 +408,6 @@ async function main() {
           console.error(`Error processing bill ${bill.number || bill.legisinfo_id}:`, error.message);
         }
       }
-
-      // Small delay between batches
-      if (i + batchSize < bills.length) {
-        await new Promise(resolve => setTimeout(resolve, 500));
-      }
     }
 
     console.log('\n✅ Bill sync complete!');
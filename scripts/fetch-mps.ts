@@ -1,8 +1,8 @@
-import axios from 'axios';
 import { parseStringPromise } from 'xml2js';
-import { getDatabase, closeDatabase } from '../lib/db/database';
+import { queryAll, transaction, closeDatabase } from '../lib/db/database';
 import { calculateMPSalary } from '../lib/utils/mp-salary';
-import * as https from 'https';
+import { httpGet } from '../lib/api/http-client';
+import { detectMembershipChanges } from '../lib/utils/memberships';
 
 const COMMONS_BASE = 'https://www.ourcommons.ca';
 
@@ -27,18 +27,11 @@ async function fetchMPProfileXML(personId: string, firstName: string, lastName:
   try {
     const slug = nameToSlug(firstName, lastName);
     const profileUrl = `${COMMONS_BASE}/Members/en/${slug}(${personId})/xml`;
-    
-    // Note: This is a development script. In production code, always verify SSL certificates.
-    const httpsAgent = new https.Agent({
-      rejectUnauthorized: process.env.SSL_REJECT_UNAUTHORIZED === 'false'
-    });
 
-    const response = await axios.get(profileUrl, {
-      httpsAgent,
+    const response = await httpGet<string>(profileUrl, {
       responseType: 'text',
       headers: {
         'Accept': 'application/xml, text/xml',
-        'User-Agent': 'Mozilla/5.0',
       },
       timeout: 10000,
     });
@@ -260,22 +253,13 @@ async function fetchCurrentMPs(): Promise<MPData[]> {
     // Correct XML endpoint: https://www.ourcommons.ca/Members/en/search/XML
     console.log('Fetching XML from House of Commons...');
     console.log('URL: https://www.ourcommons.ca/Members/en/search/XML');
-    
-    // Note: For development, we may need to bypass SSL certificate validation
-    // In production, ensure proper certificate handling
-    const https = require('https');
-    // Note: This is a development script. In production code, always verify SSL certificates.
-    const agent = new https.Agent({
-      rejectUnauthorized: process.env.SSL_REJECT_UNAUTHORIZED === 'false'
-    });
 
-    const response = await axios.get(`${COMMONS_BASE}/Members/en/search/XML`, {
+    const response = await httpGet<string>(`${COMMONS_BASE}/Members/en/search/XML`, {
       responseType: 'text',
       headers: {
         'Accept': 'application/xml, text/xml',
-        'User-Agent': 'Mozilla/5.0',
       },
-      httpsAgent: agent,
+      timeout: 30000,
       validateStatus: (status) => status < 500, // Don't throw on 4xx
     });
 
@@ -386,9 +370,6 @@ async function fetchCurrentMPs(): Promise<MPData[]> {
           if (parliamentary_positions && parliamentary_positions.length > 0) {
             console.log(`  ✓ Found ${parliamentary_positions.length} parliamentary positions for ${fullName}`);
           }
-          
-          // Small delay to avoid rate limiting
-          await new Promise(resolve => setTimeout(resolve, 500));
         } catch (error: any) {
           // Continue even if profile fetch fails
           if (error.response?.status !== 404) {
@@ -432,50 +413,37 @@ async function fetchCurrentMPs(): Promise<MPData[]> {
   }
 }
 
+interface ExistingMP {
+  id: number;
+  name: string;
+  party_name: string | null;
+  district_name: string;
+  district_id: string | null;
+}
+
 async function importMPs() {
   console.log('Fetching current MPs from House of Commons...');
   console.log('This will refresh the database with the latest MP list.\n');
-  const db = getDatabase();
 
   try {
     const mps = await fetchCurrentMPs();
     console.log(`\nFound ${mps.length} current MPs in the XML feed`);
 
     // Get current MPs in database for comparison
-    const existingMPs = db.prepare('SELECT COUNT(*) as count FROM mps').get() as { count: number };
-    console.log(`Current MPs in database: ${existingMPs.count}`);
-
-    // Use separate INSERT and UPDATE statements to avoid overwriting existing data
-    const insertMP = db.prepare(`
-      INSERT OR IGNORE INTO mps (
-        name, first_name, last_name, email, phone, photo_url, party_name,
-        district_name, district_id, elected_office, url, source_url, personal_url, gender, 
-        committees, associations, parliamentary_positions, salary, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'MP', ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
-    `);
-    
-    // Update existing MPs but preserve email, phone, photo_url, and other fields if they exist
-    // Only update committees, associations, parliamentary_positions if we have new data
-    const updateMP = db.prepare(`
-      UPDATE mps SET
-        name = ?,
-        first_name = ?,
-        last_name = ?,
-        party_name = COALESCE(party_name, ?),
-        district_name = ?,
-        district_id = COALESCE(district_id, ?),
-        elected_office = COALESCE(elected_office, 'MP'),
-        url = COALESCE(url, ?),
-        source_url = COALESCE(source_url, ?),
-        personal_url = COALESCE(personal_url, ?),
-        gender = COALESCE(gender, ?),
-        committees = COALESCE(?, committees),
-        associations = COALESCE(?, associations),
-        parliamentary_positions = COALESCE(?, parliamentary_positions),
-        salary = ?,
-        updated_at = CURRENT_TIMESTAMP
-      WHERE (district_name = ? OR district_id = ?)
-    `);
+    const existingMPs = await queryAll<ExistingMP>('SELECT id, name, party_name, district_name, district_id FROM mps');
+    console.log(`Current MPs in database: ${existingMPs.length}`);
+
+    // Match on PersonId first so MPs who change party or riding keep their row (and votes);
+    // rows imported before PersonIds were stored fall back to the riding
+    const existingByPersonId = new Map<string, ExistingMP>();
+    const existingByDistrict = new Map<string, ExistingMP>();
+    for (const existing of existingMPs) {
+      if (existing.district_id) {
+        existingByPersonId.set(existing.district_id, existing);
+      } else {
+        existingByDistrict.set(existing.district_name, existing);
+      }
+    }
 
     // Get list of current MP identifiers (district_id or district_name) for cleanup
     const currentMPIdentifiers = new Set<string>();
@@ -488,90 +456,104 @@ async function importMPs() {
       }
     });
 
-    const transaction = db.transaction((mps: MPData[]) => {
+    const eventCount = await transaction(async (client) => {
+      let events = 0;
+
       for (const mp of mps) {
         // Calculate salary based on parliamentary positions
         const salary = calculateMPSalary(mp.parliamentary_positions);
-        
-        // Try to insert first (for new MPs)
-        insertMP.run(
-          mp.name,
-          mp.firstName,
-          mp.lastName,
-          null, // email - preserve existing, will be updated via import-contact-csv
-          null, // phone - preserve existing, will be updated via import-contact-csv
-          null, // photo_url - preserve existing, will be updated via update-headshots
-          mp.partyName,
-          mp.districtName,
-          mp.districtId,
-          mp.url,
-          null, // source_url
-          null, // personal_url
-          mp.gender,
-          mp.committees ? JSON.stringify(mp.committees) : null,
-          mp.associations ? JSON.stringify(mp.associations) : null,
-          mp.parliamentary_positions ? JSON.stringify(mp.parliamentary_positions) : null,
-          salary
-        );
-        
-        // Update existing MPs (this will run even if insert was ignored)
-        // This updates committees, associations, parliamentary_positions, and basic info
-        // but preserves email, phone, photo_url
-        updateMP.run(
-          mp.name,
-          mp.firstName,
-          mp.lastName,
-          mp.partyName,
-          mp.districtName,
-          mp.districtId,
-          mp.url,
-          null, // source_url
-          null, // personal_url
-          mp.gender,
-          mp.committees ? JSON.stringify(mp.committees) : null,
-          mp.associations ? JSON.stringify(mp.associations) : null,
-          mp.parliamentary_positions ? JSON.stringify(mp.parliamentary_positions) : null,
-          salary,
-          mp.districtName, // WHERE clause - district_name
-          mp.districtId || mp.districtName // WHERE clause - district_id
-        );
+        const committees = mp.committees ? JSON.stringify(mp.committees) : null;
+        const associations = mp.associations ? JSON.stringify(mp.associations) : null;
+        const positions = mp.parliamentary_positions ? JSON.stringify(mp.parliamentary_positions) : null;
+
+        const samePerson = mp.districtId ? existingByPersonId.get(mp.districtId) : undefined;
+        const existing = samePerson || existingByDistrict.get(mp.districtName);
+
+        if (!existing) {
+          // email, phone and photo_url are filled later by import-contact-csv and update-headshots
+          await client.query(`
+            INSERT INTO mps (
+              name, first_name, last_name, party_name, district_name, district_id, elected_office,
+              url, gender, committees, associations, parliamentary_positions, salary, updated_at
+            ) VALUES ($1, $2, $3, $4, $5, $6, 'MP', $7, $8, $9, $10, $11, $12, CURRENT_TIMESTAMP)
+            ON CONFLICT (district_name, name) DO NOTHING
+          `, [
+            mp.name, mp.firstName, mp.lastName, mp.partyName, mp.districtName, mp.districtId,
+            mp.url, mp.gender, committees, associations, positions, salary,
+          ]);
+          continue;
+        }
+
+        // Record floor crossings and riding changes before the row is overwritten
+        const changes = samePerson
+          ? detectMembershipChanges(samePerson, { party_name: mp.partyName, district_name: mp.districtName })
+          : [];
+        for (const change of changes) {
+          console.log(`  ↺ ${mp.name}: ${change.event_type} ${change.old_value} → ${change.new_value}`);
+          await client.query(`
+            INSERT INTO membership_events (mp_id, person_id, name, event_type, old_value, new_value)
+            VALUES ($1, $2, $3, $4, $5, $6)
+          `, [existing.id, mp.districtId, mp.name, change.event_type, change.old_value, change.new_value]);
+          events++;
+        }
+
+        // Preserve email, phone, photo_url and other fields filled by other scripts;
+        // only replace committees, associations and positions when we have new data
+        await client.query(`
+          UPDATE mps SET
+            name = $1,
+            first_name = $2,
+            last_name = $3,
+            party_name = COALESCE(NULLIF($4, ''), party_name),
+            district_name = $5,
+            district_id = COALESCE(district_id, $6),
+            elected_office = COALESCE(elected_office, 'MP'),
+            url = COALESCE(url, $7),
+            gender = COALESCE(gender, $8),
+            committees = COALESCE($9, committees),
+            associations = COALESCE($10, associations),
+            parliamentary_positions = COALESCE($11, parliamentary_positions),
+            salary = $12,
+            updated_at = CURRENT_TIMESTAMP
+          WHERE id = $13
+        `, [
+          mp.name, mp.firstName, mp.lastName, mp.partyName, mp.districtName, mp.districtId,
+          mp.url, mp.gender, committees, associations, positions, salary, existing.id,
+        ]);
       }
-    });
 
-    transaction(mps);
-    console.log(`✓ Successfully imported/updated ${mps.length} MPs`);
+      // Remove MPs that are no longer in office (not in the current list), logging the vacancy
+      for (const dbMP of existingMPs) {
+        // Rows with a PersonId are matched by it alone, so a refilled seat still logs a vacancy;
+        // legacy rows without one fall back to the riding name
+        const isCurrent = dbMP.district_id
+          ? currentMPIdentifiers.has(dbMP.district_id)
+          : currentMPIdentifiers.has(dbMP.district_name);
+        if (isCurrent) {
+          continue;
+        }
 
-    // Remove MPs that are no longer in office (not in the current list)
-    // We'll identify them by checking if their district_id or district_name doesn't match current MPs
-    const allDBMPs = db.prepare('SELECT id, name, district_id, district_name FROM mps').all() as Array<{
-      id: number;
-      name: string;
-      district_id: string | null;
-      district_name: string;
-    }>;
-
-    let removedCount = 0;
-    const removeMP = db.prepare('DELETE FROM mps WHERE id = ?');
-    
-    for (const dbMP of allDBMPs) {
-      const isCurrent = (dbMP.district_id && currentMPIdentifiers.has(dbMP.district_id)) ||
-                        currentMPIdentifiers.has(dbMP.district_name);
-      
-      if (!isCurrent) {
         console.log(`  Removing old MP: ${dbMP.name} (${dbMP.district_name})`);
-        removeMP.run(dbMP.id);
-        removedCount++;
+        await client.query(`
+          INSERT INTO membership_events (mp_id, person_id, name, event_type, old_value, new_value)
+          VALUES ($1, $2, $3, 'vacancy', $4, NULL)
+        `, [dbMP.id, dbMP.district_id, dbMP.name, dbMP.district_name]);
+        await client.query('DELETE FROM mps WHERE id = $1', [dbMP.id]);
+        events++;
       }
-    }
 
-    if (removedCount > 0) {
-      console.log(`\n✓ Removed ${removedCount} MPs who are no longer in office`);
+      return events;
+    });
+
+    console.log(`✓ Successfully imported/updated ${mps.length} MPs`);
+    if (eventCount > 0) {
+      console.log(`✓ Logged ${eventCount} party, riding or vacancy change(s) to membership_events`);
     }
 
     // Final count
-    const finalCount = db.prepare('SELECT COUNT(*) as count FROM mps').get() as { count: number };
+    const finalCount = await queryAll<{ count: number }>('SELECT COUNT(*)::int AS count FROM mps');
     console.log(`\n=== Summary ===`);
-    console.log(`Total current MPs in database: ${finalCount.count}`);
+    console.log(`Total current MPs in database: ${finalCount[0]?.count ?? 0}`);
     console.log(`\n✅ Database refreshed successfully!`);
     console.log(`\nNext steps:`);
     console.log(`  1. Run: npm run db:update-headshots (to update MP photos)`);
@@ -580,7 +562,7 @@ async function importMPs() {
     console.error('Error importing MPs:', error);
     throw error;
   } finally {
-    closeDatabase();
+    await closeDatabase();
   }
 }
 
@@ -0,0 +1,86 @@
+#!/usr/bin/env tsx
+
+/**
+ * Fixture Server
+ *
+ * Local stand-in for OpenParliament, ourcommons.ca, Represent and LEGISinfo that serves
+ * responses recorded with FIXTURE_MODE=record (see lib/api/fixtures.ts).
+ *
+ * Requests are addressed as /<scheme>/<host>/<path>?<query>, e.g.
+ *   http://localhost:4010/https/api.openparliament.ca/votes/?format=json
+ * POST bodies are matched too, so each recorded request body gets its own response.
+ *
+ * Usage:
+ *   npm run fixtures:serve
+ *   FIXTURE_MODE=server FIXTURE_SERVER_URL=http://localhost:4010 npm run db:sync
+ */
+
+import * as http from 'http';
+import { readFixture, getFixtureDir } from '../lib/api/fixtures';
+
+const PORT = parseInt(process.env.FIXTURE_SERVER_PORT || '4010', 10);
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse) {
+  const method = (req.method || 'GET').toUpperCase();
+  const match = (req.url || '/').match(/^\/(https?)\/([^/?]+)(.*)$/);
+
+  if (!match) {
+    res.writeHead(400, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Expected /<scheme>/<host>/<path>' }));
+    return;
+  }
+
+  const [, scheme, host, rest] = match;
+  const upstreamUrl = `${scheme}://${host}${rest.startsWith('/') ? rest : `/${rest}`}`;
+  const body = await readBody(req);
+  const fixture = readFixture(method, upstreamUrl, body);
+
+  if (!fixture) {
+    console.log(`✗ ${method} ${upstreamUrl} (no fixture)`);
+    res.writeHead(404, { 'Content-Type': 'application/json', 'X-Fixture-Missing': 'true' });
+    res.end(JSON.stringify({ error: 'No recorded fixture', url: upstreamUrl }));
+    return;
+  }
+
+  console.log(`✓ ${method} ${upstreamUrl} → ${fixture.response.status}`);
+  res.writeHead(fixture.response.status, fixture.response.headers);
+  res.end(fixture.response.body);
+}
+
+function createFixtureServer(): http.Server {
+  return http.createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      console.error('Error serving fixture:', error);
+      res.writeHead(500, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Failed to serve fixture' }));
+    });
+  });
+}
+
+function main() {
+  const server = createFixtureServer();
+
+  server.listen(PORT, () => {
+    console.log(`Fixture server listening on http://localhost:${PORT}`);
+    console.log(`Serving fixtures from ${getFixtureDir()}\n`);
+  });
+
+  const shutdown = () => server.close(() => process.exit(0));
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { createFixtureServer };
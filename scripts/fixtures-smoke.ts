@@ -0,0 +1,172 @@
+#!/usr/bin/env tsx
+
+/**
+ * Fixture Smoke Test
+ *
+ * Replays every recorded GET fixture in FIXTURE_DIR through the shared HTTP client, first in
+ * replay mode and then through the fixture server (scripts/fixture-server.ts), and checks that
+ * each request gets back the recorded status and body. Exits non-zero on any mismatch.
+ *
+ * When nothing has been recorded yet, it seeds one small sample response per data source into
+ * a temporary directory and replays those instead, so it also runs on a fresh checkout.
+ *
+ * Usage:
+ *   npm run fixtures:smoke
+ *   FIXTURE_DIR=path/to/fixtures npm run fixtures:smoke
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import { listFixtures, getFixtureDir, writeFixture } from '../lib/api/fixtures';
+import type { Fixture } from '../lib/api/fixtures';
+import { createFixtureServer } from './fixture-server';
+
+type HttpGet = typeof import('../lib/api/http-client').httpGet;
+
+// Hand-written stand-ins for one request per source; only used when FIXTURE_DIR is empty
+const SAMPLE_FIXTURES: Array<{ url: string; contentType: string; body: string }> = [
+  {
+    url: 'https://api.openparliament.ca/votes/?format=json&limit=1',
+    contentType: 'application/json',
+    body: JSON.stringify({
+      objects: [{ url: '/votes/45-1/1/', session: '45-1', number: 1, date: '2025-05-28', result: 'Passed' }],
+      pagination: { offset: 0, limit: 1, next_url: null, previous_url: null },
+    }),
+  },
+  {
+    url: 'https://www.ourcommons.ca/Members/en/search/XML',
+    contentType: 'application/xml',
+    body: '<ArrayOfMemberOfParliament><MemberOfParliament><PersonId>1</PersonId>'
+      + '<PersonOfficialFirstName>Sample</PersonOfficialFirstName><PersonOfficialLastName>Member</PersonOfficialLastName>'
+      + '<ConstituencyName>Ottawa Centre</ConstituencyName><CaucusShortName>Liberal</CaucusShortName>'
+      + '</MemberOfParliament></ArrayOfMemberOfParliament>',
+  },
+  {
+    url: 'https://represent.opennorth.ca/postcodes/K1A0A6/',
+    contentType: 'application/json',
+    body: JSON.stringify({
+      code: 'K1A0A6',
+      boundaries_centroid: [{ name: 'Ottawa Centre', external_id: '35075', boundary_set_name: 'Federal electoral district' }],
+      representatives_centroid: [],
+    }),
+  },
+  {
+    url: 'https://www.parl.ca/legisinfo/en/bill/45-1/c-2/json',
+    contentType: 'application/json',
+    body: JSON.stringify([{ NumberCode: 'C-2', ParlSessionCode: '45-1', LongTitleEn: 'Sample bill', BillStages: {} }]),
+  },
+  {
+    url: 'https://sencanada.ca/en/senators-list/',
+    contentType: 'text/html',
+    body: '<html><body><table><tr><td><a href="/en/senators/sample-senator/">Sample Senator</a></td></tr></table></body></html>',
+  },
+];
+
+/**
+ * Write the sample responses to a fresh temporary FIXTURE_DIR and return its path
+ */
+function seedSampleFixtures(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'politracker-fixtures-'));
+  process.env.FIXTURE_DIR = dir;
+  for (const sample of SAMPLE_FIXTURES) {
+    writeFixture('GET', sample.url, {
+      status: 200,
+      statusText: 'OK',
+      headers: { 'content-type': sample.contentType },
+      body: sample.body,
+    });
+  }
+  return dir;
+}
+
+function listGetFixtures(): Fixture[] {
+  return listFixtures().filter((fixture) => fixture.request.method === 'GET');
+}
+
+async function replayFixture(httpGet: HttpGet, fixture: Fixture): Promise<string | null> {
+  const response = await httpGet<string>(fixture.request.url, {
+    responseType: 'text',
+    validateStatus: () => true,
+    retries: 0,
+    conditional: false,
+  });
+
+  if (response.status !== fixture.response.status) {
+    return `got ${response.status}, recorded ${fixture.response.status}`;
+  }
+  if (response.data !== fixture.response.body) {
+    return 'body differs from the recording';
+  }
+  return null;
+}
+
+async function smokeTestFixtures(): Promise<{ passed: number; failed: number }> {
+  let fixtures = listGetFixtures();
+  let seededDir: string | null = null;
+  if (fixtures.length === 0) {
+    console.log(`No recorded GET fixtures in ${getFixtureDir()}; seeding ${SAMPLE_FIXTURES.length} sample responses`);
+    seededDir = seedSampleFixtures();
+    fixtures = listGetFixtures();
+  }
+
+  // The shared client installs the fixture layer when it is first loaded
+  process.env.FIXTURE_MODE = 'replay';
+  const { httpGet } = await import('../lib/api/http-client');
+
+  const server = createFixtureServer();
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  process.env.FIXTURE_SERVER_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  let passed = 0;
+  let failed = 0;
+
+  try {
+    for (const mode of ['replay', 'server'] as const) {
+      process.env.FIXTURE_MODE = mode;
+      console.log(`\nReplaying ${fixtures.length} fixtures in ${mode} mode...`);
+
+      for (const fixture of fixtures) {
+        let problem: string | null;
+        try {
+          problem = await replayFixture(httpGet, fixture);
+        } catch (error: any) {
+          problem = error.message;
+        }
+
+        if (problem) {
+          failed++;
+          console.error(`  ✗ ${fixture.request.url}: ${problem}`);
+        } else {
+          passed++;
+          console.log(`  ✓ ${fixture.request.url}`);
+        }
+      }
+    }
+  } finally {
+    server.close();
+    if (seededDir) {
+      fs.rmSync(seededDir, { recursive: true, force: true });
+    }
+  }
+
+  console.log(`\n${failed === 0 ? '✅' : '❌'} Fixture smoke test: ${passed} passed, ${failed} failed`);
+  return { passed, failed };
+}
+
+async function main() {
+  try {
+    const { failed } = await smokeTestFixtures();
+    process.exit(failed > 0 ? 1 : 0);
+  } catch (error: any) {
+    console.error('Fatal error:', error.message);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { smokeTestFixtures };
@@ -1,317 +1,505 @@
-import { getDatabase, closeDatabase } from '../lib/db/database';
+#!/usr/bin/env tsx
+
+/**
+ * Import the House of Commons Members' Expenditures Reports from data/expenses/
+ *
+ * Summary files (MembersExpenditures.2026Q1.csv) hold one row per member with totals for
+ * staff salaries, travel, hospitality and contracts, and are upserted into mp_expenses.
+ * Detailed files for the same quarter (MembersExpenditures.Travel.2026Q1.csv, .Hospitality.
+ * and .Contracts.) hold one row per travel claim, hospitality event or contract, with the
+ * member's name and constituency, and are upserted into expense_travel_claims,
+ * expense_hospitality_events and expense_contracts by file and row, so re-importing a
+ * corrected file replaces its rows.
+ *
+ * Rows are matched to MPs by name, using the constituency only to settle shared names.
+ * Rows that match no MP or more than one are skipped and listed in a match report at the end.
+ * A summary file with fewer than half its rows matched is not imported, since importing it
+ * would drop the quarter's other members.
+ *
+ * Usage:
+ *   npm run db:import-expenses                                  Import files not imported yet
+ *   npm run db:import-expenses -- --force                       Re-import every file (e.g. after fetch-mps)
+ *   npm run db:import-expenses -- --report data/expenses/match-report.json   Also write the match report as JSON
+ *   npm run db:import-expenses -- --dir path/to/expenses
+ */
+
 import * as fs from 'fs';
 import * as path from 'path';
+import type { PoolClient } from 'pg';
+import { transaction, queryAll, queryOne, closeDatabase } from '../lib/db/database';
+import { parseCsv, findColumn, parseAmount } from '../lib/utils/csv';
+import { buildMPNameIndex, matchMP, type MatchableMP, type MPNameIndex } from '../lib/utils/mp-matching';
+import { getSupplierSlug } from '../lib/utils/suppliers';
+
+type ExpenseFileKind = 'summary' | 'travel' | 'hospitality' | 'contracts';
+
+interface ExpenseFile {
+  filename: string;
+  kind: ExpenseFileKind;
+  year: number;
+  quarterNumber: number;
+  quarter: string; // e.g. "2026Q1"
+}
 
-interface ExpenseRow {
+interface MatchReportEntry {
+  file: string;
+  row: number;
   name: string;
   constituency: string;
-  caucus: string;
-  salaries: number;
-  travel: number;
-  hospitality: number;
-  contracts: number;
+  status: 'unmatched' | 'ambiguous';
+  detail: string;
 }
 
-/**
- * Parse name from "Lastname, Firstname" format to match database
- */
-function parseName(csvName: string): { firstName: string; lastName: string; fullName: string } {
-  // Remove quotes and trim
-  let cleanName = csvName.replace(/"/g, '').trim();
-  
-  // Remove common honorifics
-  cleanName = cleanName.replace(/^(Hon\.|Right Hon\.|Hon)\s+/i, '').trim();
-  
-  // Handle "Lastname, Firstname" format
-  const parts = cleanName.split(',').map(p => p.trim());
-  
-  if (parts.length >= 2) {
-    const lastName = parts[0];
-    const firstName = parts.slice(1).join(' '); // Handle multiple first names
-    const fullName = `${firstName} ${lastName}`.trim();
-    return { firstName, lastName, fullName };
-  }
-  
-  // Fallback: assume it's already in "Firstname Lastname" format
-  const nameParts = cleanName.split(/\s+/);
-  if (nameParts.length >= 2) {
-    const firstName = nameParts[0];
-    const lastName = nameParts.slice(1).join(' ');
-    return { firstName, lastName, fullName: cleanName };
-  }
-  
-  return { firstName: cleanName, lastName: '', fullName: cleanName };
+interface ImportOptions {
+  force?: boolean;
+  dir?: string;
+  reportPath?: string;
+}
+
+type FieldType = 'text' | 'date' | 'amount' | 'integer';
+
+interface FieldSpec {
+  column: string;
+  names: string[];
+  type: FieldType;
+}
+
+interface LineItemSpec {
+  table: string;
+  fields: FieldSpec[];
+  derived?: string[]; // Columns set by complete() rather than read from the file
+  // Fills values the file can leave out, e.g. a total from its parts; false skips the row
+  complete?: (record: Record<string, any>, cell: (names: string[]) => string) => boolean;
+}
+
+const NAME_COLUMNS = ['Name', 'Member', 'Member Name'];
+const CONSTITUENCY_COLUMNS = ['Constituency', 'Riding', 'Electoral District'];
+
+// A summary file replaces its whole quarter, so it is refused when fewer of its rows than this
+// match an MP (e.g. the mps table is empty or stale because fetch-mps has not run)
+const MIN_SUMMARY_MATCH_SHARE = 0.5;
+
+const SUMMARY_COLUMNS = {
+  staff_salaries: ['Salaries', 'Staff Salaries', 'Employees Salaries'],
+  travel: ['Travel'],
+  hospitality: ['Hospitality'],
+  contracts: ['Contracts'],
+};
+
+const LINE_ITEM_SPECS: Record<Exclude<ExpenseFileKind, 'summary'>, LineItemSpec> = {
+  travel: {
+    table: 'expense_travel_claims',
+    fields: [
+      { column: 'claim_number', names: ['Claim Number', 'Claim No', 'Claim'], type: 'text' },
+      { column: 'traveller_name', names: ['Traveller Name', 'Traveller', 'Name of Traveller'], type: 'text' },
+      { column: 'traveller_type', names: ['Traveller Type', 'Type of Traveller', 'Traveller Category'], type: 'text' },
+      { column: 'purpose', names: ['Purpose of Travel', 'Purpose'], type: 'text' },
+      { column: 'start_date', names: ['Departure Date', 'Start Date', 'Travel Start Date', 'Date'], type: 'date' },
+      { column: 'end_date', names: ['Return Date', 'End Date', 'Travel End Date'], type: 'date' },
+      { column: 'origin', names: ['Departure Point', 'Origin', 'From'], type: 'text' },
+      { column: 'destination', names: ['Destination', 'To'], type: 'text' },
+      { column: 'transportation', names: ['Transportation', 'Transportation Cost'], type: 'amount' },
+      { column: 'accommodation', names: ['Accommodation', 'Accommodation Cost'], type: 'amount' },
+      { column: 'meals_incidentals', names: ['Meals and Incidentals', 'Meals & Incidentals', 'Meals'], type: 'amount' },
+      { column: 'total', names: ['Total', 'Total Cost', 'Amount'], type: 'amount' },
+    ],
+    complete: (record, cell) => {
+      if (!record.traveller_name) {
+        const name = [cell(['Traveller First Name']), cell(['Traveller Last Name'])].filter(Boolean).join(' ');
+        record.traveller_name = name || null;
+      }
+      if (!record.total) {
+        record.total = record.transportation + record.accommodation + record.meals_incidentals;
+      }
+      return true;
+    },
+  },
+  hospitality: {
+    table: 'expense_hospitality_events',
+    fields: [
+      { column: 'claim_number', names: ['Claim Number', 'Claim No', 'Claim'], type: 'text' },
+      { column: 'event_date', names: ['Event Date', 'Date'], type: 'date' },
+      { column: 'location', names: ['Location', 'City'], type: 'text' },
+      { column: 'attendees', names: ['Number of Attendees', 'Attendees'], type: 'integer' },
+      { column: 'purpose', names: ['Purpose of Event', 'Purpose of Hospitality', 'Purpose'], type: 'text' },
+      { column: 'event_type', names: ['Event Type', 'Type of Event', 'Type'], type: 'text' },
+      { column: 'supplier', names: ['Supplier', 'Vendor'], type: 'text' },
+      { column: 'total', names: ['Total', 'Total Cost', 'Amount'], type: 'amount' },
+    ],
+  },
+  contracts: {
+    table: 'expense_contracts',
+    fields: [
+      { column: 'supplier', names: ['Supplier', 'Supplier Name', 'Vendor'], type: 'text' },
+      { column: 'description', names: ['Description', 'Description of Work', 'Description of Goods or Services'], type: 'text' },
+      { column: 'contract_date', names: ['Contract Date', 'Date'], type: 'date' },
+      { column: 'total', names: ['Total', 'Amount', 'Value'], type: 'amount' },
+    ],
+    derived: ['supplier_slug'],
+    complete: (record) => {
+      record.supplier_slug = record.supplier ? getSupplierSlug(record.supplier) : null;
+      return Boolean(record.supplier_slug);
+    },
+  },
+};
+
+function getArgValue(flag: string): string | undefined {
+  const index = process.argv.indexOf(flag);
+  return index >= 0 ? process.argv[index + 1] : undefined;
 }
 
 /**
- * Extract year and quarter from filename like "MembersExpenditures.2026Q1.csv"
+ * Kind and quarter from a filename like "MembersExpenditures.2026Q1.csv" or
+ * "MembersExpenditures.Travel.2026Q1.csv"
  */
-function parseQuarter(filename: string): { year: number; quarter: number; quarterStr: string } | null {
-  const match = filename.match(/\.(\d{4})Q(\d)\.csv$/);
+function parseExpenseFilename(filename: string): ExpenseFile | null {
+  const match = filename.match(/^MembersExpenditures\.(?:(Travel|Hospitality|Contracts)\.)?(\d{4})Q([1-4])\.csv$/i);
   if (!match) {
     return null;
   }
-  
-  const year = parseInt(match[1], 10);
-  const quarter = parseInt(match[2], 10);
-  const quarterStr = `${year}Q${quarter}`;
-  
-  return { year, quarter, quarterStr };
+
+  const year = parseInt(match[2], 10);
+  const quarterNumber = parseInt(match[3], 10);
+  return {
+    filename,
+    kind: (match[1]?.toLowerCase() as ExpenseFileKind | undefined) || 'summary',
+    year,
+    quarterNumber,
+    quarter: `${year}Q${quarterNumber}`,
+  };
 }
 
 /**
- * Find MP in database by name (handles various formats)
+ * ISO date from "2025-04-15" or "2025/04/15"; other formats are kept as written
  */
-function findMP(db: any, csvName: string, constituency: string): { id: number; name: string } | null {
-  const { firstName, lastName, fullName } = parseName(csvName);
-  
-  // Strategy 1: Try exact full name match
-  let mp = db.prepare('SELECT id, name FROM mps WHERE name = ? LIMIT 1').get(fullName) as { id: number; name: string } | undefined;
-  
-  // Strategy 2: Try case-insensitive full name match
-  if (!mp) {
-    mp = db.prepare('SELECT id, name FROM mps WHERE LOWER(name) = LOWER(?) LIMIT 1').get(fullName) as { id: number; name: string } | undefined;
-  }
-  
-  // Strategy 3: Try matching by first and last name (without honorifics)
-  if (!mp && firstName && lastName) {
-    mp = db.prepare(`
-      SELECT id, name FROM mps 
-      WHERE LOWER(TRIM(REPLACE(REPLACE(first_name, 'Hon.', ''), 'Right Hon.', ''))) = LOWER(?)
-        AND LOWER(last_name) = LOWER(?)
-      LIMIT 1
-    `).get(firstName.trim(), lastName) as { id: number; name: string } | undefined;
-  }
-  
-  // Strategy 4: Try matching by last name and district
-  if (!mp && lastName && constituency) {
-    mp = db.prepare(`
-      SELECT id, name FROM mps 
-      WHERE LOWER(last_name) = LOWER(?) AND LOWER(district_name) = LOWER(?)
-      LIMIT 1
-    `).get(lastName, constituency) as { id: number; name: string } | undefined;
-  }
-  
-  // Strategy 5: Try partial name match (handle accents and special characters)
-  if (!mp && lastName) {
-    const allMPs = db.prepare('SELECT id, name, first_name, last_name, district_name FROM mps').all() as Array<{
-      id: number;
-      name: string;
-      first_name: string | null;
-      last_name: string | null;
-      district_name: string;
-    }>;
-    
-    for (const dbMP of allMPs) {
-      const dbLastName = (dbMP.last_name || '').toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
-      const csvLastName = lastName.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
-      
-      if (dbLastName === csvLastName) {
-        // Check if first name matches (loosely)
-        const dbFirstName = (dbMP.first_name || '').toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
-        const csvFirstName = firstName.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
-        
-        if (dbFirstName.includes(csvFirstName) || csvFirstName.includes(dbFirstName) || 
-            (constituency && dbMP.district_name.toLowerCase() === constituency.toLowerCase())) {
-          mp = { id: dbMP.id, name: dbMP.name };
-          break;
-        }
-      }
+function parseDate(value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const match = trimmed.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/);
+  if (!match) return trimmed;
+  return `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+}
+
+function parseField(value: string, type: FieldType): string | number | null {
+  switch (type) {
+    case 'amount':
+      return parseAmount(value);
+    case 'integer': {
+      const parsed = parseInt(value.replace(/[^0-9-]/g, ''), 10);
+      return isNaN(parsed) ? null : parsed;
     }
+    case 'date':
+      return parseDate(value);
+    default:
+      return value.trim() || null;
   }
-  
-  // Strategy 6: Try matching by district only (if name is "Vacant")
-  if (!mp && csvName.toLowerCase().includes('vacant') && constituency) {
-    mp = db.prepare('SELECT id, name FROM mps WHERE LOWER(district_name) = LOWER(?) LIMIT 1')
-      .get(constituency) as { id: number; name: string } | undefined;
-  }
-  
-  return mp || null;
 }
 
 /**
- * Parse CSV file and import expenses
+ * Read a file's rows and match each to an MP. Unmatched and ambiguous rows go to the report.
  */
-async function importExpensesFile(filePath: string, filename: string): Promise<number> {
-  const db = getDatabase();
-  
-  // Check if file already processed
-  const processed = db.prepare('SELECT * FROM processed_expense_files WHERE filename = ?')
-    .get(filename) as { filename: string; processed_at: string; rows_processed: number } | undefined;
-  
-  if (processed) {
-    console.log(`  ⏭️  Skipping ${filename} (already processed on ${processed.processed_at})`);
-    return 0;
+function readMatchedRows(
+  filePath: string,
+  file: ExpenseFile,
+  index: MPNameIndex<MatchableMP>,
+  report: MatchReportEntry[]
+): { header: string[]; rows: Array<{ row: number; fields: string[]; mp: MatchableMP }>; recordCount: number } | null {
+  const [header, ...records] = parseCsv(fs.readFileSync(filePath, 'utf-8'));
+  if (!header || records.length === 0) {
+    console.error(`  ❌ Empty CSV file: ${file.filename}`);
+    return null;
   }
-  
-  const quarterInfo = parseQuarter(filename);
-  if (!quarterInfo) {
-    console.error(`  ❌ Invalid filename format: ${filename}`);
-    return 0;
+
+  const nameIdx = findColumn(header, NAME_COLUMNS);
+  const constituencyIdx = findColumn(header, CONSTITUENCY_COLUMNS);
+  if (nameIdx === -1) {
+    console.error(`  ❌ No member name column in ${file.filename} (header: ${header.join(', ')})`);
+    return null;
   }
-  
-  console.log(`  📄 Processing ${filename} (${quarterInfo.quarterStr})...`);
-  
-  const csvContent = fs.readFileSync(filePath, 'utf-8');
-  const lines = csvContent.split('\n').filter(line => line.trim());
-  
-  if (lines.length < 2) {
-    console.error(`  ❌ Empty or invalid CSV file: ${filename}`);
-    return 0;
+
+  const rows: Array<{ row: number; fields: string[]; mp: MatchableMP }> = [];
+  records.forEach((fields, i) => {
+    const row = i + 1;
+    const name = (fields[nameIdx] || '').trim();
+    const constituency = constituencyIdx === -1 ? '' : (fields[constituencyIdx] || '').trim();
+    const match = matchMP(index, name, constituency);
+
+    if (match.status === 'matched') {
+      rows.push({ row, fields, mp: match.mp });
+    } else if (match.status === 'ambiguous') {
+      report.push({
+        file: file.filename, row, name, constituency, status: 'ambiguous',
+        detail: match.candidates.map((mp) => `${mp.name} (${mp.district_name})`).join('; '),
+      });
+    } else {
+      report.push({ file: file.filename, row, name, constituency, status: 'unmatched', detail: match.reason });
+    }
+  });
+
+  return { header, rows, recordCount: records.length };
+}
+
+async function importSummaryFile(
+  client: PoolClient,
+  file: ExpenseFile,
+  header: string[],
+  rows: Array<{ row: number; fields: string[]; mp: MatchableMP }>,
+  recordCount: number
+): Promise<{ inserted: number; updated: number }> {
+  if (rows.length < recordCount * MIN_SUMMARY_MATCH_SHARE) {
+    throw new Error(
+      `only ${rows.length} of ${recordCount} rows matched an MP; run npm run db:fetch-mps and re-import`
+    );
   }
-  
-  // Parse header
-  const header = lines[0].split(',').map(h => h.trim());
-  const nameIdx = header.indexOf('Name');
-  const constituencyIdx = header.indexOf('Constituency');
-  const caucusIdx = header.indexOf('Caucus');
-  const salariesIdx = header.indexOf('Salaries');
-  const travelIdx = header.indexOf('Travel');
-  const hospitalityIdx = header.indexOf('Hospitality');
-  const contractsIdx = header.indexOf('Contracts');
-  
-  if (nameIdx === -1 || salariesIdx === -1) {
-    console.error(`  ❌ Missing required columns in ${filename}`);
-    return 0;
+
+  const columns = {
+    staff_salaries: findColumn(header, SUMMARY_COLUMNS.staff_salaries),
+    travel: findColumn(header, SUMMARY_COLUMNS.travel),
+    hospitality: findColumn(header, SUMMARY_COLUMNS.hospitality),
+    contracts: findColumn(header, SUMMARY_COLUMNS.contracts),
+  };
+  const amount = (fields: string[], index: number) => (index === -1 ? 0 : parseAmount(fields[index]));
+
+  // An MP listed on more than one row (e.g. after a by-election in the quarter) gets the sum
+  const totals = new Map<number, { staff_salaries: number; travel: number; hospitality: number; contracts: number }>();
+  for (const { fields, mp } of rows) {
+    const total = totals.get(mp.id) || { staff_salaries: 0, travel: 0, hospitality: 0, contracts: 0 };
+    total.staff_salaries += amount(fields, columns.staff_salaries);
+    total.travel += amount(fields, columns.travel);
+    total.hospitality += amount(fields, columns.hospitality);
+    total.contracts += amount(fields, columns.contracts);
+    totals.set(mp.id, total);
   }
-  
-  const insertExpense = db.prepare(`
-    INSERT OR REPLACE INTO mp_expenses (
-      mp_id, quarter, year, quarter_number,
-      staff_salaries, travel, hospitality, contracts,
-      updated_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
-  `);
-  
-  let processedCount = 0;
-  let skippedCount = 0;
-  let errorCount = 0;
-  
-  // Process each row (skip header)
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-    
-    // Parse CSV line (handle quoted fields)
-    const fields: string[] = [];
-    let currentField = '';
-    let inQuotes = false;
-    
-    for (let j = 0; j < line.length; j++) {
-      const char = line[j];
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        fields.push(currentField.trim());
-        currentField = '';
-      } else {
-        currentField += char;
-      }
-    }
-    fields.push(currentField.trim()); // Add last field
-    
-    if (fields.length < Math.max(nameIdx, salariesIdx, travelIdx, hospitalityIdx, contractsIdx) + 1) {
-      skippedCount++;
-      continue;
-    }
-    
-    const csvName = fields[nameIdx] || '';
-    const constituency = fields[constituencyIdx] || '';
-    const caucus = fields[caucusIdx] || '';
-    const salaries = parseFloat(fields[salariesIdx] || '0') || 0;
-    const travel = parseFloat(fields[travelIdx] || '0') || 0;
-    const hospitality = parseFloat(fields[hospitalityIdx] || '0') || 0;
-    const contracts = parseFloat(fields[contractsIdx] || '0') || 0;
-    
-    if (!csvName) {
-      skippedCount++;
-      continue;
-    }
-    
-    // Find MP
-    const mp = findMP(db, csvName, constituency);
-    
-    if (!mp) {
-      console.log(`    ⚠️  Could not find MP: "${csvName}" (${constituency})`);
-      skippedCount++;
+
+  let inserted = 0;
+  let updated = 0;
+  for (const [mpId, total] of Array.from(totals.entries())) {
+    const result = await client.query<{ inserted: boolean }>(`
+      INSERT INTO mp_expenses (
+        mp_id, quarter, year, quarter_number, staff_salaries, travel, hospitality, contracts
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      ON CONFLICT (mp_id, year, quarter_number) DO UPDATE SET
+        quarter = EXCLUDED.quarter,
+        staff_salaries = EXCLUDED.staff_salaries,
+        travel = EXCLUDED.travel,
+        hospitality = EXCLUDED.hospitality,
+        contracts = EXCLUDED.contracts,
+        updated_at = CURRENT_TIMESTAMP
+      RETURNING (xmax = 0) AS inserted
+    `, [
+      mpId,
+      file.quarter,
+      file.year,
+      file.quarterNumber,
+      total.staff_salaries,
+      total.travel,
+      total.hospitality,
+      total.contracts,
+    ]);
+    if (result.rows[0]?.inserted) inserted++;
+    else updated++;
+  }
+
+  // MPs dropped from a corrected file, or no longer matched to an MP
+  await client.query(`
+    DELETE FROM mp_expenses
+    WHERE year = $1 AND quarter_number = $2 AND NOT (mp_id = ANY($3::int[]))
+  `, [file.year, file.quarterNumber, Array.from(totals.keys())]);
+
+  return { inserted, updated };
+}
+
+async function importLineItemFile(
+  client: PoolClient,
+  file: ExpenseFile,
+  spec: LineItemSpec,
+  header: string[],
+  rows: Array<{ row: number; fields: string[]; mp: MatchableMP }>
+): Promise<{ inserted: number; updated: number }> {
+  const indexes = spec.fields.map((field) => findColumn(header, field.names));
+  const columns = [...spec.fields.map((field) => field.column), ...(spec.derived || [])];
+  const placeholders = columns.map((_, i) => `$${i + 5}`);
+  const sql = `
+    INSERT INTO ${spec.table} (
+      mp_id, quarter, year, quarter_number, ${columns.join(', ')}, source_file, source_row
+    )
+    VALUES ($1, $2, $3, $4, ${placeholders.join(', ')}, $${columns.length + 5}, $${columns.length + 6})
+    ON CONFLICT (source_file, source_row) DO UPDATE SET
+      mp_id = EXCLUDED.mp_id,
+      quarter = EXCLUDED.quarter,
+      year = EXCLUDED.year,
+      quarter_number = EXCLUDED.quarter_number,
+      ${columns.map((column) => `${column} = EXCLUDED.${column}`).join(',\n      ')},
+      updated_at = CURRENT_TIMESTAMP
+    RETURNING (xmax = 0) AS inserted
+  `;
+
+  let inserted = 0;
+  let updated = 0;
+  const importedRows: number[] = [];
+
+  for (const { row, fields, mp } of rows) {
+    const record: Record<string, any> = {};
+    spec.fields.forEach((field, i) => {
+      record[field.column] = parseField(indexes[i] === -1 ? '' : fields[indexes[i]] || '', field.type);
+    });
+    const cell = (names: string[]) => {
+      const index = findColumn(header, names);
+      return index === -1 ? '' : (fields[index] || '').trim();
+    };
+    if (spec.complete && !spec.complete(record, cell)) {
       continue;
     }
-    
-    try {
-      insertExpense.run(
-        mp.id,
-        quarterInfo.quarterStr,
-        quarterInfo.year,
-        quarterInfo.quarter,
-        salaries,
-        travel,
-        hospitality,
-        contracts
-      );
-      processedCount++;
-    } catch (error: any) {
-      console.error(`    ❌ Error inserting expense for ${mp.name}:`, error.message);
-      errorCount++;
-    }
+
+    const result = await client.query<{ inserted: boolean }>(sql, [
+      mp.id,
+      file.quarter,
+      file.year,
+      file.quarterNumber,
+      ...columns.map((column) => record[column]),
+      file.filename,
+      row,
+    ]);
+    if (result.rows[0]?.inserted) inserted++;
+    else updated++;
+    importedRows.push(row);
   }
-  
-  // Mark file as processed
-  db.prepare(`
-    INSERT OR REPLACE INTO processed_expense_files (filename, rows_processed, processed_at)
-    VALUES (?, ?, CURRENT_TIMESTAMP)
-  `).run(filename, processedCount);
-  
-  console.log(`  ✅ Processed ${processedCount} expenses (${skippedCount} skipped, ${errorCount} errors)`);
-  
-  return processedCount;
+
+  // Rows dropped from a corrected file, or no longer matched to an MP
+  await client.query(`
+    DELETE FROM ${spec.table}
+    WHERE source_file = $1 AND NOT (source_row = ANY($2::int[]))
+  `, [file.filename, importedRows]);
+
+  return { inserted, updated };
 }
 
-/**
- * Main function to import all expense files
- */
-async function importAllExpenses() {
+function printMatchReport(report: MatchReportEntry[]) {
+  const unmatched = report.filter((entry) => entry.status === 'unmatched');
+  const ambiguous = report.filter((entry) => entry.status === 'ambiguous');
+
+  console.log(`\n=== Match report: ${unmatched.length} unmatched, ${ambiguous.length} ambiguous ===`);
+  for (const entry of unmatched) {
+    console.log(`  ⚠️  ${entry.file} row ${entry.row}: "${entry.name}" (${entry.constituency || 'no constituency'}) - ${entry.detail}`);
+  }
+  for (const entry of ambiguous) {
+    console.log(`  ❓ ${entry.file} row ${entry.row}: "${entry.name}" (${entry.constituency || 'no constituency'}) could be ${entry.detail}`);
+  }
+}
+
+async function importExpenses(options: ImportOptions = {}): Promise<{ inserted: number; updated: number }> {
   console.log('Importing MP Expenses\n===================\n');
-  const db = getDatabase();
-  
-  const expensesDir = path.join(process.cwd(), 'data', 'expenses');
-  
+
+  const expensesDir = options.dir || path.join(process.cwd(), 'data', 'expenses');
   if (!fs.existsSync(expensesDir)) {
-    console.error(`❌ Expenses directory not found: ${expensesDir}`);
-    closeDatabase();
-    return;
+    throw new Error(`Expenses directory not found: ${expensesDir}`);
   }
-  
+
+  // Summary files first, then line items, each in quarter order
+  const kindOrder: ExpenseFileKind[] = ['summary', 'travel', 'hospitality', 'contracts'];
   const files = fs.readdirSync(expensesDir)
-    .filter(file => file.startsWith('MembersExpenditures.') && file.endsWith('.csv'))
-    .sort();
-  
+    .filter((filename) => filename.startsWith('MembersExpenditures.') && filename.endsWith('.csv'))
+    .map((filename) => {
+      const file = parseExpenseFilename(filename);
+      if (!file) console.warn(`  ⚠️  Skipping ${filename}: unrecognised filename`);
+      return file;
+    })
+    .filter((file): file is ExpenseFile => file !== null)
+    .sort((a, b) => kindOrder.indexOf(a.kind) - kindOrder.indexOf(b.kind) || a.quarter.localeCompare(b.quarter));
+
   if (files.length === 0) {
     console.log('No expense files found.');
-    closeDatabase();
-    return;
+    return { inserted: 0, updated: 0 };
   }
-  
   console.log(`Found ${files.length} expense file(s)\n`);
-  
-  let totalProcessed = 0;
-  
+
+  const mps = await queryAll<MatchableMP>('SELECT id, name, first_name, last_name, district_name FROM mps');
+  const index = buildMPNameIndex(mps);
+  const report: MatchReportEntry[] = [];
+
+  let inserted = 0;
+  let updated = 0;
+  let errors = 0;
+
   for (const file of files) {
-    const filePath = path.join(expensesDir, file);
-    const processed = await importExpensesFile(filePath, file);
-    totalProcessed += processed;
-    console.log('');
+    if (!options.force) {
+      const processed = await queryOne<{ processed_at: string }>(
+        'SELECT processed_at FROM processed_expense_files WHERE filename = $1',
+        [file.filename]
+      );
+      if (processed) {
+        console.log(`  ⏭️  Skipping ${file.filename} (already imported on ${processed.processed_at})`);
+        continue;
+      }
+    }
+
+    console.log(`  📄 Importing ${file.filename} (${file.kind}, ${file.quarter})...`);
+    const reportSize = report.length;
+
+    try {
+      const parsed = readMatchedRows(path.join(expensesDir, file.filename), file, index, report);
+      if (!parsed) {
+        errors++;
+        continue;
+      }
+
+      const result = await transaction(async (client) => {
+        const counts = file.kind === 'summary'
+          ? await importSummaryFile(client, file, parsed.header, parsed.rows, parsed.recordCount)
+          : await importLineItemFile(client, file, LINE_ITEM_SPECS[file.kind], parsed.header, parsed.rows);
+
+        await client.query(`
+          INSERT INTO processed_expense_files (filename, rows_processed, processed_at)
+          VALUES ($1, $2, CURRENT_TIMESTAMP)
+          ON CONFLICT (filename) DO UPDATE SET
+            rows_processed = EXCLUDED.rows_processed,
+            processed_at = EXCLUDED.processed_at
+        `, [file.filename, counts.inserted + counts.updated]);
+
+        return counts;
+      });
+
+      inserted += result.inserted;
+      updated += result.updated;
+      console.log(`  ✅ ${result.inserted} inserted, ${result.updated} updated, ${report.length - reportSize} not matched`);
+    } catch (error: any) {
+      errors++;
+      console.error(`  ❌ Error importing ${file.filename}:`, error.message);
+    }
+  }
+
+  printMatchReport(report);
+  if (options.reportPath) {
+    fs.writeFileSync(options.reportPath, JSON.stringify(report, null, 2));
+    console.log(`\nMatch report written to ${options.reportPath}`);
+  }
+
+  console.log('\n✅ Expense import complete!');
+  console.log(`   - Inserted: ${inserted}`);
+  console.log(`   - Updated: ${updated}`);
+  console.log(`   - Errors: ${errors}`);
+
+  return { inserted, updated };
+}
+
+async function main() {
+  try {
+    await importExpenses({
+      force: process.argv.includes('--force'),
+      dir: getArgValue('--dir'),
+      reportPath: getArgValue('--report'),
+    });
+  } catch (error: any) {
+    console.error('Fatal error:', error.message);
+    process.exit(1);
+  } finally {
+    await closeDatabase();
   }
-  
-  console.log('=== Summary ===');
-  console.log(`Total expenses processed: ${totalProcessed}`);
-  console.log(`\n✅ Expense import complete!`);
-  
-  closeDatabase();
 }
 
-importAllExpenses().catch((error) => {
-  console.error('Fatal error:', error);
-  closeDatabase();
-  process.exit(1);
-});
+if (require.main === module) {
+  main();
+}
 
+export { importExpenses };
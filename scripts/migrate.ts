@@ -0,0 +1,94 @@
+import { closeDatabase } from '../lib/db/database';
+import { getMigrationStatus, migrateUp, migrateDown } from '../lib/db/migrate';
+
+/**
+ * Schema migration CLI
+ *
+ * Usage:
+ *   tsx scripts/migrate.ts status        Show applied/pending migrations
+ *   tsx scripts/migrate.ts up [version]  Apply pending migrations (optionally up to a version)
+ *   tsx scripts/migrate.ts down [steps]  Roll back the last N migrations (default 1)
+ */
+
+function formatVersion(version: number): string {
+  return String(version).padStart(3, '0');
+}
+
+async function printStatus() {
+  const statuses = await getMigrationStatus();
+
+  console.log('Schema migrations\n=================\n');
+  for (const status of statuses) {
+    const icon = status.state === 'applied' ? '✓' : status.state === 'pending' ? '·' : '❌';
+    const appliedAt = status.applied_at ? `  (applied ${status.applied_at})` : '';
+    console.log(`${icon} ${formatVersion(status.version)} ${status.name} [${status.state}]${appliedAt}`);
+  }
+
+  const pending = statuses.filter((s) => s.state === 'pending').length;
+  const drifted = statuses.filter((s) => s.state === 'modified' || s.state === 'missing').length;
+  console.log(`\n${statuses.length - pending - drifted} applied, ${pending} pending${drifted > 0 ? `, ${drifted} with checksum problems` : ''}`);
+}
+
+async function runUp(target?: number) {
+  const applied = await migrateUp(target);
+  if (applied.length === 0) {
+    console.log('✓ Schema is up to date');
+    return;
+  }
+  for (const migration of applied) {
+    console.log(`✓ Applied ${formatVersion(migration.version)} ${migration.name}`);
+  }
+  console.log(`\n✅ Applied ${applied.length} migration(s)`);
+}
+
+async function runDown(steps: number) {
+  const rolledBack = await migrateDown(steps);
+  if (rolledBack.length === 0) {
+    console.log('⚠️  Nothing to roll back');
+    return;
+  }
+  for (const migration of rolledBack) {
+    console.log(`✓ Rolled back ${formatVersion(migration.version)} ${migration.name}`);
+  }
+  console.log(`\n✅ Rolled back ${rolledBack.length} migration(s)`);
+}
+
+function parseNumberArg(value: string | undefined, label: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed) || parsed < 0) {
+    throw new Error(`Invalid ${label}: ${value}`);
+  }
+  return parsed;
+}
+
+async function main() {
+  const [command = 'status', arg] = process.argv.slice(2);
+
+  try {
+    switch (command) {
+      case 'status':
+        await printStatus();
+        break;
+      case 'up':
+        await runUp(parseNumberArg(arg, 'target version'));
+        break;
+      case 'down':
+        await runDown(parseNumberArg(arg, 'step count') ?? 1);
+        break;
+      default:
+        throw new Error(`Unknown command "${command}". Use status, up or down.`);
+    }
+  } catch (error: any) {
+    console.error('❌ Migration failed:', error.message);
+    process.exit(1);
+  } finally {
+    await closeDatabase();
+  }
+}
+
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,152 @@
+#!/usr/bin/env tsx
+
+/**
+ * Seed the alignment quiz with curated questions
+ *
+ * Each question names a bill; the division it is scored on is resolved from the stored
+ * ballots - the latest third reading vote on the bill in the current session, or failing
+ * that the latest vote on it in the session at all. Bill numbers restart each session, so
+ * earlier sessions are never searched. Questions whose bill has no recorded division yet
+ * are skipped, so re-run this after the nightly sync to pick up new votes.
+ *
+ * Usage:
+ *   npm run db:seed-alignment-questions
+ */
+
+import { queryOne, closeDatabase } from '../lib/db/database';
+import { getCurrentSessionStartDate } from '../lib/db/sessions';
+
+interface CuratedQuestion {
+  slug: string;
+  billNumber: string;
+  question: string;
+  explanation: string;
+  agreePosition?: 'Yea' | 'Nay'; // defaults to Yea
+}
+
+// Phrased so that agreeing means supporting the bill unless agreePosition says otherwise
+const QUESTIONS: CuratedQuestion[] = [
+  {
+    slug: 'income-tax-cut',
+    billNumber: 'C-4',
+    question: 'The lowest federal income tax rate should be cut, even though it reduces government revenue.',
+    explanation: 'Bill C-4 lowers the rate on the first federal tax bracket along with other affordability measures.',
+  },
+  {
+    slug: 'fast-track-national-projects',
+    billNumber: 'C-5',
+    question: 'The federal government should be able to fast-track approval of major projects it declares to be in the national interest.',
+    explanation: 'Bill C-5 removes federal barriers to internal trade and lets cabinet speed up approvals for designated national-interest projects.',
+  },
+  {
+    slug: 'border-security-powers',
+    billNumber: 'C-2',
+    question: 'Police and border agencies should get new powers to search mail and obtain subscriber information to secure the border.',
+    explanation: 'Bill C-2 expands border, policing and asylum rules in the name of border security.',
+  },
+  {
+    slug: 'citizenship-by-descent',
+    billNumber: 'C-3',
+    question: 'Canadian citizens born abroad should be able to pass citizenship to their children born abroad, if they have lived in Canada for a period of time.',
+    explanation: 'Bill C-3 changes the first-generation limit on citizenship by descent.',
+  },
+  {
+    slug: 'combatting-hate',
+    billNumber: 'C-9',
+    question: 'It should be a specific criminal offence to obstruct access to places of worship or to promote hatred using certain hate symbols.',
+    explanation: 'Bill C-9 creates new hate-related offences in the Criminal Code.',
+  },
+  {
+    slug: 'protect-supply-management',
+    billNumber: 'C-202',
+    question: 'Canada should be barred from offering more access to its dairy, poultry and egg markets in future trade deals.',
+    explanation: 'Bill C-202 prevents trade negotiators from making concessions on supply-managed farm products.',
+  },
+  {
+    slug: 'critical-cyber-systems',
+    billNumber: 'C-8',
+    question: 'Operators of telecom networks and other critical systems should be legally required to meet federal cybersecurity orders.',
+    explanation: 'Bill C-8 lets the government direct telecom providers and regulate cybersecurity for critical infrastructure.',
+  },
+];
+
+async function resolveDivision(billNumber: string, sessionStartDate: string): Promise<string | null> {
+  const division = await queryOne<{ vote_id: string }>(`
+    SELECT vote_id
+    FROM votes
+    WHERE bill_number = $1 AND date >= $2
+    GROUP BY vote_id
+    ORDER BY
+      BOOL_OR(motion_title ILIKE '%3rd reading%' OR motion_title ILIKE '%third reading%') DESC,
+      MAX(date) DESC
+    LIMIT 1
+  `, [billNumber, sessionStartDate]);
+
+  return division?.vote_id || null;
+}
+
+async function seedAlignmentQuestions(): Promise<{ inserted: number; updated: number }> {
+  let inserted = 0;
+  let updated = 0;
+  let skipped = 0;
+
+  const sessionStartDate = await getCurrentSessionStartDate();
+  if (!sessionStartDate) {
+    throw new Error('No current session in the sessions table');
+  }
+
+  for (const [index, question] of QUESTIONS.entries()) {
+    const voteId = await resolveDivision(question.billNumber, sessionStartDate);
+    if (!voteId) {
+      console.warn(`  ⊘ ${question.slug}: no recorded division on ${question.billNumber} this session yet`);
+      skipped++;
+      continue;
+    }
+
+    const result = await queryOne<{ inserted: boolean }>(`
+      INSERT INTO alignment_questions (slug, vote_id, bill_number, question, explanation, agree_position, sort_order)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (slug) DO UPDATE SET
+        vote_id = EXCLUDED.vote_id,
+        bill_number = EXCLUDED.bill_number,
+        question = EXCLUDED.question,
+        explanation = EXCLUDED.explanation,
+        agree_position = EXCLUDED.agree_position,
+        sort_order = EXCLUDED.sort_order,
+        updated_at = CURRENT_TIMESTAMP
+      RETURNING (xmax = 0) AS inserted
+    `, [
+      question.slug,
+      voteId,
+      question.billNumber,
+      question.question,
+      question.explanation,
+      question.agreePosition || 'Yea',
+      index,
+    ]);
+
+    if (result?.inserted) inserted++;
+    else updated++;
+    console.log(`  ✓ ${question.slug}: ${question.billNumber} → ${voteId}`);
+  }
+
+  console.log(`\n✓ Seeded ${inserted + updated} of ${QUESTIONS.length} questions (${inserted} new, ${updated} updated, ${skipped} skipped)`);
+  return { inserted, updated };
+}
+
+async function main() {
+  try {
+    await seedAlignmentQuestions();
+  } catch (error: any) {
+    console.error('Fatal error:', error.message);
+    process.exit(1);
+  } finally {
+    await closeDatabase();
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { seedAlignmentQuestions };
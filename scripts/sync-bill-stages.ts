@@ -0,0 +1,142 @@
+#!/usr/bin/env tsx
+
+/**
+ * Sync bill stages from LEGISinfo
+ *
+ * Fetches each bill's LEGISinfo JSON, stores it in bill_legisinfo and rebuilds the bill's
+ * rows in bill_stages (first reading through royal assent, in both chambers). By default
+ * only bills from the current parliament that have not yet received royal assent are
+ * refreshed - their stages no longer change.
+ *
+ * Usage:
+ *   npm run db:sync-bill-stages            Current parliament, bills still in progress
+ *   npm run db:sync-bill-stages -- --all   Every bill with a session, including past ones
+ */
+
+import { transaction, queryAll, closeDatabase } from '../lib/db/database';
+import { getCurrentSession } from '../lib/db/sessions';
+import { fetchLegisinfoBill, parseLegisinfoStages } from '../lib/api/legisinfo';
+import type { LegisinfoBill } from '../lib/api/legisinfo';
+
+interface SyncBillStagesOptions {
+  all?: boolean;
+}
+
+async function getBillsToSync(all: boolean): Promise<{ bill_number: string; session: string }[]> {
+  if (all) {
+    return queryAll<{ bill_number: string; session: string }>(`
+      SELECT DISTINCT bill_number, session
+      FROM bills_motions
+      WHERE bill_number IS NOT NULL AND session IS NOT NULL
+      ORDER BY session, bill_number
+    `);
+  }
+
+  const current = await getCurrentSession();
+  const sessionPattern = current ? `${current.session_number}-%` : '%';
+
+  return queryAll<{ bill_number: string; session: string }>(`
+    SELECT DISTINCT b.bill_number, b.session
+    FROM bills_motions b
+    WHERE b.bill_number IS NOT NULL
+      AND b.session LIKE $1
+      AND NOT EXISTS (
+        SELECT 1 FROM bill_stages s
+        WHERE s.bill_number = b.bill_number
+          AND s.session = b.session
+          AND s.stage = 'royal-assent'
+          AND s.completed_at IS NOT NULL
+      )
+    ORDER BY b.session, b.bill_number
+  `, [sessionPattern]);
+}
+
+async function saveBillStages(billNumber: string, session: string, data: LegisinfoBill): Promise<boolean> {
+  const stages = parseLegisinfoStages(data, billNumber);
+  const legisinfoId = Number.isInteger(data.BillId) ? data.BillId : null;
+
+  return transaction(async (client) => {
+    const result = await client.query<{ inserted: boolean }>(`
+      INSERT INTO bill_legisinfo (bill_number, session, legisinfo_id, data, fetched_at)
+      VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP)
+      ON CONFLICT (bill_number, session) DO UPDATE SET
+        legisinfo_id = EXCLUDED.legisinfo_id,
+        data = EXCLUDED.data,
+        fetched_at = CURRENT_TIMESTAMP
+      RETURNING (xmax = 0) AS inserted
+    `, [billNumber, session, legisinfoId, JSON.stringify(data)]);
+
+    await client.query('DELETE FROM bill_stages WHERE bill_number = $1 AND session = $2', [billNumber, session]);
+    for (const stage of stages) {
+      await client.query(`
+        INSERT INTO bill_stages (bill_number, session, chamber, stage, stage_name, completed_at, sort_order)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
+      `, [billNumber, session, stage.chamber, stage.stage, stage.stage_name, stage.completed_at, stage.sort_order]);
+    }
+
+    return result.rows[0]?.inserted ?? false;
+  });
+}
+
+/**
+ * Refresh LEGISinfo records and stage timelines; counts are bills, not stage rows
+ */
+async function syncBillStages(options: SyncBillStagesOptions = {}): Promise<{ inserted: number; updated: number }> {
+  console.log('Starting bill stage sync from LEGISinfo...\n');
+
+  const bills = await getBillsToSync(options.all === true);
+  console.log(`Found ${bills.length} bills to refresh\n`);
+
+  let inserted = 0;
+  let updated = 0;
+  let missing = 0;
+  let errors = 0;
+
+  for (const [index, bill] of bills.entries()) {
+    try {
+      const data = await fetchLegisinfoBill(bill.session, bill.bill_number);
+      if (!data) {
+        missing++;
+        continue;
+      }
+
+      if (await saveBillStages(bill.bill_number, bill.session, data)) {
+        inserted++;
+      } else {
+        updated++;
+      }
+    } catch (error: any) {
+      errors++;
+      console.error(`Error syncing stages for ${bill.bill_number} (${bill.session}):`, error.message);
+    }
+
+    if ((index + 1) % 25 === 0) {
+      console.log(`  Processed ${index + 1}/${bills.length} bills... (${inserted} new, ${updated} updated)`);
+    }
+  }
+
+  console.log('\n✅ Bill stage sync complete!');
+  console.log(`   - Inserted: ${inserted}`);
+  console.log(`   - Updated: ${updated}`);
+  console.log(`   - Not on LEGISinfo: ${missing}`);
+  console.log(`   - Errors: ${errors}`);
+
+  return { inserted, updated };
+}
+
+async function main() {
+  try {
+    await syncBillStages({ all: process.argv.includes('--all') });
+  } catch (error: any) {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  } finally {
+    await closeDatabase();
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { syncBillStages };
@@ -0,0 +1,169 @@
+#!/usr/bin/env tsx
+
+/**
+ * Sync bill text versions
+ *
+ * Reads the publication list from each bill's stored LEGISinfo record (run the bill-stages
+ * step first), downloads every published version that is not stored yet and saves its text
+ * and clauses to bill_texts. Versions are identified by their source URL; published versions
+ * never change, so existing ones are skipped unless --refresh is given. After each bill, every
+ * stored version is renumbered from the publication list and versions no longer listed are
+ * deleted, so version numbers stay unique even when a download fails.
+ *
+ * Usage:
+ *   npm run db:sync-bill-texts                 Fetch versions not stored yet
+ *   npm run db:sync-bill-texts -- --refresh    Re-fetch and re-parse every version
+ */
+
+import { transaction, queryAll, closeDatabase } from '../lib/db/database';
+import { parseLegisinfoPublications, fetchBillDocument } from '../lib/api/legisinfo';
+import type { LegisinfoBill, LegisinfoPublication } from '../lib/api/legisinfo';
+import { billDocumentToText, extractBillClauses } from '../lib/utils/bill-text';
+
+interface SyncBillTextsOptions {
+  refresh?: boolean;
+}
+
+async function saveBillText(
+  billNumber: string,
+  session: string,
+  version: { version_number: number; version_name: string; url: string; published_at: string | null },
+  text: string
+): Promise<boolean> {
+  const clauses = extractBillClauses(text);
+
+  return transaction(async (client) => {
+    const result = await client.query<{ inserted: boolean }>(`
+      INSERT INTO bill_texts (bill_number, session, version_number, version_name, source_url, published_at, text, clauses)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      ON CONFLICT (bill_number, session, source_url) DO UPDATE SET
+        version_number = EXCLUDED.version_number,
+        version_name = EXCLUDED.version_name,
+        source_url = EXCLUDED.source_url,
+        published_at = EXCLUDED.published_at,
+        text = EXCLUDED.text,
+        clauses = EXCLUDED.clauses,
+        fetched_at = CURRENT_TIMESTAMP
+      RETURNING (xmax = 0) AS inserted
+    `, [
+      billNumber,
+      session,
+      version.version_number,
+      version.version_name,
+      version.url,
+      version.published_at,
+      text,
+      JSON.stringify(clauses),
+    ]);
+
+    return result.rows[0]?.inserted ?? false;
+  });
+}
+
+/**
+ * Bring a bill's stored versions in line with its publication list: number each one by its
+ * place in the list and delete the ones no longer listed. Returns how many were deleted.
+ */
+async function reconcileBillTexts(billNumber: string, session: string, versions: LegisinfoPublication[]): Promise<number> {
+  return transaction(async (client) => {
+    const removed = await client.query(`
+      DELETE FROM bill_texts
+      WHERE bill_number = $1 AND session = $2 AND NOT (source_url = ANY($3::text[]))
+    `, [billNumber, session, versions.map((version) => version.url)]);
+
+    await client.query(`
+      UPDATE bill_texts t
+      SET version_number = listed.version_number
+      FROM UNNEST($3::text[], $4::int[]) AS listed(source_url, version_number)
+      WHERE t.bill_number = $1 AND t.session = $2
+        AND t.source_url = listed.source_url
+        AND t.version_number <> listed.version_number
+    `, [billNumber, session, versions.map((version) => version.url), versions.map((version) => version.version_number)]);
+
+    return removed.rowCount || 0;
+  });
+}
+
+/**
+ * Download and store bill text versions; counts are versions, not bills
+ */
+async function syncBillTexts(options: SyncBillTextsOptions = {}): Promise<{ inserted: number; updated: number }> {
+  console.log('Starting bill text sync...\n');
+
+  const bills = await queryAll<{ bill_number: string; session: string; data: LegisinfoBill }>(`
+    SELECT bill_number, session, data
+    FROM bill_legisinfo
+    ORDER BY session, bill_number
+  `);
+
+  const stored = await queryAll<{ bill_number: string; session: string; source_url: string }>(`
+    SELECT bill_number, session, source_url FROM bill_texts
+  `);
+  const storedKeys = new Set(stored.map((row) => `${row.bill_number}|${row.session}|${row.source_url}`));
+
+  let inserted = 0;
+  let updated = 0;
+  let removed = 0;
+  let missing = 0;
+  let errors = 0;
+
+  for (const bill of bills) {
+    const versions = parseLegisinfoPublications(bill.data);
+
+    for (const version of versions) {
+      if (!options.refresh && storedKeys.has(`${bill.bill_number}|${bill.session}|${version.url}`)) {
+        continue;
+      }
+
+      try {
+        const document = await fetchBillDocument(version.url);
+        const text = document ? billDocumentToText(document) : '';
+        if (!text) {
+          missing++;
+          continue;
+        }
+
+        if (await saveBillText(bill.bill_number, bill.session, version, text)) {
+          inserted++;
+        } else {
+          updated++;
+        }
+        console.log(`  ✓ ${bill.bill_number} (${bill.session}) v${version.version_number}: ${version.version_name}`);
+      } catch (error: any) {
+        errors++;
+        console.error(`Error syncing text for ${bill.bill_number} (${bill.session}) v${version.version_number}:`, error.message);
+      }
+    }
+
+    // An empty list is more likely a bad record than withdrawn publications, so keep what is stored
+    if (versions.length > 0) {
+      removed += await reconcileBillTexts(bill.bill_number, bill.session, versions);
+    }
+  }
+
+  console.log('\n✅ Bill text sync complete!');
+  console.log(`   - Inserted: ${inserted}`);
+  console.log(`   - Updated: ${updated}`);
+  console.log(`   - Removed (no longer listed): ${removed}`);
+  console.log(`   - Unavailable: ${missing}`);
+  console.log(`   - Errors: ${errors}`);
+
+  return { inserted, updated };
+}
+
+async function main() {
+  try {
+    await syncBillTexts({ refresh: process.argv.includes('--refresh') });
+  } catch (error: any) {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  } finally {
+    await closeDatabase();
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { syncBillTexts };
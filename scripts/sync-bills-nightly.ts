@@ -1,15 +1,9 @@
-import axios from 'axios';
-import * as https from 'https';
 import { transaction, convertPlaceholders, queryExec, queryOne, closeDatabase } from '../lib/db/database';
 import { getCurrentSessionStartDate } from '../lib/db/sessions';
+import { httpGet } from '../lib/api/http-client';
 
 const OPENPARLIAMENT_API_BASE = 'https://api.openparliament.ca';
 
-// Only disable SSL verification in development if explicitly set
-const httpsAgent = new https.Agent({
-  rejectUnauthorized: process.env.NODE_ENV === 'production' || process.env.SSL_REJECT_UNAUTHORIZED !== 'false'
-});
-
 interface OpenParliamentBill {
   session: string;
   legisinfo_id: number;
@@ -74,44 +68,25 @@ async function fetchNewBills(introducedDate?: string): Promise<OpenParliamentBil
   console.log(`Fetching bills introduced on or after ${introducedDate}...`);
 
   while (hasMore) {
-    let retryCount = 0;
-    const maxRetries = 3;
-    let success = false;
-    let response: any = null;
-
-    while (!success && retryCount < maxRetries) {
-      try {
-        const url = `${OPENPARLIAMENT_API_BASE}/bills/`;
-        const params = {
-          introduced__gte: introducedDate,
-          limit,
-          offset,
-        };
-
-        console.log(`Fetching bills (offset: ${offset}, limit: ${limit})...`);
-        
-        response = await axios.get<OpenParliamentResponse>(url, {
-          httpsAgent,
-          params,
-          timeout: 30000,
-        });
-
-        success = true;
-      } catch (error: any) {
-        if (error.response?.status === 429) {
-          retryCount++;
-          const backoffDelay = Math.min(2000 * Math.pow(2, retryCount), 60000);
-          console.warn(`Rate limited (429). Waiting ${backoffDelay/1000}s before retry ${retryCount}/${maxRetries}...`);
-          await new Promise(resolve => setTimeout(resolve, backoffDelay));
-        } else {
-          console.error(`Error fetching bills (offset: ${offset}):`, error.message);
-          throw error;
-        }
-      }
-    }
+    const url = `${OPENPARLIAMENT_API_BASE}/bills/`;
+    const params = {
+      introduced__gte: introducedDate,
+      limit,
+      offset,
+    };
 
-    if (!response) {
-      throw new Error(`Failed to fetch bills after ${maxRetries} retries`);
+    console.log(`Fetching bills (offset: ${offset}, limit: ${limit})...`);
+
+    let response;
+    try {
+      // Retries on 429/5xx are handled by the shared HTTP client
+      response = await httpGet<OpenParliamentResponse>(url, {
+        params,
+        timeout: 30000,
+      });
+    } catch (error: any) {
+      console.error(`Error fetching bills (offset: ${offset}):`, error.message);
+      throw error;
     }
 
     const bills = response.data.objects || [];
@@ -126,10 +101,6 @@ async function fetchNewBills(introducedDate?: string): Promise<OpenParliamentBil
       if (!response.data.pagination?.next_url) {
         hasMore = false;
       }
-
-      if (hasMore) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
     }
   }
 
@@ -187,10 +158,7 @@ async function fetchBillDetails(bill: OpenParliamentBill): Promise<OpenParliamen
   }
 
   try {
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
-    const response = await axios.get<OpenParliamentBill>(`${OPENPARLIAMENT_API_BASE}${bill.url}`, {
-      httpsAgent,
+    const response = await httpGet<OpenParliamentBill>(`${OPENPARLIAMENT_API_BASE}${bill.url}`, {
       timeout: 15000,
     });
 
@@ -338,58 +306,64 @@ async function saveBill(bill: OpenParliamentBill): Promise<{ inserted: boolean;
 }
 
 /**
- * Main function to sync new bills
+ * Sync new bills from OpenParliament
  */
-async function main() {
-  try {
-    console.log('Starting nightly bill sync from OpenParliament...\n');
+async function syncBillsNightly(): Promise<{ inserted: number; updated: number }> {
+  console.log('Starting nightly bill sync from OpenParliament...\n');
 
-    // Fetch new bills (only bills introduced after latest date in DB)
-    const bills = await fetchNewBills();
+  // Fetch new bills (only bills introduced after latest date in DB)
+  const bills = await fetchNewBills();
 
-    if (bills.length === 0) {
-      console.log('No new bills found.');
-      return;
-    }
+  if (bills.length === 0) {
+    console.log('No new bills found.');
+    return { inserted: 0, updated: 0 };
+  }
 
-    console.log(`\nProcessing ${bills.length} new/updated bills...\n`);
-
-    let inserted = 0;
-    let updated = 0;
-    let errors = 0;
-
-    // Process bills in batches
-    const batchSize = 50;
-    for (let i = 0; i < bills.length; i += batchSize) {
-      const batch = bills.slice(i, i + batchSize);
-      
-      for (const bill of batch) {
-        try {
-          const result = await saveBill(bill);
-          if (result.inserted) {
-            inserted++;
-          } else if (result.updated) {
-            updated++;
-          }
-          
-          if ((inserted + updated) % 10 === 0) {
-            console.log(`  Processed ${i + batch.indexOf(bill) + 1}/${bills.length} bills... (${inserted} inserted, ${updated} updated)`);
-          }
-        } catch (error: any) {
-          errors++;
-          console.error(`Error processing bill ${bill.number || bill.legisinfo_id}:`, error.message);
+  console.log(`\nProcessing ${bills.length} new/updated bills...\n`);
+
+  let inserted = 0;
+  let updated = 0;
+  let errors = 0;
+
+  // Process bills in batches
+  const batchSize = 50;
+  for (let i = 0; i < bills.length; i += batchSize) {
+    const batch = bills.slice(i, i + batchSize);
+    
+    for (const bill of batch) {
+      try {
+        const result = await saveBill(bill);
+        if (result.inserted) {
+          inserted++;
+        } else if (result.updated) {
+          updated++;
         }
+        
+        if ((inserted + updated) % 10 === 0) {
+          console.log(`  Processed ${i + batch.indexOf(bill) + 1}/${bills.length} bills... (${inserted} inserted, ${updated} updated)`);
+        }
+      } catch (error: any) {
+        errors++;
+        console.error(`Error processing bill ${bill.number || bill.legisinfo_id}:`, error.message);
       }
+    }
 
-      if (i + batchSize < bills.length) {
-        await new Promise(resolve => setTimeout(resolve, 500));
-      }
+    if (i + batchSize < bills.length) {
+      await new Promise(resolve => setTimeout(resolve, 500));
     }
+  }
+
+  console.log('\n✅ Nightly bill sync complete!');
+  console.log(`   - Inserted: ${inserted}`);
+  console.log(`   - Updated: ${updated}`);
+  console.log(`   - Errors: ${errors}`);
 
-    console.log('\n✅ Nightly bill sync complete!');
-    console.log(`   - Inserted: ${inserted}`);
-    console.log(`   - Updated: ${updated}`);
-    console.log(`   - Errors: ${errors}`);
+  return { inserted, updated };
+}
+
+async function main() {
+  try {
+    await syncBillsNightly();
   } catch (error: any) {
     console.error('Fatal error:', error);
     process.exit(1);
@@ -398,8 +372,8 @@ async function main() {
   }
 }
 
-// Run the script
-main();
-
-
+if (require.main === module) {
+  main();
+}
 
+export { syncBillsNightly };
@@ -1,15 +1,9 @@
-import axios from 'axios';
-import * as https from 'https';
-import { transaction, convertPlaceholders, queryExec, queryOne, closeDatabase } from '../lib/db/database';
+import { transaction, convertPlaceholders, queryOne, closeDatabase } from '../lib/db/database';
 import { getCurrentSessionStartDate, getCurrentSession } from '../lib/db/sessions';
+import { httpGet } from '../lib/api/http-client';
 
 const OPENPARLIAMENT_API_BASE = 'https://api.openparliament.ca';
 
-// Only disable SSL verification in development if explicitly set
-const httpsAgent = new https.Agent({
-  rejectUnauthorized: process.env.NODE_ENV === 'production' || process.env.SSL_REJECT_UNAUTHORIZED !== 'false'
-});
-
 interface OpenParliamentBill {
   session: string;
   legisinfo_id: number;
@@ -39,65 +33,6 @@ interface OpenParliamentResponse {
   };
 }
 
-/**
- * Ensure all required columns exist in bills_motions table
- */
-async function ensureColumnsExist(): Promise<void> {
-  console.log('Checking if required columns exist in bills_motions table...');
-  
-  const columnsToAdd = [
-    { name: 'law', type: 'BOOLEAN' },
-    { name: 'legisinfo_id', type: 'INTEGER' },
-    { name: 'private_member_bill', type: 'BOOLEAN' },
-    { name: 'session', type: 'TEXT' },
-    { name: 'sponsor_politician', type: 'TEXT' },
-    { name: 'sponsor_politician_membership', type: 'TEXT' },
-    { name: 'sponsor_party', type: 'TEXT' },
-    { name: 'status_code', type: 'TEXT' },
-  ];
-
-  for (const column of columnsToAdd) {
-    try {
-      await queryExec(`
-        DO $$ 
-        BEGIN
-          IF NOT EXISTS (
-            SELECT 1 FROM information_schema.columns 
-            WHERE table_name = 'bills_motions' AND column_name = '${column.name}'
-          ) THEN
-            ALTER TABLE bills_motions ADD COLUMN ${column.name} ${column.type};
-            RAISE NOTICE 'Added column ${column.name}';
-          END IF;
-        END $$;
-      `);
-      console.log(`✓ Column '${column.name}' exists or was added`);
-    } catch (error: any) {
-      console.warn(`Error checking/adding column '${column.name}':`, error.message);
-    }
-  }
-
-  // Create indexes
-  try {
-    await queryExec(`
-      CREATE INDEX IF NOT EXISTS idx_bills_motions_legisinfo_id 
-      ON bills_motions(legisinfo_id);
-    `);
-    console.log('✓ Index on legisinfo_id created or already exists');
-  } catch (error: any) {
-    console.warn('Error creating index on legisinfo_id:', error.message);
-  }
-
-  try {
-    await queryExec(`
-      CREATE INDEX IF NOT EXISTS idx_bills_motions_session 
-      ON bills_motions(session);
-    `);
-    console.log('✓ Index on session created or already exists');
-  } catch (error: any) {
-    console.warn('Error creating index on session:', error.message);
-  }
-}
-
 /**
  * Fetch all bills from OpenParliament API with pagination
  * Fetches bills for the current session
@@ -119,54 +54,34 @@ async function fetchAllBills(): Promise<OpenParliamentBill[]> {
   console.log(`Fetching bills for current session ${currentSession.session_number} from OpenParliament...`);
 
   while (hasMore) {
-    let retryCount = 0;
-    const maxRetries = 3;
-    let success = false;
-    let response: any = null;
-
-    while (!success && retryCount < maxRetries) {
-      try {
-        const url = `${OPENPARLIAMENT_API_BASE}/bills/`;
-        const params: any = {
-          limit,
-          offset,
-        };
-        
-        // Filter by session if we have a current session
-        if (currentSession) {
-          // OpenParliament uses session format like "45-1" in the session field
-          // We'll filter by introduced date from session start date
-          const sessionStartDate = await getCurrentSessionStartDate();
-          if (sessionStartDate) {
-            params.introduced__gte = sessionStartDate;
-          }
-        }
-
-        console.log(`Fetching bills (offset: ${offset}, limit: ${limit})...`);
-        
-        response = await axios.get<OpenParliamentResponse>(url, {
-          httpsAgent,
-          params,
-          timeout: 30000,
-        });
-
-        success = true;
-      } catch (error: any) {
-        if (error.response?.status === 429) {
-          // Rate limited - exponential backoff
-          retryCount++;
-          const backoffDelay = Math.min(2000 * Math.pow(2, retryCount), 60000);
-          console.warn(`Rate limited (429). Waiting ${backoffDelay/1000}s before retry ${retryCount}/${maxRetries}...`);
-          await new Promise(resolve => setTimeout(resolve, backoffDelay));
-        } else {
-          console.error(`Error fetching bills (offset: ${offset}):`, error.message);
-          throw error;
-        }
+    const url = `${OPENPARLIAMENT_API_BASE}/bills/`;
+    const params: any = {
+      limit,
+      offset,
+    };
+    
+    // Filter by session if we have a current session
+    if (currentSession) {
+      // OpenParliament uses session format like "45-1" in the session field
+      // We'll filter by introduced date from session start date
+      const sessionStartDate = await getCurrentSessionStartDate();
+      if (sessionStartDate) {
+        params.introduced__gte = sessionStartDate;
       }
     }
 
-    if (!response) {
-      throw new Error(`Failed to fetch bills after ${maxRetries} retries`);
+    console.log(`Fetching bills (offset: ${offset}, limit: ${limit})...`);
+
+    let response;
+    try {
+      // Retries on 429/5xx are handled by the shared HTTP client
+      response = await httpGet<OpenParliamentResponse>(url, {
+        params,
+        timeout: 30000,
+      });
+    } catch (error: any) {
+      console.error(`Error fetching bills (offset: ${offset}):`, error.message);
+      throw error;
     }
 
     const bills = response.data.objects || [];
@@ -182,11 +97,6 @@ async function fetchAllBills(): Promise<OpenParliamentBill[]> {
       if (!response.data.pagination?.next_url) {
         hasMore = false;
       }
-
-      // Delay between requests to avoid rate limiting
-      if (hasMore) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
     }
   }
 
@@ -239,10 +149,7 @@ async function fetchBillDetails(bill: OpenParliamentBill): Promise<OpenParliamen
   // Always fetch full details to get sponsor_politician_url
   // The list endpoint might not include all fields
   try {
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
-    const response = await axios.get<OpenParliamentBill>(`${OPENPARLIAMENT_API_BASE}${bill.url}`, {
-      httpsAgent,
+    const response = await httpGet<OpenParliamentBill>(`${OPENPARLIAMENT_API_BASE}${bill.url}`, {
       timeout: 15000,
     });
 
@@ -252,9 +159,6 @@ async function fetchBillDetails(bill: OpenParliamentBill): Promise<OpenParliamen
       url: bill.url,
     };
   } catch (error: any) {
-    if (error.response?.status === 429) {
-      await new Promise(resolve => setTimeout(resolve, 2000));
-    }
     console.warn(`Could not fetch full details for bill ${bill.number || bill.legisinfo_id}: ${error.message}`);
     return bill;
   }
@@ -519,10 +423,6 @@ async function main() {
   try {
     console.log('Starting one-time bill import from OpenParliament...\n');
 
-    // Ensure all required columns exist
-    await ensureColumnsExist();
-    console.log('');
-
     // Fetch all bills
     const bills = await fetchAllBills();
 
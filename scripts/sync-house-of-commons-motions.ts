@@ -1,17 +1,11 @@
-import axios from 'axios';
-import * as https from 'https';
 import { parseStringPromise } from 'xml2js';
 import { transaction, convertPlaceholders, queryExec, queryAll, closeDatabase } from '../lib/db/database';
 import { getCurrentSession } from '../lib/db/sessions';
+import { httpGet } from '../lib/api/http-client';
 
 const COMMONS_BASE = 'https://www.ourcommons.ca';
 const VOTES_XML_URL = `${COMMONS_BASE}/Members/en/votes/xml`;
 
-// Only disable SSL verification in development if explicitly set
-const httpsAgent = new https.Agent({
-  rejectUnauthorized: process.env.SSL_REJECT_UNAUTHORIZED !== 'false'
-});
-
 interface VoteXML {
   PersonId: string;
   ParliamentNumber: string;
@@ -48,12 +42,10 @@ async function fetchVotesXML(): Promise<string> {
   console.log('Fetching votes XML from House of Commons...');
   console.log(`URL: ${VOTES_XML_URL}`);
 
-  const response = await axios.get(VOTES_XML_URL, {
-    httpsAgent,
+  const response = await httpGet<string>(VOTES_XML_URL, {
     responseType: 'text',
     headers: {
       'Accept': 'application/xml, text/xml',
-      'User-Agent': 'Mozilla/5.0',
     },
     timeout: 30000,
     validateStatus: (status) => status < 500,
@@ -246,7 +238,7 @@ async function saveMotions(motions: Motion[]): Promise<{ inserted: number; skipp
 /**
  * Main sync function
  */
-async function syncHouseOfCommonsMotions() {
+async function syncHouseOfCommonsMotions(): Promise<{ inserted: number; updated: number }> {
   try {
     console.log('Starting House of Commons motions sync...\n');
 
@@ -268,7 +260,7 @@ async function syncHouseOfCommonsMotions() {
 
     if (motions.length === 0) {
       console.log('No motions found. Exiting.');
-      return;
+      return { inserted: 0, updated: 0 };
     }
 
     // Save new motions
@@ -278,6 +270,8 @@ async function syncHouseOfCommonsMotions() {
     console.log(`  Total motions in XML: ${motions.length}`);
     console.log(`  New motions inserted: ${inserted}`);
     console.log(`  Existing motions skipped: ${skipped}`);
+
+    return { inserted, updated: 0 };
   } catch (error: any) {
     console.error('❌ Error syncing motions:', error.message);
     if (error.stack) {
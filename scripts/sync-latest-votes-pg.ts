@@ -7,7 +7,7 @@ import type { Vote } from '@/types';
  * Sync latest votes from OpenParliament API for all MPs (PostgreSQL version)
  * Only fetches votes newer than what's already in the database
  */
-export async function syncLatestVotes() {
+export async function syncLatestVotes(): Promise<{ inserted: number; updated: number }> {
   console.log('Syncing Latest Votes from OpenParliament\n========================================\n');
 
   // Get all MPs
@@ -111,15 +111,17 @@ export async function syncLatestVotes() {
   console.log(`Skipped (duplicates): ${totalSkipped}`);
   console.log(`Errors encountered: ${totalErrors}`);
 
-  await closeDatabase();
+  return { inserted: totalNewVotes, updated: 0 };
 }
 
 // Only run if called directly (not imported)
 if (require.main === module) {
-  syncLatestVotes().catch(error => {
-    console.error('Fatal error:', error);
-    process.exit(1);
-  });
+  syncLatestVotes()
+    .catch(error => {
+      console.error('Fatal error:', error);
+      process.exitCode = 1;
+    })
+    .finally(() => closeDatabase());
 }
 
 
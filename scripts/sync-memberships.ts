@@ -0,0 +1,151 @@
+#!/usr/bin/env tsx
+
+/**
+ * Sync per-parliament MP memberships from ourcommons.ca
+ *
+ * Reads every seat and caucus term on each MP's profile (all parliaments) and stores one
+ * memberships row per riding and party, so floor-crossers and MPs who changed ridings keep
+ * their history. Each membership is tagged with the session in progress when it began,
+ * from the recorded divisions in motions. Memberships that no longer appear on a profile
+ * are removed.
+ *
+ * Usage:
+ *   npm run db:sync-memberships
+ */
+
+import { transaction, queryAll, queryRun, closeDatabase } from '../lib/db/database';
+import { fetchMemberProfileTerms } from '../lib/api/members';
+import { buildMembershipPeriods } from '../lib/utils/memberships';
+import { normalizeToMajorParty } from '../lib/utils/parties';
+
+interface TrackedMP {
+  id: number;
+  name: string;
+  first_name: string | null;
+  last_name: string | null;
+  person_id: string;
+}
+
+async function syncMemberships(): Promise<{ inserted: number; updated: number }> {
+  console.log('Starting membership sync from ourcommons.ca...\n');
+
+  // mps.district_id holds the ourcommons.ca PersonId
+  const mps = await queryAll<TrackedMP>(`
+    SELECT id, name, first_name, last_name, district_id AS person_id
+    FROM mps
+    WHERE district_id ~ '^[0-9]+$'
+    ORDER BY id
+  `);
+  console.log(`Found ${mps.length} MPs with an ourcommons.ca PersonId\n`);
+
+  let inserted = 0;
+  let updated = 0;
+  let errors = 0;
+
+  for (const mp of mps) {
+    try {
+      const [first, ...rest] = mp.name.split(' ');
+      const { seats, caucuses } = await fetchMemberProfileTerms(
+        mp.person_id,
+        mp.first_name || first,
+        mp.last_name || rest.join(' ')
+      );
+      const periods = buildMembershipPeriods(seats, caucuses);
+      if (periods.length === 0) {
+        console.warn(`  ⚠ No seat terms on the profile of ${mp.name} (${mp.person_id})`);
+        continue;
+      }
+
+      await transaction(async (client) => {
+        for (const period of periods) {
+          const result = await client.query<{ inserted: boolean }>(`
+            INSERT INTO memberships (
+              person_id, mp_id, name, party_name, major_party, district_name, province,
+              parliament_number, start_date, end_date
+            )
+            VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+            ON CONFLICT (person_id, start_date) DO UPDATE SET
+              mp_id = EXCLUDED.mp_id,
+              name = EXCLUDED.name,
+              party_name = EXCLUDED.party_name,
+              major_party = EXCLUDED.major_party,
+              district_name = EXCLUDED.district_name,
+              province = EXCLUDED.province,
+              parliament_number = EXCLUDED.parliament_number,
+              end_date = EXCLUDED.end_date,
+              updated_at = CURRENT_TIMESTAMP
+            WHERE (memberships.mp_id, memberships.party_name, memberships.district_name, memberships.end_date)
+              IS DISTINCT FROM (EXCLUDED.mp_id, EXCLUDED.party_name, EXCLUDED.district_name, EXCLUDED.end_date)
+            RETURNING (xmax = 0) AS inserted
+          `, [
+            mp.person_id,
+            mp.id,
+            mp.name,
+            period.partyName,
+            normalizeToMajorParty(period.partyName),
+            period.districtName,
+            period.province,
+            period.parliamentNumber,
+            period.startDate,
+            period.endDate,
+          ]);
+          for (const row of result.rows) {
+            if (row.inserted) inserted++;
+            else updated++;
+          }
+        }
+
+        await client.query(`
+          DELETE FROM memberships
+          WHERE person_id = $1 AND NOT (start_date = ANY($2::date[]))
+        `, [mp.person_id, periods.map((period) => period.startDate)]);
+      });
+
+      console.log(`  ✓ ${mp.name}: ${periods.length} membership(s)`);
+    } catch (error: any) {
+      errors++;
+      console.error(`Error syncing memberships for ${mp.name}:`, error.message);
+    }
+  }
+
+  // The session in progress when each membership began: the session of the last division
+  // held on or before the start date, or the parliament's first session
+  await queryRun(`
+    UPDATE memberships ms
+    SET session_number = COALESCE(
+      (
+        SELECT mo.session_number
+        FROM motions mo
+        WHERE mo.parliament_number = ms.parliament_number AND mo.date::date <= ms.start_date
+        ORDER BY mo.date DESC
+        LIMIT 1
+      ),
+      (SELECT MIN(mo.session_number) FROM motions mo WHERE mo.parliament_number = ms.parliament_number)
+    )
+    WHERE ms.parliament_number IS NOT NULL
+  `);
+
+  console.log('\n✅ Membership sync complete!');
+  console.log(`   - Inserted: ${inserted}`);
+  console.log(`   - Updated: ${updated}`);
+  console.log(`   - Errors: ${errors}`);
+
+  return { inserted, updated };
+}
+
+async function main() {
+  try {
+    await syncMemberships();
+  } catch (error: any) {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  } finally {
+    await closeDatabase();
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { syncMemberships };
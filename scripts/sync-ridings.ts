@@ -0,0 +1,351 @@
+#!/usr/bin/env tsx
+
+/**
+ * Sync federal electoral districts (ridings)
+ *
+ * 1. Seeds electoral_districts from the ridings of current MPs
+ * 2. Adds FED codes, provinces and boundary URLs from the Represent boundary set
+ * 3. Records every MP who has held each seat from the ourcommons.ca member search (all parliaments)
+ * 4. Looks up neighbouring ridings with Represent's "touches" filter
+ * 5. Computes each riding's land area from its Represent boundary shape
+ *
+ * Boundaries only change with a new representation order, so neighbours and areas are
+ * only fetched for ridings that have none yet unless --refresh-neighbours is passed.
+ *
+ * Usage:
+ *   npm run db:sync-ridings
+ *   npm run db:sync-ridings -- --refresh-neighbours
+ */
+
+import { parseStringPromise } from 'xml2js';
+import { transaction, queryAll, queryRun, closeDatabase } from '../lib/db/database';
+import { httpGet } from '../lib/api/http-client';
+import { getRidingSlug, getProvinceFromFedCode, getMultiPolygonAreaKm2 } from '../lib/utils/ridings';
+
+const COMMONS_BASE = 'https://www.ourcommons.ca';
+const REPRESENT_API_BASE = 'https://represent.opennorth.ca';
+const BOUNDARY_SET = 'federal-electoral-districts-2023-representation-order';
+
+interface RepresentBoundary {
+  url: string;
+  name: string;
+  external_id?: string;
+}
+
+interface RepresentBoundaryList {
+  objects: RepresentBoundary[];
+}
+
+interface RepresentShape {
+  type: string;
+  coordinates: number[][][][];
+}
+
+interface MemberTerm {
+  personId: string;
+  name: string;
+  partyName: string | null;
+  constituencyName: string;
+  province: string | null;
+  fromDate: string;
+  toDate: string | null;
+}
+
+function getValue(field: any): string {
+  if (Array.isArray(field)) {
+    return field[0] || '';
+  }
+  if (typeof field === 'string') {
+    return field;
+  }
+  if (field && typeof field === 'object' && field._) {
+    return field._ || '';
+  }
+  return '';
+}
+
+// ourcommons.ca dates look like "2021-09-20T00:00:00"; nil dates come back as attribute-only objects
+function toDate(field: any): string | null {
+  const value = getValue(field);
+  return /^\d{4}-\d{2}-\d{2}/.test(value) ? value.substring(0, 10) : null;
+}
+
+/**
+ * Fetch every riding in the current representation order from Represent
+ */
+async function fetchBoundaries(): Promise<RepresentBoundary[]> {
+  const url = `${REPRESENT_API_BASE}/boundaries/${BOUNDARY_SET}/`;
+  console.log(`Fetching ridings from ${url}`);
+
+  const response = await httpGet<RepresentBoundaryList>(url, {
+    params: { limit: 1000 },
+    timeout: 30000,
+  });
+
+  return response.data.objects || [];
+}
+
+/**
+ * Fetch the ridings that share a border with the given boundary
+ */
+async function fetchNeighbours(boundaryUrl: string): Promise<RepresentBoundary[]> {
+  // boundary_url is "/boundaries/<set>/<slug>/"; the touches filter takes "<set>/<slug>"
+  const path = boundaryUrl.replace(/^\/boundaries\//, '').replace(/\/$/, '');
+
+  const response = await httpGet<RepresentBoundaryList>(`${REPRESENT_API_BASE}/boundaries/${BOUNDARY_SET}/`, {
+    params: { touches: path, limit: 100 },
+    timeout: 15000,
+  });
+
+  return (response.data.objects || []).filter((boundary) => boundary.url !== boundaryUrl);
+}
+
+/**
+ * Fetch the simplified boundary shape (GeoJSON MultiPolygon) of a riding
+ */
+async function fetchBoundaryShape(boundaryUrl: string): Promise<RepresentShape> {
+  const response = await httpGet<RepresentShape>(`${REPRESENT_API_BASE}${boundaryUrl}simple_shape`, {
+    timeout: 30000,
+  });
+  return response.data;
+}
+
+/**
+ * Fetch every member term (all parliaments) from the ourcommons.ca member search
+ */
+async function fetchMemberTerms(): Promise<MemberTerm[]> {
+  const url = `${COMMONS_BASE}/Members/en/search/XML`;
+  console.log(`Fetching members of all parliaments from ${url}`);
+
+  const response = await httpGet<string>(url, {
+    params: { parliament: 'all' },
+    responseType: 'text',
+    headers: {
+      'Accept': 'application/xml, text/xml',
+    },
+    timeout: 60000,
+    validateStatus: (status) => status < 500,
+  });
+
+  if (response.status !== 200) {
+    throw new Error(`Failed to fetch members XML: HTTP ${response.status}`);
+  }
+
+  if (response.data.trim().startsWith('<!DOCTYPE') || response.data.trim().startsWith('<html')) {
+    throw new Error('Received HTML instead of XML. The XML endpoint may have changed.');
+  }
+
+  const result = await parseStringPromise(response.data, {
+    trim: true,
+    explicitArray: false,
+    explicitRoot: false,
+  });
+
+  const memberList = result?.MemberOfParliament || result?.ArrayOfMemberOfParliament?.MemberOfParliament || [];
+  const members: any[] = Array.isArray(memberList) ? memberList : [memberList];
+
+  const terms: MemberTerm[] = [];
+  for (const member of members) {
+    const personId = getValue(member.PersonId);
+    const constituencyName = getValue(member.ConstituencyName);
+    const fromDate = toDate(member.FromDateTime);
+    if (!personId || !constituencyName || !fromDate) {
+      continue;
+    }
+
+    const honorific = getValue(member.PersonShortHonorific);
+    const name = `${honorific} ${getValue(member.PersonOfficialFirstName)} ${getValue(member.PersonOfficialLastName)}`.trim();
+
+    terms.push({
+      personId,
+      name,
+      partyName: getValue(member.CaucusShortName) || null,
+      constituencyName,
+      province: getValue(member.ConstituencyProvinceTerritoryName) || null,
+      fromDate,
+      toDate: toDate(member.ToDateTime),
+    });
+  }
+
+  return terms;
+}
+
+async function syncRidings(options: { refreshNeighbours?: boolean } = {}): Promise<{ inserted: number; updated: number }> {
+  try {
+    console.log('Starting riding sync...\n');
+
+    let inserted = 0;
+    let updated = 0;
+
+    // 1. Every riding that currently has an MP
+    const currentRidings = await queryAll<{ district_name: string }>(`
+      SELECT DISTINCT district_name FROM mps WHERE district_name IS NOT NULL AND district_name != ''
+    `);
+
+    // 2. FED codes, provinces and boundaries from Represent
+    let boundaries: RepresentBoundary[] = [];
+    try {
+      boundaries = await fetchBoundaries();
+      console.log(`  Found ${boundaries.length} ridings on Represent`);
+    } catch (error: any) {
+      console.warn(`  ⚠ Could not fetch ridings from Represent: ${error.message}`);
+    }
+
+    await transaction(async (client) => {
+      for (const { district_name } of currentRidings) {
+        const result = await client.query(`
+          INSERT INTO electoral_districts (name, slug)
+          VALUES ($1, $2)
+          ON CONFLICT (slug) DO NOTHING
+        `, [district_name, getRidingSlug(district_name)]);
+        inserted += result.rowCount || 0;
+      }
+
+      for (const boundary of boundaries) {
+        const fedCode = boundary.external_id || null;
+        const result = await client.query<{ inserted: boolean }>(`
+          INSERT INTO electoral_districts (name, slug, fed_code, province, boundary_url)
+          VALUES ($1, $2, $3, $4, $5)
+          ON CONFLICT (slug) DO UPDATE SET
+            fed_code = EXCLUDED.fed_code,
+            province = COALESCE(EXCLUDED.province, electoral_districts.province),
+            boundary_url = EXCLUDED.boundary_url,
+            updated_at = CURRENT_TIMESTAMP
+          WHERE electoral_districts.fed_code IS DISTINCT FROM EXCLUDED.fed_code
+             OR electoral_districts.boundary_url IS DISTINCT FROM EXCLUDED.boundary_url
+          RETURNING (xmax = 0) AS inserted
+        `, [boundary.name, getRidingSlug(boundary.name), fedCode, getProvinceFromFedCode(fedCode), boundary.url]);
+        for (const row of result.rows) {
+          if (row.inserted) inserted++;
+          else updated++;
+        }
+      }
+    });
+
+    const districts = await queryAll<{ id: number; slug: string; boundary_url: string | null; area_km2: number | null; neighbours: number }>(`
+      SELECT d.id, d.slug, d.boundary_url, d.area_km2, COUNT(n.neighbour_id)::int AS neighbours
+      FROM electoral_districts d
+      LEFT JOIN electoral_district_neighbours n ON n.district_id = d.id
+      GROUP BY d.id, d.slug, d.boundary_url, d.area_km2
+    `);
+    const districtIdsBySlug = new Map(districts.map((d) => [d.slug, d.id]));
+    const districtIdsByUrl = new Map(districts.filter((d) => d.boundary_url).map((d) => [d.boundary_url!, d.id]));
+    console.log(`  ${districts.length} ridings in the database`);
+
+    // 3. Everyone who has held a current riding (terms in abolished ridings are skipped)
+    const terms = await fetchMemberTerms();
+    let unmatched = 0;
+    await transaction(async (client) => {
+      for (const term of terms) {
+        const districtId = districtIdsBySlug.get(getRidingSlug(term.constituencyName));
+        if (!districtId) {
+          unmatched++;
+          continue;
+        }
+
+        const result = await client.query<{ inserted: boolean }>(`
+          INSERT INTO electoral_district_representatives (district_id, person_id, name, party_name, from_date, to_date)
+          VALUES ($1, $2, $3, $4, $5, $6)
+          ON CONFLICT (district_id, person_id, from_date) DO UPDATE SET
+            name = EXCLUDED.name,
+            party_name = EXCLUDED.party_name,
+            to_date = EXCLUDED.to_date
+          WHERE electoral_district_representatives.party_name IS DISTINCT FROM EXCLUDED.party_name
+             OR electoral_district_representatives.to_date IS DISTINCT FROM EXCLUDED.to_date
+          RETURNING (xmax = 0) AS inserted
+        `, [districtId, term.personId, term.name, term.partyName, term.fromDate, term.toDate]);
+        for (const row of result.rows) {
+          if (row.inserted) inserted++;
+          else updated++;
+        }
+
+        if (term.province) {
+          await client.query(
+            'UPDATE electoral_districts SET province = $1 WHERE id = $2 AND province IS NULL',
+            [term.province, districtId]
+          );
+        }
+      }
+    });
+    console.log(`  ${terms.length} member terms fetched, ${unmatched} in ridings that no longer exist`);
+
+    // 4. Neighbouring ridings
+    const needNeighbours = districts.filter((d) => d.boundary_url && (options.refreshNeighbours || d.neighbours === 0));
+    console.log(`  Fetching neighbours for ${needNeighbours.length} ridings...`);
+    let processed = 0;
+    for (const district of needNeighbours) {
+      processed++;
+      if (processed % 25 === 0) {
+        console.log(`  Neighbours ${processed}/${needNeighbours.length}...`);
+      }
+
+      try {
+        const neighbours = await fetchNeighbours(district.boundary_url!);
+        const neighbourIds = neighbours
+          .map((boundary) => districtIdsByUrl.get(boundary.url))
+          .filter((id): id is number => id !== undefined);
+
+        await transaction(async (client) => {
+          await client.query('DELETE FROM electoral_district_neighbours WHERE district_id = $1', [district.id]);
+          for (const neighbourId of neighbourIds) {
+            await client.query(`
+              INSERT INTO electoral_district_neighbours (district_id, neighbour_id)
+              VALUES ($1, $2)
+              ON CONFLICT DO NOTHING
+            `, [district.id, neighbourId]);
+          }
+        });
+      } catch (error: any) {
+        console.warn(`  ⚠ Could not fetch neighbours for ${district.slug}: ${error.message}`);
+      }
+    }
+
+    // 5. Riding areas
+    const needArea = districts.filter((d) => d.boundary_url && (options.refreshNeighbours || d.area_km2 === null));
+    console.log(`  Computing areas for ${needArea.length} ridings...`);
+    for (const district of needArea) {
+      try {
+        const shape = await fetchBoundaryShape(district.boundary_url!);
+        if (shape?.type !== 'MultiPolygon' || !Array.isArray(shape.coordinates)) {
+          continue;
+        }
+        await queryRun(
+          'UPDATE electoral_districts SET area_km2 = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+          [Math.round(getMultiPolygonAreaKm2(shape.coordinates) * 10) / 10, district.id]
+        );
+        updated++;
+      } catch (error: any) {
+        console.warn(`  ⚠ Could not fetch the boundary shape for ${district.slug}: ${error.message}`);
+      }
+    }
+
+    console.log('\n✓ Riding sync complete!');
+    console.log(`  Rows inserted: ${inserted}`);
+    console.log(`  Rows updated: ${updated}`);
+
+    return { inserted, updated };
+  } catch (error: any) {
+    console.error('❌ Error syncing ridings:', error.message);
+    if (error.stack) {
+      console.error(error.stack);
+    }
+    throw error;
+  }
+}
+
+async function main() {
+  try {
+    await syncRidings({ refreshNeighbours: process.argv.includes('--refresh-neighbours') });
+  } catch (error: any) {
+    console.error('Fatal error:', error.message);
+    process.exit(1);
+  } finally {
+    await closeDatabase();
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { syncRidings };
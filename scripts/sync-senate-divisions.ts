@@ -0,0 +1,156 @@
+#!/usr/bin/env tsx
+
+/**
+ * Sync Senate recorded divisions from sencanada.ca
+ *
+ * Stores every division of the current parliament's sessions with its subject, linked
+ * bill and totals, plus each senator's ballot. Ballots are only fetched for divisions
+ * that have none yet unless --refresh is given; senators missing from the senators
+ * table (sync-senators only lists sitting senators) are added as inactive.
+ *
+ * Usage:
+ *   npm run db:sync-senate-divisions
+ *   npm run db:sync-senate-divisions -- --session 44-1
+ *   npm run db:sync-senate-divisions -- --refresh
+ */
+
+import { transaction, queryAll, closeDatabase } from '../lib/db/database';
+import { getCurrentSession } from '../lib/db/sessions';
+import { fetchSenateDivisions, fetchSenateDivisionBallots, SenateBallot } from '../lib/api/senate';
+
+interface SyncSenateDivisionsOptions {
+  session?: string;
+  refresh?: boolean;
+}
+
+async function getSessionsToSync(session?: string): Promise<string[]> {
+  if (session) {
+    return [session];
+  }
+
+  const current = await getCurrentSession();
+  if (!current) {
+    throw new Error('No current session found');
+  }
+
+  const rows = await queryAll<{ session: string }>(`
+    SELECT DISTINCT session
+    FROM bills_motions
+    WHERE session LIKE $1
+    ORDER BY session
+  `, [`${current.session_number}-%`]);
+
+  return rows.length > 0 ? rows.map((row) => row.session) : [`${current.session_number}-1`];
+}
+
+async function saveBallots(divisionId: number, ballots: SenateBallot[]): Promise<void> {
+  await transaction(async (client) => {
+    await client.query('DELETE FROM senate_votes WHERE division_id = $1', [divisionId]);
+
+    for (const ballot of ballots) {
+      const senator = await client.query<{ id: number }>(`
+        INSERT INTO senators (senate_id, name, url, active)
+        VALUES ($1, $2, $3, false)
+        ON CONFLICT (senate_id) DO UPDATE SET senate_id = EXCLUDED.senate_id
+        RETURNING id
+      `, [ballot.senate_id, ballot.name, `https://sencanada.ca/en/senators/${ballot.senate_id}/`]);
+
+      await client.query(`
+        INSERT INTO senate_votes (division_id, senator_id, vote_type)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (division_id, senator_id) DO UPDATE SET vote_type = EXCLUDED.vote_type
+      `, [divisionId, senator.rows[0].id, ballot.vote_type]);
+    }
+  });
+}
+
+async function syncSenateDivisions(options: SyncSenateDivisionsOptions = {}): Promise<{ inserted: number; updated: number }> {
+  console.log('Starting Senate division sync from sencanada.ca...\n');
+
+  let inserted = 0;
+  let updated = 0;
+  let errors = 0;
+
+  for (const session of await getSessionsToSync(options.session)) {
+    const divisions = await fetchSenateDivisions(session);
+    console.log(`Session ${session}: ${divisions.length} divisions`);
+
+    for (const division of divisions) {
+      try {
+        const rows = await queryAll<{ id: number; inserted: boolean; ballots: number }>(`
+          INSERT INTO senate_divisions (
+            division_id, session, date, description, bill_number, result, yeas, nays, abstentions, url
+          )
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+          ON CONFLICT (division_id) DO UPDATE SET
+            session = EXCLUDED.session,
+            date = EXCLUDED.date,
+            description = EXCLUDED.description,
+            bill_number = EXCLUDED.bill_number,
+            result = EXCLUDED.result,
+            yeas = EXCLUDED.yeas,
+            nays = EXCLUDED.nays,
+            abstentions = EXCLUDED.abstentions,
+            url = EXCLUDED.url,
+            updated_at = CURRENT_TIMESTAMP
+          RETURNING id, (xmax = 0) AS inserted,
+            (SELECT COUNT(*)::int FROM senate_votes WHERE division_id = senate_divisions.id) AS ballots
+        `, [
+          division.division_id,
+          division.session,
+          division.date,
+          division.description,
+          division.bill_number,
+          division.result,
+          division.yeas,
+          division.nays,
+          division.abstentions,
+          division.url,
+        ]);
+        const row = rows[0];
+
+        if (row.inserted) inserted++;
+        else updated++;
+
+        if (options.refresh || row.ballots === 0) {
+          const ballots = await fetchSenateDivisionBallots(division);
+          await saveBallots(row.id, ballots);
+          console.log(`  ✓ ${division.division_id}: ${division.description} (${ballots.length} ballots)`);
+        }
+      } catch (error: any) {
+        errors++;
+        console.error(`Error syncing Senate division ${division.division_id}:`, error.message);
+      }
+    }
+  }
+
+  console.log('\n✅ Senate division sync complete!');
+  console.log(`   - Inserted: ${inserted}`);
+  console.log(`   - Updated: ${updated}`);
+  console.log(`   - Errors: ${errors}`);
+
+  return { inserted, updated };
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const sessionIndex = args.indexOf('--session');
+
+  try {
+    await syncSenateDivisions({
+      session: sessionIndex >= 0 ? args[sessionIndex + 1] : undefined,
+      refresh: args.includes('--refresh'),
+    });
+  } catch (error: any) {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  } finally {
+    await closeDatabase();
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { syncSenateDivisions };
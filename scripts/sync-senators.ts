@@ -0,0 +1,97 @@
+#!/usr/bin/env tsx
+
+/**
+ * Sync senators from sencanada.ca
+ *
+ * Upserts every sitting senator from the senators list and marks senators who are no
+ * longer listed (retired or resigned) as inactive. Their votes are kept.
+ *
+ * Usage:
+ *   npm run db:sync-senators
+ */
+
+import { transaction, closeDatabase } from '../lib/db/database';
+import { fetchSenators } from '../lib/api/senate';
+
+async function syncSenators(): Promise<{ inserted: number; updated: number }> {
+  console.log('Starting senator sync from sencanada.ca...\n');
+
+  const senators = await fetchSenators();
+  if (senators.length === 0) {
+    // An empty list means the page layout changed, not that the Senate is empty
+    throw new Error('No senators found on the senators list page');
+  }
+  console.log(`Found ${senators.length} sitting senators\n`);
+
+  const result = await transaction(async (client) => {
+    let inserted = 0;
+    let updated = 0;
+
+    for (const senator of senators) {
+      const row = await client.query<{ inserted: boolean }>(`
+        INSERT INTO senators (
+          senate_id, name, first_name, last_name, affiliation, province,
+          appointed_date, retirement_date, url, active
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, true)
+        ON CONFLICT (senate_id) DO UPDATE SET
+          name = EXCLUDED.name,
+          first_name = EXCLUDED.first_name,
+          last_name = EXCLUDED.last_name,
+          affiliation = EXCLUDED.affiliation,
+          province = EXCLUDED.province,
+          appointed_date = EXCLUDED.appointed_date,
+          retirement_date = EXCLUDED.retirement_date,
+          url = EXCLUDED.url,
+          active = true,
+          updated_at = CURRENT_TIMESTAMP
+        RETURNING (xmax = 0) AS inserted
+      `, [
+        senator.senate_id,
+        senator.name,
+        senator.first_name,
+        senator.last_name,
+        senator.affiliation,
+        senator.province,
+        senator.appointed_date,
+        senator.retirement_date,
+        senator.url,
+      ]);
+
+      if (row.rows[0]?.inserted) inserted++;
+      else updated++;
+    }
+
+    const departed = await client.query(`
+      UPDATE senators
+      SET active = false, updated_at = CURRENT_TIMESTAMP
+      WHERE active AND NOT (senate_id = ANY($1::text[]))
+    `, [senators.map((senator) => senator.senate_id)]);
+
+    console.log(`   - No longer sitting: ${departed.rowCount ?? 0}`);
+    return { inserted, updated };
+  });
+
+  console.log('\n✅ Senator sync complete!');
+  console.log(`   - Inserted: ${result.inserted}`);
+  console.log(`   - Updated: ${result.updated}`);
+
+  return result;
+}
+
+async function main() {
+  try {
+    await syncSenators();
+  } catch (error: any) {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  } finally {
+    await closeDatabase();
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { syncSenators };
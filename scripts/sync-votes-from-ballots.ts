@@ -1,18 +1,12 @@
-import axios from 'axios';
-import * as https from 'https';
 import { transaction, convertPlaceholders, queryOne, queryAll, closeDatabase } from '../lib/db/database';
 import { saveNewVotesToDB } from '../lib/db/save-votes';
 import type { Vote } from '@/types';
 import { cacheVoteDetails, getCachedVoteDetails } from '../lib/api/openparliament-cache';
 import { getCurrentSessionStartDate } from '../lib/db/sessions';
+import { httpGet } from '../lib/api/http-client';
 
 const OPENPARLIAMENT_API_BASE = 'https://api.openparliament.ca';
 
-// Only disable SSL verification in development if explicitly set
-const httpsAgent = new https.Agent({
-  rejectUnauthorized: process.env.NODE_ENV === 'production' || process.env.SSL_REJECT_UNAUTHORIZED !== 'false'
-});
-
 interface Ballot {
   vote_url: string;
   politician_url: string;
@@ -213,8 +207,7 @@ async function getVoteDetails(voteUrl: string): Promise<VoteDetails | null> {
   
   // Fetch from API
   try {
-    const response = await axios.get<VoteDetails>(`${OPENPARLIAMENT_API_BASE}${voteUrl}`, {
-      httpsAgent,
+    const response = await httpGet<VoteDetails>(`${OPENPARLIAMENT_API_BASE}${voteUrl}`, {
       timeout: 15000,
     });
     
@@ -276,8 +269,7 @@ async function getBillInfoFromVote(voteDetails: VoteDetails): Promise<BillInfo |
       }
       
       // Fetch bill details
-      const response = await axios.get(`${OPENPARLIAMENT_API_BASE}${voteDetails.bill_url}`, {
-        httpsAgent,
+      const response = await httpGet(`${OPENPARLIAMENT_API_BASE}${voteDetails.bill_url}`, {
         timeout: 15000,
       });
       
@@ -325,59 +317,29 @@ async function fetchAllBallots(limit: number = 5000, minDate?: string): Promise<
   console.log(`Fetching all ballots from OpenParliament (votes from ${minDate} onwards)...`);
 
   while (hasMore && allBallots.length < limit) {
-    let retryCount = 0;
-    const maxRetries = 3;
-    let success = false;
-    let response: any = null;
+    const url = `${OPENPARLIAMENT_API_BASE}/votes/ballots/`;
+    const params = {
+      limit: batchSize,
+      offset,
+    };
 
-    while (!success && retryCount < maxRetries) {
-      try {
-        const url = `${OPENPARLIAMENT_API_BASE}/votes/ballots/`;
-        const params: any = {
-          limit: batchSize,
-          offset,
-        };
-
-        // Note: The ballots endpoint might not support date filtering directly
-        // We'll filter by date after fetching vote details
-        console.log(`Fetching ballots (offset: ${offset}, limit: ${batchSize})...`);
-        
-        response = await axios.get<BallotResponse>(url, {
-          httpsAgent,
-          params,
-          timeout: 60000, // Increased timeout to 60 seconds
-        });
+    // Note: The ballots endpoint might not support date filtering directly
+    // We'll filter by date after fetching vote details
+    console.log(`Fetching ballots (offset: ${offset}, limit: ${batchSize})...`);
 
-        success = true;
-      } catch (error: any) {
-        if (error.response?.status === 429) {
-          // Rate limited - exponential backoff
-          retryCount++;
-          const backoffDelay = Math.min(2000 * Math.pow(2, retryCount), 60000);
-          console.warn(`Rate limited (429). Waiting ${backoffDelay/1000}s before retry ${retryCount}/${maxRetries}...`);
-          await new Promise(resolve => setTimeout(resolve, backoffDelay));
-        } else if (error.code === 'ECONNABORTED' || error.message?.includes('timeout')) {
-          // Timeout - retry with backoff
-          retryCount++;
-          const backoffDelay = Math.min(2000 * Math.pow(2, retryCount), 30000);
-          console.warn(`Timeout fetching ballots (offset: ${offset}). Retrying (${retryCount}/${maxRetries}) after ${backoffDelay/1000}s...`);
-          await new Promise(resolve => setTimeout(resolve, backoffDelay));
-        } else {
-          // Other error - log and break (we'll process what we have)
-          console.warn(`Error fetching ballots (offset: ${offset}): ${error.message}. Continuing with ${allBallots.length} ballots fetched so far...`);
-          hasMore = false;
-          break;
-        }
+    let response;
+    try {
+      // Retries on 429/5xx and timeouts are handled by the shared HTTP client
+      response = await httpGet<BallotResponse>(url, {
+        params,
+        timeout: 60000,
+      });
+    } catch (error: any) {
+      if (allBallots.length === 0) {
+        throw new Error(`Failed to fetch ballots: ${error.message}`);
       }
-    }
-
-    if (!response && allBallots.length === 0) {
-      throw new Error(`Failed to fetch ballots after ${maxRetries} retries`);
-    }
-    
-    if (!response) {
       // We have some ballots, continue with what we have
-      hasMore = false;
+      console.warn(`Error fetching ballots (offset: ${offset}): ${error.message}. Continuing with ${allBallots.length} ballots fetched so far...`);
       break;
     }
 
@@ -394,11 +356,6 @@ async function fetchAllBallots(limit: number = 5000, minDate?: string): Promise<
       if (!response.data.pagination?.next_url) {
         hasMore = false;
       }
-
-      // Delay between requests to avoid rate limiting
-      if (hasMore) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
     }
   }
 
@@ -499,8 +456,7 @@ async function processBallots(ballots: Ballot[], minDate?: string): Promise<void
             
             if (!billData) {
               // Fetch bill details to get sponsor
-              const billResponse = await axios.get(`${OPENPARLIAMENT_API_BASE}${voteDetails.bill_url}`, {
-                httpsAgent,
+              const billResponse = await httpGet(`${OPENPARLIAMENT_API_BASE}${voteDetails.bill_url}`, {
                 timeout: 15000,
               });
               billData = billResponse.data;
@@ -516,9 +472,9 @@ async function processBallots(ballots: Ballot[], minDate?: string): Promise<void
                 let membershipData = cachedMembership;
                 
                 if (!membershipData) {
-                  const membershipResponse = await axios.get(
+                  const membershipResponse = await httpGet(
                     `${OPENPARLIAMENT_API_BASE}${billData.sponsor_politician_membership_url}`,
-                    { httpsAgent, timeout: 10000 }
+                    { timeout: 10000 }
                   );
                   membershipData = membershipResponse.data;
                   // Cache the membership data
@@ -580,11 +536,6 @@ async function processBallots(ballots: Ballot[], minDate?: string): Promise<void
         console.error(`Error processing vote ${voteUrl}:`, error.message);
       }
     }));
-
-    // Delay between batches
-    if (i + batchSize < voteUrls.length) {
-      await new Promise(resolve => setTimeout(resolve, 1000));
-    }
   }
 
   console.log('\n✅ Vote sync complete!');
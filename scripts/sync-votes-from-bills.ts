@@ -1,18 +1,12 @@
-import axios from 'axios';
-import * as https from 'https';
 import { queryAll, queryOne, transaction, convertPlaceholders, closeDatabase } from '../lib/db/database';
 import { saveNewVotesToDB } from '../lib/db/save-votes';
 import { getCachedVoteDetails, cacheVoteDetails } from '../lib/api/openparliament-cache';
 import { getCurrentSession } from '../lib/db/sessions';
+import { httpGet } from '../lib/api/http-client';
 import type { Vote } from '@/types';
 
 const OPENPARLIAMENT_API_BASE = 'https://api.openparliament.ca';
 
-// Only disable SSL verification in development if explicitly set
-const httpsAgent = new https.Agent({
-  rejectUnauthorized: process.env.NODE_ENV === 'production' || process.env.SSL_REJECT_UNAUTHORIZED !== 'false'
-});
-
 interface OpenParliamentVote {
   url: string;
   date?: string;
@@ -388,12 +382,9 @@ async function fetchBillDetails(billNumber: string, billUrl: string | undefined)
   }
 
   try {
-    const response = await axios.get<BillDetails>(`${OPENPARLIAMENT_API_BASE}${searchUrl}`, {
-      httpsAgent,
-      timeout: 30000, // Increased timeout
+    const response = await httpGet<BillDetails>(`${OPENPARLIAMENT_API_BASE}${searchUrl}`, {
+      timeout: 30000,
     });
-    // Delay after bill details fetch
-    await new Promise(resolve => setTimeout(resolve, 1500));
     return response.data;
   } catch (error: any) {
     // Error fetching bill details
@@ -406,12 +397,9 @@ async function fetchBillDetails(billNumber: string, billUrl: string | undefined)
  */
 async function fetchVoteDetails(voteUrl: string): Promise<VoteDetails | null> {
   try {
-    const voteResponse = await axios.get<VoteDetails>(`${OPENPARLIAMENT_API_BASE}${voteUrl}`, {
-      httpsAgent,
-      timeout: 30000, // Increased timeout
+    const voteResponse = await httpGet<VoteDetails>(`${OPENPARLIAMENT_API_BASE}${voteUrl}`, {
+      timeout: 30000,
     });
-    // Delay after vote details fetch
-    await new Promise(resolve => setTimeout(resolve, 1500));
     return voteResponse.data;
   } catch (error: any) {
     // Error fetching vote details
@@ -435,15 +423,14 @@ async function fetchBallots(ballotsUrl: string): Promise<Ballot[]> {
 
     while (hasMoreBallots) {
       try {
-        const ballotResponse = await axios.get<BallotResponse>(
+        const ballotResponse = await httpGet<BallotResponse>(
           fullBallotsUrl,
           {
-            httpsAgent,
             params: {
               limit: ballotLimit,
               offset: ballotOffset,
             },
-            timeout: 30000, // Increased timeout
+            timeout: 30000,
           }
         );
 
@@ -457,20 +444,9 @@ async function fetchBallots(ballotsUrl: string): Promise<Ballot[]> {
             hasMoreBallots = false;
           }
         }
-
-      if (hasMoreBallots) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
       } catch (error: any) {
-        if (error.response?.status === 429) {
-          await new Promise(resolve => setTimeout(resolve, 2000));
-        continue; // Retry
-        } else if (error.response?.status === 404) {
-          hasMoreBallots = false;
-        } else {
-          // Error fetching ballots
-          hasMoreBallots = false;
-        }
+        // Not found, or still failing after the shared client's retries
+        hasMoreBallots = false;
       }
     }
 
@@ -816,9 +792,6 @@ async function syncVotesFromBills() {
               console.log(`0 amount of MPs updated`);
               console.log(`Processed`);
             }
-
-            // Delay between votes to avoid rate limiting (increased)
-            await new Promise(resolve => setTimeout(resolve, 2000));
           } catch (error: any) {
             totalErrors++;
           }
@@ -829,18 +802,10 @@ async function syncVotesFromBills() {
           billsWithVotes++;
           totalVotesProcessed += validVoteUrls.length;
         }
-
-        // Delay between bills (increased)
-        await new Promise(resolve => setTimeout(resolve, 2000));
       } catch (error: any) {
         totalErrors++;
       }
     }
-
-    // Delay between batches
-    if (i + batchSize < bills.length) {
-      await new Promise(resolve => setTimeout(resolve, 2000));
-    }
   }
 
   await closeDatabase();
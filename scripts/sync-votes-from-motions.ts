@@ -1,17 +1,11 @@
-import axios from 'axios';
-import * as https from 'https';
 import { queryAll, queryOne, convertPlaceholders, closeDatabase } from '../lib/db/database';
 import { saveNewVotesToDB } from '../lib/db/save-votes';
 import { getCurrentSession } from '../lib/db/sessions';
 import type { Vote } from '@/types';
+import { httpGet } from '../lib/api/http-client';
 
 const OPENPARLIAMENT_API_BASE = 'https://api.openparliament.ca';
 
-// Only disable SSL verification in development if explicitly set
-const httpsAgent = new https.Agent({
-  rejectUnauthorized: process.env.NODE_ENV === 'production' || process.env.SSL_REJECT_UNAUTHORIZED !== 'false'
-});
-
 interface VoteDetails {
   date: string;
   description?: {
@@ -192,12 +186,9 @@ async function fetchVoteDetails(voteUrl: string): Promise<VoteDetails | null> {
       ? voteUrl 
       : `${OPENPARLIAMENT_API_BASE}${voteUrl}`;
       
-    const voteResponse = await axios.get<VoteDetails>(fullUrl, {
-      httpsAgent,
+    const voteResponse = await httpGet<VoteDetails>(fullUrl, {
       timeout: 30000,
     });
-    // Delay after vote details fetch
-    await new Promise(resolve => setTimeout(resolve, 1500));
     return voteResponse.data;
   } catch (error: any) {
     console.warn(`Error fetching vote details from ${voteUrl}: ${error.message}`);
@@ -220,10 +211,9 @@ async function fetchBallots(ballotsUrl: string): Promise<Ballot[]> {
 
   while (hasMoreBallots) {
     try {
-      const ballotResponse = await axios.get<BallotResponse>(
+      const ballotResponse = await httpGet<BallotResponse>(
         fullBallotsUrl,
         {
-          httpsAgent,
           params: {
             limit: ballotLimit,
             offset: ballotOffset,
@@ -242,15 +232,8 @@ async function fetchBallots(ballotsUrl: string): Promise<Ballot[]> {
           hasMoreBallots = false;
         }
       }
-
-      if (hasMoreBallots) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
     } catch (error: any) {
-      if (error.response?.status === 429) {
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        continue;
-      } else if (error.response?.status === 404) {
+      if (error.response?.status === 404) {
         hasMoreBallots = false;
       } else {
         hasMoreBallots = false;
@@ -304,7 +287,7 @@ function getPartyPosition(
 /**
  * Sync votes for all motions in database
  */
-async function syncVotesFromMotions() {
+async function syncVotesFromMotions(): Promise<{ inserted: number; updated: number }> {
   console.log('Starting motion votes sync...\n');
 
   // Get current session to filter motions
@@ -342,7 +325,7 @@ async function syncVotesFromMotions() {
 
   if (motions.length === 0) {
     console.log('No motions found. Exiting.');
-    return;
+    return { inserted: 0, updated: 0 };
   }
 
   let totalVotesSaved = 0;
@@ -492,6 +475,8 @@ async function syncVotesFromMotions() {
   console.log(`  Total votes saved: ${totalVotesSaved}`);
   console.log(`  Errors: ${totalErrors}`);
   console.log('========================================\n');
+
+  return { inserted: totalVotesSaved, updated: 0 };
 }
 
 async function main() {
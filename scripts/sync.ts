@@ -0,0 +1,188 @@
+#!/usr/bin/env tsx
+
+/**
+ * Sync Orchestrator
+ *
+ * Runs the data sync steps in order and records every run and step in the
+ * sync_runs / sync_run_steps ledger (see lib/db/sync-runs.ts).
+ *
+ * Usage:
+ *   npm run db:sync                         Run every step
+ *   npm run db:sync -- --only bills,votes   Run a subset of steps (still in pipeline order)
+ *   npm run db:sync -- --resume             Re-run the last failed run, starting at the failed step
+ *   npm run db:sync -- --list               List available steps
+ */
+
+import { closeDatabase } from '../lib/db/database';
+import {
+  createSyncRun,
+  finishSyncRun,
+  startSyncStep,
+  skipSyncStep,
+  finishSyncStep,
+  failSyncStep,
+  getResumableSyncRun,
+  SyncStepResult,
+} from '../lib/db/sync-runs';
+import { syncHouseOfCommonsMotions } from './sync-house-of-commons-motions';
+import { syncBillsNightly } from './sync-bills-nightly';
+import { syncBillStages } from './sync-bill-stages';
+import { syncBillTexts } from './sync-bill-texts';
+import { syncVotesFromMotions } from './sync-votes-from-motions';
+import { syncLatestVotes } from './sync-latest-votes-pg';
+import { syncMemberships } from './sync-memberships';
+import { computePartyPositions } from '../lib/db/party-positions';
+import { syncSenators } from './sync-senators';
+import { syncSenateDivisions } from './sync-senate-divisions';
+
+interface SyncStep {
+  name: string;
+  description: string;
+  run: () => Promise<SyncStepResult | void>;
+}
+
+// Pipeline order matters: motion votes need the motions, bill texts are listed in the
+// LEGISinfo records stored by bill-stages, MP votes link to bills, party positions are
+// derived from all stored ballots grouped by the party each MP held on the vote date,
+// Senate ballots are matched to the synced senators
+export const SYNC_STEPS: SyncStep[] = [
+  { name: 'motions', description: 'House of Commons motions (ourcommons.ca XML)', run: syncHouseOfCommonsMotions },
+  { name: 'bills', description: 'New bills from OpenParliament', run: syncBillsNightly },
+  { name: 'bill-stages', description: 'Legislative stages of in-progress bills (LEGISinfo)', run: syncBillStages },
+  { name: 'bill-texts', description: 'Published text of each bill version (parl.ca)', run: syncBillTexts },
+  { name: 'votes', description: 'Ballots for every motion division', run: syncVotesFromMotions },
+  { name: 'mp-votes', description: 'Latest per-MP votes from OpenParliament', run: syncLatestVotes },
+  { name: 'memberships', description: 'Per-parliament MP party and riding history (ourcommons.ca)', run: syncMemberships },
+  { name: 'party-positions', description: 'Caucus majority position on every division', run: computePartyPositions },
+  { name: 'senators', description: 'Sitting senators (sencanada.ca)', run: syncSenators },
+  { name: 'senate-divisions', description: 'Senate recorded divisions and ballots (sencanada.ca)', run: syncSenateDivisions },
+];
+
+export interface SyncOptions {
+  only?: string[];
+  resume?: boolean;
+}
+
+function resolveSteps(only?: string[]): string[] {
+  if (!only || only.length === 0) {
+    return SYNC_STEPS.map((step) => step.name);
+  }
+
+  const unknown = only.filter((name) => !SYNC_STEPS.some((step) => step.name === name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown sync step(s): ${unknown.join(', ')}. Available: ${SYNC_STEPS.map((s) => s.name).join(', ')}`);
+  }
+
+  return SYNC_STEPS.map((step) => step.name).filter((name) => only.includes(name));
+}
+
+/**
+ * Run the sync pipeline, recording the run in the ledger.
+ * Stops at the first failing step and rethrows its error.
+ */
+export async function runSync(options: SyncOptions = {}): Promise<number | null> {
+  let steps = resolveSteps(options.only);
+  let completed = new Set<string>();
+  let resumedFromRunId: number | null = null;
+
+  if (options.resume) {
+    const previous = await getResumableSyncRun();
+    if (!previous) {
+      console.log('✓ Last sync run succeeded, nothing to resume');
+      return null;
+    }
+
+    steps = previous.steps;
+    resumedFromRunId = previous.id;
+    completed = new Set(
+      previous.step_results
+        .filter((result) => result.status === 'succeeded' || result.status === 'skipped')
+        .map((result) => result.step)
+    );
+    console.log(`Resuming run #${previous.id} (${previous.status}), ${completed.size}/${steps.length} steps already complete\n`);
+  }
+
+  const runId = await createSyncRun(steps, resumedFromRunId);
+  console.log(`Sync run #${runId}: ${steps.join(' → ')}\n`);
+
+  for (const name of steps) {
+    const step = SYNC_STEPS.find((s) => s.name === name)!;
+
+    if (completed.has(name)) {
+      await skipSyncStep(runId, name);
+      console.log(`⊘ Skipping ${name} (completed in run #${resumedFromRunId})\n`);
+      continue;
+    }
+
+    console.log(`▶ ${name}: ${step.description}\n`);
+    const stepId = await startSyncStep(runId, name);
+
+    try {
+      const result = await step.run();
+      await finishSyncStep(stepId, result);
+      console.log(`✓ ${name} complete (${result?.inserted ?? 0} inserted, ${result?.updated ?? 0} updated)\n`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await failSyncStep(stepId, message);
+      await finishSyncRun(runId, 'failed', `${name}: ${message}`);
+      console.error(`❌ ${name} failed: ${message}`);
+      console.error(`   Re-run with --resume to continue from this step\n`);
+      throw error;
+    }
+  }
+
+  await finishSyncRun(runId, 'succeeded');
+  return runId;
+}
+
+export function parseSyncArgs(args: string[]): SyncOptions & { list?: boolean } {
+  const options: SyncOptions & { list?: boolean } = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--resume') {
+      options.resume = true;
+    } else if (arg === '--list') {
+      options.list = true;
+    } else if (arg === '--only' || arg.startsWith('--only=')) {
+      const value = arg === '--only' ? args[++i] : arg.slice('--only='.length);
+      if (!value) {
+        throw new Error('--only requires a comma-separated list of steps');
+      }
+      options.only = value.split(',').map((name) => name.trim()).filter(Boolean);
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  if (options.resume && options.only) {
+    throw new Error('--resume and --only cannot be combined');
+  }
+
+  return options;
+}
+
+async function main() {
+  try {
+    const options = parseSyncArgs(process.argv.slice(2));
+
+    if (options.list) {
+      console.log('Available sync steps (in pipeline order):\n');
+      for (const step of SYNC_STEPS) {
+        console.log(`  ${step.name.padEnd(16)} ${step.description}`);
+      }
+      return;
+    }
+
+    await runSync(options);
+  } catch (error: any) {
+    console.error('Fatal error:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await closeDatabase();
+  }
+}
+
+if (require.main === module) {
+  main();
+}
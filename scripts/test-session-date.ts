@@ -10,7 +10,7 @@ async function testSessionDate() {
     if (!sessionDate) {
       console.log('❌ getCurrentSessionStartDate() returned null');
       console.log('   This means no session with is_current = true exists in the database.');
-      console.log('   Run: npm run db:setup-sessions\n');
+      console.log('   Run: npm run db:migrate\n');
     } else {
       console.log(`✓ getCurrentSessionStartDate() returned: "${sessionDate}"`);
       console.log(`  Type: ${typeof sessionDate}`);
@@ -21,7 +21,7 @@ async function testSessionDate() {
     console.error('❌ Error getting session date:', error.message);
     if (error.message.includes('does not exist')) {
       console.error('   Sessions table does not exist!');
-      console.error('   Run: npm run db:setup-sessions');
+      console.error('   Run: npm run db:migrate');
     }
   } finally {
     await closeDatabase();
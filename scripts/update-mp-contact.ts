@@ -1,13 +1,8 @@
-import axios from 'axios';
 import { getDatabase, closeDatabase } from '../lib/db/database';
-import * as https from 'https';
+import { httpGet } from '../lib/api/http-client';
 
 const COMMONS_BASE = 'https://www.ourcommons.ca';
 
-const httpsAgent = new https.Agent({
-  rejectUnauthorized: false // For development
-});
-
 /**
  * Fetch email and phone from MP profile page using regex parsing
  * (Simpler approach without cheerio dependency)
@@ -15,12 +10,9 @@ const httpsAgent = new https.Agent({
 async function fetchMPContact(personId: string): Promise<{ email?: string; phone?: string }> {
   try {
     const profileUrl = `${COMMONS_BASE}/Members/en/${personId}`;
-    const response = await axios.get(profileUrl, {
-      httpsAgent,
+    const response = await httpGet<string>(profileUrl, {
+      responseType: 'text',
       timeout: 10000,
-      headers: {
-        'User-Agent': 'Mozilla/5.0',
-      },
     });
 
     const html = response.data;
@@ -104,11 +96,6 @@ async function updateMPContacts() {
         console.log(`  ✗ No contact info found`);
         skipped++;
       }
-
-      // Delay to avoid rate limiting
-      if (i < mps.length - 1) {
-        await new Promise(resolve => setTimeout(resolve, 2000)); // 2 second delay
-      }
     } catch (error: any) {
       console.error(`  ✗ Error: ${error.message}`);
       skipped++;
@@ -1,5 +1,5 @@
 import { getDatabase, closeDatabase } from '../lib/db/database';
-import axios from 'axios';
+import { httpHead } from '../lib/api/http-client';
 
 /**
  * Update MP headshot URLs based on House of Commons URL pattern
@@ -81,7 +81,7 @@ function generateHeadshotURL(firstName: string | null, lastName: string | null,
  */
 async function verifyHeadshotURL(url: string): Promise<boolean> {
   try {
-    const response = await axios.head(url, {
+    const response = await httpHead(url, {
       timeout: 5000,
       validateStatus: (status) => status === 200 || status === 404,
     });
@@ -158,8 +158,6 @@ async function updateMPHeadshots() {
         // Still update - the URL pattern might be correct but image might not exist yet
         // or the verification might fail due to network issues
       }
-      // Rate limiting
-      await new Promise((resolve) => setTimeout(resolve, 200));
     } else {
       console.log(`✓ ${mp.name}: ${headshotURL}`);
     }
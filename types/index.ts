@@ -70,7 +70,9 @@ export interface Vote {
   result: 'Agreed To' | 'Negatived' | 'Tie';
   party_position?: 'For' | 'Against' | 'Free Vote'; // Legacy field, kept for backward compatibility
   sponsor_party?: string; // Party that sponsored/introduced the bill
-  category?: string; // Policy category name (e.g., "Economy & Finance")
+  category?: string; // Primary policy category name (e.g., "Economy & Finance")
+  categories?: string[]; // All assigned policy categories, primary first
+  party_at_vote?: string; // MP's party on the vote date (memberships), when known
 }
 
 export interface VotingRecord {
@@ -95,6 +97,232 @@ export interface PartyLoyaltyStats {
   free_vote_percentage: number;
 }
 
+// How an MP votes on bills in one policy category
+export interface CategoryVotingProfile {
+  category_name: string;
+  category_slug: string;
+  total_votes: number;
+  yea_votes: number;
+  nay_votes: number;
+  absent_votes: number; // Paired, abstained or not voting
+  votes_with_party: number;
+  votes_against_party: number;
+  loyalty_percentage: number; // Share of all votes in the category cast with the caucus majority
+}
+
+// One legislative stage of a bill, from LEGISinfo (see lib/utils/bill-stages.ts for stage keys)
+export interface BillStage {
+  chamber: 'House' | 'Senate' | 'Royal Assent';
+  stage: string;
+  stage_name: string;
+  completed_at: string | null; // null while the stage is under way
+  sort_order: number;
+}
+
+// Membership Types
+export interface Membership {
+  id: number;
+  party_name: string | null;
+  district_name: string;
+  province: string | null;
+  parliament_number: number | null;
+  session_number: number | null;
+  start_date: string;
+  end_date: string | null; // null while the membership is current
+}
+
+export type MembershipEventType = 'party-change' | 'riding-change' | 'vacancy';
+
+export interface MembershipEvent {
+  id: number;
+  mp_id: number | null;
+  person_id: string | null;
+  name: string;
+  event_type: MembershipEventType;
+  old_value: string | null;
+  new_value: string | null;
+  detected_at: string;
+  district_name: string | null; // MP's current riding, null once they have left office
+}
+
+export interface PartyHistory {
+  memberships: Membership[];
+  events: MembershipEvent[];
+}
+
+// Senate Types
+export interface Senator {
+  id: number;
+  senate_id: string; // sencanada.ca profile slug
+  name: string;
+  first_name: string | null;
+  last_name: string | null;
+  affiliation: string | null; // Parliamentary group, e.g. "Independent Senators Group"
+  province: string | null;
+  appointed_date: string | null;
+  retirement_date: string | null; // Mandatory retirement at 75
+  photo_url: string | null;
+  url: string | null;
+  active: boolean;
+}
+
+export interface SenateDivision {
+  id: number;
+  division_id: string;
+  session: string;
+  date: string | null;
+  description: string;
+  bill_number: string | null;
+  result: string | null;
+  yeas: number;
+  nays: number;
+  abstentions: number;
+  url: string | null;
+}
+
+export interface SenatorVote extends SenateDivision {
+  vote_type: 'Yea' | 'Nay' | 'Abstention';
+}
+
+// Expense Types
+export interface ExpenseQuarter {
+  year: number; // calendar year of the quarter
+  quarter_number: number; // fiscal quarter, 1 = Apr-Jun ... 4 = Jan-Mar
+  quarter: string;
+  fiscal_year: string; // e.g. "2024-2025"
+  period: string; // e.g. "Apr–Jun 2024"
+  staff_salaries: number;
+  travel: number;
+  hospitality: number;
+  contracts: number;
+  total: number;
+  change: number | null; // vs. the previous reported quarter
+  change_percentage: number | null;
+}
+
+export type ExpenseCategoryKey = 'staff_salaries' | 'travel' | 'hospitality' | 'contracts' | 'total';
+
+export type RidingSizeClass = 'compact' | 'mid-size' | 'large' | 'very-large';
+
+export interface ExpensePercentile {
+  percentile: number; // 0-100, share of peers who spent less (ties count half)
+  peers: number;
+}
+
+export interface ExpenseBenchmark {
+  category: ExpenseCategoryKey;
+  amount: number;
+  national: ExpensePercentile;
+  party: ExpensePercentile | null; // null when the peer group is too small to compare
+  province: ExpensePercentile | null;
+  riding_size: ExpensePercentile | null;
+}
+
+export interface ExpenseBenchmarks {
+  fiscal_year: string;
+  party_name: string | null;
+  province: string | null;
+  riding_size: RidingSizeClass | null;
+  categories: ExpenseBenchmark[];
+}
+
+export interface TravelTraveller {
+  name: string | null;
+  type: string | null; // e.g. "Member", "Designated traveller", "Dependant", "Employee"
+  transportation: number;
+  accommodation: number;
+  meals_incidentals: number;
+  total: number;
+}
+
+// One travel claim; each traveller on it is a separate row in the expenditure files
+export interface TravelTrip {
+  id: number;
+  claim_number: string | null;
+  year: number;
+  quarter_number: number;
+  fiscal_year: string;
+  start_date: string | null;
+  end_date: string | null;
+  origin: string | null;
+  destination: string | null;
+  purpose: string | null;
+  travellers: TravelTraveller[];
+  transportation: number;
+  accommodation: number;
+  meals_incidentals: number;
+  total: number;
+}
+
+export interface TravelDestinationSummary {
+  destination: string;
+  trips: number;
+  transportation: number;
+  accommodation: number;
+  meals_incidentals: number;
+  total: number;
+}
+
+export interface MPTravel {
+  trips: TravelTrip[];
+  destinations: TravelDestinationSummary[];
+  total: number;
+}
+
+// Supplier Types (contracts paid from MP office budgets)
+export type SupplierSort = 'total' | 'mps' | 'contracts' | 'name';
+
+export interface SupplierSummary {
+  slug: string;
+  name: string; // most common spelling in the contract files
+  total: number;
+  contracts: number;
+  mp_count: number;
+  parties: string[];
+  top_mp_share: number; // 0-1, share of the supplier's total paid by its largest MP client
+}
+
+export interface SupplierIndex {
+  suppliers: SupplierSummary[];
+  supplier_count: number;
+  total: number;
+  top_ten_share: number; // 0-1, share of all contract spending that went to the 10 largest suppliers
+}
+
+export interface SupplierMP {
+  mp_id: number;
+  name: string;
+  district_name: string;
+  party_name: string | null;
+  total: number;
+  contracts: number;
+}
+
+export interface SupplierParty {
+  party: string;
+  total: number;
+  mp_count: number;
+}
+
+export interface SupplierContract {
+  id: number;
+  mp_name: string;
+  district_name: string;
+  party_name: string | null;
+  quarter: string;
+  fiscal_year: string;
+  contract_date: string | null;
+  description: string | null;
+  total: number;
+}
+
+export interface SupplierDetail extends SupplierSummary {
+  names: string[]; // every spelling grouped under this supplier
+  mps: SupplierMP[];
+  party_totals: SupplierParty[];
+  recent_contracts: SupplierContract[];
+}
+
 // Motion/Sponsorship Types
 export interface Motion {
   id: string;